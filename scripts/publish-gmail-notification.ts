@@ -0,0 +1,30 @@
+import * as dotenv from 'dotenv';
+import { FakePubSubPublisher } from '../src/modules/mailbox/testing/fake-pubsub-publisher';
+
+dotenv.config();
+
+// Usage: npx ts-node scripts/publish-gmail-notification.ts <email> [historyId]
+async function main() {
+  const [emailAddress, historyId = String(Date.now())] = process.argv.slice(2);
+
+  if (!emailAddress) {
+    console.error('Usage: publish-gmail-notification.ts <email> [historyId]');
+    process.exit(1);
+  }
+
+  const port = process.env.PORT || '3000';
+  const apiVersion = process.env.API_VERSION || 'v1';
+  const token = process.env.GMAIL_PUSH_VERIFICATION_TOKEN || '';
+  const endpoint =
+    process.env.GMAIL_PUSH_ENDPOINT ||
+    `http://localhost:${port}/${apiVersion}/webhooks/gmail?token=${encodeURIComponent(token)}`;
+
+  const status = await new FakePubSubPublisher().publish(endpoint, {
+    emailAddress,
+    historyId,
+  });
+
+  console.log(`Published notification for ${emailAddress} -> HTTP ${status}`);
+}
+
+main().catch(console.error);
@@ -11,6 +11,7 @@ import appConfig from './config/app.config';
 import databaseConfig from './config/database.config';
 import environmentValidation from './config/environment.validation';
 import geminiConfig from './config/gemini.config';
+import llmConfig from './config/llm.config';
 import redisConfig from './config/redis.config';
 import { AuthModule } from './modules/auth/auth.module';
 import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
@@ -22,7 +23,7 @@ import { UserModule } from './modules/user/user.module';
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, databaseConfig, redisConfig, geminiConfig],
+      load: [appConfig, databaseConfig, redisConfig, geminiConfig, llmConfig],
       validationSchema: environmentValidation,
       validationOptions: {
         allowUnknown: true,
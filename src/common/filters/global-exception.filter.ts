@@ -42,6 +42,8 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       statusCode: status,
       message: message,
       error: errorResponse?.message || errorResponse,
+      // Structured context of the error, e.g. where a query is invalid
+      details: errorResponse?.details,
       timestamp: new Date().toISOString(),
       path: request.url,
     });
@@ -0,0 +1,43 @@
+/**
+ * Minimal counting semaphore for bounding in-process concurrency
+ */
+export class Semaphore {
+  private available: number;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(permits: number) {
+    if (permits < 1) {
+      throw new Error('Semaphore requires at least one permit');
+    }
+    this.available = permits;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available--;
+      return;
+    }
+
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+
+    if (next) {
+      // Hand the permit straight to the next waiter
+      next();
+    } else {
+      this.available++;
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+}
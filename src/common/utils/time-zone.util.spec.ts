@@ -0,0 +1,79 @@
+import {
+  getZonedParts,
+  isValidTimeZone,
+  nextLocalTime,
+  zonedTimeToUtc,
+} from './time-zone.util';
+
+describe('time-zone.util', () => {
+  it('validates IANA names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  it('reads the local wall clock', () => {
+    expect(
+      getZonedParts(new Date('2024-01-15T23:30:00Z'), 'Asia/Tokyo'),
+    ).toEqual({
+      year: 2024,
+      month: 1,
+      day: 16,
+      hour: 8,
+      minute: 30,
+      weekday: 2,
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('converts local times on both sides of DST', () => {
+      expect(
+        zonedTimeToUtc(2024, 1, 15, 7, 0, 'America/New_York').toISOString(),
+      ).toBe('2024-01-15T12:00:00.000Z');
+      expect(
+        zonedTimeToUtc(2024, 7, 15, 7, 0, 'America/New_York').toISOString(),
+      ).toBe('2024-07-15T11:00:00.000Z');
+    });
+
+    it('moves a time skipped by DST past the gap', () => {
+      expect(
+        zonedTimeToUtc(2024, 3, 10, 2, 30, 'America/New_York').toISOString(),
+      ).toBe('2024-03-10T07:30:00.000Z');
+    });
+
+    it('picks the first of two repeated times', () => {
+      expect(
+        zonedTimeToUtc(2024, 11, 3, 1, 30, 'America/New_York').toISOString(),
+      ).toBe('2024-11-03T05:30:00.000Z');
+    });
+  });
+
+  describe('nextLocalTime', () => {
+    it('returns the next delivery time later today or tomorrow', () => {
+      const from = new Date('2024-01-15T10:00:00Z'); // 11:00 in Berlin
+
+      expect(
+        nextLocalTime(from, ['07:00', '17:00'], 'Europe/Berlin')?.toISOString(),
+      ).toBe('2024-01-15T16:00:00.000Z');
+      expect(
+        nextLocalTime(from, ['07:00'], 'Europe/Berlin')?.toISOString(),
+      ).toBe('2024-01-16T06:00:00.000Z');
+    });
+
+    it('skips days that are not allowed', () => {
+      // Monday; only Saturdays
+      const from = new Date('2024-01-15T10:00:00Z');
+
+      expect(nextLocalTime(from, ['09:00'], 'UTC', [6])?.toISOString()).toBe(
+        '2024-01-20T09:00:00.000Z',
+      );
+    });
+
+    it('never returns the current instant', () => {
+      const from = new Date('2024-01-15T07:00:00Z');
+
+      expect(nextLocalTime(from, ['07:00'], 'UTC')?.toISOString()).toBe(
+        '2024-01-16T07:00:00.000Z',
+      );
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Wall-clock helpers for IANA time zones, built on Intl so no time zone
+ * database has to be bundled
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Minutes the zone is ahead of UTC at an instant
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const local = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+  );
+
+  return Math.round((asUtc - date.getTime()) / 60000 / 15) * 15;
+}
+
+/**
+ * Instant at which the clock in a time zone shows the given local time
+ * A time skipped by a DST change moves forward by the size of the gap
+ * (02:30 becomes 03:30); a repeated time resolves to its first occurrence
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMinutes(new Date(asUtc), timeZone);
+  const guess = new Date(asUtc - offset * 60000);
+  const corrected = new Date(asUtc - getOffsetMinutes(guess, timeZone) * 60000);
+
+  // Only a skipped time fails to round-trip; keep the pre-change offset
+  const check = getZonedParts(corrected, timeZone);
+  return check.hour === hour && check.minute === minute ? corrected : guess;
+}
+
+/**
+ * First instant after `from` at which the local clock shows one of the
+ * given times
+ * @param times local times as HH:MM
+ * @param weekdays allowed days (0 = Sunday); every day when empty
+ */
+export function nextLocalTime(
+  from: Date,
+  times: string[],
+  timeZone: string,
+  weekdays: number[] = [],
+): Date | null {
+  const today = getZonedParts(from, timeZone);
+  let next: Date | null = null;
+
+  // A week ahead plus today covers every weekday and time
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day));
+    date.setUTCDate(date.getUTCDate() + offset);
+
+    if (weekdays.length > 0 && !weekdays.includes(date.getUTCDay())) {
+      continue;
+    }
+
+    for (const time of times) {
+      const [hour, minute] = time.split(':').map(Number);
+      const candidate = zonedTimeToUtc(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        date.getUTCDate(),
+        hour,
+        minute,
+        timeZone,
+      );
+
+      if (candidate > from && (!next || candidate < next)) {
+        next = candidate;
+      }
+    }
+
+    if (next) {
+      return next;
+    }
+  }
+
+  return null;
+}
@@ -10,6 +10,11 @@ export default registerAs('appConfig', function () {
     swaggerDescription:
       process.env.SWAGGER_DESCRIPTION || 'API documentation for TL;DR backend',
     swaggerVersion: process.env.SWAGGER_VERSION || '1.0',
+    // Users allowed on /admin endpoints
+    adminEmails: (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
     // Mail Configuration
     mailHost: process.env.MAIL_HOST,
     mailPort: process.env.MAIL_PORT,
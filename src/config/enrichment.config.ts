@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('enrichment', () => ({
+  // Emails enriched in parallel per instance; each one makes up to three
+  // Gemini calls
+  concurrency: parseInt(process.env.ENRICHMENT_CONCURRENCY || '2', 10),
+  // Attempts before an email is marked failed
+  maxAttempts: parseInt(process.env.ENRICHMENT_MAX_ATTEMPTS || '3', 10),
+}));
@@ -4,6 +4,7 @@ export default Joi.object({
   NODE_ENV: Joi.string()
     .valid('development', 'production', 'test', 'provision')
     .default('development'),
+  ADMIN_EMAILS: Joi.string().allow('').optional(),
   // Database Configuration
   DATABASE_PORT: Joi.number().port().default(5432),
   DATABASE_PASSWORD: Joi.string().required(),
@@ -25,12 +26,58 @@ export default Joi.object({
   GOOGLE_CLIENT_ID: Joi.string().required(),
   GOOGLE_CLIENT_SECRET: Joi.string().required(),
   GOOGLE_REDIRECT_URI: Joi.string().uri().required(),
+  // Microsoft OAuth Configuration (optional, enables Outlook mailboxes)
+  MICROSOFT_CLIENT_ID: Joi.string().optional(),
+  MICROSOFT_CLIENT_SECRET: Joi.string().optional(),
+  MICROSOFT_REDIRECT_URI: Joi.string().uri().optional(),
+  MICROSOFT_TENANT: Joi.string().default('common'),
+  MICROSOFT_GRAPH_BASE_URL: Joi.string().uri().optional(),
+  MICROSOFT_LOGIN_BASE_URL: Joi.string().uri().optional(),
   // Encryption Configuration
   ENCRYPTION_KEY: Joi.string().length(64).hex().required(),
   // Mail Configuration
   MAIL_HOST: Joi.string().required(),
   SMTP_USERNAME: Joi.string().required(),
   SMTP_PASSWORD: Joi.string().required(),
+  // Mailbox Sync
+  SYNC_CONCURRENCY: Joi.number().min(1).max(8).default(4),
+  SYNC_JOB_RETENTION_DAYS: Joi.number().min(1).default(14),
+  BACKFILL_PAGE_SIZE: Joi.number().min(1).max(500).default(100),
+  BACKFILL_PAGES_PER_TICK: Joi.number().min(1).default(3),
+  // Outbox
+  OUTBOX_UNDO_DELAY_SECONDS: Joi.number().min(0).max(300).default(10),
+  OUTBOX_MAX_ATTEMPTS: Joi.number().min(1).max(10).default(3),
+  OUTBOX_RETENTION_DAYS: Joi.number().min(1).default(30),
+  // AI Enrichment
+  ENRICHMENT_CONCURRENCY: Joi.number().min(1).max(16).default(2),
+  ENRICHMENT_MAX_ATTEMPTS: Joi.number().min(1).max(10).default(3),
+  // Search
+  SEARCH_KEYWORD_WEIGHT: Joi.number().min(0).max(10).default(1),
+  SEARCH_FULL_TEXT_WEIGHT: Joi.number().min(0).max(10).default(1),
+  SEARCH_SEMANTIC_WEIGHT: Joi.number().min(0).max(10).default(1),
+  SEARCH_MIN_SIMILARITY: Joi.number().min(0).max(1).default(0.5),
+  SEARCH_HISTORY_LIMIT: Joi.number().min(1).max(1000).default(50),
+  SEARCH_VECTOR_INDEX: Joi.string().valid('hnsw', 'ivfflat').default('hnsw'),
+  SEARCH_REEMBED_BATCH_SIZE: Joi.number().min(1).max(1000).default(50),
+  // Idempotency
+  IDEMPOTENCY_TTL_HOURS: Joi.number().min(1).max(720).default(24),
+  // Gmail Push Notifications (optional, falls back to polling)
+  GMAIL_PUSH_TOPIC: Joi.string().optional(),
+  GMAIL_PUSH_VERIFICATION_TOKEN: Joi.string().min(16).optional(),
+  GMAIL_PUSH_FALLBACK_POLL_MINUTES: Joi.number().min(1).default(15),
+  GMAIL_PUSH_RENEW_BEFORE_HOURS: Joi.number().min(1).max(144).default(24),
   // AI/LLM Configuration
-  GEMINI_API_KEY: Joi.string().required(),
+  LLM_PROVIDER: Joi.string()
+    .valid('gemini', 'openai', 'stub')
+    .default('gemini'),
+  GEMINI_API_KEY: Joi.string().when('LLM_PROVIDER', {
+    is: 'gemini',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  OPENAI_BASE_URL: Joi.string().uri().optional(),
+  OPENAI_API_KEY: Joi.string().optional(),
+  OPENAI_MODEL: Joi.string().optional(),
+  OPENAI_EMBEDDING_MODEL: Joi.string().optional(),
+  GEMINI_EMBEDDING_MODEL: Joi.string().optional(),
 });
@@ -3,4 +3,6 @@ import { registerAs } from '@nestjs/config';
 export default registerAs('gemini', () => ({
   apiKey: process.env.GEMINI_API_KEY,
   model: 'gemini-2.0-flash', // Fast and cost-effective for summarization
+  // Changing it re-embeds all mail in the background
+  embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004',
 }));
@@ -0,0 +1,18 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('gmailPush', () => ({
+  // Full Pub/Sub topic name, e.g. projects/my-project/topics/gmail-push
+  topicName: process.env.GMAIL_PUSH_TOPIC,
+  // Shared secret appended to the push subscription endpoint as ?token=
+  verificationToken: process.env.GMAIL_PUSH_VERIFICATION_TOKEN,
+  // Mailboxes with an active watch are only polled this often as a fallback
+  fallbackPollMinutes: parseInt(
+    process.env.GMAIL_PUSH_FALLBACK_POLL_MINUTES || '15',
+    10,
+  ),
+  // Renew watches this long before Gmail expires them (watches last 7 days)
+  renewBeforeHours: parseInt(
+    process.env.GMAIL_PUSH_RENEW_BEFORE_HOURS || '24',
+    10,
+  ),
+}));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('idempotency', () => ({
+  // How long a completed request can be replayed with the same key
+  ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10),
+}));
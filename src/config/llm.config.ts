@@ -0,0 +1,15 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('llm', () => ({
+  // gemini, openai (any OpenAI-compatible endpoint) or stub (offline,
+  // deterministic answers for development and tests)
+  provider: process.env.LLM_PROVIDER || 'gemini',
+  openai: {
+    // Defaults to a local Ollama; changing the embedding model re-embeds
+    // all mail in the background
+    baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODEL || 'llama3.1',
+    embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'nomic-embed-text',
+  },
+}));
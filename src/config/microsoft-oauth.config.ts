@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('microsoftOAuth', () => ({
+  clientId: process.env.MICROSOFT_CLIENT_ID,
+  clientSecret: process.env.MICROSOFT_CLIENT_SECRET,
+  redirectUri: process.env.MICROSOFT_REDIRECT_URI,
+  // "common" accepts both work/school and personal Microsoft accounts
+  tenant: process.env.MICROSOFT_TENANT || 'common',
+  // Overridable so tests can point at a local Graph stub
+  graphBaseUrl:
+    process.env.MICROSOFT_GRAPH_BASE_URL || 'https://graph.microsoft.com/v1.0',
+  loginBaseUrl:
+    process.env.MICROSOFT_LOGIN_BASE_URL || 'https://login.microsoftonline.com',
+}));
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('outbox', () => ({
+  // Every send waits at least this long in the outbox so it can be undone
+  undoDelaySeconds: parseInt(process.env.OUTBOX_UNDO_DELAY_SECONDS || '10', 10),
+  // Send attempts before a message is marked failed
+  maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '3', 10),
+  // Sent, failed and cancelled messages older than this are pruned nightly
+  retentionDays: parseInt(process.env.OUTBOX_RETENTION_DAYS || '30', 10),
+}));
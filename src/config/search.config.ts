@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('search', () => ({
+  // Default weight of each retriever in hybrid search; requests can
+  // override them
+  keywordWeight: parseFloat(process.env.SEARCH_KEYWORD_WEIGHT || '1'),
+  fullTextWeight: parseFloat(process.env.SEARCH_FULL_TEXT_WEIGHT || '1'),
+  semanticWeight: parseFloat(process.env.SEARCH_SEMANTIC_WEIGHT || '1'),
+  // Semantic matches below this cosine similarity are ignored
+  minSimilarity: parseFloat(process.env.SEARCH_MIN_SIMILARITY || '0.5'),
+  // Distinct queries kept in each user's search history
+  historyLimit: parseInt(process.env.SEARCH_HISTORY_LIMIT || '50', 10),
+  // ANN index kept for the current embedding model: hnsw or ivfflat
+  vectorIndex: process.env.SEARCH_VECTOR_INDEX || 'hnsw',
+  // Emails re-embedded per minute after the embedding model changed
+  reembedBatchSize: parseInt(process.env.SEARCH_REEMBED_BATCH_SIZE || '50', 10),
+}));
@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('sync', () => ({
+  // Maximum number of mailboxes synced in parallel by one instance.
+  // Each running sync holds a database connection for its advisory lock,
+  // so keep this well below the connection pool size (10 by default)
+  concurrency: parseInt(process.env.SYNC_CONCURRENCY || '4', 10),
+  // Finished sync jobs older than this are pruned nightly
+  jobRetentionDays: parseInt(process.env.SYNC_JOB_RETENTION_DAYS || '14', 10),
+  // History backfill throttling: messages per Gmail list page and pages
+  // walked per mailbox each minute
+  backfillPageSize: parseInt(process.env.BACKFILL_PAGE_SIZE || '100', 10),
+  backfillPagesPerTick: parseInt(
+    process.env.BACKFILL_PAGES_PER_TICK || '3',
+    10,
+  ),
+}));
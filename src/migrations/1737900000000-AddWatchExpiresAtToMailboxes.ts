@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWatchExpiresAtToMailboxes1737900000000
+  implements MigrationInterface
+{
+  name = 'AddWatchExpiresAtToMailboxes1737900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "mailboxes" ADD COLUMN IF NOT EXISTS "watchExpiresAt" TIMESTAMP WITH TIME ZONE`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "mailboxes" DROP COLUMN IF EXISTS "watchExpiresAt"`,
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSyncJobsTable1737910000000 implements MigrationInterface {
+  name = 'AddSyncJobsTable1737910000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "sync_jobs_type_enum" AS ENUM('full', 'incremental');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "sync_jobs_status_enum" AS ENUM('pending', 'running', 'succeeded', 'failed', 'cancelled');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "sync_jobs_trigger_enum" AS ENUM('scheduled', 'manual', 'push', 'initial', 'retry');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "sync_jobs" (
+        "id" SERIAL PRIMARY KEY,
+        "mailboxId" INTEGER NOT NULL,
+        "type" "sync_jobs_type_enum" NOT NULL,
+        "status" "sync_jobs_status_enum" NOT NULL,
+        "trigger" "sync_jobs_trigger_enum" NOT NULL,
+        "attempt" INTEGER NOT NULL DEFAULT 1,
+        "error" TEXT,
+        "scheduledAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "startedAt" TIMESTAMP WITH TIME ZONE,
+        "finishedAt" TIMESTAMP WITH TIME ZONE,
+        "messagesAdded" INTEGER NOT NULL DEFAULT 0,
+        "messagesDeleted" INTEGER NOT NULL DEFAULT 0,
+        "messagesRelabelled" INTEGER NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_sync_jobs_mailboxId" FOREIGN KEY ("mailboxId")
+          REFERENCES "mailboxes"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_sync_jobs_mailboxId_createdAt"
+      ON "sync_jobs" ("mailboxId", "createdAt")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_sync_jobs_status_scheduledAt"
+      ON "sync_jobs" ("status", "scheduledAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "sync_jobs"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "sync_jobs_trigger_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "sync_jobs_status_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "sync_jobs_type_enum"`);
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBackfillToMailboxes1737920000000 implements MigrationInterface {
+  name = 'AddBackfillToMailboxes1737920000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "mailboxes_backfillstatus_enum" AS ENUM('idle', 'running', 'completed', 'error');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "mailboxes"
+        ADD COLUMN IF NOT EXISTS "backfillStatus" "mailboxes_backfillstatus_enum" NOT NULL DEFAULT 'idle',
+        ADD COLUMN IF NOT EXISTS "backfillPageToken" TEXT,
+        ADD COLUMN IF NOT EXISTS "backfillProcessed" INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS "backfillEstimate" INTEGER,
+        ADD COLUMN IF NOT EXISTS "backfillHorizon" TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS "backfillError" TEXT
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "mailboxes"
+        DROP COLUMN IF EXISTS "backfillError",
+        DROP COLUMN IF EXISTS "backfillHorizon",
+        DROP COLUMN IF EXISTS "backfillEstimate",
+        DROP COLUMN IF EXISTS "backfillProcessed",
+        DROP COLUMN IF EXISTS "backfillPageToken",
+        DROP COLUMN IF EXISTS "backfillStatus"
+    `);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "mailboxes_backfillstatus_enum"`,
+    );
+  }
+}
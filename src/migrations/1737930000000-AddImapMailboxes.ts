@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddImapMailboxes1737930000000 implements MigrationInterface {
+  name = 'AddImapMailboxes1737930000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "mailboxes_provider_enum" ADD VALUE IF NOT EXISTS 'imap'`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE "mailboxes"
+        ADD COLUMN IF NOT EXISTS "imapHost" TEXT,
+        ADD COLUMN IF NOT EXISTS "imapPort" INTEGER,
+        ADD COLUMN IF NOT EXISTS "imapSecure" BOOLEAN,
+        ADD COLUMN IF NOT EXISTS "smtpHost" TEXT,
+        ADD COLUMN IF NOT EXISTS "smtpPort" INTEGER,
+        ADD COLUMN IF NOT EXISTS "smtpSecure" BOOLEAN,
+        ADD COLUMN IF NOT EXISTS "imapUsername" TEXT,
+        ADD COLUMN IF NOT EXISTS "encryptedPassword" TEXT
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop an enum value, so the type is recreated
+    await queryRunner.query(
+      `DELETE FROM "mailboxes" WHERE "provider" = 'imap'`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "mailboxes"
+        DROP COLUMN IF EXISTS "encryptedPassword",
+        DROP COLUMN IF EXISTS "imapUsername",
+        DROP COLUMN IF EXISTS "smtpSecure",
+        DROP COLUMN IF EXISTS "smtpPort",
+        DROP COLUMN IF EXISTS "smtpHost",
+        DROP COLUMN IF EXISTS "imapSecure",
+        DROP COLUMN IF EXISTS "imapPort",
+        DROP COLUMN IF EXISTS "imapHost"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "mailboxes" ALTER COLUMN "provider" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "mailboxes_provider_enum" RENAME TO "mailboxes_provider_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "mailboxes_provider_enum" AS ENUM('gmail')`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "mailboxes"
+        ALTER COLUMN "provider" TYPE "mailboxes_provider_enum"
+        USING "provider"::text::"mailboxes_provider_enum"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "mailboxes" ALTER COLUMN "provider" SET DEFAULT 'gmail'`,
+    );
+    await queryRunner.query(`DROP TYPE "mailboxes_provider_enum_old"`);
+  }
+}
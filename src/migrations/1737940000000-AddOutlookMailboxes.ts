@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutlookMailboxes1737940000000 implements MigrationInterface {
+  name = 'AddOutlookMailboxes1737940000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "mailboxes_provider_enum" ADD VALUE IF NOT EXISTS 'outlook'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop an enum value, so the type is recreated
+    await queryRunner.query(
+      `DELETE FROM "mailboxes" WHERE "provider" = 'outlook'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "mailboxes" ALTER COLUMN "provider" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "mailboxes_provider_enum" RENAME TO "mailboxes_provider_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "mailboxes_provider_enum" AS ENUM('gmail', 'imap')`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "mailboxes"
+        ALTER COLUMN "provider" TYPE "mailboxes_provider_enum"
+        USING "provider"::text::"mailboxes_provider_enum"
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "mailboxes" ALTER COLUMN "provider" SET DEFAULT 'gmail'`,
+    );
+    await queryRunner.query(`DROP TYPE "mailboxes_provider_enum_old"`);
+  }
+}
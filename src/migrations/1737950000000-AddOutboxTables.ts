@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutboxTables1737950000000 implements MigrationInterface {
+  name = 'AddOutboxTables1737950000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "outbox_status_enum" AS ENUM('pending', 'sending', 'sent', 'failed', 'cancelled');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "outbox" (
+        "id" SERIAL PRIMARY KEY,
+        "mailboxId" INTEGER NOT NULL,
+        "status" "outbox_status_enum" NOT NULL DEFAULT 'pending',
+        "toEmails" TEXT NOT NULL,
+        "ccEmails" TEXT,
+        "bccEmails" TEXT,
+        "subject" TEXT NOT NULL,
+        "bodyText" TEXT NOT NULL,
+        "bodyHtml" TEXT,
+        "inReplyTo" TEXT,
+        "threadId" TEXT,
+        "draftId" TEXT,
+        "sendAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "attempts" INTEGER NOT NULL DEFAULT 0,
+        "error" TEXT,
+        "sentMessageId" TEXT,
+        "sentAt" TIMESTAMP WITH TIME ZONE,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_outbox_mailboxId" FOREIGN KEY ("mailboxId")
+          REFERENCES "mailboxes"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_outbox_status_sendAt"
+      ON "outbox" ("status", "sendAt")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_outbox_mailboxId_createdAt"
+      ON "outbox" ("mailboxId", "createdAt")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "outbox_attachments" (
+        "id" SERIAL PRIMARY KEY,
+        "outboxMessageId" INTEGER NOT NULL,
+        "filename" TEXT NOT NULL,
+        "mimeType" TEXT NOT NULL,
+        "size" BIGINT NOT NULL,
+        "content" BYTEA NOT NULL,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_outbox_attachments_outboxMessageId" FOREIGN KEY ("outboxMessageId")
+          REFERENCES "outbox"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_outbox_attachments_outboxMessageId"
+      ON "outbox_attachments" ("outboxMessageId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "outbox_attachments"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "outbox"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "outbox_status_enum"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMessageHeadersToEmails1737960000000
+  implements MigrationInterface
+{
+  name = 'AddMessageHeadersToEmails1737960000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        ADD COLUMN IF NOT EXISTS "replyToEmails" TEXT,
+        ADD COLUMN IF NOT EXISTS "internetMessageId" TEXT,
+        ADD COLUMN IF NOT EXISTS "referenceIds" TEXT
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "outbox" ADD COLUMN IF NOT EXISTS "referenceIds" TEXT`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "outbox" DROP COLUMN IF EXISTS "referenceIds"`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        DROP COLUMN IF EXISTS "referenceIds",
+        DROP COLUMN IF EXISTS "internetMessageId",
+        DROP COLUMN IF EXISTS "replyToEmails"
+    `);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddIdempotencyKeysTable1737970000000
+  implements MigrationInterface
+{
+  name = 'AddIdempotencyKeysTable1737970000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "idempotency_keys_status_enum" AS ENUM('in_progress', 'completed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "idempotency_keys" (
+        "id" SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL,
+        "key" TEXT NOT NULL,
+        "requestHash" TEXT NOT NULL,
+        "status" "idempotency_keys_status_enum" NOT NULL DEFAULT 'in_progress',
+        "responseStatus" INTEGER,
+        "responseBody" JSONB,
+        "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_idempotency_keys_userId" FOREIGN KEY ("userId")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_idempotency_keys_userId_key"
+      ON "idempotency_keys" ("userId", "key")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_idempotency_keys_expiresAt"
+      ON "idempotency_keys" ("expiresAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "idempotency_keys"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "idempotency_keys_status_enum"`,
+    );
+  }
+}
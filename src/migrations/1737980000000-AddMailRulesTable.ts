@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMailRulesTable1737980000000 implements MigrationInterface {
+  name = 'AddMailRulesTable1737980000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "mail_rules" (
+        "id" SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL,
+        "mailboxId" INTEGER,
+        "name" VARCHAR(100) NOT NULL,
+        "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+        "priority" INTEGER NOT NULL DEFAULT 0,
+        "conditions" JSONB NOT NULL,
+        "actions" JSONB NOT NULL,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_mail_rules_userId" FOREIGN KEY ("userId")
+          REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_mail_rules_mailboxId" FOREIGN KEY ("mailboxId")
+          REFERENCES "mailboxes"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_mail_rules_userId_priority"
+      ON "mail_rules" ("userId", "priority")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "mail_rules"`);
+  }
+}
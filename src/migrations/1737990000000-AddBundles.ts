@@ -0,0 +1,72 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBundles1737990000000 implements MigrationInterface {
+  name = 'AddBundles1737990000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "bundles_kind_enum" AS ENUM('promotions', 'newsletters', 'notifications');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "bundles" (
+        "id" SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL,
+        "kind" "bundles_kind_enum" NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_bundles_userId" FOREIGN KEY ("userId")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_bundles_userId_kind"
+      ON "bundles" ("userId", "kind")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        ADD COLUMN IF NOT EXISTS "listId" TEXT,
+        ADD COLUMN IF NOT EXISTS "listUnsubscribe" TEXT,
+        ADD COLUMN IF NOT EXISTS "bundleId" INTEGER
+    `);
+
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'FK_emails_bundleId') THEN
+          ALTER TABLE "emails"
+          ADD CONSTRAINT "FK_emails_bundleId"
+          FOREIGN KEY ("bundleId") REFERENCES "bundles"("id")
+          ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_bundleId"
+      ON "emails" ("bundleId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_emails_bundleId"`);
+    await queryRunner.query(
+      `ALTER TABLE "emails" DROP CONSTRAINT IF EXISTS "FK_emails_bundleId"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        DROP COLUMN IF EXISTS "bundleId",
+        DROP COLUMN IF EXISTS "listUnsubscribe",
+        DROP COLUMN IF EXISTS "listId"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "bundles"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "bundles_kind_enum"`);
+  }
+}
@@ -0,0 +1,95 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDeliveryWindows1738000000000 implements MigrationInterface {
+  name = 'AddDeliveryWindows1738000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        ADD COLUMN IF NOT EXISTS "timeZone" VARCHAR(64) NOT NULL DEFAULT 'UTC'
+    `);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "delivery_windows_category_enum" AS ENUM('primary', 'social', 'promotions', 'updates', 'forums');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "delivery_windows" (
+        "id" SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "category" "delivery_windows_category_enum",
+        "bundleId" INTEGER,
+        "senders" TEXT,
+        "deliveryTimes" TEXT NOT NULL,
+        "daysOfWeek" INTEGER[],
+        "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_delivery_windows_userId" FOREIGN KEY ("userId")
+          REFERENCES "users"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_delivery_windows_bundleId" FOREIGN KEY ("bundleId")
+          REFERENCES "bundles"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_delivery_windows_userId"
+      ON "delivery_windows" ("userId")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        ADD COLUMN IF NOT EXISTS "heldUntil" TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS "deliveryWindowId" INTEGER
+    `);
+
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'FK_emails_deliveryWindowId') THEN
+          ALTER TABLE "emails"
+          ADD CONSTRAINT "FK_emails_deliveryWindowId"
+          FOREIGN KEY ("deliveryWindowId") REFERENCES "delivery_windows"("id")
+          ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_heldUntil"
+      ON "emails" ("heldUntil")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_deliveryWindowId"
+      ON "emails" ("deliveryWindowId")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_emails_deliveryWindowId"`,
+    );
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_emails_heldUntil"`);
+    await queryRunner.query(
+      `ALTER TABLE "emails" DROP CONSTRAINT IF EXISTS "FK_emails_deliveryWindowId"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        DROP COLUMN IF EXISTS "deliveryWindowId",
+        DROP COLUMN IF EXISTS "heldUntil"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "delivery_windows"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "delivery_windows_category_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN IF EXISTS "timeZone"`,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReplySuggestionsToEmails1738010000000
+  implements MigrationInterface
+{
+  name = 'AddReplySuggestionsToEmails1738010000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "emails" ADD COLUMN IF NOT EXISTS "aiReplySuggestions" JSONB`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "emails" DROP COLUMN IF EXISTS "aiReplySuggestions"`,
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailEnrichment1738020000000 implements MigrationInterface {
+  name = 'AddEmailEnrichment1738020000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        ADD COLUMN IF NOT EXISTS "aiEnrichmentEnabled" BOOLEAN NOT NULL DEFAULT true,
+        ADD COLUMN IF NOT EXISTS "aiSummaryEnabled" BOOLEAN NOT NULL DEFAULT false
+    `);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "emails_enrichmentstatus_enum" AS ENUM('pending', 'processing', 'done', 'failed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        ADD COLUMN IF NOT EXISTS "enrichmentStatus" "emails_enrichmentstatus_enum",
+        ADD COLUMN IF NOT EXISTS "enrichmentAttempts" SMALLINT NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS "enrichmentRetryAt" TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS "enrichmentError" TEXT,
+        ADD COLUMN IF NOT EXISTS "enrichedAt" TIMESTAMP WITH TIME ZONE
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_enrichmentStatus"
+      ON "emails" ("enrichmentStatus")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_emails_enrichmentStatus"`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+        DROP COLUMN IF EXISTS "enrichedAt",
+        DROP COLUMN IF EXISTS "enrichmentError",
+        DROP COLUMN IF EXISTS "enrichmentRetryAt",
+        DROP COLUMN IF EXISTS "enrichmentAttempts",
+        DROP COLUMN IF EXISTS "enrichmentStatus"
+    `);
+
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "emails_enrichmentstatus_enum"`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        DROP COLUMN IF EXISTS "aiSummaryEnabled",
+        DROP COLUMN IF EXISTS "aiEnrichmentEnabled"
+    `);
+  }
+}
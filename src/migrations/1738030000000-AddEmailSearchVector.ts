@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Stored full-text document for hybrid search, so ranking does not have to
+ * re-parse every matching body
+ *
+ * Only the first 100,000 characters of the body are indexed: a tsvector is
+ * capped at 1 MB, and a longer document would make the insert of the email
+ * fail; 100,000 characters stay well under the cap.
+ */
+export class AddEmailSearchVector1738030000000 implements MigrationInterface {
+  name = 'AddEmailSearchVector1738030000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "emails"
+      ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE("subject", '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE("aiSummary", '')), 'B') ||
+        setweight(to_tsvector('english', left(COALESCE("bodyText", ''), 100000)), 'C')
+      ) STORED
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_searchVector"
+      ON "emails" USING GIN ("searchVector")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_emails_searchVector"`);
+    await queryRunner.query(
+      `ALTER TABLE "emails" DROP COLUMN IF EXISTS "searchVector"`,
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSavedSearches1738040000000 implements MigrationInterface {
+  name = 'AddSavedSearches1738040000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "saved_searches" (
+        "id" SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL,
+        "name" VARCHAR(100) NOT NULL,
+        "query" TEXT,
+        "filters" JSONB NOT NULL DEFAULT '{}',
+        "isPinned" BOOLEAN NOT NULL DEFAULT false,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_saved_searches_userId" FOREIGN KEY ("userId")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_saved_searches_userId_name"
+      ON "saved_searches" ("userId", "name")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "search_history" (
+        "id" SERIAL PRIMARY KEY,
+        "userId" INTEGER NOT NULL,
+        "query" TEXT NOT NULL,
+        "lastSearchedAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+        CONSTRAINT "FK_search_history_userId" FOREIGN KEY ("userId")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_search_history_userId_query"
+      ON "search_history" ("userId", "query")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_search_history_userId_lastSearchedAt"
+      ON "search_history" ("userId", "lastSearchedAt")
+    `);
+
+    // A column can show a saved search instead of a Gmail label
+    await queryRunner.query(`
+      ALTER TABLE "column_configs"
+        ADD COLUMN IF NOT EXISTS "savedSearchId" INTEGER
+    `);
+
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'FK_column_configs_savedSearchId') THEN
+          ALTER TABLE "column_configs"
+          ADD CONSTRAINT "FK_column_configs_savedSearchId"
+          FOREIGN KEY ("savedSearchId") REFERENCES "saved_searches"("id")
+          ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "column_configs" DROP CONSTRAINT IF EXISTS "FK_column_configs_savedSearchId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "column_configs" DROP COLUMN IF EXISTS "savedSearchId"`,
+    );
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "search_history"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "saved_searches"`);
+  }
+}
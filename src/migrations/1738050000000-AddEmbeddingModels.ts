@@ -0,0 +1,64 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Embeddings of any size, each marked with the model that made it
+ *
+ * ANN indexes are per model (partial expression indexes on
+ * embedding::vector(n)) and are built at runtime by EmbeddingIndexService.
+ * Embeddings made before this migration were all 768-dimension
+ * text-embedding-004 ones, so they are marked as such and only re-embedded
+ * if another model is configured.
+ */
+export class AddEmbeddingModels1738050000000 implements MigrationInterface {
+  name = 'AddEmbeddingModels1738050000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Only vectors of one size can be indexed
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_emails_embedding_cosine"`,
+    );
+
+    await queryRunner.query(`
+      ALTER TABLE "emails" ALTER COLUMN "embedding" TYPE vector
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "emails" ADD COLUMN IF NOT EXISTS "embeddingModel" TEXT
+    `);
+
+    await queryRunner.query(`
+      UPDATE "emails" SET "embeddingModel" = 'text-embedding-004'
+      WHERE "embedding" IS NOT NULL AND vector_dims("embedding") = 768
+        AND "embeddingModel" IS NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_embeddingModel"
+      ON "emails" ("embeddingModel")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Also drops the per-model ANN indexes, whose predicate uses the column
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_emails_embeddingModel"`);
+    await queryRunner.query(
+      `ALTER TABLE "emails" DROP COLUMN IF EXISTS "embeddingModel"`,
+    );
+
+    await queryRunner.query(`
+      UPDATE "emails"
+      SET "embedding" = NULL, "embeddingGeneratedAt" = NULL
+      WHERE vector_dims("embedding") <> 768
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "emails" ALTER COLUMN "embedding" TYPE vector(768)
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "IDX_emails_embedding_cosine"
+      ON "emails"
+      USING ivfflat ("embedding" vector_cosine_ops)
+      WITH (lists = 100)
+    `);
+  }
+}
@@ -21,6 +21,9 @@ describe('AuthController', () => {
     googleId: null,
     avatarUrl: null,
     isEmailVerified: false,
+    timeZone: 'UTC',
+    aiEnrichmentEnabled: true,
+    aiSummaryEnabled: true,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -23,6 +23,9 @@ describe('AuthService', () => {
     googleId: null,
     avatarUrl: null,
     isEmailVerified: false,
+    timeZone: 'UTC',
+    aiEnrichmentEnabled: true,
+    aiSummaryEnabled: true,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
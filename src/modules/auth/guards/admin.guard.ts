@@ -0,0 +1,29 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '../../user/entities/user.entity';
+
+/**
+ * Lets through the users listed in ADMIN_EMAILS; runs after JwtAuthGuard,
+ * which puts the user on the request
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest<{ user?: User }>();
+    const adminEmails =
+      this.configService.get<string[]>('appConfig.adminEmails') ?? [];
+
+    if (!user || !adminEmails.includes(user.email.toLowerCase())) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+
+export enum IdempotencyKeyStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+}
+
+@Entity('idempotency_keys')
+@Index(['userId', 'key'], { unique: true })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  // Idempotency-Key header as sent by the client
+  @Column({ type: 'text' })
+  key: string;
+
+  // SHA-256 of method, path, body and uploaded files
+  @Column({ type: 'text' })
+  requestHash: string;
+
+  @Column({
+    type: 'enum',
+    enum: IdempotencyKeyStatus,
+    default: IdempotencyKeyStatus.IN_PROGRESS,
+  })
+  status: IdempotencyKeyStatus;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  responseBody: object | null;
+
+  @Column({ type: 'timestamp with time zone' })
+  @Index()
+  expiresAt: Date;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
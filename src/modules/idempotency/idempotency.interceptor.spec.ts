@@ -0,0 +1,154 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  INestApplication,
+  Post,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import type { NextFunction, Request, Response } from 'express';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+import { Idempotent } from './idempotent.decorator';
+
+const handled = jest.fn();
+
+@Controller('things')
+class ThingController {
+  @Post()
+  @Idempotent()
+  create(@Body() body: { name: string; fail?: boolean }) {
+    handled(body);
+    if (body.fail) {
+      throw new BadRequestException('Invalid thing');
+    }
+    return { id: handled.mock.calls.length, name: body.name };
+  }
+}
+
+describe('IdempotencyInterceptor', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+
+  const mockIdempotencyService = {
+    claim: jest.fn(),
+    complete: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const post = (body: object, key?: string) =>
+    fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key && { 'Idempotency-Key': key }),
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ThingController],
+      providers: [
+        IdempotencyInterceptor,
+        { provide: IdempotencyService, useValue: mockIdempotencyService },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    // Stands in for JwtAuthGuard
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      req.user = { id: 1 };
+      next();
+    });
+    await app.listen(0, '127.0.0.1');
+
+    baseUrl = `${await app.getUrl()}/things`;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    mockIdempotencyService.claim.mockResolvedValue({ replay: false, id: 3 });
+    mockIdempotencyService.complete.mockResolvedValue(undefined);
+    mockIdempotencyService.release.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('passes requests without a key through', async () => {
+    const response = await post({ name: 'a' });
+
+    expect(response.status).toBe(201);
+    expect(handled).toHaveBeenCalledTimes(1);
+    expect(mockIdempotencyService.claim).not.toHaveBeenCalled();
+  });
+
+  it('stores the response of a new request', async () => {
+    const response = await post({ name: 'a' }, 'key-1');
+
+    expect(response.status).toBe(201);
+    expect(mockIdempotencyService.claim).toHaveBeenCalledWith(
+      1,
+      'key-1',
+      expect.stringMatching(/^[0-9a-f]{64}$/),
+    );
+    expect(mockIdempotencyService.complete).toHaveBeenCalledWith(3, 201, {
+      id: 1,
+      name: 'a',
+    });
+  });
+
+  it('replays a completed request without running the handler', async () => {
+    mockIdempotencyService.claim.mockResolvedValue({
+      replay: true,
+      status: 201,
+      body: { id: 1, name: 'a' },
+    });
+
+    const response = await post({ name: 'a' }, 'key-1');
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('idempotent-replayed')).toBe('true');
+    expect(await response.json()).toEqual({ id: 1, name: 'a' });
+    expect(handled).not.toHaveBeenCalled();
+  });
+
+  it('hashes the payload so a reused key can be detected', async () => {
+    await post({ name: 'a' }, 'key-1');
+    await post({ name: 'a' }, 'key-1');
+    await post({ name: 'b' }, 'key-1');
+
+    const hashes = mockIdempotencyService.claim.mock.calls.map(
+      ([, , hash]) => hash as string,
+    );
+    expect(hashes[0]).toBe(hashes[1]);
+    expect(hashes[2]).not.toBe(hashes[0]);
+  });
+
+  it('rejects a key reused with a different payload', async () => {
+    mockIdempotencyService.claim.mockRejectedValue(
+      new UnprocessableEntityException(
+        'Idempotency-Key was already used for a different request',
+      ),
+    );
+
+    const response = await post({ name: 'b' }, 'key-1');
+
+    expect(response.status).toBe(422);
+    expect(handled).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the request fails', async () => {
+    const response = await post({ name: 'a', fail: true }, 'key-1');
+
+    expect(response.status).toBe(400);
+    expect(mockIdempotencyService.release).toHaveBeenCalledWith(3);
+    expect(mockIdempotencyService.complete).not.toHaveBeenCalled();
+  });
+});
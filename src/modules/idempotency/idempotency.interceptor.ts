@@ -0,0 +1,119 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import type { Request, Response } from 'express';
+import {
+  Observable,
+  catchError,
+  concatMap,
+  from,
+  map,
+  of,
+  throwError,
+} from 'rxjs';
+import { User } from '../user/entities/user.entity';
+import { IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// The parts of a multer file that identify an upload
+interface UploadedFile {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+/**
+ * SHA-256 over everything that makes two requests "the same": method, URL,
+ * body and uploaded files
+ */
+function hashRequest(request: Request): string {
+  const hash = createHash('sha256');
+  hash.update(
+    JSON.stringify({
+      method: request.method,
+      url: request.originalUrl,
+      body: (request.body as unknown) ?? null,
+    }),
+  );
+
+  // Set by FilesInterceptor / FileInterceptor
+  const { files, file } = request as Request & {
+    files?: UploadedFile[] | Record<string, UploadedFile[]>;
+    file?: UploadedFile;
+  };
+  const uploads = [
+    ...(Array.isArray(files) ? files : Object.values(files || {}).flat()),
+    ...(file ? [file] : []),
+  ];
+
+  for (const file of uploads) {
+    hash.update(`${file.fieldname}:${file.originalname}:${file.mimetype}:`);
+    hash.update(file.buffer);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Replays the stored response when a request is retried with the same
+ * Idempotency-Key; requests without the header are passed through
+ * Applied per route with @Idempotent()
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = request.get(IDEMPOTENCY_KEY_HEADER);
+    const user = request.user as User | undefined;
+
+    if (key === undefined || !user) {
+      return next.handle();
+    }
+
+    if (!key.trim() || key.length > 255) {
+      throw new BadRequestException(
+        `${IDEMPOTENCY_KEY_HEADER} must be between 1 and 255 characters`,
+      );
+    }
+
+    const claim = await this.idempotencyService.claim(
+      user.id,
+      key,
+      hashRequest(request),
+    );
+
+    if (claim.replay) {
+      response.status(claim.status);
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(claim.body);
+    }
+
+    return next.handle().pipe(
+      // The status code is set before interceptors run (@HttpCode or the
+      // method default)
+      concatMap((body: unknown) =>
+        from(
+          this.idempotencyService.complete(claim.id, response.statusCode, body),
+        ).pipe(map(() => body)),
+      ),
+      catchError((error: unknown) =>
+        from(this.idempotencyService.release(claim.id)).pipe(
+          concatMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import idempotencyConfig from '../../config/idempotency.config';
+import { IdempotencyKey } from './entities/idempotency-key.entity';
+import { IdempotencyService } from './idempotency.service';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(idempotencyConfig),
+    TypeOrmModule.forFeature([IdempotencyKey]),
+  ],
+  providers: [IdempotencyService],
+  // IdempotencyInterceptor is created in each module that uses
+  // @Idempotent() and needs this service there
+  exports: [IdempotencyService],
+})
+export class IdempotencyModule {}
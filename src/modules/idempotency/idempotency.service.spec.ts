@@ -0,0 +1,135 @@
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IdempotencyKey,
+  IdempotencyKeyStatus,
+} from './entities/idempotency-key.entity';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyService', () => {
+  const insert = {
+    insert: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    returning: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const repository = {
+    findOne: jest.fn(),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(() => insert),
+  };
+
+  const key = (overrides: Partial<IdempotencyKey> = {}): IdempotencyKey =>
+    ({
+      id: 4,
+      userId: 1,
+      key: 'key-1',
+      requestHash: 'hash-1',
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus: 201,
+      responseBody: { id: 9 },
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      createdAt: new Date(),
+      ...overrides,
+    }) as IdempotencyKey;
+
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    service = new IdempotencyService(
+      repository as never,
+      new ConfigService({ idempotency: { ttlHours: 24 } }),
+    );
+    repository.findOne.mockResolvedValue(null);
+    insert.execute.mockResolvedValue({ raw: [{ id: 5 }] });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reserves an unused key', async () => {
+    await expect(service.claim(1, 'key-1', 'hash-1')).resolves.toEqual({
+      replay: false,
+      id: 5,
+    });
+    expect(insert.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 1,
+        key: 'key-1',
+        requestHash: 'hash-1',
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+      }),
+    );
+  });
+
+  it('replays the stored response of a completed request', async () => {
+    repository.findOne.mockResolvedValue(key());
+
+    await expect(service.claim(1, 'key-1', 'hash-1')).resolves.toEqual({
+      replay: true,
+      status: 201,
+      body: { id: 9 },
+    });
+    expect(insert.execute).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key used for a different request', async () => {
+    repository.findOne.mockResolvedValue(key());
+
+    await expect(service.claim(1, 'key-1', 'hash-2')).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('rejects a key whose request is still in progress', async () => {
+    repository.findOne.mockResolvedValue(
+      key({ status: IdempotencyKeyStatus.IN_PROGRESS }),
+    );
+
+    await expect(service.claim(1, 'key-1', 'hash-1')).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('reuses an expired key', async () => {
+    repository.findOne.mockResolvedValue(
+      key({ requestHash: 'hash-0', expiresAt: new Date(Date.now() - 1000) }),
+    );
+
+    await expect(service.claim(1, 'key-1', 'hash-1')).resolves.toEqual({
+      replay: false,
+      id: 5,
+    });
+    expect(repository.delete).toHaveBeenCalledWith(4);
+  });
+
+  it('takes over a key left in progress by a process that died', async () => {
+    repository.findOne.mockResolvedValue(
+      key({
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        createdAt: new Date(Date.now() - 10 * 60 * 1000),
+      }),
+    );
+
+    await expect(service.claim(1, 'key-1', 'hash-1')).resolves.toEqual({
+      replay: false,
+      id: 5,
+    });
+    expect(repository.delete).toHaveBeenCalledWith(4);
+  });
+
+  it('rejects a key a concurrent request claimed first', async () => {
+    insert.execute.mockResolvedValue({ raw: [] });
+
+    await expect(service.claim(1, 'key-1', 'hash-1')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(insert.orIgnore).toHaveBeenCalled();
+  });
+});
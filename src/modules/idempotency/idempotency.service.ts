@@ -0,0 +1,138 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import {
+  IdempotencyKey,
+  IdempotencyKeyStatus,
+} from './entities/idempotency-key.entity';
+
+// A request still in progress after this long belongs to a process that
+// died; its key may be used again
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type IdempotencyClaim =
+  | { replay: false; id: number }
+  | { replay: true; status: number; body: unknown };
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private readonly idempotencyKeyRepository: Repository<IdempotencyKey>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Reserve a key for a request, or return the stored response when the
+   * same request was already completed
+   * @throws UnprocessableEntityException when the key was used for a
+   * different request
+   * @throws ConflictException while the first request is still running
+   */
+  async claim(
+    userId: number,
+    key: string,
+    requestHash: string,
+  ): Promise<IdempotencyClaim> {
+    const existing = await this.idempotencyKeyRepository.findOne({
+      where: { userId, key },
+    });
+
+    if (existing && this.isReusable(existing)) {
+      await this.idempotencyKeyRepository.delete(existing.id);
+    } else if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new UnprocessableEntityException(
+          'Idempotency-Key was already used for a different request',
+        );
+      }
+
+      if (existing.status === IdempotencyKeyStatus.IN_PROGRESS) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is still being processed',
+        );
+      }
+
+      return {
+        replay: true,
+        status: existing.responseStatus ?? 200,
+        body: existing.responseBody,
+      };
+    }
+
+    const ttlHours =
+      this.configService.get<number>('idempotency.ttlHours') || 24;
+
+    // ON CONFLICT DO NOTHING: a concurrent request claimed the key first
+    const result = await this.idempotencyKeyRepository
+      .createQueryBuilder()
+      .insert()
+      .values({
+        userId,
+        key,
+        requestHash,
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    const [inserted] = result.raw as Array<{ id: number }>;
+
+    if (!inserted) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    return { replay: false, id: inserted.id };
+  }
+
+  async complete(id: number, status: number, body: unknown): Promise<void> {
+    await this.idempotencyKeyRepository.update(id, {
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus: status,
+      // 204 responses have no body
+      responseBody: (body ?? null) as object | null,
+    });
+  }
+
+  /**
+   * Forget a key whose request failed, so the client can retry it
+   */
+  async release(id: number): Promise<void> {
+    await this.idempotencyKeyRepository.delete(id);
+  }
+
+  @Cron(CronExpression.EVERY_HOUR, { name: 'prune-idempotency-keys' })
+  async pruneExpiredKeys(): Promise<void> {
+    const result = await this.idempotencyKeyRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+
+    if (result.affected) {
+      this.logger.log(`Pruned ${result.affected} expired idempotency keys`);
+    }
+  }
+
+  private isReusable(existing: IdempotencyKey): boolean {
+    if (existing.expiresAt.getTime() <= Date.now()) {
+      return true;
+    }
+
+    return (
+      existing.status === IdempotencyKeyStatus.IN_PROGRESS &&
+      existing.createdAt.getTime() < Date.now() - IN_PROGRESS_TIMEOUT_MS
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { HttpStatus, UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ApiHeader, ApiResponse } from '@nestjs/swagger';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyInterceptor,
+} from './idempotency.interceptor';
+
+/**
+ * Opt a mutating route into Idempotency-Key handling
+ * Place it above @UseInterceptors(FilesInterceptor(...)) so uploaded
+ * files are parsed before the request is hashed
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      required: false,
+      description:
+        'Unique key per logical request; retries with the same key return the original response',
+    }),
+    ApiResponse({
+      status: HttpStatus.CONFLICT,
+      description: 'A request with this Idempotency-Key is still in progress',
+    }),
+    ApiResponse({
+      status: HttpStatus.UNPROCESSABLE_ENTITY,
+      description: 'Idempotency-Key was already used for a different request',
+    }),
+  );
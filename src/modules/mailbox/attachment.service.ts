@@ -2,7 +2,7 @@ import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Attachment, Email, Mailbox } from './entities';
-import { GmailService } from './providers/gmail.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
 
 export interface AttachmentDownload {
   buffer: Buffer;
@@ -22,7 +22,7 @@ export class AttachmentService {
     private readonly emailRepository: Repository<Email>,
     @InjectRepository(Mailbox)
     private readonly mailboxRepository: Repository<Mailbox>,
-    private readonly gmailService: GmailService,
+    private readonly mailProviders: MailProviderRegistry,
   ) {}
 
   async findOne(userId: number, attachmentId: number): Promise<Attachment> {
@@ -69,14 +69,16 @@ export class AttachmentService {
     }
 
     this.logger.log(
-      `Downloading attachment ${attachmentId} from Gmail for user ${userId}`,
+      `Downloading attachment ${attachmentId} from ${mailbox.provider} for user ${userId}`,
     );
 
-    const buffer = await this.gmailService.getAttachment(
-      mailbox,
-      email.gmailMessageId,
-      attachment.gmailAttachmentId,
-    );
+    const buffer = await this.mailProviders
+      .get(mailbox)
+      .getAttachment(
+        mailbox,
+        email.gmailMessageId,
+        attachment.gmailAttachmentId,
+      );
 
     return {
       buffer,
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import { BundleService } from './bundle.service';
+import {
+  BundleActionResultDto,
+  BundleDto,
+  RebuildBundlesResultDto,
+} from './dto';
+
+@ApiTags('Bundles')
+@ApiBearerAuth()
+@Controller('bundles')
+export class BundleController {
+  constructor(private readonly bundleService: BundleService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List bundles',
+    description:
+      'Promotions, newsletters and notifications grouped out of the inbox ' +
+      '(PRD FR-1.1), with counts. List the emails of a bundle with ' +
+      'GET /emails?bundleId=',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: [BundleDto] })
+  async findAll(@CurrentUser() user: User): Promise<BundleDto[]> {
+    return this.bundleService.findAll(user.id);
+  }
+
+  @Post('rebuild')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bundle existing mail',
+    description:
+      'New mail is bundled as it syncs; this sorts mail synced before ' +
+      'bundling existed, using categories, list headers and senders',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: RebuildBundlesResultDto })
+  async rebuild(@CurrentUser() user: User): Promise<RebuildBundlesResultDto> {
+    return this.bundleService.rebuild(user.id);
+  }
+
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark every email of a bundle as read' })
+  @ApiParam({ name: 'id', description: 'Bundle ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: BundleActionResultDto })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Bundle not found',
+  })
+  async markRead(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<BundleActionResultDto> {
+    return this.bundleService.markRead(user.id, id);
+  }
+
+  @Post(':id/archive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Archive every email of a bundle' })
+  @ApiParam({ name: 'id', description: 'Bundle ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: BundleActionResultDto })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Bundle not found',
+  })
+  async archive(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<BundleActionResultDto> {
+    return this.bundleService.archive(user.id, id);
+  }
+}
@@ -0,0 +1,206 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import {
+  BundleActionResultDto,
+  BundleDto,
+  RebuildBundlesResultDto,
+} from './dto';
+import { Bundle, BundleKind, Email, Mailbox } from './entities';
+import { BundlingService } from './providers/bundling.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+const ACTION_BATCH_SIZE = 500;
+
+interface BundleCountRow {
+  id: number;
+  kind: BundleKind;
+  name: string;
+  total: string;
+  unread: string;
+  inInbox: string;
+  latestReceivedAt: Date | null;
+}
+
+@Injectable()
+export class BundleService {
+  private readonly logger = new Logger(BundleService.name);
+
+  constructor(
+    @InjectRepository(Bundle)
+    private readonly bundleRepository: Repository<Bundle>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly bundlingService: BundlingService,
+  ) {}
+
+  /**
+   * The user's bundles with email counts, most recently active first
+   */
+  async findAll(userId: number): Promise<BundleDto[]> {
+    const mailboxIds = await this.getUserMailboxIds(userId);
+
+    const rows = await this.bundleRepository
+      .createQueryBuilder('bundle')
+      .leftJoin(
+        Email,
+        'email',
+        'email.bundleId = bundle.id AND email.mailboxId = ANY(:mailboxIds)',
+        { mailboxIds },
+      )
+      .select('bundle.id', 'id')
+      .addSelect('bundle.kind', 'kind')
+      .addSelect('bundle.name', 'name')
+      .addSelect('COUNT(email.id)', 'total')
+      .addSelect(
+        'COUNT(email.id) FILTER (WHERE email.isRead = false)',
+        'unread',
+      )
+      .addSelect(
+        "COUNT(email.id) FILTER (WHERE 'INBOX' = ANY(string_to_array(email.labels, ',')))",
+        'inInbox',
+      )
+      .addSelect('MAX(email.receivedAt)', 'latestReceivedAt')
+      .where('bundle.userId = :userId', { userId })
+      .groupBy('bundle.id')
+      .orderBy('"latestReceivedAt"', 'DESC', 'NULLS LAST')
+      .getRawMany<BundleCountRow>();
+
+    return rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      name: row.name,
+      total: parseInt(row.total, 10),
+      unread: parseInt(row.unread, 10),
+      inInbox: parseInt(row.inInbox, 10),
+      latestReceivedAt: row.latestReceivedAt,
+    }));
+  }
+
+  /**
+   * Mark every unread email of a bundle as read
+   */
+  async markRead(
+    userId: number,
+    bundleId: number,
+  ): Promise<BundleActionResultDto> {
+    const updated = await this.modifyBundleLabels(userId, bundleId, 'UNREAD');
+
+    this.logger.log(`Marked ${updated} emails of bundle ${bundleId} as read`);
+
+    return { bundleId, updated };
+  }
+
+  /**
+   * Remove INBOX from every email of a bundle
+   */
+  async archive(
+    userId: number,
+    bundleId: number,
+  ): Promise<BundleActionResultDto> {
+    const updated = await this.modifyBundleLabels(userId, bundleId, 'INBOX');
+
+    this.logger.log(`Archived ${updated} emails of bundle ${bundleId}`);
+
+    return { bundleId, updated };
+  }
+
+  async rebuild(userId: number): Promise<RebuildBundlesResultDto> {
+    return this.bundlingService.rebuild(userId);
+  }
+
+  /**
+   * Remove a label from every email of the bundle that has it, on the
+   * provider and locally
+   * @returns number of emails changed
+   */
+  private async modifyBundleLabels(
+    userId: number,
+    bundleId: number,
+    removeLabel: string,
+  ): Promise<number> {
+    const bundle = await this.bundleRepository.findOne({
+      where: { id: bundleId, userId },
+    });
+
+    if (!bundle) {
+      throw new NotFoundException(`Bundle ${bundleId} not found`);
+    }
+
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+    });
+
+    if (mailboxes.length === 0) {
+      return 0;
+    }
+
+    let updated = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const emails = await this.emailRepository
+        .createQueryBuilder('email')
+        .where('email.bundleId = :bundleId', { bundleId })
+        .andWhere('email.mailboxId IN (:...mailboxIds)', {
+          mailboxIds: mailboxes.map((m) => m.id),
+        })
+        .andWhere('email.deletedAt IS NULL')
+        .andWhere('email.id > :lastId', { lastId })
+        .andWhere(":removeLabel = ANY(string_to_array(email.labels, ','))", {
+          removeLabel,
+        })
+        .orderBy('email.id', 'ASC')
+        .take(ACTION_BATCH_SIZE)
+        .getMany();
+
+      if (emails.length === 0) {
+        break;
+      }
+
+      lastId = emails[emails.length - 1].id;
+
+      for (const email of emails) {
+        const mailbox = mailboxes.find((m) => m.id === email.mailboxId)!;
+
+        await this.mailProviders
+          .get(mailbox)
+          .modifyMessageLabels(mailbox, email.gmailMessageId, {
+            addLabelIds: [],
+            removeLabelIds: [removeLabel],
+          });
+
+        const labels = (email.labels || []).filter((l) => l !== removeLabel);
+
+        await this.emailRepository.update(email.id, {
+          labels: labels.length > 0 ? labels : null,
+          isRead: !labels.includes('UNREAD'),
+        });
+      }
+
+      updated += emails.length;
+    }
+
+    if (updated > 0) {
+      for (const mailbox of mailboxes) {
+        const unreadCount = await this.emailRepository.count({
+          where: { mailboxId: mailbox.id, isRead: false, deletedAt: IsNull() },
+        });
+        await this.mailboxRepository.update(mailbox.id, { unreadCount });
+      }
+    }
+
+    return updated;
+  }
+
+  private async getUserMailboxIds(userId: number): Promise<number[]> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+      select: ['id'],
+    });
+    return mailboxes.map((m) => m.id);
+  }
+}
@@ -0,0 +1,230 @@
+import { Email, Mailbox } from './entities';
+import {
+  buildReferences,
+  buildReplyRecipients,
+  ComposeService,
+  prefixSubject,
+  quoteHtml,
+  quoteText,
+} from './compose.service';
+
+describe('ComposeService', () => {
+  const original = (overrides: Partial<Email> = {}): Email =>
+    ({
+      id: 5,
+      mailboxId: 1,
+      gmailMessageId: 'msg-5',
+      gmailThreadId: 'thread-5',
+      fromEmail: 'alice@example.com',
+      fromName: 'Alice',
+      toEmails: ['me@example.com', 'bob@example.com'],
+      ccEmails: ['carol@example.com', 'ME@example.com'],
+      replyToEmails: null,
+      subject: 'Plans',
+      receivedAt: new Date('2024-01-02T08:00:00.000Z'),
+      bodyText: 'Lunch on Friday?\n> earlier',
+      bodyHtml: null,
+      internetMessageId: 'b@example.com',
+      referenceIds: ['a@example.com'],
+      attachments: [],
+      ...overrides,
+    }) as Email;
+
+  describe('buildReplyRecipients', () => {
+    it('replies to the sender only', () => {
+      expect(buildReplyRecipients(original(), 'me@example.com', false)).toEqual(
+        { to: ['alice@example.com'], cc: [] },
+      );
+    });
+
+    it('prefers Reply-To over the sender', () => {
+      expect(
+        buildReplyRecipients(
+          original({ replyToEmails: ['list@example.com'] }),
+          'me@example.com',
+          false,
+        ),
+      ).toEqual({ to: ['list@example.com'], cc: [] });
+    });
+
+    it('adds the other recipients on reply-all without the own address', () => {
+      expect(buildReplyRecipients(original(), 'Me@Example.com', true)).toEqual({
+        to: ['alice@example.com', 'bob@example.com'],
+        cc: ['carol@example.com'],
+      });
+    });
+
+    it('replies to the original recipients of a sent message', () => {
+      expect(
+        buildReplyRecipients(
+          original({
+            fromEmail: 'me@example.com',
+            toEmails: ['bob@example.com'],
+          }),
+          'me@example.com',
+          false,
+        ),
+      ).toEqual({ to: ['bob@example.com'], cc: [] });
+    });
+  });
+
+  it('appends the Message-ID to the References chain', () => {
+    expect(buildReferences(original())).toEqual([
+      'a@example.com',
+      'b@example.com',
+    ]);
+    expect(buildReferences(original({ referenceIds: null }))).toEqual([
+      'b@example.com',
+    ]);
+  });
+
+  it('prefixes subjects once', () => {
+    expect(prefixSubject('Plans', 'Re')).toBe('Re: Plans');
+    expect(prefixSubject('RE: Plans', 'Re')).toBe('RE: Plans');
+    expect(prefixSubject('FW: Plans', 'Fwd')).toBe('FW: Plans');
+    expect(prefixSubject(null, 'Fwd')).toBe('Fwd:');
+  });
+
+  it('quotes the original body', () => {
+    expect(quoteText(original())).toBe(
+      'On Tue, 02 Jan 2024 08:00:00 GMT, Alice <alice@example.com> wrote:\n' +
+        '> Lunch on Friday?\n' +
+        '>> earlier',
+    );
+    expect(quoteHtml(original({ bodyText: '<b>hi</b>' }))).toContain(
+      '&lt;b&gt;hi&lt;/b&gt;',
+    );
+  });
+
+  describe('reply and forward', () => {
+    const mailbox = { id: 1, email: 'me@example.com' } as Mailbox;
+    const emailRepository = { findOne: jest.fn(), update: jest.fn() };
+    const mailboxRepository = { findOne: jest.fn() };
+    const client = { getMessages: jest.fn(), getAttachment: jest.fn() };
+    const outboxService = { enqueue: jest.fn() };
+    const draftService = { createFromMessage: jest.fn() };
+
+    let service: ComposeService;
+
+    beforeEach(() => {
+      service = new ComposeService(
+        emailRepository as never,
+        mailboxRepository as never,
+        { get: () => client } as never,
+        outboxService as never,
+        draftService as never,
+      );
+      mailboxRepository.findOne.mockResolvedValue(mailbox);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('queues a threaded reply', async () => {
+      emailRepository.findOne.mockResolvedValue(original());
+
+      await service.reply(1, 5, { body: 'Sure', cc: ['dan@example.com'] });
+
+      expect(client.getMessages).not.toHaveBeenCalled();
+      expect(outboxService.enqueue).toHaveBeenCalledWith(
+        mailbox,
+        expect.objectContaining({
+          to: ['alice@example.com'],
+          cc: ['dan@example.com'],
+          subject: 'Re: Plans',
+          inReplyTo: 'b@example.com',
+          references: ['a@example.com', 'b@example.com'],
+          threadId: 'thread-5',
+        }),
+        [],
+        undefined,
+      );
+    });
+
+    it('saves a reply as a draft', async () => {
+      emailRepository.findOne.mockResolvedValue(original());
+      draftService.createFromMessage.mockResolvedValue({ id: 'r-1' });
+
+      await expect(service.draftReply(1, 5, 'Sure')).resolves.toEqual({
+        id: 'r-1',
+      });
+
+      expect(draftService.createFromMessage).toHaveBeenCalledWith(
+        1,
+        1,
+        expect.objectContaining({
+          to: ['alice@example.com'],
+          subject: 'Re: Plans',
+          inReplyTo: 'b@example.com',
+          threadId: 'thread-5',
+        }),
+      );
+      expect(outboxService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('fetches headers missing from emails synced before they were stored', async () => {
+      emailRepository.findOne.mockResolvedValue(
+        original({ internetMessageId: null, referenceIds: null }),
+      );
+      client.getMessages.mockResolvedValue([
+        {
+          internetMessageId: 'b@example.com',
+          referenceIds: [],
+          replyToEmails: [],
+        },
+      ]);
+
+      await service.reply(1, 5, { body: 'Sure' });
+
+      expect(client.getMessages).toHaveBeenCalledWith(mailbox, ['msg-5']);
+      expect(emailRepository.update).toHaveBeenCalledWith(5, {
+        internetMessageId: 'b@example.com',
+        referenceIds: [],
+        replyToEmails: [],
+      });
+      expect(outboxService.enqueue).toHaveBeenCalledWith(
+        mailbox,
+        expect.objectContaining({
+          inReplyTo: 'b@example.com',
+          references: ['b@example.com'],
+        }),
+        [],
+        undefined,
+      );
+    });
+
+    it('forwards the original attachments', async () => {
+      emailRepository.findOne.mockResolvedValue(
+        original({
+          attachments: [
+            {
+              gmailAttachmentId: 'att-1',
+              filename: 'menu.pdf',
+              mimeType: 'application/pdf',
+              size: 3,
+            },
+          ] as Email['attachments'],
+        }),
+      );
+      client.getAttachment.mockResolvedValue(Buffer.from('pdf'));
+
+      await service.forward(1, 5, { to: ['erin@example.com'] });
+
+      expect(client.getAttachment).toHaveBeenCalledWith(
+        mailbox,
+        'msg-5',
+        'att-1',
+      );
+      const [, email, files] = outboxService.enqueue.mock.lastCall as [
+        Mailbox,
+        { subject: string; body: string; inReplyTo?: string },
+        Array<{ originalname: string }>,
+      ];
+      expect(email.subject).toBe('Fwd: Plans');
+      expect(email.body).toContain('---------- Forwarded message ---------');
+      expect(email.inReplyTo).toBeUndefined();
+      expect(files.map((file) => file.originalname)).toEqual(['menu.pdf']);
+    });
+  });
+});
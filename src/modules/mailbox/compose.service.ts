@@ -0,0 +1,422 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import {
+  DraftResponseDto,
+  ForwardEmailDto,
+  OutboxMessageDto,
+  ReplyEmailDto,
+} from './dto';
+import { DraftService } from './draft.service';
+import { Email, Mailbox } from './entities';
+import { OutboxService } from './outbox.service';
+import {
+  OutgoingEmail,
+  OutgoingFile,
+} from './providers/mail-provider.interface';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+type OriginalEmail = Pick<
+  Email,
+  | 'fromEmail'
+  | 'fromName'
+  | 'toEmails'
+  | 'ccEmails'
+  | 'replyToEmails'
+  | 'subject'
+  | 'receivedAt'
+  | 'bodyText'
+  | 'bodyHtml'
+  | 'internetMessageId'
+  | 'referenceIds'
+>;
+
+/**
+ * Case-insensitive de-duplication that keeps the first spelling
+ */
+const uniqueAddresses = (addresses: string[], exclude: string[] = []) => {
+  const seen = new Set(exclude.map((address) => address.toLowerCase()));
+  return addresses.filter((address) => {
+    const key = address.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Recipients of a reply, leaving out the mailbox's own address
+ * Replies go to Reply-To, or the sender when there is none; reply-all adds
+ * the original To and Cc. Replying to a message the mailbox sent goes to
+ * its original recipients instead
+ */
+export function buildReplyRecipients(
+  original: OriginalEmail,
+  ownAddress: string,
+  replyAll: boolean,
+): { to: string[]; cc: string[] } {
+  const own = ownAddress.toLowerCase();
+  const sentByMe = original.fromEmail.toLowerCase() === own;
+  const originalTo = original.toEmails || [];
+  const originalCc = original.ccEmails || [];
+
+  let to: string[];
+  if (sentByMe) {
+    to = originalTo;
+  } else {
+    to = original.replyToEmails?.length
+      ? original.replyToEmails
+      : [original.fromEmail];
+    if (replyAll) {
+      to = [...to, ...originalTo];
+    }
+  }
+
+  to = uniqueAddresses(to, [own]);
+  const cc = replyAll ? uniqueAddresses(originalCc, [own, ...to]) : [];
+
+  // A message the mailbox sent to itself
+  if (to.length === 0 && cc.length === 0 && original.fromEmail) {
+    return { to: [original.fromEmail], cc: [] };
+  }
+
+  return to.length > 0 ? { to, cc } : { to: cc, cc: [] };
+}
+
+/**
+ * References header for a reply: the original's chain followed by its own
+ * Message-ID, oldest first
+ */
+export function buildReferences(original: OriginalEmail): string[] {
+  return [...(original.referenceIds || []), original.internetMessageId]
+    .filter((id): id is string => !!id)
+    .filter((id, index, ids) => ids.indexOf(id) === index);
+}
+
+/**
+ * Add a "Re:" or "Fwd:" prefix unless the subject already has one
+ */
+export function prefixSubject(
+  subject: string | null,
+  prefix: 'Re' | 'Fwd',
+): string {
+  const existing = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+  const trimmed = (subject || '').trim();
+  return existing.test(trimmed) ? trimmed : `${prefix}: ${trimmed}`.trim();
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const textToHtml = (text: string) =>
+  escapeHtml(text).replace(/\r?\n/g, '<br>\n');
+
+/**
+ * Rough plain text for messages that only have an HTML body
+ */
+const htmlToText = (html: string) =>
+  html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const originalText = (original: OriginalEmail) =>
+  original.bodyText ?? (original.bodyHtml ? htmlToText(original.bodyHtml) : '');
+
+const originalHtml = (original: OriginalEmail) =>
+  original.bodyHtml ?? textToHtml(original.bodyText || '');
+
+const formatSender = (original: OriginalEmail) =>
+  original.fromName
+    ? `${original.fromName} <${original.fromEmail}>`
+    : original.fromEmail;
+
+const attribution = (original: OriginalEmail) =>
+  `On ${original.receivedAt.toUTCString()}, ${formatSender(original)} wrote:`;
+
+/**
+ * Plain text quote: an attribution line and the original prefixed with "> "
+ */
+export function quoteText(original: OriginalEmail): string {
+  const quoted = originalText(original)
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('>') ? `>${line}` : `> ${line}`))
+    .join('\n');
+
+  return `${attribution(original)}\n${quoted}`;
+}
+
+export function quoteHtml(original: OriginalEmail): string {
+  return (
+    `<div class="quote">${escapeHtml(attribution(original))}<br>\n` +
+    `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">\n` +
+    `${originalHtml(original)}\n</blockquote></div>`
+  );
+}
+
+const forwardHeaders = (original: OriginalEmail): string[][] =>
+  [
+    ['From', formatSender(original)],
+    ['Date', original.receivedAt.toUTCString()],
+    ['Subject', original.subject || ''],
+    ['To', (original.toEmails || []).join(', ')],
+    ['Cc', (original.ccEmails || []).join(', ')],
+  ].filter(([, value]) => value);
+
+const FORWARD_SEPARATOR = '---------- Forwarded message ---------';
+
+export function forwardText(original: OriginalEmail): string {
+  const headers = forwardHeaders(original)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+  return `${FORWARD_SEPARATOR}\n${headers}\n\n${originalText(original)}`;
+}
+
+export function forwardHtml(original: OriginalEmail): string {
+  const headers = forwardHeaders(original)
+    .map(([name, value]) => `${name}: ${escapeHtml(value)}<br>`)
+    .join('\n');
+
+  return (
+    `<div class="forward">${FORWARD_SEPARATOR}<br>\n${headers}<br>\n` +
+    `${originalHtml(original)}\n</div>`
+  );
+}
+
+/**
+ * Replies and forwards built on the server from a stored email, so clients
+ * do not have to assemble recipients, threading headers or quotes
+ */
+@Injectable()
+export class ComposeService {
+  private readonly logger = new Logger(ComposeService.name);
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly outboxService: OutboxService,
+    private readonly draftService: DraftService,
+  ) {}
+
+  async reply(
+    userId: number,
+    emailId: number,
+    replyDto: ReplyEmailDto,
+    files: OutgoingFile[] = [],
+    replyAll = false,
+  ): Promise<OutboxMessageDto> {
+    const { email, mailbox } = await this.getEmail(userId, emailId);
+
+    const queued = await this.outboxService.enqueue(
+      mailbox,
+      await this.buildReply(mailbox, email, replyDto, replyAll),
+      files,
+      replyDto.sendAt,
+    );
+
+    this.logger.log(
+      `Queued ${replyAll ? 'reply-all' : 'reply'} to email ${emailId} from mailbox ${mailbox.id}`,
+    );
+
+    return queued;
+  }
+
+  /**
+   * Save a reply as a draft instead of queueing it, for the user to review
+   * in their mail client
+   */
+  async draftReply(
+    userId: number,
+    emailId: number,
+    body: string,
+    replyAll = false,
+  ): Promise<DraftResponseDto> {
+    const { email, mailbox } = await this.getEmail(userId, emailId);
+
+    const draft = await this.draftService.createFromMessage(
+      userId,
+      mailbox.id,
+      await this.buildReply(mailbox, email, { body }, replyAll),
+    );
+
+    this.logger.log(
+      `Saved ${replyAll ? 'reply-all' : 'reply'} to email ${emailId} as draft ${draft.id}`,
+    );
+
+    return draft;
+  }
+
+  async forward(
+    userId: number,
+    emailId: number,
+    forwardDto: ForwardEmailDto,
+    files: OutgoingFile[] = [],
+  ): Promise<OutboxMessageDto> {
+    const { email, mailbox } = await this.getEmail(userId, emailId);
+
+    const attachments: OutgoingFile[] = [];
+
+    if (forwardDto.includeAttachments !== false) {
+      const client = this.mailProviders.get(mailbox);
+
+      for (const attachment of email.attachments || []) {
+        attachments.push({
+          originalname: attachment.filename,
+          mimetype: attachment.mimeType,
+          size: Number(attachment.size),
+          buffer: await client.getAttachment(
+            mailbox,
+            email.gmailMessageId,
+            attachment.gmailAttachmentId,
+          ),
+        });
+      }
+    }
+
+    for (const file of files) {
+      attachments.push(file);
+    }
+
+    const note = forwardDto.body ? `${forwardDto.body}\n\n` : '';
+    const noteHtml = forwardDto.bodyHtml
+      ? `${forwardDto.bodyHtml}\n<br>\n`
+      : forwardDto.body
+        ? `${textToHtml(forwardDto.body)}\n<br>\n`
+        : '';
+
+    const queued = await this.outboxService.enqueue(
+      mailbox,
+      {
+        to: forwardDto.to,
+        cc: forwardDto.cc,
+        bcc: forwardDto.bcc,
+        subject: prefixSubject(email.subject, 'Fwd'),
+        body: `${note}${forwardText(email)}`,
+        bodyHtml: `${noteHtml}${forwardHtml(email)}`,
+      },
+      attachments,
+      forwardDto.sendAt,
+    );
+
+    this.logger.log(
+      `Queued forward of email ${emailId} from mailbox ${mailbox.id} with ${attachments.length} attachments`,
+    );
+
+    return queued;
+  }
+
+  /**
+   * Recipients, subject, threading headers and quote of a reply
+   * @throws BadRequestException when there is no one to reply to
+   */
+  private async buildReply(
+    mailbox: Mailbox,
+    email: Email,
+    reply: Pick<ReplyEmailDto, 'body' | 'bodyHtml' | 'cc' | 'bcc'>,
+    replyAll: boolean,
+  ): Promise<OutgoingEmail> {
+    const original = await this.withMessageHeaders(mailbox, email);
+
+    const recipients = buildReplyRecipients(original, mailbox.email, replyAll);
+    const cc = uniqueAddresses(
+      [...recipients.cc, ...(reply.cc || [])],
+      recipients.to,
+    );
+
+    if (recipients.to.length === 0) {
+      throw new BadRequestException(
+        `Email ${email.id} has no address to reply to`,
+      );
+    }
+
+    const replyHtml = reply.bodyHtml || textToHtml(reply.body);
+
+    return {
+      to: recipients.to,
+      cc,
+      bcc: reply.bcc,
+      subject: prefixSubject(original.subject, 'Re'),
+      body: `${reply.body}\n\n${quoteText(original)}`,
+      bodyHtml: `${replyHtml}\n<br>\n${quoteHtml(original)}`,
+      inReplyTo: original.internetMessageId || undefined,
+      references: buildReferences(original),
+      threadId: original.gmailThreadId,
+    };
+  }
+
+  private async getEmail(
+    userId: number,
+    emailId: number,
+  ): Promise<{ email: Email; mailbox: Mailbox }> {
+    const email = await this.emailRepository.findOne({
+      where: { id: emailId, deletedAt: IsNull() },
+      relations: ['attachments'],
+    });
+
+    const mailbox = email
+      ? await this.mailboxRepository.findOne({
+          where: { id: email.mailboxId, userId, deletedAt: IsNull() },
+        })
+      : null;
+
+    if (!email || !mailbox) {
+      throw new NotFoundException(`Email with ID ${emailId} not found`);
+    }
+
+    return { email, mailbox };
+  }
+
+  /**
+   * Emails synced before Message-ID headers were stored are fetched again
+   * from the provider, and the stored row is filled in
+   */
+  private async withMessageHeaders(
+    mailbox: Mailbox,
+    email: Email,
+  ): Promise<Email> {
+    if (email.internetMessageId) {
+      return email;
+    }
+
+    const [parsed] = await this.mailProviders
+      .get(mailbox)
+      .getMessages(mailbox, [email.gmailMessageId]);
+
+    if (!parsed) {
+      return email;
+    }
+
+    const headers = {
+      internetMessageId: parsed.internetMessageId,
+      referenceIds: parsed.referenceIds,
+      replyToEmails: parsed.replyToEmails,
+    };
+    await this.emailRepository.update(email.id, headers);
+
+    return Object.assign(email, headers);
+  }
+}
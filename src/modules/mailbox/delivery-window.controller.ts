@@ -0,0 +1,130 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import { DeliveryWindowService } from './delivery-window.service';
+import {
+  CreateDeliveryWindowDto,
+  DeliveryWindowDto,
+  HeldMailStatsDto,
+  UpdateDeliveryWindowDto,
+} from './dto';
+
+@ApiTags('Delivery Windows')
+@ApiBearerAuth()
+@Controller('delivery-windows')
+export class DeliveryWindowController {
+  constructor(private readonly deliveryWindowService: DeliveryWindowService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List delivery windows',
+    description:
+      'Windows hold new low-priority mail out of GET /emails until their ' +
+      "next delivery time, in the user's time zone (PRD FR-1.2)",
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: [DeliveryWindowDto] })
+  async findAll(@CurrentUser() user: User): Promise<DeliveryWindowDto[]> {
+    return this.deliveryWindowService.findAll(user.id);
+  }
+
+  @Get('held/stats')
+  @ApiOperation({
+    summary: 'Held mail per window',
+    description:
+      'List held emails with GET /emails?includeHeld=true; they carry a ' +
+      'heldUntil time',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: HeldMailStatsDto })
+  async getHeldStats(@CurrentUser() user: User): Promise<HeldMailStatsDto> {
+    return this.deliveryWindowService.getHeldStats(user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a delivery window',
+    description:
+      'Holds new unread inbox mail of one category, bundle or sender group. ' +
+      'When several windows match, the oldest one wins.',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: DeliveryWindowDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Not exactly one of category, bundleId and senders set',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Bundle not found',
+  })
+  async create(
+    @CurrentUser() user: User,
+    @Body() dto: CreateDeliveryWindowDto,
+  ): Promise<DeliveryWindowDto> {
+    return this.deliveryWindowService.create(user.id, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a delivery window',
+    description:
+      'Setting any of category, bundleId and senders replaces the target. ' +
+      'Held mail moves to the new next delivery time, or is delivered ' +
+      'right away when the window is disabled.',
+  })
+  @ApiParam({ name: 'id', description: 'Delivery window ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: DeliveryWindowDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Not exactly one of category, bundleId and senders set',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Delivery window or bundle not found',
+  })
+  async update(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateDeliveryWindowDto,
+  ): Promise<DeliveryWindowDto> {
+    return this.deliveryWindowService.update(user.id, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a delivery window',
+    description: 'Mail the window holds is delivered right away',
+  })
+  @ApiParam({ name: 'id', description: 'Delivery window ID' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Delivery window deleted',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Delivery window not found',
+  })
+  async remove(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.deliveryWindowService.remove(user.id, id);
+  }
+}
@@ -0,0 +1,263 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { User } from '../user/entities/user.entity';
+import {
+  CreateDeliveryWindowDto,
+  DeliveryWindowDto,
+  HeldMailStatsDto,
+  UpdateDeliveryWindowDto,
+} from './dto';
+import { Bundle, DeliveryWindow, Email, Mailbox } from './entities';
+import { nextDeliveryAt } from './providers/delivery-scheduler.service';
+
+interface HeldCountRow {
+  windowId: number;
+  name: string;
+  held: string;
+  unread: string;
+  nextReleaseAt: Date | null;
+}
+
+@Injectable()
+export class DeliveryWindowService {
+  private readonly logger = new Logger(DeliveryWindowService.name);
+
+  constructor(
+    @InjectRepository(DeliveryWindow)
+    private readonly deliveryWindowRepository: Repository<DeliveryWindow>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    @InjectRepository(Bundle)
+    private readonly bundleRepository: Repository<Bundle>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  async findAll(userId: number): Promise<DeliveryWindowDto[]> {
+    const windows = await this.deliveryWindowRepository.find({
+      where: { userId },
+      order: { id: 'ASC' },
+    });
+    const timeZone = await this.getTimeZone(userId);
+
+    return windows.map((window) => this.toDto(window, timeZone));
+  }
+
+  async create(
+    userId: number,
+    dto: CreateDeliveryWindowDto,
+  ): Promise<DeliveryWindowDto> {
+    const window = this.deliveryWindowRepository.create({
+      userId,
+      name: dto.name,
+      category: dto.category ?? null,
+      bundleId: dto.bundleId ?? null,
+      senders: dto.senders ?? null,
+      deliveryTimes: dto.deliveryTimes,
+      daysOfWeek: dto.daysOfWeek ?? null,
+      isEnabled: dto.isEnabled ?? true,
+    });
+
+    await this.validateTarget(userId, window);
+    await this.deliveryWindowRepository.save(window);
+
+    this.logger.log(`Created delivery window ${window.id} for user ${userId}`);
+
+    return this.toDto(window, await this.getTimeZone(userId));
+  }
+
+  /**
+   * Update a window; mail it already holds moves to the new next delivery
+   * time, or is delivered right away when the window is disabled
+   * Setting any of category, bundleId and senders replaces the target
+   */
+  async update(
+    userId: number,
+    windowId: number,
+    dto: UpdateDeliveryWindowDto,
+  ): Promise<DeliveryWindowDto> {
+    const window = await this.findWindow(userId, windowId);
+
+    if (
+      dto.category !== undefined ||
+      dto.bundleId !== undefined ||
+      dto.senders !== undefined
+    ) {
+      window.category = dto.category ?? null;
+      window.bundleId = dto.bundleId ?? null;
+      window.senders = dto.senders ?? null;
+    }
+
+    if (dto.name !== undefined) window.name = dto.name;
+    if (dto.deliveryTimes !== undefined)
+      window.deliveryTimes = dto.deliveryTimes;
+    if (dto.daysOfWeek !== undefined) window.daysOfWeek = dto.daysOfWeek;
+    if (dto.isEnabled !== undefined) window.isEnabled = dto.isEnabled;
+
+    await this.validateTarget(userId, window);
+    await this.deliveryWindowRepository.save(window);
+
+    const timeZone = await this.getTimeZone(userId);
+    const heldUntil = window.isEnabled
+      ? nextDeliveryAt(window, timeZone)
+      : null;
+
+    if (heldUntil) {
+      await this.emailRepository.update(
+        { deliveryWindowId: window.id },
+        { heldUntil },
+      );
+    } else {
+      await this.releaseHeld(window.id);
+    }
+
+    return this.toDto(window, timeZone);
+  }
+
+  /**
+   * Delete a window, delivering the mail it holds
+   */
+  async remove(userId: number, windowId: number): Promise<void> {
+    const window = await this.findWindow(userId, windowId);
+
+    await this.releaseHeld(window.id);
+    await this.deliveryWindowRepository.remove(window);
+  }
+
+  /**
+   * What each window is holding right now
+   */
+  async getHeldStats(userId: number): Promise<HeldMailStatsDto> {
+    const mailboxIds = await this.getUserMailboxIds(userId);
+
+    if (mailboxIds.length === 0) {
+      return { totalHeld: 0, windows: [] };
+    }
+
+    const rows = await this.emailRepository
+      .createQueryBuilder('email')
+      .innerJoin('email.deliveryWindow', 'window')
+      .select('window.id', 'windowId')
+      .addSelect('window.name', 'name')
+      .addSelect('COUNT(email.id)', 'held')
+      .addSelect(
+        'COUNT(email.id) FILTER (WHERE email.isRead = false)',
+        'unread',
+      )
+      .addSelect('MIN(email.heldUntil)', 'nextReleaseAt')
+      .where('email.mailboxId IN (:...mailboxIds)', { mailboxIds })
+      .andWhere('email.deletedAt IS NULL')
+      .andWhere('email.heldUntil > :now', { now: new Date() })
+      .groupBy('window.id')
+      .orderBy('window.id', 'ASC')
+      .getRawMany<HeldCountRow>();
+
+    const windows = rows.map((row) => ({
+      windowId: row.windowId,
+      name: row.name,
+      held: parseInt(row.held, 10),
+      unread: parseInt(row.unread, 10),
+      nextReleaseAt: row.nextReleaseAt,
+    }));
+
+    return {
+      totalHeld: windows.reduce((sum, w) => sum + w.held, 0),
+      windows,
+    };
+  }
+
+  private async findWindow(
+    userId: number,
+    windowId: number,
+  ): Promise<DeliveryWindow> {
+    const window = await this.deliveryWindowRepository.findOne({
+      where: { id: windowId, userId },
+    });
+
+    if (!window) {
+      throw new NotFoundException(`Delivery window ${windowId} not found`);
+    }
+
+    return window;
+  }
+
+  /**
+   * @throws BadRequestException unless exactly one target is set
+   * @throws NotFoundException when the bundle is not the user's
+   */
+  private async validateTarget(
+    userId: number,
+    window: DeliveryWindow,
+  ): Promise<void> {
+    const targets = [
+      window.category,
+      window.bundleId,
+      window.senders?.length ? window.senders : null,
+    ].filter((target) => target !== null && target !== undefined);
+
+    if (targets.length !== 1) {
+      throw new BadRequestException(
+        'Set exactly one of category, bundleId and senders',
+      );
+    }
+
+    if (window.bundleId) {
+      const bundle = await this.bundleRepository.findOne({
+        where: { id: window.bundleId, userId },
+      });
+
+      if (!bundle) {
+        throw new NotFoundException(`Bundle ${window.bundleId} not found`);
+      }
+    }
+  }
+
+  private async releaseHeld(windowId: number): Promise<void> {
+    await this.emailRepository.update(
+      { deliveryWindowId: windowId },
+      { heldUntil: null, deliveryWindowId: null },
+    );
+  }
+
+  private async getTimeZone(userId: number): Promise<string> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'timeZone'],
+    });
+    return user?.timeZone || 'UTC';
+  }
+
+  private async getUserMailboxIds(userId: number): Promise<number[]> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+      select: ['id'],
+    });
+    return mailboxes.map((m) => m.id);
+  }
+
+  private toDto(window: DeliveryWindow, timeZone: string): DeliveryWindowDto {
+    return {
+      id: window.id,
+      name: window.name,
+      category: window.category,
+      bundleId: window.bundleId,
+      senders: window.senders,
+      deliveryTimes: window.deliveryTimes,
+      daysOfWeek: window.daysOfWeek,
+      isEnabled: window.isEnabled,
+      nextDeliveryAt: window.isEnabled
+        ? nextDeliveryAt(window, timeZone)
+        : null,
+      createdAt: window.createdAt,
+      updatedAt: window.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import type { File as MulterFile } from 'multer';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators';
+import { Idempotent } from '../idempotency/idempotent.decorator';
+import { User } from '../user/entities/user.entity';
+import {
+  CreateDraftDto,
+  DraftListResponseDto,
+  DraftMailboxQueryDto,
+  DraftQueryDto,
+  DraftResponseDto,
+  OutboxMessageDto,
+  UpdateDraftDto,
+} from './dto';
+import { DraftService } from './draft.service';
+
+@ApiTags('Drafts')
+@ApiBearerAuth()
+@Controller('drafts')
+export class DraftController {
+  constructor(private readonly draftService: DraftService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List drafts of a mailbox, newest first' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Page of drafts',
+    type: DraftListResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox not found',
+  })
+  async findAll(
+    @CurrentUser() user: User,
+    @Query() query: DraftQueryDto,
+  ): Promise<DraftListResponseDto> {
+    return this.draftService.findAll(user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Fetch a single draft' })
+  @ApiParam({ name: 'id', description: 'Provider draft ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Draft details',
+    type: DraftResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox or draft not found',
+  })
+  async findOne(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Query() query: DraftMailboxQueryDto,
+  ): Promise<DraftResponseDto> {
+    return this.draftService.findOne(user.id, query.mailboxId, id);
+  }
+
+  @Post()
+  @Idempotent()
+  @UseInterceptors(FilesInterceptor('attachments', 10)) // Max 10 files
+  @ApiOperation({
+    summary: 'Create a draft with optional attachments',
+    description:
+      'Accepts the same fields as POST /emails/send, all optional except mailboxId. ' +
+      'Pass inReplyTo and threadId to keep a reply draft in its conversation.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Draft created',
+    type: DraftResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Provider does not support drafts',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox not found',
+  })
+  async create(
+    @CurrentUser() user: User,
+    @Body() createDto: CreateDraftDto,
+    @UploadedFiles() files?: MulterFile[],
+  ): Promise<DraftResponseDto> {
+    return this.draftService.create(user.id, createDto, files);
+  }
+
+  @Put(':id')
+  @UseInterceptors(FilesInterceptor('attachments', 10)) // Max 10 files
+  @ApiOperation({
+    summary: 'Save the latest content of a draft (autosave)',
+    description:
+      'Replaces the draft content. Existing attachments are kept unless keepAttachments is false.',
+  })
+  @ApiParam({ name: 'id', description: 'Provider draft ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Draft saved',
+    type: DraftResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox or draft not found',
+  })
+  async update(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateDraftDto,
+    @UploadedFiles() files?: MulterFile[],
+  ): Promise<DraftResponseDto> {
+    return this.draftService.update(user.id, id, updateDto, files);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Discard a draft' })
+  @ApiParam({ name: 'id', description: 'Provider draft ID' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Draft deleted',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox or draft not found',
+  })
+  async remove(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Query() query: DraftMailboxQueryDto,
+  ): Promise<void> {
+    await this.draftService.remove(user.id, query.mailboxId, id);
+  }
+
+  @Post(':id/send')
+  @Idempotent()
+  @ApiOperation({
+    summary: 'Send a draft',
+    description:
+      'Queues the draft in the outbox; it goes out after the undo delay and can be cancelled with DELETE /outbox/:id.',
+  })
+  @ApiParam({ name: 'id', description: 'Provider draft ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Draft queued for sending',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Draft has no recipients',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox or draft not found',
+  })
+  async send(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Query() query: DraftMailboxQueryDto,
+  ): Promise<OutboxMessageDto> {
+    return this.draftService.send(user.id, query.mailboxId, id);
+  }
+}
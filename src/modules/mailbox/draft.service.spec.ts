@@ -0,0 +1,243 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DraftService } from './draft.service';
+import { Mailbox, MailboxProvider } from './entities';
+import { OutboxService } from './outbox.service';
+import {
+  DraftNotFoundError,
+  MailDraft,
+  ParsedEmail,
+} from './providers/mail-provider.interface';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+describe('DraftService', () => {
+  let service: DraftService;
+
+  const mailbox = {
+    id: 3,
+    userId: 1,
+    provider: MailboxProvider.GMAIL,
+  } as Mailbox;
+
+  const draft = (overrides: Partial<ParsedEmail> = {}): MailDraft => ({
+    id: 'draft-1',
+    inReplyTo: 'original@example.com',
+    message: {
+      gmailMessageId: 'msg-1',
+      gmailThreadId: 'thread-1',
+      subject: 'RE: Question',
+      snippet: null,
+      fromEmail: 'me@example.com',
+      fromName: null,
+      toEmails: ['alice@example.com'],
+      ccEmails: [],
+      bccEmails: [],
+      replyToEmails: [],
+      internetMessageId: null,
+      referenceIds: [],
+      listId: null,
+      listUnsubscribe: null,
+      bodyHtml: null,
+      bodyText: 'Half-written',
+      receivedAt: new Date('2024-01-01T10:00:00.000Z'),
+      isRead: true,
+      isStarred: false,
+      labels: ['DRAFT'],
+      attachments: [],
+      ...overrides,
+    },
+  });
+
+  const mockProvider = {
+    listDrafts: jest.fn(),
+    getDraft: jest.fn(),
+    createDraft: jest.fn(),
+    updateDraft: jest.fn(),
+    deleteDraft: jest.fn(),
+    sendDraft: jest.fn(),
+    getAttachment: jest.fn(),
+  };
+  const mockMailboxRepository = { findOne: jest.fn() };
+  const mockOutboxService = { enqueueDraft: jest.fn() };
+  let client: Partial<typeof mockProvider>;
+
+  beforeEach(async () => {
+    client = mockProvider;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DraftService,
+        {
+          provide: getRepositoryToken(Mailbox),
+          useValue: mockMailboxRepository,
+        },
+        {
+          provide: MailProviderRegistry,
+          useValue: { get: () => client },
+        },
+        { provide: OutboxService, useValue: mockOutboxService },
+      ],
+    }).compile();
+
+    service = module.get<DraftService>(DraftService);
+
+    mockMailboxRepository.findOne.mockResolvedValue(mailbox);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('creates a reply draft in its thread', async () => {
+    mockProvider.createDraft.mockResolvedValue(draft());
+
+    const result = await service.create(1, {
+      mailboxId: mailbox.id,
+      to: ['alice@example.com'],
+      subject: 'RE: Question',
+      body: 'Half-written',
+      inReplyTo: 'original@example.com',
+      threadId: 'thread-1',
+    });
+
+    expect(mockProvider.createDraft).toHaveBeenCalledWith(
+      mailbox,
+      expect.objectContaining({
+        to: ['alice@example.com'],
+        inReplyTo: 'original@example.com',
+        threadId: 'thread-1',
+      }),
+      undefined,
+    );
+    expect(result).toEqual(
+      expect.objectContaining({
+        id: 'draft-1',
+        mailboxId: mailbox.id,
+        threadId: 'thread-1',
+        inReplyTo: 'original@example.com',
+        body: 'Half-written',
+        updatedAt: new Date('2024-01-01T10:00:00.000Z'),
+      }),
+    );
+  });
+
+  it('re-attaches existing attachments on autosave', async () => {
+    mockProvider.getDraft.mockResolvedValue(
+      draft({
+        attachments: [
+          {
+            gmailAttachmentId: 'att-1',
+            filename: 'notes.txt',
+            mimeType: 'text/plain',
+            size: 5,
+            contentId: null,
+            isInline: false,
+          },
+        ],
+      }),
+    );
+    mockProvider.getAttachment.mockResolvedValue(Buffer.from('hello'));
+    mockProvider.updateDraft.mockResolvedValue(draft());
+
+    await service.update(1, 'draft-1', {
+      mailboxId: mailbox.id,
+      body: 'Longer now',
+    });
+
+    expect(mockProvider.getAttachment).toHaveBeenCalledWith(
+      mailbox,
+      'msg-1',
+      'att-1',
+    );
+    expect(mockProvider.updateDraft).toHaveBeenCalledWith(
+      mailbox,
+      'draft-1',
+      expect.objectContaining({ to: [], subject: '', body: 'Longer now' }),
+      [
+        expect.objectContaining({
+          originalname: 'notes.txt',
+          buffer: Buffer.from('hello'),
+        }),
+      ],
+    );
+  });
+
+  it('drops existing attachments when keepAttachments is false', async () => {
+    mockProvider.updateDraft.mockResolvedValue(draft());
+
+    await service.update(1, 'draft-1', {
+      mailboxId: mailbox.id,
+      keepAttachments: false,
+    });
+
+    expect(mockProvider.getDraft).not.toHaveBeenCalled();
+    expect(mockProvider.updateDraft).toHaveBeenCalledWith(
+      mailbox,
+      'draft-1',
+      expect.anything(),
+      [],
+    );
+  });
+
+  it('keeps the References chain of a reply draft on autosave', async () => {
+    mockProvider.getDraft.mockResolvedValue(
+      draft({ referenceIds: ['root@example.com', 'original@example.com'] }),
+    );
+    mockProvider.updateDraft.mockResolvedValue(draft());
+
+    await service.update(1, 'draft-1', {
+      mailboxId: mailbox.id,
+      keepAttachments: false,
+      inReplyTo: 'original@example.com',
+    });
+
+    expect(mockProvider.updateDraft).toHaveBeenCalledWith(
+      mailbox,
+      'draft-1',
+      expect.objectContaining({
+        inReplyTo: 'original@example.com',
+        references: ['root@example.com', 'original@example.com'],
+      }),
+      [],
+    );
+  });
+
+  it('queues drafts in the outbox instead of sending them right away', async () => {
+    const queued = draft();
+    mockProvider.getDraft.mockResolvedValue(queued);
+
+    await service.send(1, mailbox.id, 'draft-1');
+
+    expect(mockOutboxService.enqueueDraft).toHaveBeenCalledWith(
+      mailbox,
+      queued,
+    );
+    expect(mockProvider.sendDraft).not.toHaveBeenCalled();
+  });
+
+  it('refuses to send a draft without recipients', async () => {
+    mockProvider.getDraft.mockResolvedValue(draft({ toEmails: [] }));
+
+    await expect(service.send(1, mailbox.id, 'draft-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockOutboxService.enqueueDraft).not.toHaveBeenCalled();
+  });
+
+  it('maps unknown drafts to NotFoundException', async () => {
+    mockProvider.getDraft.mockRejectedValue(new DraftNotFoundError('gone'));
+
+    await expect(service.findOne(1, mailbox.id, 'gone')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('rejects providers without draft support', async () => {
+    client = { getAttachment: jest.fn() };
+
+    await expect(service.findAll(1, { mailboxId: mailbox.id })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,300 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import type { File as MulterFile } from 'multer';
+import {
+  CreateDraftDto,
+  DraftListResponseDto,
+  DraftQueryDto,
+  DraftResponseDto,
+  OutboxMessageDto,
+  UpdateDraftDto,
+} from './dto';
+import { Mailbox } from './entities';
+import { OutboxService } from './outbox.service';
+import {
+  DraftNotFoundError,
+  MailDraft,
+  MailProviderClient,
+  OutgoingEmail,
+} from './providers/mail-provider.interface';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+type DraftClient = MailProviderClient &
+  Required<
+    Pick<
+      MailProviderClient,
+      | 'listDrafts'
+      | 'getDraft'
+      | 'createDraft'
+      | 'updateDraft'
+      | 'deleteDraft'
+      | 'sendDraft'
+    >
+  >;
+
+const isDraftClient = (client: MailProviderClient): client is DraftClient =>
+  !!client.listDrafts &&
+  !!client.getDraft &&
+  !!client.createDraft &&
+  !!client.updateDraft &&
+  !!client.deleteDraft &&
+  !!client.sendDraft;
+
+/**
+ * Drafts live on the mail server only, so they show up in the provider's
+ * own clients and survive reconnecting the mailbox
+ */
+@Injectable()
+export class DraftService {
+  private readonly logger = new Logger(DraftService.name);
+
+  constructor(
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  async findAll(
+    userId: number,
+    query: DraftQueryDto,
+  ): Promise<DraftListResponseDto> {
+    const { mailbox, client } = await this.getDraftClient(
+      userId,
+      query.mailboxId,
+    );
+
+    const { drafts, nextPageToken } = await client.listDrafts(mailbox, {
+      maxResults: query.limit,
+      pageToken: query.pageToken,
+    });
+
+    return {
+      data: drafts.map((draft) => this.toResponseDto(mailbox.id, draft)),
+      nextPageToken: nextPageToken || null,
+    };
+  }
+
+  async findOne(
+    userId: number,
+    mailboxId: number,
+    draftId: string,
+  ): Promise<DraftResponseDto> {
+    const { mailbox, client } = await this.getDraftClient(userId, mailboxId);
+
+    const draft = await this.handleNotFound(client.getDraft(mailbox, draftId));
+
+    return this.toResponseDto(mailbox.id, draft);
+  }
+
+  async create(
+    userId: number,
+    createDto: CreateDraftDto,
+    files?: MulterFile[],
+  ): Promise<DraftResponseDto> {
+    return this.createFromMessage(
+      userId,
+      createDto.mailboxId,
+      this.toOutgoingEmail(createDto),
+      files,
+    );
+  }
+
+  /**
+   * Save a message assembled on the server, such as a reply, as a draft
+   */
+  async createFromMessage(
+    userId: number,
+    mailboxId: number,
+    email: OutgoingEmail,
+    files?: MulterFile[],
+  ): Promise<DraftResponseDto> {
+    const { mailbox, client } = await this.getDraftClient(userId, mailboxId);
+
+    const draft = await client.createDraft(mailbox, email, files);
+
+    this.logger.log(`Created draft ${draft.id} in mailbox ${mailbox.id}`);
+
+    return this.toResponseDto(mailbox.id, draft);
+  }
+
+  /**
+   * Autosave: replaces the draft content with the latest editor state
+   * The provider replaces the whole message, so existing attachments are
+   * downloaded and re-attached unless keepAttachments is false
+   */
+  async update(
+    userId: number,
+    draftId: string,
+    updateDto: UpdateDraftDto,
+    files: MulterFile[] = [],
+  ): Promise<DraftResponseDto> {
+    const { mailbox, client } = await this.getDraftClient(
+      userId,
+      updateDto.mailboxId,
+    );
+
+    const attachments: MulterFile[] = [];
+    const keepAttachments = updateDto.keepAttachments !== false;
+
+    // The References chain is not part of the editor state, so it is read
+    // from the draft being replaced
+    const current =
+      keepAttachments || updateDto.inReplyTo
+        ? await this.handleNotFound(client.getDraft(mailbox, draftId))
+        : null;
+
+    if (current && keepAttachments) {
+      for (const attachment of current.message.attachments) {
+        attachments.push({
+          originalname: attachment.filename,
+          mimetype: attachment.mimeType,
+          size: attachment.size,
+          buffer: await client.getAttachment(
+            mailbox,
+            current.message.gmailMessageId,
+            attachment.gmailAttachmentId,
+          ),
+        } as MulterFile);
+      }
+    }
+
+    for (const file of files) {
+      attachments.push(file);
+    }
+
+    const draft = await this.handleNotFound(
+      client.updateDraft(
+        mailbox,
+        draftId,
+        this.toOutgoingEmail(updateDto, current),
+        attachments,
+      ),
+    );
+
+    return this.toResponseDto(mailbox.id, draft);
+  }
+
+  async remove(
+    userId: number,
+    mailboxId: number,
+    draftId: string,
+  ): Promise<void> {
+    const { mailbox, client } = await this.getDraftClient(userId, mailboxId);
+
+    await this.handleNotFound(client.deleteDraft(mailbox, draftId));
+
+    this.logger.log(`Deleted draft ${draftId} from mailbox ${mailbox.id}`);
+  }
+
+  /**
+   * Queue the draft in the outbox; it is sent after the undo delay
+   */
+  async send(
+    userId: number,
+    mailboxId: number,
+    draftId: string,
+  ): Promise<OutboxMessageDto> {
+    const { mailbox, client } = await this.getDraftClient(userId, mailboxId);
+
+    const draft = await this.handleNotFound(client.getDraft(mailbox, draftId));
+    const { toEmails, ccEmails, bccEmails } = draft.message;
+
+    if (toEmails.length + ccEmails.length + bccEmails.length === 0) {
+      throw new BadRequestException('Draft has no recipients');
+    }
+
+    return this.outboxService.enqueueDraft(mailbox, draft);
+  }
+
+  private async getDraftClient(
+    userId: number,
+    mailboxId: number,
+  ): Promise<{ mailbox: Mailbox; client: DraftClient }> {
+    const mailbox = await this.mailboxRepository.findOne({
+      where: { id: mailboxId, userId, deletedAt: IsNull() },
+    });
+
+    if (!mailbox) {
+      throw new NotFoundException(`Mailbox ${mailboxId} not found`);
+    }
+
+    const client = this.mailProviders.get(mailbox);
+
+    if (!isDraftClient(client)) {
+      throw new BadRequestException(
+        `Drafts are not supported for ${mailbox.provider} mailboxes`,
+      );
+    }
+
+    return { mailbox, client };
+  }
+
+  private async handleNotFound<T>(operation: Promise<T>): Promise<T> {
+    try {
+      return await operation;
+    } catch (error) {
+      if (error instanceof DraftNotFoundError) {
+        throw new NotFoundException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @param current draft being replaced, whose References chain is kept
+   * while it still replies to the same message
+   */
+  private toOutgoingEmail(
+    dto: CreateDraftDto,
+    current: MailDraft | null = null,
+  ): OutgoingEmail {
+    const references =
+      dto.inReplyTo && current?.inReplyTo === dto.inReplyTo
+        ? current.message.referenceIds
+        : [];
+
+    return {
+      to: dto.to || [],
+      cc: dto.cc,
+      bcc: dto.bcc,
+      subject: dto.subject || '',
+      body: dto.body || '',
+      bodyHtml: dto.bodyHtml,
+      inReplyTo: dto.inReplyTo,
+      references: references.length ? references : undefined,
+      threadId: dto.threadId,
+    };
+  }
+
+  private toResponseDto(mailboxId: number, draft: MailDraft): DraftResponseDto {
+    const { message } = draft;
+
+    return {
+      id: draft.id,
+      mailboxId,
+      messageId: message.gmailMessageId,
+      threadId: message.gmailThreadId || null,
+      to: message.toEmails,
+      cc: message.ccEmails,
+      bcc: message.bccEmails,
+      subject: message.subject,
+      body: message.bodyText,
+      bodyHtml: message.bodyHtml,
+      inReplyTo: draft.inReplyTo,
+      attachments: message.attachments.map((attachment) => ({
+        attachmentId: attachment.gmailAttachmentId,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+      })),
+      updatedAt: message.receivedAt,
+    };
+  }
+}
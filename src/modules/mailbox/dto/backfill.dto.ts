@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { MailboxBackfillStatus } from '../entities';
+
+export enum BackfillHorizon {
+  SIX_MONTHS = '6m',
+  ONE_YEAR = '1y',
+  TWO_YEARS = '2y',
+  FIVE_YEARS = '5y',
+  ALL = 'all',
+}
+
+export class StartBackfillDto {
+  @ApiPropertyOptional({
+    enum: BackfillHorizon,
+    default: BackfillHorizon.ONE_YEAR,
+    description: 'How far back to backfill, ignored when "since" is set',
+  })
+  @IsEnum(BackfillHorizon)
+  @IsOptional()
+  horizon?: BackfillHorizon;
+
+  @ApiPropertyOptional({
+    description: 'Backfill mail received on or after this date',
+    example: '2023-01-01',
+  })
+  @IsDateString()
+  @IsOptional()
+  since?: string;
+}
+
+export class BackfillProgressDto {
+  @ApiProperty({
+    enum: MailboxBackfillStatus,
+    example: MailboxBackfillStatus.RUNNING,
+  })
+  status: MailboxBackfillStatus;
+
+  @ApiProperty({
+    example: '2023-01-01T00:00:00.000Z',
+    nullable: true,
+    description: 'Oldest date being backfilled, null for all mail',
+  })
+  horizon: Date | null;
+
+  @ApiProperty({ example: 4200 })
+  processed: number;
+
+  @ApiProperty({ example: 12000, nullable: true })
+  estimate: number | null;
+
+  @ApiProperty({ example: 35, nullable: true })
+  percentComplete: number | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  error: string | null;
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { BundleKind } from '../entities';
+
+export class BundleDto {
+  @ApiProperty({ example: 3 })
+  id: number;
+
+  @ApiProperty({ enum: BundleKind, example: BundleKind.NEWSLETTERS })
+  kind: BundleKind;
+
+  @ApiProperty({ example: 'Newsletters' })
+  name: string;
+
+  @ApiProperty({ description: 'Emails in the bundle', example: 120 })
+  total: number;
+
+  @ApiProperty({ description: 'Unread emails in the bundle', example: 14 })
+  unread: number;
+
+  @ApiProperty({
+    description: 'Emails of the bundle still in the inbox',
+    example: 30,
+  })
+  inInbox: number;
+
+  @ApiProperty({
+    description: 'When the newest email of the bundle was received',
+    nullable: true,
+    example: '2024-01-02T09:00:00.000Z',
+  })
+  latestReceivedAt: Date | null;
+}
+
+export class BundleActionResultDto {
+  @ApiProperty({ example: 3 })
+  bundleId: number;
+
+  @ApiProperty({ description: 'Emails changed', example: 14 })
+  updated: number;
+}
+
+export class RebuildBundlesResultDto {
+  @ApiProperty({ description: 'Unbundled emails checked', example: 1500 })
+  scanned: number;
+
+  @ApiProperty({ description: 'Emails put into a bundle', example: 640 })
+  bundled: number;
+}
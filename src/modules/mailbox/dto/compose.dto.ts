@@ -0,0 +1,174 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+/**
+ * Recipient lists arrive as JSON strings in multipart requests
+ */
+const parseAddressList = (value: unknown): unknown => {
+  if (!value) return undefined;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [value];
+    }
+  }
+  return value;
+};
+
+/**
+ * Recipients, subject and threading headers come from the original email;
+ * the body is sent above a quote of the original
+ */
+export class ReplyEmailDto {
+  @ApiProperty({
+    description: 'Reply text; the quoted original is appended',
+    example: 'Thanks, see you then.',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Email body is required' })
+  body: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Reply in HTML; the quoted original is appended. Defaults to the plain text body',
+    example: '<p>Thanks, see you then.</p>',
+  })
+  @IsString()
+  @IsOptional()
+  bodyHtml?: string;
+
+  @ApiPropertyOptional({
+    description: 'Extra CC recipients, added to the computed ones',
+    example: ['cc@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 CC recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each CC recipient must be a valid email address' },
+  )
+  cc?: string[];
+
+  @ApiPropertyOptional({
+    description: 'BCC recipients',
+    example: ['bcc@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 BCC recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each BCC recipient must be a valid email address' },
+  )
+  bcc?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Send later at this time; sends still wait for the undo delay when omitted',
+    example: '2024-01-02T08:00:00.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  sendAt?: Date;
+}
+
+export class ForwardEmailDto {
+  @ApiProperty({
+    description: 'Recipient email addresses',
+    example: ['user@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsArray()
+  @ArrayNotEmpty({ message: 'At least one recipient is required' })
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each recipient must be a valid email address' },
+  )
+  to: string[];
+
+  @ApiPropertyOptional({
+    description: 'CC recipients',
+    example: ['cc@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 CC recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each CC recipient must be a valid email address' },
+  )
+  cc?: string[];
+
+  @ApiPropertyOptional({
+    description: 'BCC recipients',
+    example: ['bcc@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 BCC recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each BCC recipient must be a valid email address' },
+  )
+  bcc?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Note above the forwarded message',
+    example: 'FYI, see below.',
+  })
+  @IsString()
+  @IsOptional()
+  body?: string;
+
+  @ApiPropertyOptional({
+    description: 'Note above the forwarded message, in HTML',
+    example: '<p>FYI, see below.</p>',
+  })
+  @IsString()
+  @IsOptional()
+  bodyHtml?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Attach the original attachments; uploaded files are added to them',
+    default: true,
+  })
+  @Transform(({ value }) => value !== 'false' && value !== false)
+  @IsBoolean()
+  @IsOptional()
+  includeAttachments?: boolean = true;
+
+  @ApiPropertyOptional({
+    description:
+      'Send later at this time; sends still wait for the undo delay when omitted',
+    example: '2024-01-02T08:00:00.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  sendAt?: Date;
+}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class ConnectImapMailboxDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'user@fastmail.com',
+  })
+  @IsEmail()
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Login name, defaults to the email address',
+    example: 'user@fastmail.com',
+  })
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @ApiProperty({
+    description: 'Password or app-specific password',
+    example: 'app-password',
+  })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+
+  @ApiProperty({ example: 'imap.fastmail.com' })
+  @IsString()
+  @IsNotEmpty()
+  imapHost: string;
+
+  @ApiPropertyOptional({ example: 993, default: 993 })
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  @IsOptional()
+  imapPort?: number = 993;
+
+  @ApiPropertyOptional({
+    description: 'Use implicit TLS; false uses STARTTLS when offered',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  imapSecure?: boolean = true;
+
+  @ApiProperty({ example: 'smtp.fastmail.com' })
+  @IsString()
+  @IsNotEmpty()
+  smtpHost: string;
+
+  @ApiPropertyOptional({ example: 465, default: 465 })
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  @IsOptional()
+  smtpPort?: number = 465;
+
+  @ApiPropertyOptional({
+    description: 'Use implicit TLS; false uses STARTTLS when offered',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  smtpSecure?: boolean = true;
+}
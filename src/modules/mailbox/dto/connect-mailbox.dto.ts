@@ -3,7 +3,7 @@ import { IsNotEmpty, IsString } from 'class-validator';
 
 export class ConnectMailboxDto {
   @ApiProperty({
-    description: 'Google OAuth2 authorization code',
+    description: 'OAuth2 authorization code from Google or Microsoft',
     example: '4/0AY0e-g7...',
   })
   @IsString()
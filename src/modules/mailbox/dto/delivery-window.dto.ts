@@ -0,0 +1,162 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { EmailCategory } from '../entities';
+
+const LOCAL_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateDeliveryWindowDto {
+  @ApiProperty({
+    description: 'Name of the window',
+    example: 'Promotions at 5pm',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    enum: EmailCategory,
+    description: 'Hold mail of this category',
+  })
+  @IsEnum(EmailCategory)
+  @IsOptional()
+  category?: EmailCategory;
+
+  @ApiPropertyOptional({
+    description: 'Hold mail of this bundle',
+    example: 3,
+  })
+  @IsInt()
+  @IsOptional()
+  bundleId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Hold mail from these senders; @example.com matches a whole domain',
+    example: ['news@example.com', '@shop.example'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsOptional()
+  senders?: string[];
+
+  @ApiProperty({
+    description: 'Local times (HH:MM) at which held mail is delivered',
+    example: ['08:00', '17:00'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(24)
+  @ArrayUnique()
+  @Matches(LOCAL_TIME, { each: true, message: 'times must be HH:MM' })
+  deliveryTimes: string[];
+
+  @ApiPropertyOptional({
+    description: 'Days to deliver on (0 = Sunday); every day when omitted',
+    example: [1, 2, 3, 4, 5],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+}
+
+export class UpdateDeliveryWindowDto extends PartialType(
+  CreateDeliveryWindowDto,
+) {}
+
+export class DeliveryWindowDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'Promotions at 5pm' })
+  name: string;
+
+  @ApiProperty({ enum: EmailCategory, nullable: true })
+  category: EmailCategory | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  bundleId: number | null;
+
+  @ApiProperty({ type: [String], nullable: true, example: null })
+  senders: string[] | null;
+
+  @ApiProperty({ example: ['08:00', '17:00'] })
+  deliveryTimes: string[];
+
+  @ApiProperty({ type: [Number], nullable: true, example: [1, 2, 3, 4, 5] })
+  daysOfWeek: number[] | null;
+
+  @ApiProperty({ example: true })
+  isEnabled: boolean;
+
+  @ApiProperty({
+    description: "Next delivery time, in the user's time zone",
+    nullable: true,
+    example: '2024-01-02T17:00:00.000Z',
+  })
+  nextDeliveryAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class HeldWindowStatsDto {
+  @ApiProperty({ example: 1 })
+  windowId: number;
+
+  @ApiProperty({ example: 'Promotions at 5pm' })
+  name: string;
+
+  @ApiProperty({ description: 'Emails held by the window', example: 12 })
+  held: number;
+
+  @ApiProperty({ description: 'Held emails still unread', example: 11 })
+  unread: number;
+
+  @ApiProperty({
+    description: 'When the next held email is delivered',
+    nullable: true,
+    example: '2024-01-02T17:00:00.000Z',
+  })
+  nextReleaseAt: Date | null;
+}
+
+export class HeldMailStatsDto {
+  @ApiProperty({ description: 'Emails held across windows', example: 12 })
+  totalHeld: number;
+
+  @ApiProperty({ type: [HeldWindowStatsDto] })
+  windows: HeldWindowStatsDto[];
+}
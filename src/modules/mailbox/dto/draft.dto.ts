@@ -0,0 +1,237 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Recipient lists arrive as JSON strings in multipart requests
+ */
+const parseAddressList = (value: unknown): unknown => {
+  if (!value) return undefined;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [value];
+    }
+  }
+  return value;
+};
+
+export class DraftMailboxQueryDto {
+  @ApiProperty({ description: 'Mailbox the draft belongs to', example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  mailboxId: number;
+}
+
+export class DraftQueryDto extends DraftMailboxQueryDto {
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    description: 'nextPageToken of the previous page',
+  })
+  @IsString()
+  @IsOptional()
+  pageToken?: string;
+}
+
+/**
+ * Every field except the mailbox is optional so half-written messages
+ * can be saved; recipients are required only when the draft is sent
+ */
+export class CreateDraftDto {
+  @ApiProperty({
+    description: 'Mailbox ID to save the draft in',
+    example: 1,
+  })
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return parseInt(value, 10);
+    }
+    return value;
+  })
+  @IsNotEmpty()
+  mailboxId: number;
+
+  @ApiPropertyOptional({
+    description: 'Recipient email addresses',
+    example: ['user@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each recipient must be a valid email address' },
+  )
+  to?: string[];
+
+  @ApiPropertyOptional({
+    description: 'CC recipients',
+    example: ['cc@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 CC recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each CC recipient must be a valid email address' },
+  )
+  cc?: string[];
+
+  @ApiPropertyOptional({
+    description: 'BCC recipients',
+    example: ['bcc@example.com'],
+    type: [String],
+  })
+  @Transform(({ value }) => parseAddressList(value))
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500, { message: 'Cannot exceed 500 BCC recipients' })
+  @IsEmail(
+    {},
+    { each: true, message: 'Each BCC recipient must be a valid email address' },
+  )
+  bcc?: string[];
+
+  @ApiPropertyOptional({ description: 'Email subject', example: 'Hello' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(998, { message: 'Subject cannot exceed 998 characters' })
+  subject?: string;
+
+  @ApiPropertyOptional({
+    description: 'Email body in plain text',
+    example: 'Draft body so far',
+  })
+  @IsString()
+  @IsOptional()
+  body?: string;
+
+  @ApiPropertyOptional({
+    description: 'Email body in HTML format',
+    example: '<p>Draft body so far</p>',
+  })
+  @IsString()
+  @IsOptional()
+  bodyHtml?: string;
+
+  @ApiPropertyOptional({
+    description: 'Message-ID of the email being replied to (for threading)',
+  })
+  @IsString()
+  @IsOptional()
+  inReplyTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'Thread ID of the conversation being replied to',
+  })
+  @IsString()
+  @IsOptional()
+  threadId?: string;
+}
+
+export class UpdateDraftDto extends CreateDraftDto {
+  @ApiPropertyOptional({
+    description:
+      'Keep the attachments already on the draft; uploaded files are added to them. ' +
+      'Set to false to replace them with the uploaded files',
+    default: true,
+  })
+  @Transform(({ value }) => value !== 'false' && value !== false)
+  @IsBoolean()
+  @IsOptional()
+  keepAttachments?: boolean = true;
+}
+
+export class DraftAttachmentDto {
+  @ApiProperty({ description: 'Provider attachment ID' })
+  attachmentId: string;
+
+  @ApiProperty({ example: 'document.pdf' })
+  filename: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ example: 1024000 })
+  size: number;
+}
+
+export class DraftResponseDto {
+  @ApiProperty({ example: 'r-1234567890123456789' })
+  id: string;
+
+  @ApiProperty({ example: 1 })
+  mailboxId: number;
+
+  @ApiProperty({
+    example: '18abc123def456',
+    description: 'Current message of the draft; changes on every update',
+  })
+  messageId: string;
+
+  @ApiPropertyOptional({ example: '18abc123def456' })
+  threadId: string | null;
+
+  @ApiProperty({ example: ['user@example.com'] })
+  to: string[];
+
+  @ApiProperty({ example: [] })
+  cc: string[];
+
+  @ApiProperty({ example: [] })
+  bcc: string[];
+
+  @ApiPropertyOptional({ example: 'Hello' })
+  subject: string | null;
+
+  @ApiPropertyOptional({ example: 'Draft body so far' })
+  body: string | null;
+
+  @ApiPropertyOptional()
+  bodyHtml: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Message-ID of the email being replied to',
+  })
+  inReplyTo: string | null;
+
+  @ApiProperty({ type: [DraftAttachmentDto] })
+  attachments: DraftAttachmentDto[];
+
+  @ApiProperty({ example: '2024-01-01T10:30:00.000Z' })
+  updatedAt: Date;
+}
+
+export class DraftListResponseDto {
+  @ApiProperty({ type: [DraftResponseDto] })
+  data: DraftResponseDto[];
+
+  @ApiPropertyOptional({
+    description: 'Pass as pageToken to fetch the next page',
+  })
+  nextPageToken: string | null;
+}
@@ -7,10 +7,23 @@ import {
   IsOptional,
   IsString,
   Max,
+  MaxLength,
   Min,
 } from 'class-validator';
 import { EmailCategory, TaskStatus } from '../entities';
 
+/**
+ * Date buckets of search facets, relative to now; each includes the
+ * shorter ones, older is everything before the past year
+ */
+export enum ReceivedWithin {
+  PAST_DAY = 'past_day',
+  PAST_WEEK = 'past_week',
+  PAST_MONTH = 'past_month',
+  PAST_YEAR = 'past_year',
+  OLDER = 'older',
+}
+
 export class EmailQueryDto {
   @ApiPropertyOptional({ default: 1, minimum: 1 })
   @Type(() => Number)
@@ -33,8 +46,18 @@ export class EmailQueryDto {
   @IsOptional()
   mailboxId?: number;
 
-  @ApiPropertyOptional({ description: 'Search in subject and snippet' })
+  @ApiPropertyOptional({
+    description:
+      'Gmail-style search: words match subject, snippet and sender; ' +
+      'operators from:, to:, cc:, subject:, label: (by label ID), is:, ' +
+      'has:attachment, filename:, before:, after:, older_than:, ' +
+      'newer_than:, category:, task:; "phrases", -negation, OR and ' +
+      'parentheses',
+    example: 'from:alice has:attachment after:2024/01/01 -label:spam',
+    maxLength: 500,
+  })
   @IsString()
+  @MaxLength(500)
   @IsOptional()
   search?: string;
 
@@ -66,7 +89,9 @@ export class EmailQueryDto {
   @IsOptional()
   taskStatus?: TaskStatus;
 
-  @ApiPropertyOptional({ description: 'Filter by sender email' })
+  @ApiPropertyOptional({
+    description: 'Filter by sender address, case-insensitively',
+  })
   @IsString()
   @IsOptional()
   fromEmail?: string;
@@ -89,6 +114,38 @@ export class EmailQueryDto {
   @IsOptional()
   isSnoozed?: boolean;
 
+  @ApiPropertyOptional({
+    description: 'Include mail held until its delivery window opens',
+  })
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  includeHeld?: boolean;
+
+  @ApiPropertyOptional({ description: 'Filter by bundle ID' })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  bundleId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filter by when the email was received',
+    enum: ReceivedWithin,
+  })
+  @IsEnum(ReceivedWithin)
+  @IsOptional()
+  receivedWithin?: ReceivedWithin;
+
+  @ApiPropertyOptional({
+    description:
+      'Only emails the saved search finds; other filters and the search ' +
+      'query narrow it down further',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  savedSearchId?: number;
+
   @ApiPropertyOptional({
     description: 'Include soft-deleted emails (for Trash view)',
   })
@@ -98,13 +155,25 @@ export class EmailQueryDto {
   includeDeleted?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Sort field',
-    enum: ['receivedAt', 'subject', 'fromEmail'],
+    description:
+      'Also count the matches by sender, label, category, date, ' +
+      'attachments and task status',
+  })
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  facets?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Sort field. priority ranks all matches by a score that each email ' +
+      'returns as a breakdown, highest first',
+    enum: ['receivedAt', 'subject', 'fromEmail', 'priority'],
     default: 'receivedAt',
   })
   @IsString()
   @IsOptional()
-  sortBy?: 'receivedAt' | 'subject' | 'fromEmail' = 'receivedAt';
+  sortBy?: 'receivedAt' | 'subject' | 'fromEmail' | 'priority' = 'receivedAt';
 
   @ApiPropertyOptional({
     description: 'Sort order',
@@ -1,5 +1,36 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { EmailCategory, TaskStatus } from '../entities';
+import { EmailCategory, EnrichmentStatus, TaskStatus } from '../entities';
+import { ActionItemDto } from './enrichment.dto';
+import { SearchFacetsDto } from './search-facets.dto';
+
+export class PriorityScoreDto {
+  @ApiProperty({ description: 'Sum of the parts, out of 100', example: 63.5 })
+  total: number;
+
+  @ApiProperty({ description: 'AI urgency score, up to 30', example: 24 })
+  urgency: number;
+
+  @ApiProperty({ description: 'Pinned, 20 or 0', example: 0 })
+  pinned: number;
+
+  @ApiProperty({
+    description: 'Task deadline within a week or overdue, up to 20',
+    example: 12.5,
+  })
+  deadline: number;
+
+  @ApiProperty({
+    description: 'How often the user writes to the sender, up to 15',
+    example: 9,
+  })
+  sender: number;
+
+  @ApiProperty({ description: 'Unread, 10 or 0', example: 10 })
+  unread: number;
+
+  @ApiProperty({ description: 'Received within a week, up to 5', example: 4 })
+  recency: number;
+}
 
 export class EmailSummaryDto {
   @ApiProperty({ example: 1 })
@@ -53,17 +84,32 @@ export class EmailSummaryDto {
   @ApiPropertyOptional({ example: 1, description: 'Kanban column ID' })
   columnId: number | null;
 
+  @ApiPropertyOptional({ example: 3, description: 'Bundle ID' })
+  bundleId: number | null;
+
   @ApiProperty({ example: false })
   isSnoozed: boolean;
 
   @ApiPropertyOptional({ example: '2024-01-02T09:00:00.000Z' })
   snoozedUntil: Date | null;
 
+  @ApiPropertyOptional({
+    example: '2024-01-02T17:00:00.000Z',
+    description: 'Held until its delivery window opens',
+  })
+  heldUntil: Date | null;
+
   @ApiPropertyOptional({
     example:
       'This email discusses the upcoming project deadline and requests your feedback on the proposal.',
   })
   aiSummary: string | null;
+
+  @ApiPropertyOptional({
+    type: PriorityScoreDto,
+    description: 'Why the email ranks where it does (sortBy=priority only)',
+  })
+  priority?: PriorityScoreDto;
 }
 
 export class AttachmentSummaryDto {
@@ -99,12 +145,22 @@ export class EmailDetailDto extends EmailSummaryDto {
   @ApiPropertyOptional({ example: '2024-01-15T17:00:00.000Z' })
   taskDeadline: Date | null;
 
-  @ApiPropertyOptional()
-  aiActionItems: Record<string, unknown>[] | null;
+  @ApiPropertyOptional({ type: [ActionItemDto] })
+  aiActionItems: ActionItemDto[] | null;
 
   @ApiPropertyOptional({ example: 7 })
   aiUrgencyScore: number | null;
 
+  @ApiPropertyOptional({
+    enum: EnrichmentStatus,
+    description: 'Progress of the automatic AI enrichment',
+    example: EnrichmentStatus.DONE,
+  })
+  enrichmentStatus: EnrichmentStatus | null;
+
+  @ApiPropertyOptional({ example: '2024-01-15T09:00:12.000Z' })
+  enrichedAt: Date | null;
+
   @ApiProperty({ type: [AttachmentSummaryDto] })
   attachments: AttachmentSummaryDto[];
 }
@@ -149,4 +205,10 @@ export class PaginatedEmailsDto {
 
   @ApiProperty({ type: PaginationLinksDto })
   links: PaginationLinksDto;
+
+  @ApiPropertyOptional({
+    description: 'Match counts, when requested with facets=true',
+    type: SearchFacetsDto,
+  })
+  facets?: SearchFacetsDto;
 }
@@ -0,0 +1,110 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class EmbeddingModelStatsDto {
+  @ApiProperty({
+    example: 'text-embedding-004',
+    nullable: true,
+    description: 'null for embeddings made before models were recorded',
+  })
+  model: string | null;
+
+  @ApiProperty({ example: 768 })
+  dimensions: number;
+
+  @ApiProperty({ example: 12000 })
+  emails: number;
+
+  @ApiProperty({ description: 'Whether search uses these embeddings' })
+  current: boolean;
+}
+
+export class ReembeddingStatusDto {
+  @ApiProperty({
+    example: 3400,
+    description: 'Emails still embedded with another model',
+  })
+  remaining: number;
+
+  @ApiProperty({ example: 8600, description: 'Since the server started' })
+  reembedded: number;
+
+  @ApiProperty({ example: 2, description: 'Since the server started' })
+  failed: number;
+
+  @ApiProperty({ example: '2025-01-28T10:00:00.000Z', nullable: true })
+  lastRunAt: Date | null;
+}
+
+export class VectorIndexDto {
+  @ApiProperty({ example: 'IDX_emails_embedding_3f2a9c1e_m5x2k7qa' })
+  name: string;
+
+  @ApiProperty({ example: 'text-embedding-004', nullable: true })
+  model: string | null;
+
+  @ApiProperty({ example: 768, nullable: true })
+  dimensions: number | null;
+
+  @ApiProperty({ example: 'hnsw' })
+  method: string;
+
+  @ApiProperty({
+    description: 'false while the index is being built or after a failed build',
+  })
+  valid: boolean;
+
+  @ApiProperty({
+    example: 11000,
+    nullable: true,
+    description: 'Embeddings indexed when it was built',
+  })
+  rows: number | null;
+
+  @ApiProperty({ example: 52428800 })
+  sizeBytes: number;
+
+  @ApiProperty({ example: '2025-01-28T09:50:00.000Z', nullable: true })
+  builtAt: Date | null;
+}
+
+export class IndexMaintenanceStatusDto {
+  @ApiProperty()
+  running: boolean;
+
+  @ApiProperty({ example: '2025-01-28T09:50:00.000Z', nullable: true })
+  lastRunAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  lastError: string | null;
+}
+
+export class EmbeddingStatusDto {
+  @ApiProperty({
+    example: 'text-embedding-004',
+    description: 'Model new embeddings and search queries use',
+  })
+  model: string;
+
+  @ApiProperty({ enum: ['hnsw', 'ivfflat'], example: 'hnsw' })
+  vectorIndex: string;
+
+  @ApiProperty({ type: [EmbeddingModelStatsDto] })
+  models: EmbeddingModelStatsDto[];
+
+  @ApiProperty({ example: 40, description: 'Emails with no embedding' })
+  missing: number;
+
+  @ApiProperty({ type: ReembeddingStatusDto })
+  reembedding: ReembeddingStatusDto;
+
+  @ApiProperty({
+    type: [VectorIndexDto],
+    description:
+      'Only the current model is indexed; none when its embeddings are ' +
+      'too long to index, and search is exact',
+  })
+  indexes: VectorIndexDto[];
+
+  @ApiProperty({ type: IndexMaintenanceStatusDto })
+  maintenance: IndexMaintenanceStatusDto;
+}
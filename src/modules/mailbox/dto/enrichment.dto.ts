@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ActionItemDto {
+  @ApiProperty({ example: 'Send the signed contract to Maria' })
+  text: string;
+
+  @ApiPropertyOptional({
+    description: 'Deadline given in the email (YYYY-MM-DD)',
+    example: '2024-01-19',
+    nullable: true,
+  })
+  dueDate: string | null;
+}
+
+export class EnrichMailboxDto {
+  @ApiPropertyOptional({
+    description: 'Only queue emails that were never enriched',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  onlyMissing?: boolean;
+}
+
+export class EnrichmentQueuedDto {
+  @ApiProperty({
+    description: 'Number of emails queued for enrichment',
+    example: 120,
+  })
+  queued: number;
+}
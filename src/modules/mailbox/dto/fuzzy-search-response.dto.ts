@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { EmailSummaryDto } from './email-response.dto';
+import { SearchFacetsDto } from './search-facets.dto';
 
 export class FuzzySearchMatchDto {
   @ApiProperty({
@@ -53,4 +54,10 @@ export class FuzzySearchResponseDto {
     limit: number;
     totalPages: number;
   };
+
+  @ApiPropertyOptional({
+    description: 'Match counts, when requested with facets=true',
+    type: SearchFacetsDto,
+  })
+  facets?: SearchFacetsDto;
 }
@@ -8,6 +8,7 @@ import {
   IsEnum,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { SearchFacetFiltersDto } from './search-facets.dto';
 
 export enum FuzzySearchField {
   SUBJECT = 'subject',
@@ -16,7 +17,7 @@ export enum FuzzySearchField {
   ALL = 'all',
 }
 
-export class FuzzySearchDto {
+export class FuzzySearchDto extends SearchFacetFiltersDto {
   @ApiPropertyOptional({
     description: 'Search query (supports typos and partial matches)',
     example: 'markting',
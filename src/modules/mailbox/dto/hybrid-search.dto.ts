@@ -0,0 +1,129 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { EmailQueryDto } from './email-query.dto';
+import { EmailSummaryDto } from './email-response.dto';
+
+export enum SearchRetriever {
+  // pg_trgm similarity on subject and sender
+  KEYWORD = 'keyword',
+  // Postgres full-text search on body and AI summary
+  FULL_TEXT = 'fulltext',
+  // pgvector cosine similarity of embeddings
+  SEMANTIC = 'semantic',
+}
+
+/**
+ * Hybrid search query; every EmailQueryDto filter applies, results are
+ * ordered by relevance
+ */
+export class HybridSearchDto extends OmitType(EmailQueryDto, [
+  'sortBy',
+  'sortOrder',
+  'facets',
+] as const) {
+  @ApiProperty({
+    description: 'Search query',
+    example: 'internet bill last month',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  q: string;
+
+  @ApiPropertyOptional({
+    description: 'Weight of subject and sender matches; 0 turns them off',
+    minimum: 0,
+    maximum: 10,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  @IsOptional()
+  keywordWeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight of full-text body matches; 0 turns them off',
+    minimum: 0,
+    maximum: 10,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  @IsOptional()
+  fullTextWeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight of semantic matches; 0 turns them off',
+    minimum: 0,
+    maximum: 10,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  @IsOptional()
+  semanticWeight?: number;
+}
+
+export class HybridSearchResultDto extends EmailSummaryDto {
+  @ApiProperty({
+    description: 'Reciprocal rank fusion score, higher is more relevant',
+    example: 0.0325,
+  })
+  score: number;
+
+  @ApiProperty({
+    enum: SearchRetriever,
+    isArray: true,
+    description: 'Retrievers that found this email',
+    example: [SearchRetriever.KEYWORD, SearchRetriever.SEMANTIC],
+  })
+  matchedBy: SearchRetriever[];
+}
+
+export class HybridSearchMetaDto {
+  @ApiProperty({ example: 'internet bill last month' })
+  query: string;
+
+  @ApiProperty({
+    enum: SearchRetriever,
+    isArray: true,
+    description:
+      'Retrievers that ran; semantic is skipped when the query cannot be embedded',
+  })
+  retrievers: SearchRetriever[];
+
+  @ApiProperty({ example: 42 })
+  totalResults: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({ example: 3 })
+  totalPages: number;
+
+  @ApiProperty({ description: 'Server time spent on the search', example: 85 })
+  tookMs: number;
+}
+
+export class HybridSearchResponseDto {
+  @ApiProperty({ type: [HybridSearchResultDto] })
+  data: HybridSearchResultDto[];
+
+  @ApiProperty({ type: HybridSearchMetaDto })
+  meta: HybridSearchMetaDto;
+}
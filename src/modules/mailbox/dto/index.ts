@@ -1,5 +1,45 @@
+export {
+  BackfillHorizon,
+  BackfillProgressDto,
+  StartBackfillDto,
+} from './backfill.dto';
+export {
+  BundleActionResultDto,
+  BundleDto,
+  RebuildBundlesResultDto,
+} from './bundle.dto';
+export { ForwardEmailDto, ReplyEmailDto } from './compose.dto';
+export { ConnectImapMailboxDto } from './connect-imap-mailbox.dto';
 export { ConnectMailboxDto } from './connect-mailbox.dto';
-export { EmailQueryDto } from './email-query.dto';
+export {
+  CreateDeliveryWindowDto,
+  DeliveryWindowDto,
+  HeldMailStatsDto,
+  HeldWindowStatsDto,
+  UpdateDeliveryWindowDto,
+} from './delivery-window.dto';
+export {
+  CreateDraftDto,
+  DraftAttachmentDto,
+  DraftListResponseDto,
+  DraftMailboxQueryDto,
+  DraftQueryDto,
+  DraftResponseDto,
+  UpdateDraftDto,
+} from './draft.dto';
+export { EmailQueryDto, ReceivedWithin } from './email-query.dto';
+export {
+  EmbeddingModelStatsDto,
+  EmbeddingStatusDto,
+  IndexMaintenanceStatusDto,
+  ReembeddingStatusDto,
+  VectorIndexDto,
+} from './embedding-status.dto';
+export {
+  ActionItemDto,
+  EnrichMailboxDto,
+  EnrichmentQueuedDto,
+} from './enrichment.dto';
 export {
   AttachmentSummaryDto,
   EmailDetailDto,
@@ -7,8 +47,16 @@ export {
   PaginatedEmailsDto,
   PaginationLinksDto,
   PaginationMetaDto,
+  PriorityScoreDto,
 } from './email-response.dto';
 export { FuzzySearchDto, FuzzySearchField } from './fuzzy-search.dto';
+export {
+  HybridSearchDto,
+  HybridSearchMetaDto,
+  HybridSearchResponseDto,
+  HybridSearchResultDto,
+  SearchRetriever,
+} from './hybrid-search.dto';
 export {
   FuzzySearchMatchDto,
   FuzzySearchResponseDto,
@@ -18,19 +66,75 @@ export {
   ColumnDto,
   CreateColumnDto,
   MoveEmailToColumnDto,
+  ReconcileResultDto,
   UpdateColumnDto,
 } from './kanban.dto';
+export {
+  ApplyMailRuleDto,
+  ApplyMailRuleResultDto,
+  CreateMailRuleDto,
+  MailRuleActionsDto,
+  MailRuleConditionsDto,
+  MailRuleDto,
+  MailRulePreviewDto,
+  UpdateMailRuleDto,
+} from './mail-rule.dto';
 export {
   MailboxListResponseDto,
   MailboxResponseDto,
 } from './mailbox-response.dto';
 export { MailboxStatsDto } from './mailbox-stats.dto';
+export {
+  OutboxAttachmentDto,
+  OutboxMessageDto,
+  OutboxQueryDto,
+  PaginatedOutboxDto,
+  RescheduleOutboxDto,
+} from './outbox.dto';
+export {
+  DraftReplySuggestionDto,
+  ReplySuggestionDto,
+  ReplySuggestionsDto,
+  ReplySuggestionsQueryDto,
+} from './reply-suggestion.dto';
+export {
+  CreateSavedSearchDto,
+  SavedSearchDto,
+  SavedSearchFiltersDto,
+  SavedSearchListQueryDto,
+  UpdateSavedSearchDto,
+} from './saved-search.dto';
+export {
+  SearchFacetFiltersDto,
+  SearchFacetsDto,
+  SearchFacetValueDto,
+} from './search-facets.dto';
+export {
+  SearchHistoryEntryDto,
+  SearchHistoryQueryDto,
+} from './search-history.dto';
 export { SendEmailDto } from './send-email.dto';
 export { SemanticSearchDto } from './semantic-search.dto';
 export {
   SemanticSearchResponseDto,
   SemanticSearchResultDto,
 } from './semantic-search-response.dto';
+export {
+  PaginatedSyncJobsDto,
+  SyncJobQueryDto,
+  SyncJobResponseDto,
+} from './sync-job.dto';
 export { SummarizeEmailResponseDto } from './summarize-email.dto';
+export {
+  MarkThreadReadDto,
+  PaginatedThreadsDto,
+  SummarizeThreadResponseDto,
+  ThreadActionResultDto,
+  ThreadDetailDto,
+  ThreadParticipantDto,
+  ThreadQueryDto,
+  ThreadSummaryDto,
+} from './thread.dto';
 export { UpdateEmailDto } from './update-email.dto';
 export { GmailLabelDto, GmailLabelsResponseDto } from './gmail-label.dto';
+export { PubSubMessageDto, PubSubPushDto } from './pubsub-push.dto';
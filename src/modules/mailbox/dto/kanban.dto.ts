@@ -41,6 +41,16 @@ export class CreateColumnDto {
   @MaxLength(100)
   gmailLabelId?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Saved search whose emails the column shows, instead of a Gmail label',
+    example: 3,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  savedSearchId?: number;
+
   @ApiPropertyOptional({
     description: 'Color for the column in hex format',
     example: '#3B82F6',
@@ -83,6 +93,17 @@ export class UpdateColumnDto {
   @MaxLength(100)
   gmailLabelId?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Saved search whose emails the column shows; null stops showing it',
+    example: 3,
+    nullable: true,
+  })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  savedSearchId?: number | null;
+
   @ApiPropertyOptional({
     description: 'Color for the column in hex format',
     example: '#EF4444',
@@ -107,6 +128,14 @@ export class ColumnDto {
   @ApiProperty({ description: 'Associated Gmail Label ID', nullable: true })
   gmailLabelId: string | null;
 
+  @ApiProperty({
+    description:
+      'Saved search the column shows; list its emails with ' +
+      'GET /emails?savedSearchId=',
+    nullable: true,
+  })
+  savedSearchId: number | null;
+
   @ApiProperty({ description: 'Column color' })
   color: string;
 
@@ -147,3 +176,11 @@ export class MoveEmailToColumnDto {
   @IsOptional()
   archiveFromInbox?: boolean;
 }
+
+export class ReconcileResultDto {
+  @ApiProperty({ description: 'Emails checked', example: 1500 })
+  scanned: number;
+
+  @ApiProperty({ description: 'Emails moved to another column', example: 12 })
+  updated: number;
+}
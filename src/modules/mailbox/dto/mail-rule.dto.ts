@@ -0,0 +1,297 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { EmailCategory, TaskStatus } from '../entities';
+
+export class MailRuleConditionsDto {
+  @ApiPropertyOptional({
+    description: 'Sender address or display name contains',
+    example: 'billing@',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Any To, Cc or Bcc address contains',
+    example: 'team@example.com',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Subject contains',
+    example: 'Invoice',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  subject?: string;
+
+  @ApiPropertyOptional({
+    description: 'Subject or body contains',
+    example: 'unsubscribe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  text?: string;
+
+  @ApiPropertyOptional({
+    description: 'Has this Gmail label ID',
+    example: 'IMPORTANT',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  label?: string;
+
+  @ApiPropertyOptional({ enum: EmailCategory })
+  @IsEnum(EmailCategory)
+  @IsOptional()
+  category?: EmailCategory;
+
+  @ApiPropertyOptional({ description: 'Whether the email has attachments' })
+  @IsBoolean()
+  @IsOptional()
+  hasAttachment?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'AI urgency score (0-10) at least this high. New mail is scored when ' +
+      'it arrives; existing mail only matches once it has a score',
+    example: 7,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  @IsOptional()
+  minUrgency?: number;
+}
+
+export class MailRuleActionsDto {
+  @ApiPropertyOptional({
+    description: 'Move the card to this Kanban column',
+    example: 2,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  moveToColumnId?: number;
+
+  @ApiPropertyOptional({ enum: TaskStatus })
+  @IsEnum(TaskStatus)
+  @IsOptional()
+  taskStatus?: TaskStatus;
+
+  @ApiPropertyOptional({
+    description: 'Set the task deadline this many days after receipt',
+    example: 3,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  taskDeadlineDays?: number;
+
+  @ApiPropertyOptional({ description: 'Pin or unpin the email' })
+  @IsBoolean()
+  @IsOptional()
+  pin?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Snooze for this many hours',
+    example: 24,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(24 * 365)
+  @IsOptional()
+  snoozeHours?: number;
+
+  @ApiPropertyOptional({ description: 'Mark the email as read' })
+  @IsBoolean()
+  @IsOptional()
+  markRead?: boolean;
+
+  @ApiPropertyOptional({ description: 'Remove the email from the inbox' })
+  @IsBoolean()
+  @IsOptional()
+  archive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Gmail label ID to add',
+    example: 'Label_42',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  addLabel?: string;
+}
+
+export class CreateMailRuleDto {
+  @ApiProperty({
+    description: 'Name of the rule',
+    example: 'Invoices to Finance',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Only apply to this mailbox; all mailboxes when omitted',
+    example: 1,
+  })
+  @IsInt()
+  @IsOptional()
+  mailboxId?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsBoolean()
+  @IsOptional()
+  isEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Rules with a lower priority run first',
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  priority?: number;
+
+  @ApiProperty({
+    type: MailRuleConditionsDto,
+    description: 'Every condition that is set has to match',
+  })
+  @ValidateNested()
+  @Type(() => MailRuleConditionsDto)
+  conditions: MailRuleConditionsDto;
+
+  @ApiProperty({ type: MailRuleActionsDto })
+  @ValidateNested()
+  @Type(() => MailRuleActionsDto)
+  actions: MailRuleActionsDto;
+}
+
+export class UpdateMailRuleDto extends PartialType(CreateMailRuleDto) {}
+
+export class MailRuleDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'Invoices to Finance' })
+  name: string;
+
+  @ApiProperty({ nullable: true, example: null })
+  mailboxId: number | null;
+
+  @ApiProperty({ example: true })
+  isEnabled: boolean;
+
+  @ApiProperty({ example: 0 })
+  priority: number;
+
+  @ApiProperty({ type: MailRuleConditionsDto })
+  conditions: MailRuleConditionsDto;
+
+  @ApiProperty({ type: MailRuleActionsDto })
+  actions: MailRuleActionsDto;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class ApplyMailRuleDto {
+  @ApiPropertyOptional({
+    description: 'Only report which emails would change',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'nextBeforeId of the previous call, to continue there',
+    example: 10432,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  beforeId?: number;
+}
+
+export class MailRulePreviewDto {
+  @ApiProperty({ example: 42 })
+  emailId: number;
+
+  @ApiProperty({ nullable: true, example: 'Invoice #1001' })
+  subject: string | null;
+
+  @ApiProperty({ example: 'billing@example.com' })
+  fromEmail: string;
+
+  @ApiProperty()
+  receivedAt: Date;
+}
+
+export class ApplyMailRuleResultDto {
+  @ApiProperty({ example: 1 })
+  ruleId: number;
+
+  @ApiProperty({ example: true })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Emails checked', example: 1500 })
+  scanned: number;
+
+  @ApiProperty({ description: 'Emails matching the rule', example: 12 })
+  matched: number;
+
+  @ApiProperty({
+    description: 'Emails the actions were applied to (0 on a dry run)',
+    example: 12,
+  })
+  updated: number;
+
+  @ApiProperty({
+    type: [MailRulePreviewDto],
+    description: 'Up to 50 matching emails, most recently synced first',
+  })
+  preview: MailRulePreviewDto[];
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description:
+      'Pass as beforeId to continue with older mail; null once all mail ' +
+      'has been checked',
+    example: 8120,
+  })
+  nextBeforeId: number | null;
+}
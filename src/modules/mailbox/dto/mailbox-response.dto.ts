@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { MailboxProvider, MailboxSyncStatus } from '../entities';
+import { BackfillProgressDto } from './backfill.dto';
 
 export class MailboxResponseDto {
   @ApiProperty({ example: 1 })
@@ -26,6 +27,9 @@ export class MailboxResponseDto {
   @ApiProperty({ example: true })
   isActive: boolean;
 
+  @ApiProperty({ type: BackfillProgressDto })
+  backfill: BackfillProgressDto;
+
   @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
   createdAt: Date;
 }
@@ -0,0 +1,127 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDate, IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { OutboxStatus } from '../entities';
+import { PaginationLinksDto, PaginationMetaDto } from './email-response.dto';
+
+export class OutboxQueryDto {
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Filter by mailbox ID' })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  mailboxId?: number;
+
+  @ApiPropertyOptional({
+    enum: OutboxStatus,
+    description: 'Only return messages with this status',
+  })
+  @IsEnum(OutboxStatus)
+  @IsOptional()
+  status?: OutboxStatus;
+}
+
+export class RescheduleOutboxDto {
+  @ApiProperty({
+    description: 'New send time; times in the past send right away',
+    example: '2024-01-02T08:00:00.000Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  sendAt: Date;
+}
+
+export class OutboxAttachmentDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'document.pdf' })
+  filename: string;
+
+  @ApiProperty({ example: 'application/pdf' })
+  mimeType: string;
+
+  @ApiProperty({ example: 1024000 })
+  size: number;
+}
+
+export class OutboxMessageDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 1 })
+  mailboxId: number;
+
+  @ApiProperty({ enum: OutboxStatus, example: OutboxStatus.PENDING })
+  status: OutboxStatus;
+
+  @ApiProperty({ example: ['user@example.com'] })
+  to: string[];
+
+  @ApiProperty({ example: [] })
+  cc: string[];
+
+  @ApiProperty({ example: [] })
+  bcc: string[];
+
+  @ApiProperty({ example: 'Hello World' })
+  subject: string;
+
+  @ApiPropertyOptional({
+    description: 'Provider draft being sent, for POST /drafts/:id/send',
+  })
+  draftId: string | null;
+
+  @ApiProperty({
+    example: '2024-01-02T08:00:00.000Z',
+    description: 'When the message goes out; cancel before this to undo',
+  })
+  sendAt: Date;
+
+  @ApiProperty({ example: 0 })
+  attempts: number;
+
+  @ApiProperty({ example: null, nullable: true })
+  error: string | null;
+
+  @ApiProperty({
+    example: '18abc123def456',
+    nullable: true,
+    description: 'Provider message ID once sent',
+  })
+  sentMessageId: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  sentAt: Date | null;
+
+  @ApiProperty({ type: [OutboxAttachmentDto] })
+  attachments: OutboxAttachmentDto[];
+
+  @ApiProperty({ example: '2024-01-01T10:30:00.000Z' })
+  createdAt: Date;
+}
+
+export class PaginatedOutboxDto {
+  @ApiProperty({ type: [OutboxMessageDto] })
+  data: OutboxMessageDto[];
+
+  @ApiProperty({ type: PaginationMetaDto })
+  meta: PaginationMetaDto;
+
+  @ApiProperty({ type: PaginationLinksDto })
+  links: PaginationLinksDto;
+}
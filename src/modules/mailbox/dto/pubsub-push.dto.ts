@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class PubSubMessageDto {
+  @ApiPropertyOptional({
+    description:
+      'Base64-encoded JSON: {"emailAddress": "...", "historyId": 1234}',
+    example:
+      'eyJlbWFpbEFkZHJlc3MiOiJ1c2VyQGdtYWlsLmNvbSIsImhpc3RvcnlJZCI6MTIzNH0=',
+  })
+  @IsString()
+  @IsOptional()
+  data?: string;
+
+  @ApiPropertyOptional({ example: '2070443601311540' })
+  @IsString()
+  @IsOptional()
+  messageId?: string;
+
+  // Pub/Sub sends both camelCase and snake_case variants
+  @IsString()
+  @IsOptional()
+  message_id?: string;
+
+  @ApiPropertyOptional({ example: '2021-02-26T19:13:55.749Z' })
+  @IsString()
+  @IsOptional()
+  publishTime?: string;
+
+  @IsString()
+  @IsOptional()
+  publish_time?: string;
+
+  @IsObject()
+  @IsOptional()
+  attributes?: Record<string, string>;
+}
+
+export class PubSubPushDto {
+  @ApiProperty({ type: PubSubMessageDto })
+  @ValidateNested()
+  @Type(() => PubSubMessageDto)
+  message: PubSubMessageDto;
+
+  @ApiPropertyOptional({
+    example: 'projects/my-project/subscriptions/gmail-push',
+  })
+  @IsString()
+  @IsOptional()
+  subscription?: string;
+
+  // Set when the subscription has a dead-letter policy
+  @ApiPropertyOptional({ example: 1 })
+  @IsInt()
+  @IsOptional()
+  deliveryAttempt?: number;
+}
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ReplyTone } from '../entities';
+
+export class ReplySuggestionsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Generate new suggestions instead of returning cached ones',
+    default: false,
+  })
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  refresh?: boolean;
+}
+
+export class ReplySuggestionDto {
+  @ApiProperty({ enum: ReplyTone, example: ReplyTone.FRIENDLY })
+  tone: ReplyTone;
+
+  @ApiProperty({ example: 'Sounds great, see you on Thursday!' })
+  text: string;
+}
+
+export class ReplySuggestionsDto {
+  @ApiProperty({ example: 42 })
+  emailId: number;
+
+  @ApiProperty({
+    description: 'ISO 639-1 code of the language of the email',
+    example: 'en',
+  })
+  language: string;
+
+  @ApiProperty({ type: [ReplySuggestionDto] })
+  suggestions: ReplySuggestionDto[];
+
+  @ApiProperty({ example: '2024-01-02T09:00:00.000Z' })
+  generatedAt: Date;
+
+  @ApiProperty({
+    description: 'Whether the suggestions came from the cache',
+    example: true,
+  })
+  cached: boolean;
+}
+
+export class DraftReplySuggestionDto {
+  @ApiProperty({
+    enum: ReplyTone,
+    description: 'Suggestion to use',
+    example: ReplyTone.FRIENDLY,
+  })
+  @IsEnum(ReplyTone)
+  tone: ReplyTone;
+
+  @ApiPropertyOptional({
+    description: 'Edited text to use instead of the suggestion as is',
+    example: 'Sounds great, see you on Thursday at 3!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  @IsOptional()
+  body?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reply to everyone on the original',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  replyAll?: boolean;
+}
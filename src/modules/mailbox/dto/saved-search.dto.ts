@@ -0,0 +1,120 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  PartialType,
+  PickType,
+} from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import type { SavedSearchFilters } from '../entities';
+import { EmailQueryDto } from './email-query.dto';
+
+export class SavedSearchFiltersDto extends PickType(EmailQueryDto, [
+  'mailboxId',
+  'isRead',
+  'isStarred',
+  'hasAttachments',
+  'category',
+  'taskStatus',
+  'fromEmail',
+  'label',
+  'excludeLabel',
+  'isSnoozed',
+  'bundleId',
+] as const) {}
+
+export class CreateSavedSearchDto {
+  @ApiProperty({
+    description: 'Name of the saved search',
+    example: 'Invoices from Alice',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Gmail-style search query, as in the search filter',
+    example: 'from:alice has:attachment invoice',
+    maxLength: 500,
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  query?: string;
+
+  @ApiPropertyOptional({
+    type: SavedSearchFiltersDto,
+    description: 'Filters of GET /emails that also have to match',
+  })
+  @ValidateNested()
+  @Type(() => SavedSearchFiltersDto)
+  @IsOptional()
+  filters?: SavedSearchFiltersDto;
+
+  @ApiPropertyOptional({
+    description: 'Show the search in the sidebar as a folder',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isPinned?: boolean;
+}
+
+export class UpdateSavedSearchDto extends PartialType(CreateSavedSearchDto) {}
+
+export class SavedSearchListQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only the searches pinned to the sidebar',
+  })
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  pinned?: boolean;
+}
+
+export class SavedSearchDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'Invoices from Alice' })
+  name: string;
+
+  @ApiProperty({
+    example: 'from:alice has:attachment invoice',
+    nullable: true,
+  })
+  query: string | null;
+
+  @ApiProperty({ type: SavedSearchFiltersDto })
+  filters: SavedSearchFilters;
+
+  @ApiProperty({ example: false })
+  isPinned: boolean;
+
+  @ApiProperty({
+    description: 'Unread emails the search finds right now',
+    example: 3,
+  })
+  unreadCount: number;
+
+  @ApiProperty({
+    description: 'Emails the search finds right now',
+    example: 42,
+  })
+  totalCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { EmailQueryDto } from './email-query.dto';
+
+/**
+ * Filters shared by every search endpoint; each facet value narrows the
+ * results when passed as the parameter of the same name
+ */
+export class SearchFacetFiltersDto extends PickType(EmailQueryDto, [
+  'fromEmail',
+  'label',
+  'category',
+  'receivedWithin',
+  'hasAttachments',
+  'taskStatus',
+  'facets',
+] as const) {}
+
+export class SearchFacetValueDto {
+  @ApiProperty({ example: 'alice@example.com' })
+  value: string;
+
+  @ApiPropertyOptional({
+    description: 'Display name, for senders',
+    example: 'Alice',
+  })
+  label?: string;
+
+  @ApiProperty({ description: 'Matching emails', example: 12 })
+  count: number;
+}
+
+/**
+ * Match counts over all results, not just the current page, keyed by the
+ * filter parameter each facet sets
+ */
+export class SearchFacetsDto {
+  @ApiProperty({
+    type: [SearchFacetValueDto],
+    description: 'Most frequent senders',
+  })
+  fromEmail: SearchFacetValueDto[];
+
+  @ApiProperty({
+    type: [SearchFacetValueDto],
+    description: 'Most frequent labels',
+  })
+  label: SearchFacetValueDto[];
+
+  @ApiProperty({ type: [SearchFacetValueDto] })
+  category: SearchFacetValueDto[];
+
+  @ApiProperty({
+    type: [SearchFacetValueDto],
+    description: 'Date buckets; each includes the shorter ones',
+  })
+  receivedWithin: SearchFacetValueDto[];
+
+  @ApiProperty({
+    type: [SearchFacetValueDto],
+    description: 'true and false',
+  })
+  hasAttachments: SearchFacetValueDto[];
+
+  @ApiProperty({ type: [SearchFacetValueDto] })
+  taskStatus: SearchFacetValueDto[];
+}
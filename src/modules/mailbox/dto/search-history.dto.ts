@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class SearchHistoryQueryDto {
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+}
+
+export class SearchHistoryEntryDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ example: 'from:alice has:attachment' })
+  query: string;
+
+  @ApiProperty({
+    description: 'When the query was last searched for',
+    example: '2024-01-15T09:00:00.000Z',
+  })
+  lastSearchedAt: Date;
+}
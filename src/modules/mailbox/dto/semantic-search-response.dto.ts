@@ -1,5 +1,6 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { EmailSummaryDto } from './email-response.dto';
+import { SearchFacetsDto } from './search-facets.dto';
 
 export class SemanticSearchResultDto extends EmailSummaryDto {
   @ApiProperty({
@@ -27,4 +28,10 @@ export class SemanticSearchResponseDto {
     limit: number;
     totalPages: number;
   };
+
+  @ApiPropertyOptional({
+    description: 'Match counts, when requested with facets=true',
+    type: SearchFacetsDto,
+  })
+  facets?: SearchFacetsDto;
 }
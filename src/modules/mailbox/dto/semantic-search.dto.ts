@@ -1,8 +1,9 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
 import { Type } from 'class-transformer';
+import { SearchFacetFiltersDto } from './search-facets.dto';
 
-export class SemanticSearchDto {
+export class SemanticSearchDto extends SearchFacetFiltersDto {
   @ApiProperty({
     description: 'Search query (conceptual search)',
     example: 'money and invoices',
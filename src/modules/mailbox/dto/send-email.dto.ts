@@ -3,6 +3,7 @@ import {
   ArrayMaxSize,
   ArrayNotEmpty,
   IsArray,
+  IsDate,
   IsEmail,
   IsNotEmpty,
   IsOptional,
@@ -10,7 +11,7 @@ import {
   MaxLength,
   MinLength,
 } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 
 export class SendEmailDto {
   @ApiProperty({
@@ -144,4 +145,15 @@ export class SendEmailDto {
   @IsString()
   @IsOptional()
   threadId?: string;
+
+  @ApiProperty({
+    description:
+      'Send later at this time; sends still wait for the undo delay when omitted',
+    example: '2024-01-02T08:00:00.000Z',
+    required: false,
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  sendAt?: Date;
 }
@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { SyncJobStatus, SyncJobTrigger, SyncJobType } from '../entities';
+import { PaginationLinksDto, PaginationMetaDto } from './email-response.dto';
+
+export class SyncJobQueryDto {
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    enum: SyncJobStatus,
+    description: 'Only return jobs with this status',
+  })
+  @IsEnum(SyncJobStatus)
+  @IsOptional()
+  status?: SyncJobStatus;
+}
+
+export class SyncJobResponseDto {
+  @ApiProperty({ example: 1 })
+  id: number;
+
+  @ApiProperty({ enum: SyncJobType, example: SyncJobType.INCREMENTAL })
+  type: SyncJobType;
+
+  @ApiProperty({ enum: SyncJobStatus, example: SyncJobStatus.FAILED })
+  status: SyncJobStatus;
+
+  @ApiProperty({ enum: SyncJobTrigger, example: SyncJobTrigger.SCHEDULED })
+  trigger: SyncJobTrigger;
+
+  @ApiProperty({ example: 1 })
+  attempt: number;
+
+  @ApiProperty({ example: 'invalid_grant', nullable: true })
+  error: string | null;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  scheduledAt: Date;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z', nullable: true })
+  startedAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-01T00:00:03.000Z', nullable: true })
+  finishedAt: Date | null;
+
+  @ApiProperty({
+    example: 3120,
+    nullable: true,
+    description: 'Run time in milliseconds, null while running',
+  })
+  durationMs: number | null;
+
+  @ApiProperty({ example: 12 })
+  messagesAdded: number;
+
+  @ApiProperty({ example: 0 })
+  messagesDeleted: number;
+
+  @ApiProperty({ example: 3 })
+  messagesRelabelled: number;
+}
+
+export class PaginatedSyncJobsDto {
+  @ApiProperty({ type: [SyncJobResponseDto] })
+  data: SyncJobResponseDto[];
+
+  @ApiProperty({ type: PaginationMetaDto })
+  meta: PaginationMetaDto;
+
+  @ApiProperty({ type: PaginationLinksDto })
+  links: PaginationLinksDto;
+}
@@ -0,0 +1,168 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  EmailDetailDto,
+  PaginationLinksDto,
+  PaginationMetaDto,
+} from './email-response.dto';
+
+export class ThreadQueryDto {
+  @ApiPropertyOptional({ default: 1, minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Filter by mailbox ID' })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  mailboxId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only threads with at least one message carrying this label',
+    example: 'INBOX',
+  })
+  @IsString()
+  @IsOptional()
+  label?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'true: threads with unread messages, false: fully read threads',
+  })
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  hasUnread?: boolean;
+}
+
+export class ThreadParticipantDto {
+  @ApiProperty({ example: 'sender@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ example: 'John Doe' })
+  name: string | null;
+}
+
+export class ThreadSummaryDto {
+  @ApiProperty({ example: '18abc123def456' })
+  threadId: string;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Mailbox of the latest message',
+  })
+  mailboxId: number;
+
+  @ApiPropertyOptional({
+    example: 'Meeting tomorrow at 3pm',
+    description: 'Subject of the first message',
+  })
+  subject: string | null;
+
+  @ApiPropertyOptional({
+    example: 'Sounds good, see you then',
+    description: 'Snippet of the latest message',
+  })
+  snippet: string | null;
+
+  @ApiProperty({ type: [ThreadParticipantDto] })
+  participants: ThreadParticipantDto[];
+
+  @ApiProperty({ example: 4 })
+  messageCount: number;
+
+  @ApiProperty({ example: 1 })
+  unreadCount: number;
+
+  @ApiProperty({ example: true })
+  hasAttachments: boolean;
+
+  @ApiProperty({ example: false })
+  isStarred: boolean;
+
+  @ApiProperty({
+    example: ['INBOX', 'IMPORTANT'],
+    description: 'Labels of any message in the thread',
+  })
+  labels: string[];
+
+  @ApiProperty({ example: 42, description: 'ID of the latest message' })
+  latestEmailId: number;
+
+  @ApiProperty({ example: '2024-01-01T10:30:00.000Z' })
+  lastMessageAt: Date;
+}
+
+export class ThreadDetailDto extends ThreadSummaryDto {
+  @ApiProperty({
+    type: [EmailDetailDto],
+    description: 'Messages, oldest first',
+  })
+  messages: EmailDetailDto[];
+}
+
+export class PaginatedThreadsDto {
+  @ApiProperty({ type: [ThreadSummaryDto] })
+  data: ThreadSummaryDto[];
+
+  @ApiProperty({ type: PaginationMetaDto })
+  meta: PaginationMetaDto;
+
+  @ApiProperty({ type: PaginationLinksDto })
+  links: PaginationLinksDto;
+}
+
+export class MarkThreadReadDto {
+  @ApiPropertyOptional({
+    description: 'Mark every message read (true) or unread (false)',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isRead?: boolean = true;
+}
+
+export class ThreadActionResultDto {
+  @ApiProperty({ example: '18abc123def456' })
+  threadId: string;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Messages the action changed',
+  })
+  updated: number;
+}
+
+export class SummarizeThreadResponseDto {
+  @ApiProperty({ example: '18abc123def456' })
+  threadId: string;
+
+  @ApiProperty({
+    description: 'AI-generated summary of the whole conversation',
+    example:
+      'Alice proposed moving the launch to March; Bob agreed pending QA sign-off. Carol still needs to confirm the budget.',
+  })
+  summary: string;
+
+  @ApiProperty({ example: 4 })
+  messageCount: number;
+}
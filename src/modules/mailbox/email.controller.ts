@@ -25,32 +25,55 @@ import {
 } from '@nestjs/swagger';
 import type { Request } from 'express';
 import { CurrentUser } from '../auth/decorators';
+import { Idempotent } from '../idempotency/idempotent.decorator';
 import { User } from '../user/entities/user.entity';
 import {
-  AttachmentSummaryDto,
+  DraftReplySuggestionDto,
+  DraftResponseDto,
   EmailDetailDto,
   EmailQueryDto,
+  EnrichmentQueuedDto,
+  ForwardEmailDto,
   FuzzySearchDto,
   FuzzySearchResponseDto,
+  HybridSearchDto,
+  HybridSearchResponseDto,
   MoveEmailToColumnDto,
+  OutboxMessageDto,
   PaginatedEmailsDto,
+  ReplyEmailDto,
+  ReplySuggestionsDto,
+  ReplySuggestionsQueryDto,
   SendEmailDto,
   SummarizeEmailResponseDto,
   UpdateEmailDto,
   SemanticSearchDto,
   SemanticSearchResponseDto,
 } from './dto';
+import { ComposeService } from './compose.service';
 import { EmailService } from './email.service';
+import { ReplySuggestionService } from './reply-suggestion.service';
+import { SearchHistoryService } from './search-history.service';
+import { SearchService } from './search.service';
 
 @ApiTags('Emails')
 @ApiBearerAuth()
 @Controller('emails')
 export class EmailController {
-  constructor(private readonly emailService: EmailService) {}
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly composeService: ComposeService,
+    private readonly replySuggestionService: ReplySuggestionService,
+    private readonly searchService: SearchService,
+    private readonly searchHistoryService: SearchHistoryService,
+  ) {}
 
   @Get()
   @ApiOperation({
     summary: 'Query or list emails with pagination and filtering',
+    description:
+      'With facets=true, also returns match counts over all results by ' +
+      'sender, label, category, date, attachments and task status.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -63,7 +86,36 @@ export class EmailController {
     @Req() request: Request,
   ): Promise<PaginatedEmailsDto> {
     const baseUrl = `${request.protocol}://${request.get('host')}${request.path}`;
-    return this.emailService.findAll(user.id, query, baseUrl);
+    const result = await this.emailService.findAll(user.id, query, baseUrl);
+    await this.searchHistoryService.record(user.id, query.search, query.page);
+    return result;
+  }
+
+  @Get('search')
+  @ApiOperation({
+    summary: 'Hybrid search: keyword, full-text and semantic',
+    description:
+      'Runs trigram matching on subject and sender, full-text search on ' +
+      'subject, summary and body, and vector similarity, then merges them ' +
+      'with reciprocal rank fusion. Every filter of GET /emails applies. ' +
+      'Each hit lists the retrievers that found it.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Search results, most relevant first',
+    type: HybridSearchResponseDto,
+  })
+  async search(
+    @CurrentUser() user: User,
+    @Query() searchDto: HybridSearchDto,
+  ): Promise<HybridSearchResponseDto> {
+    const result = await this.searchService.search(user.id, searchDto);
+    await this.searchHistoryService.record(
+      user.id,
+      searchDto.q,
+      searchDto.page,
+    );
+    return result;
   }
 
   @Get('search/fuzzy')
@@ -72,7 +124,8 @@ export class EmailController {
     description:
       'Search emails using PostgreSQL pg_trgm for similarity matching. ' +
       'Supports typos (e.g., "markting" finds "marketing") and partial matches ' +
-      '(e.g., "Nguy" finds "Nguyễn"). Returns results ranked by relevance.',
+      '(e.g., "Nguy" finds "Nguyễn"). Returns results ranked by relevance. ' +
+      'facets=true adds match counts over all results.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -83,23 +136,28 @@ export class EmailController {
     @CurrentUser() user: User,
     @Query() searchDto: FuzzySearchDto,
   ): Promise<FuzzySearchResponseDto> {
-    return this.emailService.fuzzySearch(user.id, searchDto);
+    const result = await this.emailService.fuzzySearch(user.id, searchDto);
+    await this.searchHistoryService.record(
+      user.id,
+      searchDto.q,
+      searchDto.page,
+    );
+    return result;
   }
 
   @Post('send')
+  @Idempotent()
   @UseInterceptors(FilesInterceptor('attachments', 10)) // Max 10 files
   @ApiOperation({
-    summary: 'Send an email via Gmail API with optional attachments',
+    summary: 'Queue an email with optional attachments for sending',
+    description:
+      'The message goes out after the undo delay, or at sendAt when given. ' +
+      'Cancel it with DELETE /outbox/:id until then.',
   })
   @ApiResponse({
     status: HttpStatus.CREATED,
-    description: 'Email sent successfully',
-    schema: {
-      type: 'object',
-      properties: {
-        messageId: { type: 'string', description: 'Gmail message ID' },
-      },
-    },
+    description: 'Email queued in the outbox',
+    type: OutboxMessageDto,
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -109,7 +167,7 @@ export class EmailController {
     @CurrentUser() user: User,
     @Body() sendDto: SendEmailDto,
     @UploadedFiles() files?: MulterFile[],
-  ): Promise<{ messageId: string }> {
+  ): Promise<OutboxMessageDto> {
     return this.emailService.sendEmail(user.id, sendDto, files);
   }
 
@@ -130,7 +188,7 @@ export class EmailController {
     @Param('id', ParseIntPipe) id: number,
   ): Promise<EmailDetailDto> {
     const email = await this.emailService.findOne(user.id, id);
-    return this.toDetailDto(email);
+    return this.emailService.toDetailDto(email);
   }
 
   @Patch(':id')
@@ -153,7 +211,7 @@ export class EmailController {
     @Body() updateDto: UpdateEmailDto,
   ): Promise<EmailDetailDto> {
     const email = await this.emailService.update(user.id, id, updateDto);
-    return this.toDetailDto(email);
+    return this.emailService.toDetailDto(email);
   }
 
   @Delete(':id')
@@ -194,12 +252,177 @@ export class EmailController {
     return this.emailService.summarizeEmail(user.id, id);
   }
 
+  @Post(':id/enrich')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Re-run AI enrichment for an email',
+    description:
+      'Queues the email for urgency scoring, action item extraction and ' +
+      '(if enabled for the user) a summary.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Email queued',
+    type: EnrichmentQueuedDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'AI enrichment is turned off for the user',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Email not found',
+  })
+  async enrich(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<EnrichmentQueuedDto> {
+    return this.emailService.enrichEmail(user.id, id);
+  }
+
+  @Get(':id/reply-suggestions')
+  @ApiOperation({
+    summary: 'Suggest quick replies to an email',
+    description:
+      'One short reply per tone (formal, friendly, brief), written in the ' +
+      "email's language with the earlier thread as context. Suggestions are " +
+      'cached per email; pass refresh=true to generate new ones.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({ status: HttpStatus.OK, type: ReplySuggestionsDto })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Email not found or has no content',
+  })
+  async getReplySuggestions(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ReplySuggestionsQueryDto,
+  ): Promise<ReplySuggestionsDto> {
+    return this.replySuggestionService.getSuggestions(
+      user.id,
+      id,
+      query.refresh ?? false,
+    );
+  }
+
+  @Post(':id/reply-suggestions/draft')
+  @ApiOperation({
+    summary: 'Save a suggested reply as a draft',
+    description:
+      'Creates a threaded reply draft in the mailbox from the suggestion of ' +
+      'the chosen tone, or from an edited body, for review before sending',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({ status: HttpStatus.CREATED, type: DraftResponseDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Mailbox does not support drafts or nobody to reply to',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Email or suggestion not found',
+  })
+  async draftReplySuggestion(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: DraftReplySuggestionDto,
+  ): Promise<DraftResponseDto> {
+    return this.replySuggestionService.createDraft(user.id, id, dto);
+  }
+
+  @Post(':id/reply')
+  @Idempotent()
+  @UseInterceptors(FilesInterceptor('attachments', 10))
+  @ApiOperation({
+    summary: 'Reply to the sender of an email',
+    description:
+      'Recipients, subject and threading headers are taken from the original, ' +
+      'which is quoted below the reply. Queued like POST /emails/send.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Reply queued in the outbox',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Email not found',
+  })
+  async reply(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() replyDto: ReplyEmailDto,
+    @UploadedFiles() files?: MulterFile[],
+  ): Promise<OutboxMessageDto> {
+    return this.composeService.reply(user.id, id, replyDto, files);
+  }
+
+  @Post(':id/reply-all')
+  @Idempotent()
+  @UseInterceptors(FilesInterceptor('attachments', 10))
+  @ApiOperation({
+    summary: 'Reply to the sender and all recipients of an email',
+    description:
+      "The mailbox's own address is left out of the recipients. " +
+      'Queued like POST /emails/send.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Reply queued in the outbox',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Email not found',
+  })
+  async replyAll(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() replyDto: ReplyEmailDto,
+    @UploadedFiles() files?: MulterFile[],
+  ): Promise<OutboxMessageDto> {
+    return this.composeService.reply(user.id, id, replyDto, files, true);
+  }
+
+  @Post(':id/forward')
+  @Idempotent()
+  @UseInterceptors(FilesInterceptor('attachments', 10))
+  @ApiOperation({
+    summary: 'Forward an email',
+    description:
+      'The original is included below a forwarded-message header, with its ' +
+      'attachments unless includeAttachments is false. Queued like POST /emails/send.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Forward queued in the outbox',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Email not found',
+  })
+  async forward(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() forwardDto: ForwardEmailDto,
+    @UploadedFiles() files?: MulterFile[],
+  ): Promise<OutboxMessageDto> {
+    return this.composeService.forward(user.id, id, forwardDto, files);
+  }
+
   @Get('search/semantic')
   @ApiOperation({
     summary: 'Semantic search using vector embeddings',
     description:
       'Search emails by conceptual meaning rather than exact keywords. ' +
-      'Example: "money" finds emails about "invoice", "salary", "price".',
+      'Example: "money" finds emails about "invoice", "salary", "price". ' +
+      'facets=true adds match counts over all results.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -210,14 +433,21 @@ export class EmailController {
     @CurrentUser() user: User,
     @Query() searchDto: SemanticSearchDto,
   ): Promise<SemanticSearchResponseDto> {
-    return this.emailService.semanticSearch(user.id, searchDto);
+    const result = await this.emailService.semanticSearch(user.id, searchDto);
+    await this.searchHistoryService.record(
+      user.id,
+      searchDto.q,
+      searchDto.page,
+    );
+    return result;
   }
 
   @Get('search/suggestions')
   @ApiOperation({
     summary: 'Get search suggestions for auto-complete',
     description:
-      'Returns suggestions based on frequent contacts, keywords, and subjects. ' +
+      'Returns suggestions based on frequent contacts, keywords, subjects ' +
+      'and recent searches. ' +
       'Used for type-ahead/auto-complete in the search bar.',
   })
   @ApiResponse({
@@ -283,6 +513,10 @@ export class EmailController {
     status: HttpStatus.OK,
     description: 'Email moved successfully and Gmail labels synchronized',
   })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The column shows a saved search',
+  })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Email or column not found',
@@ -301,45 +535,4 @@ export class EmailController {
     );
     return { message: 'Email moved and Gmail labels synchronized' };
   }
-
-  private toDetailDto(email: import('./entities').Email): EmailDetailDto {
-    return {
-      id: email.id,
-      mailboxId: email.mailboxId,
-      gmailMessageId: email.gmailMessageId,
-      gmailThreadId: email.gmailThreadId,
-      subject: email.subject,
-      snippet: email.snippet,
-      fromEmail: email.fromEmail,
-      fromName: email.fromName,
-      toEmails: email.toEmails,
-      ccEmails: email.ccEmails,
-      bodyHtml: email.bodyHtml,
-      bodyText: email.bodyText,
-      receivedAt: email.receivedAt,
-      isRead: email.isRead,
-      isStarred: email.isStarred,
-      hasAttachments: email.hasAttachments,
-      labels: email.labels,
-      category: email.category,
-      taskStatus: email.taskStatus,
-      taskDeadline: email.taskDeadline,
-      isPinned: email.isPinned,
-      columnId: email.columnId,
-      isSnoozed: email.isSnoozed,
-      snoozedUntil: email.snoozedUntil,
-      aiSummary: email.aiSummary,
-      aiActionItems: email.aiActionItems,
-      aiUrgencyScore: email.aiUrgencyScore,
-      attachments: (email.attachments || []).map(
-        (att): AttachmentSummaryDto => ({
-          id: att.id,
-          filename: att.filename,
-          mimeType: att.mimeType,
-          size: Number(att.size),
-          isInline: att.isInline,
-        }),
-      ),
-    };
-  }
 }
@@ -0,0 +1,148 @@
+import { ReceivedWithin } from './dto';
+import { EmailService } from './email.service';
+
+describe('EmailService - search facets', () => {
+  const listQuery = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn().mockResolvedValue([[], 0]),
+  };
+  const emailRepository = {
+    query: jest.fn(),
+    createQueryBuilder: jest.fn(() => listQuery),
+  };
+  const mailboxRepository = { find: jest.fn() };
+  const embeddingService = { embedQuery: jest.fn() };
+
+  const facetRows = [
+    { facet: 'label', value: 'INBOX', label: null, count: '4' },
+    { facet: 'label', value: 'Label_42', label: null, count: '9' },
+    {
+      facet: 'fromEmail',
+      value: 'alice@example.com',
+      label: 'Alice',
+      count: '3',
+    },
+    { facet: 'receivedWithin', value: 'past_year', label: null, count: '9' },
+    { facet: 'receivedWithin', value: 'past_week', label: null, count: '2' },
+    { facet: 'category', value: null, label: null, count: '1' },
+  ];
+
+  let service: EmailService;
+
+  beforeEach(() => {
+    service = new EmailService(
+      emailRepository as never,
+      mailboxRepository as never,
+      {} as never,
+      {} as never,
+      {} as never,
+      {} as never,
+      {} as never,
+      {} as never,
+      {} as never,
+      {} as never,
+      embeddingService as never,
+    );
+
+    mailboxRepository.find.mockResolvedValue([{ id: 1 }]);
+    embeddingService.embedQuery.mockResolvedValue({
+      vector: '[0.1,0.2]',
+      model: 'stub-embedding',
+      dimensions: 2,
+    });
+    emailRepository.query.mockImplementation((sql: string) =>
+      Promise.resolve(
+        sql.includes('WITH hits')
+          ? facetRows
+          : sql.includes('COUNT(*) as total')
+            ? [{ total: '9' }]
+            : [],
+      ),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const calls = () => emailRepository.query.mock.calls as [string, unknown[]][];
+
+  it('counts every facet over all matches in one query', async () => {
+    const result = await service.semanticSearch(1, {
+      q: 'invoice',
+      facets: true,
+    });
+
+    expect(emailRepository.query).toHaveBeenCalledTimes(3);
+    const [, [countSql, countParams], [facetSql, facetParams]] = calls();
+    expect(facetSql).toContain('WITH hits AS MATERIALIZED');
+    expect(facetSql).toContain(
+      countSql.replace('SELECT COUNT(*) as total', ''),
+    );
+    expect(facetParams.slice(0, countParams.length)).toEqual(countParams);
+
+    expect(result.facets).toEqual({
+      fromEmail: [{ value: 'alice@example.com', label: 'Alice', count: 3 }],
+      label: [
+        { value: 'Label_42', count: 9 },
+        { value: 'INBOX', count: 4 },
+      ],
+      category: [],
+      receivedWithin: [
+        { value: ReceivedWithin.PAST_WEEK, count: 2 },
+        { value: ReceivedWithin.PAST_YEAR, count: 9 },
+      ],
+      hasAttachments: [],
+      taskStatus: [],
+    });
+  });
+
+  it('narrows the results to the picked facets', async () => {
+    await service.fuzzySearch(1, {
+      q: 'invoice',
+      fromEmail: 'Alice@Example.com',
+      label: 'Label_42',
+      receivedWithin: ReceivedWithin.OLDER,
+      hasAttachments: false,
+    });
+
+    const [countSql, countParams] = calls()[1];
+    expect(countSql).toContain('lower(email."fromEmail") = lower(');
+    expect(countSql).toContain("= ANY(string_to_array(email.labels, ','))");
+    expect(countSql).toContain('email."receivedAt" <');
+    expect(countSql).toContain('email."hasAttachments" =');
+    expect(countParams).toEqual(
+      expect.arrayContaining([
+        'Alice@Example.com',
+        'Label_42',
+        false,
+        expect.any(Date),
+      ]),
+    );
+  });
+
+  it('filters the email list by sender the same way', async () => {
+    await service.findAll(
+      1,
+      { fromEmail: 'Alice@Example.com' },
+      'http://localhost/emails',
+    );
+
+    expect(listQuery.andWhere).toHaveBeenCalledWith(
+      'lower(email.fromEmail) = lower(:fromEmail)',
+      { fromEmail: 'Alice@Example.com' },
+    );
+  });
+
+  it('does not count facets unless asked to', async () => {
+    const result = await service.semanticSearch(1, { q: 'invoice' });
+
+    expect(result.facets).toBeUndefined();
+    expect(emailRepository.query).toHaveBeenCalledTimes(2);
+  });
+});
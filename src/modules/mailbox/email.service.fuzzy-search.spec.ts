@@ -3,7 +3,8 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 import { EmailService } from './email.service';
 import { Email, Mailbox } from './entities';
 import { AiService } from './providers/ai.service';
-import { GmailService } from './providers/gmail.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+import { OutboxService } from './outbox.service';
 import { FuzzySearchDto, FuzzySearchField } from './dto';
 
 describe('EmailService - Fuzzy Search', () => {
@@ -18,7 +19,7 @@ describe('EmailService - Fuzzy Search', () => {
     find: jest.fn(),
   };
 
-  const mockGmailService = {};
+  const mockOutboxService = {};
   const mockAiService = {};
 
   beforeEach(async () => {
@@ -34,8 +35,12 @@ describe('EmailService - Fuzzy Search', () => {
           useValue: mockMailboxRepository,
         },
         {
-          provide: GmailService,
-          useValue: mockGmailService,
+          provide: OutboxService,
+          useValue: mockOutboxService,
+        },
+        {
+          provide: MailProviderRegistry,
+          useValue: {},
         },
         {
           provide: AiService,
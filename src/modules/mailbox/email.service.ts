@@ -1,16 +1,28 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Brackets, IsNull, Repository } from 'typeorm';
+import { IsNull, Repository, SelectQueryBuilder } from 'typeorm';
 import type { File as MulterFile } from 'multer';
 import {
+  AttachmentSummaryDto,
+  EmailDetailDto,
   EmailQueryDto,
   EmailSummaryDto,
+  EnrichmentQueuedDto,
   FuzzySearchDto,
   FuzzySearchField,
   FuzzySearchResponseDto,
   FuzzySearchResultDto,
   MailboxStatsDto,
+  OutboxMessageDto,
   PaginatedEmailsDto,
+  ReceivedWithin,
+  SearchFacetFiltersDto,
+  SearchFacetsDto,
   SemanticSearchDto,
   SemanticSearchResponseDto,
   SemanticSearchResultDto,
@@ -18,9 +30,74 @@ import {
   SummarizeEmailResponseDto,
   UpdateEmailDto,
 } from './dto';
-import { ColumnConfig, Email, Mailbox } from './entities';
+import { ColumnConfig, Email, Mailbox, SavedSearch } from './entities';
 import { AiService } from './providers/ai.service';
-import { GmailService } from './providers/gmail.service';
+import {
+  cosineDistanceSql,
+  EmbeddingService,
+} from './providers/embedding.service';
+import { EnrichmentService } from './providers/enrichment.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+import {
+  PRIORITY_COLUMNS,
+  PriorityRankingService,
+} from './providers/priority-ranking.service';
+import {
+  parseSearchQuery,
+  SearchQuerySyntaxError,
+  searchQueryToSql,
+} from './providers/search-query-parser';
+import { OutboxService } from './outbox.service';
+import { SearchHistoryService } from './search-history.service';
+
+// Suggested from the search history
+const RECENT_SEARCH_SUGGESTIONS = 5;
+
+// Senders and labels listed in facets, most frequent first
+const FACET_VALUE_LIMIT = 10;
+
+// What facets are counted on; the query of the matches has to select these
+const FACET_COLUMNS =
+  'email."fromEmail", email."fromName", email.labels, email.category, ' +
+  'email."receivedAt", email."hasAttachments", email."taskStatus"';
+
+const RECEIVED_WITHIN_DAYS: Record<ReceivedWithin, number> = {
+  [ReceivedWithin.PAST_DAY]: 1,
+  [ReceivedWithin.PAST_WEEK]: 7,
+  [ReceivedWithin.PAST_MONTH]: 30,
+  [ReceivedWithin.PAST_YEAR]: 365,
+  [ReceivedWithin.OLDER]: 365,
+};
+
+/**
+ * Condition of a date bucket on a receivedAt column; bound is the
+ * placeholder of receivedWithinBound
+ */
+function receivedWithinSql(
+  bucket: ReceivedWithin,
+  column: string,
+  bound: string,
+): string {
+  return `${column} ${bucket === ReceivedWithin.OLDER ? '<' : '>='} ${bound}`;
+}
+
+function receivedWithinBound(bucket: ReceivedWithin, now: Date): Date {
+  return new Date(
+    now.getTime() - RECEIVED_WITHIN_DAYS[bucket] * 24 * 60 * 60 * 1000,
+  );
+}
+
+interface FacetRow {
+  facet: keyof SearchFacetsDto;
+  value: string | null;
+  label: string | null;
+  count: string;
+}
+
+type EmailFilters = Omit<
+  EmailQueryDto,
+  'page' | 'limit' | 'sortBy' | 'sortOrder'
+>;
 
 @Injectable()
 export class EmailService {
@@ -33,8 +110,15 @@ export class EmailService {
     private readonly mailboxRepository: Repository<Mailbox>,
     @InjectRepository(ColumnConfig)
     private readonly columnConfigRepository: Repository<ColumnConfig>,
-    private readonly gmailService: GmailService,
+    @InjectRepository(SavedSearch)
+    private readonly savedSearchRepository: Repository<SavedSearch>,
+    private readonly mailProviders: MailProviderRegistry,
     private readonly aiService: AiService,
+    private readonly outboxService: OutboxService,
+    private readonly priorityRanking: PriorityRankingService,
+    private readonly enrichmentService: EnrichmentService,
+    private readonly searchHistoryService: SearchHistoryService,
+    private readonly embeddingService: EmbeddingService,
   ) {}
 
   async findAll(
@@ -51,6 +135,67 @@ export class EmailService {
       return this.emptyPaginatedResponse(page, limit, baseUrl, query);
     }
 
+    const qb = this.buildFilteredQuery(
+      userMailboxIds,
+      await this.withSavedSearch(userId, query),
+    );
+
+    if (!qb) {
+      return this.emptyPaginatedResponse(page, limit, baseUrl, query);
+    }
+
+    const facets = query.facets
+      ? await this.countFacets(
+          ...qb.clone().select(FACET_COLUMNS).getQueryAndParameters(),
+        )
+      : undefined;
+
+    if (query.sortBy === 'priority') {
+      return {
+        ...(await this.findAllByPriority(qb, userMailboxIds, query, baseUrl)),
+        facets,
+      };
+    }
+
+    const sortField = `email.${query.sortBy || 'receivedAt'}`;
+    qb.orderBy(sortField, query.sortOrder || 'DESC');
+
+    qb.addOrderBy('email.isPinned', 'DESC');
+
+    const [emails, totalItems] = await qb
+      .skip(skip)
+      .take(limit)
+      .getManyAndCount();
+
+    this.logger.debug(
+      `Query returned ${emails.length} emails out of ${totalItems} total`,
+    );
+
+    const totalPages = Math.ceil(totalItems / limit);
+
+    return {
+      data: emails.map((email) => this.toSummaryDto(email)),
+      meta: {
+        itemsPerPage: limit,
+        totalItems,
+        currentPage: page,
+        totalPages,
+      },
+      links: this.buildPaginationLinks(baseUrl, page, totalPages, limit, query),
+      facets,
+    };
+  }
+
+  /**
+   * Emails of the given mailboxes matching the filters of a list query;
+   * null when the query names a mailbox that is not among them
+   * Sorting and paging are left to the caller; a saved search has to be
+   * folded in with withSavedSearch first
+   */
+  buildFilteredQuery(
+    userMailboxIds: number[],
+    query: EmailFilters,
+  ): SelectQueryBuilder<Email> | null {
     const qb = this.emailRepository
       .createQueryBuilder('email')
       .where('email.mailboxId IN (:...mailboxIds)', {
@@ -69,7 +214,7 @@ export class EmailService {
 
     if (query.mailboxId) {
       if (!userMailboxIds.includes(query.mailboxId)) {
-        return this.emptyPaginatedResponse(page, limit, baseUrl, query);
+        return null;
       }
       qb.andWhere('email.mailboxId = :mailboxId', {
         mailboxId: query.mailboxId,
@@ -77,23 +222,10 @@ export class EmailService {
     }
 
     if (query.search) {
-      qb.andWhere(
-        new Brackets((sub) => {
-          sub
-            .where('email.subject ILIKE :search', {
-              search: `%${query.search}%`,
-            })
-            .orWhere('email.snippet ILIKE :search', {
-              search: `%${query.search}%`,
-            })
-            .orWhere('email.fromEmail ILIKE :search', {
-              search: `%${query.search}%`,
-            })
-            .orWhere('email.fromName ILIKE :search', {
-              search: `%${query.search}%`,
-            });
-        }),
-      );
+      const search = this.parseSearch(query.search);
+      if (search) {
+        qb.andWhere(search.where, search.parameters);
+      }
     }
 
     if (query.isRead !== undefined) {
@@ -122,9 +254,10 @@ export class EmailService {
       });
     }
 
+    // Exact like the sender facet, whose values are lowercased addresses
     if (query.fromEmail) {
-      qb.andWhere('email.fromEmail ILIKE :fromEmail', {
-        fromEmail: `%${query.fromEmail}%`,
+      qb.andWhere('lower(email.fromEmail) = lower(:fromEmail)', {
+        fromEmail: query.fromEmail,
       });
     }
 
@@ -148,25 +281,248 @@ export class EmailService {
       });
     }
 
-    const sortField = `email.${query.sortBy || 'receivedAt'}`;
-    qb.orderBy(sortField, query.sortOrder || 'DESC');
+    if (query.bundleId) {
+      qb.andWhere('email.bundleId = :bundleId', { bundleId: query.bundleId });
+    }
 
-    qb.addOrderBy('email.isPinned', 'DESC');
+    if (query.receivedWithin) {
+      qb.andWhere(
+        receivedWithinSql(
+          query.receivedWithin,
+          'email.receivedAt',
+          ':receivedBound',
+        ),
+        {
+          receivedBound: receivedWithinBound(query.receivedWithin, new Date()),
+        },
+      );
+    }
 
+    // Held mail shows up once its delivery window opens
+    if (!query.includeHeld) {
+      qb.andWhere('(email.heldUntil IS NULL OR email.heldUntil <= :now)', {
+        now: new Date(),
+      });
+    }
 
-    const [emails, totalItems] = await qb
-      .skip(skip)
-      .take(limit)
-      .getManyAndCount();
+    return qb;
+  }
 
-    this.logger.debug(
-      `Query returned ${emails.length} emails out of ${totalItems} total`,
+  /**
+   * A list query with the saved search it names folded in: the saved
+   * filters apply unless the query sets them too, and both search queries
+   * have to match
+   * @throws NotFoundException when the saved search is not the user's
+   */
+  async withSavedSearch<T extends EmailFilters>(
+    userId: number,
+    query: T,
+  ): Promise<T> {
+    if (!query.savedSearchId) {
+      return query;
+    }
+
+    const saved = await this.savedSearchRepository.findOne({
+      where: { id: query.savedSearchId, userId },
+    });
+    if (!saved) {
+      throw new NotFoundException(
+        `Saved search ${query.savedSearchId} not found`,
+      );
+    }
+
+    const given = Object.fromEntries(
+      Object.entries(query).filter(([, value]) => value !== undefined),
     );
+    // The saved query goes last so syntax errors point into the given one
+    const search = [query.search, saved.query && `(${saved.query})`]
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      ...saved.filters,
+      ...given,
+      search: search || undefined,
+    } as T;
+  }
+
+  /**
+   * SQL condition for a Gmail-style search query; null when it has no terms
+   * @throws BadRequestException with the position of a syntax error
+   */
+  parseSearch(search: string) {
+    try {
+      const node = parseSearchQuery(search);
+      return node && searchQueryToSql(node);
+    } catch (error) {
+      if (error instanceof SearchQuerySyntaxError) {
+        throw new BadRequestException({
+          message: `Invalid search query: ${error.message}`,
+          details: { start: error.start, end: error.end },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Conditions of the facet filters for the raw SQL searches, each
+   * starting with AND
+   */
+  private facetFilterSql(
+    filters: SearchFacetFiltersDto,
+    addParam: (value: unknown) => string,
+  ): string {
+    const conditions: string[] = [];
 
+    // Same sender match as buildFilteredQuery
+    if (filters.fromEmail) {
+      conditions.push(
+        `lower(email."fromEmail") = lower(${addParam(filters.fromEmail)})`,
+      );
+    }
+    if (filters.label) {
+      conditions.push(
+        `${addParam(filters.label)} = ANY(string_to_array(email.labels, ','))`,
+      );
+    }
+    if (filters.category) {
+      conditions.push(`email.category = ${addParam(filters.category)}`);
+    }
+    if (filters.receivedWithin) {
+      conditions.push(
+        receivedWithinSql(
+          filters.receivedWithin,
+          'email."receivedAt"',
+          addParam(receivedWithinBound(filters.receivedWithin, new Date())),
+        ),
+      );
+    }
+    if (filters.hasAttachments !== undefined) {
+      conditions.push(
+        `email."hasAttachments" = ${addParam(filters.hasAttachments)}`,
+      );
+    }
+    if (filters.taskStatus) {
+      conditions.push(`email."taskStatus" = ${addParam(filters.taskStatus)}`);
+    }
+
+    return conditions.map((condition) => ` AND ${condition}`).join('');
+  }
+
+  /**
+   * Facet counts over all matches of a query selecting FACET_COLUMNS
+   * The matches are read once into a CTE and every facet is counted from
+   * there, so facets cost one scan however many there are
+   */
+  private async countFacets(
+    matchesSql: string,
+    matchesParams: unknown[],
+  ): Promise<SearchFacetsDto> {
+    const params = [...matchesParams];
+    const addParam = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const valueLimit = addParam(FACET_VALUE_LIMIT);
+    const now = new Date();
+    const buckets = Object.values(ReceivedWithin)
+      .map(
+        (bucket) =>
+          `('${bucket}', ${receivedWithinSql(
+            bucket,
+            'hits."receivedAt"',
+            addParam(receivedWithinBound(bucket, now)),
+          )})`,
+      )
+      .join(', ');
+
+    const rows = await this.emailRepository.query<FacetRow[]>(
+      `
+      WITH hits AS MATERIALIZED (${matchesSql})
+      (SELECT 'fromEmail' AS facet, lower(hits."fromEmail") AS value,
+          MAX(hits."fromName") AS label, COUNT(*) AS count
+        FROM hits GROUP BY 2 ORDER BY 4 DESC, 2 LIMIT ${valueLimit})
+      UNION ALL
+      (SELECT 'label', label.value, NULL, COUNT(*)
+        FROM hits
+        CROSS JOIN unnest(string_to_array(hits.labels, ',')) AS label(value)
+        GROUP BY 2 ORDER BY 4 DESC, 2 LIMIT ${valueLimit})
+      UNION ALL
+      SELECT 'category', hits.category::text, NULL, COUNT(*)
+        FROM hits GROUP BY 2
+      UNION ALL
+      SELECT 'receivedWithin', bucket.value, NULL, COUNT(*)
+        FROM hits
+        CROSS JOIN LATERAL (VALUES ${buckets}) AS bucket(value, hit)
+        WHERE bucket.hit GROUP BY 2
+      UNION ALL
+      SELECT 'hasAttachments', hits."hasAttachments"::text, NULL, COUNT(*)
+        FROM hits GROUP BY 2
+      UNION ALL
+      SELECT 'taskStatus', hits."taskStatus"::text, NULL, COUNT(*)
+        FROM hits GROUP BY 2
+      `,
+      params,
+    );
+
+    const facets: SearchFacetsDto = {
+      fromEmail: [],
+      label: [],
+      category: [],
+      receivedWithin: [],
+      hasAttachments: [],
+      taskStatus: [],
+    };
+    for (const row of rows) {
+      if (row.value === null) continue;
+      facets[row.facet].push({
+        value: row.value,
+        ...(row.label && { label: row.label }),
+        count: Number(row.count),
+      });
+    }
+
+    // Most matches first; date buckets from the shortest
+    const bucketOrder: string[] = Object.values(ReceivedWithin);
+    for (const facet of Object.keys(facets) as (keyof SearchFacetsDto)[]) {
+      facets[facet].sort((a, b) =>
+        facet === 'receivedWithin'
+          ? bucketOrder.indexOf(a.value) - bucketOrder.indexOf(b.value)
+          : b.count - a.count || a.value.localeCompare(b.value),
+      );
+    }
+
+    return facets;
+  }
+
+  /**
+   * Page through the matching emails by priority score; sortOrder is
+   * ignored
+   */
+  private async findAllByPriority(
+    qb: SelectQueryBuilder<Email>,
+    mailboxIds: number[],
+    query: EmailQueryDto,
+    baseUrl: string,
+  ): Promise<PaginatedEmailsDto> {
+    const { page = 1, limit = 20 } = query;
+
+    const ranked = await this.priorityRanking.rankPage(
+      qb.clone().select(PRIORITY_COLUMNS).getQueryAndParameters(),
+      mailboxIds,
+      (page - 1) * limit,
+      limit,
+    );
+    const totalItems = await qb.getCount();
     const totalPages = Math.ceil(totalItems / limit);
 
     return {
-      data: emails.map((email) => this.toSummaryDto(email)),
+      data: ranked.map(({ email, score }) => ({
+        ...this.toSummaryDto(email),
+        priority: score,
+      })),
       meta: {
         itemsPerPage: limit,
         totalItems,
@@ -238,21 +594,23 @@ export class EmailService {
   async softDelete(userId: number, emailId: number): Promise<void> {
     const email = await this.findOne(userId, emailId);
 
-    // Get mailbox to trash in Gmail
+    // Get mailbox to trash on the server
     const mailbox = await this.mailboxRepository.findOne({
       where: { id: email.mailboxId, userId },
     });
 
-    // Trash in Gmail first
+    // Trash on the server first
     if (mailbox) {
       try {
-        await this.gmailService.trashMessage(mailbox, email.gmailMessageId);
+        await this.mailProviders
+          .get(mailbox)
+          .trashMessage(mailbox, email.gmailMessageId);
       } catch (error) {
         this.logger.error(
-          `Failed to trash email ${emailId} in Gmail`,
+          `Failed to trash email ${emailId} in ${mailbox.provider}`,
           error instanceof Error ? error.stack : String(error),
         );
-        throw new Error('Failed to delete email in Gmail');
+        throw new Error(`Failed to delete email in ${mailbox.provider}`);
       }
     }
 
@@ -278,7 +636,34 @@ export class EmailService {
     await this.mailboxRepository.update(mailboxId, { unreadCount });
   }
 
-  private toSummaryDto(email: Email): EmailSummaryDto {
+  toSummaryDto(email: Email): EmailSummaryDto {
+    return {
+      id: email.id,
+      mailboxId: email.mailboxId,
+      gmailMessageId: email.gmailMessageId,
+      gmailThreadId: email.gmailThreadId,
+      subject: email.subject,
+      snippet: email.snippet,
+      fromEmail: email.fromEmail,
+      fromName: email.fromName,
+      receivedAt: email.receivedAt,
+      isRead: email.isRead,
+      isStarred: email.isStarred,
+      hasAttachments: email.hasAttachments,
+      labels: email.labels,
+      category: email.category,
+      taskStatus: email.taskStatus,
+      isPinned: email.isPinned,
+      columnId: email.columnId,
+      bundleId: email.bundleId,
+      isSnoozed: email.isSnoozed,
+      snoozedUntil: email.snoozedUntil,
+      heldUntil: email.heldUntil,
+      aiSummary: email.aiSummary,
+    };
+  }
+
+  toDetailDto(email: Email): EmailDetailDto {
     return {
       id: email.id,
       mailboxId: email.mailboxId,
@@ -288,6 +673,10 @@ export class EmailService {
       snippet: email.snippet,
       fromEmail: email.fromEmail,
       fromName: email.fromName,
+      toEmails: email.toEmails,
+      ccEmails: email.ccEmails,
+      bodyHtml: email.bodyHtml,
+      bodyText: email.bodyText,
       receivedAt: email.receivedAt,
       isRead: email.isRead,
       isStarred: email.isStarred,
@@ -295,11 +684,27 @@ export class EmailService {
       labels: email.labels,
       category: email.category,
       taskStatus: email.taskStatus,
+      taskDeadline: email.taskDeadline,
       isPinned: email.isPinned,
       columnId: email.columnId,
+      bundleId: email.bundleId,
       isSnoozed: email.isSnoozed,
       snoozedUntil: email.snoozedUntil,
+      heldUntil: email.heldUntil,
       aiSummary: email.aiSummary,
+      aiActionItems: email.aiActionItems,
+      aiUrgencyScore: email.aiUrgencyScore,
+      enrichmentStatus: email.enrichmentStatus,
+      enrichedAt: email.enrichedAt,
+      attachments: (email.attachments || []).map(
+        (att): AttachmentSummaryDto => ({
+          id: att.id,
+          filename: att.filename,
+          mimeType: att.mimeType,
+          size: Number(att.size),
+          isInline: att.isInline,
+        }),
+      ),
     };
   }
 
@@ -327,6 +732,11 @@ export class EmailService {
       if (query.taskStatus) params.set('taskStatus', query.taskStatus);
       if (query.fromEmail) params.set('fromEmail', query.fromEmail);
       if (query.label) params.set('label', query.label);
+      if (query.receivedWithin)
+        params.set('receivedWithin', query.receivedWithin);
+      if (query.savedSearchId)
+        params.set('savedSearchId', query.savedSearchId.toString());
+      if (query.facets) params.set('facets', 'true');
       if (query.sortBy && query.sortBy !== 'receivedAt')
         params.set('sortBy', query.sortBy);
       if (query.sortOrder && query.sortOrder !== 'DESC')
@@ -366,7 +776,7 @@ export class EmailService {
     userId: number,
     sendDto: SendEmailDto,
     files?: MulterFile[],
-  ): Promise<{ messageId: string }> {
+  ): Promise<OutboxMessageDto> {
     // Verify mailbox belongs to user
     const mailbox = await this.mailboxRepository.findOne({
       where: { id: sendDto.mailboxId, userId, deletedAt: IsNull() },
@@ -376,25 +786,7 @@ export class EmailService {
       throw new NotFoundException(`Mailbox ${sendDto.mailboxId} not found`);
     }
 
-    // Check if token is expired or about to expire (within 5 minutes)
-    const now = new Date();
-    const expiresAt = mailbox.tokenExpiresAt;
-    const needsRefresh =
-      !expiresAt || expiresAt.getTime() - now.getTime() < 5 * 60 * 1000;
-
-    if (needsRefresh) {
-      this.logger.log(`Refreshing expired token for mailbox ${mailbox.id}`);
-      const { accessToken, expiresAt: newExpiresAt } =
-        await this.gmailService.refreshTokens(mailbox);
-
-      // Update mailbox with new token
-      mailbox.encryptedAccessToken = accessToken;
-      mailbox.tokenExpiresAt = newExpiresAt;
-      await this.mailboxRepository.save(mailbox);
-    }
-
-    // Send via Gmail API
-    const messageId = await this.gmailService.sendEmail(
+    const queued = await this.outboxService.enqueue(
       mailbox,
       {
         to: sendDto.to,
@@ -407,13 +799,14 @@ export class EmailService {
         threadId: sendDto.threadId,
       },
       files,
+      sendDto.sendAt,
     );
 
     this.logger.log(
-      `Sent email from mailbox ${mailbox.id} to ${sendDto.to.join(', ')}`,
+      `Queued email from mailbox ${mailbox.id} to ${sendDto.to.join(', ')}`,
     );
 
-    return { messageId };
+    return queued;
   }
 
   async summarizeEmail(
@@ -447,6 +840,28 @@ export class EmailService {
     };
   }
 
+  /**
+   * Queue an email for AI enrichment again; the result shows up on the
+   * email once the background worker has run
+   */
+  async enrichEmail(
+    userId: number,
+    emailId: number,
+  ): Promise<EnrichmentQueuedDto> {
+    const email = await this.findOne(userId, emailId);
+
+    if (!(await this.enrichmentService.isEnabledFor(userId))) {
+      throw new BadRequestException('AI enrichment is turned off');
+    }
+
+    const queued = await this.enrichmentService.requeue({
+      mailboxId: email.mailboxId,
+      emailId: email.id,
+    });
+
+    return { queued };
+  }
+
   async getMailboxStats(
     userId: number,
     mailboxId: number,
@@ -664,6 +1079,8 @@ export class EmailService {
       selectQuery += ` AND email."mailboxId" = ${addParam(mailboxId)}`;
     }
 
+    selectQuery += this.facetFilterSql(searchDto, addParam);
+
     // Build WHERE conditions based on search fields
     const conditions: string[] = [];
 
@@ -731,8 +1148,8 @@ export class EmailService {
     const countWildcardQueryPlaceholder = addCountParam(`%${q}%`);
     const countThresholdPlaceholder = addCountParam(threshold);
 
+    // The matches, shared by the count and the facets
     let countQuery = `
-      SELECT COUNT(*) as total
       FROM emails email
       WHERE email."mailboxId" = ANY(${addCountParam(userMailboxIds)})
         AND email."deletedAt" IS NULL
@@ -742,6 +1159,8 @@ export class EmailService {
       countQuery += ` AND email."mailboxId" = ${addCountParam(mailboxId)}`;
     }
 
+    countQuery += this.facetFilterSql(searchDto, addCountParam);
+
     // Rebuild conditions for count query with new parameter indices
     const countConditions: string[] = [];
 
@@ -782,7 +1201,7 @@ export class EmailService {
       total: string;
     }
     const countResult = await this.emailRepository.query<CountResult[]>(
-      countQuery,
+      `SELECT COUNT(*) as total ${countQuery}`,
       countParams,
     );
     const { total } = countResult[0];
@@ -815,6 +1234,12 @@ export class EmailService {
         limit,
         totalPages,
       },
+      facets: searchDto.facets
+        ? await this.countFacets(
+            `SELECT ${FACET_COLUMNS} ${countQuery}`,
+            countParams,
+          )
+        : undefined,
     };
   }
 
@@ -851,41 +1276,45 @@ export class EmailService {
     }
 
     // Generate embedding for search query
-    const queryContent = this.aiService.prepareEmailContentForEmbedding({
-      subject: q,
-      bodyText: q,
-    });
-    const queryEmbedding = await this.aiService.generateEmbedding(queryContent);
-
-    // Convert embedding array to PostgreSQL vector string
-    const vectorString = `[${queryEmbedding.join(',')}]`;
+    const queryEmbedding = await this.embeddingService.embedQuery(q);
 
     const skip = (page - 1) * limit;
 
-    // Build semantic search query using cosine similarity
-    const query = `
-      SELECT 
-        email.*,
-        1 - (email.embedding <=> $1::vector) as similarity
+    const params: unknown[] = [];
+    const addParam = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    // Only embeddings of the query's model are comparable
+    const distance = cosineDistanceSql(
+      addParam(queryEmbedding.vector),
+      queryEmbedding.dimensions,
+    );
+
+    // The matches, shared by the page, the count and the facets
+    const matches = `
       FROM emails email
-      WHERE email."mailboxId" = ANY($2)
+      WHERE email."mailboxId" = ANY(${addParam(userMailboxIds)})
         AND email."deletedAt" IS NULL
+        AND email."embeddingModel" = ${addParam(queryEmbedding.model)}
         AND email.embedding IS NOT NULL
-        ${mailboxId ? 'AND email."mailboxId" = $3' : ''}
-        AND (1 - (email.embedding <=> $1::vector)) >= $${mailboxId ? 4 : 3}
-      ORDER BY similarity DESC
-      LIMIT $${mailboxId ? 5 : 4} 
-      OFFSET $${mailboxId ? 6 : 5}
+        ${mailboxId ? `AND email."mailboxId" = ${addParam(mailboxId)}` : ''}
+        AND (1 - ${distance}) >= ${addParam(minSimilarity)}
+        ${this.facetFilterSql(searchDto, addParam)}
     `;
+    const countParams = [...params];
 
-    const params: any[] = [
-      vectorString,
-      userMailboxIds,
-      ...(mailboxId ? [mailboxId] : []),
-      minSimilarity,
-      limit,
-      skip,
-    ];
+    // Ordered by distance so the vector index can serve it
+    const query = `
+      SELECT 
+        email.*,
+        1 - ${distance} as similarity
+      ${matches}
+      ORDER BY ${distance}
+      LIMIT ${addParam(limit)}
+      OFFSET ${addParam(skip)}
+    `;
 
     type EmailSearchResult = Email & { similarity: string };
 
@@ -896,28 +1325,11 @@ export class EmailService {
     );
 
     // Get total count
-    const countQuery = `
-      SELECT COUNT(*) as total
-      FROM emails email
-      WHERE email."mailboxId" = ANY($1)
-        AND email."deletedAt" IS NULL
-        AND email.embedding IS NOT NULL
-        ${mailboxId ? 'AND email."mailboxId" = $2' : ''}
-        AND (1 - (email.embedding <=> $3::vector)) >= $${mailboxId ? 4 : 3}
-    `;
-
-    const countParams: (number[] | number | string)[] = [
-      userMailboxIds,
-      ...(mailboxId ? [mailboxId] : []),
-      vectorString,
-      minSimilarity,
-    ];
-
     interface CountResult {
       total: string;
     }
     const countResult = await this.emailRepository.query<CountResult[]>(
-      countQuery,
+      `SELECT COUNT(*) as total ${matches}`,
       countParams,
     );
 
@@ -944,6 +1356,12 @@ export class EmailService {
         limit,
         totalPages,
       },
+      facets: searchDto.facets
+        ? await this.countFacets(
+            `SELECT ${FACET_COLUMNS} ${matches}`,
+            countParams,
+          )
+        : undefined,
     };
   }
 
@@ -959,15 +1377,7 @@ export class EmailService {
       throw new NotFoundException(`Email ${emailId} not found`);
     }
 
-    const content = this.aiService.prepareEmailContentForEmbedding(email);
-    const embedding = await this.aiService.generateEmbedding(content);
-
-    // Use raw SQL to update embedding since it's not managed by @Column decorator
-    const vectorString = `[${embedding.join(',')}]`;
-    await this.emailRepository.query(
-      `UPDATE emails SET embedding = $1::vector, "embeddingGeneratedAt" = $2 WHERE id = $3`,
-      [vectorString, new Date(), emailId],
-    );
+    await this.embeddingService.embedEmail(email);
 
     this.logger.log(`Generated embedding for email ${emailId}`);
   }
@@ -1040,6 +1450,12 @@ export class EmailService {
       throw new NotFoundException(`Column ${columnId} not found`);
     }
 
+    if (column.savedSearchId) {
+      throw new BadRequestException(
+        `Column ${columnId} shows a saved search; emails cannot be moved into it`,
+      );
+    }
+
     // Get source column if provided
     let sourceColumn: ColumnConfig | null = null;
     if (sourceColumnId) {
@@ -1090,17 +1506,15 @@ export class EmailService {
       taskStatus = 'done';
     }
 
-    // Sync with Gmail if there are label changes
+    // Sync with the mail server if there are label changes
     if (addLabelIds.length > 0 || removeLabelIds.length > 0) {
       try {
-        await this.gmailService.modifyMessageLabels(
-          mailbox,
-          email.gmailMessageId,
-          {
+        await this.mailProviders
+          .get(mailbox)
+          .modifyMessageLabels(mailbox, email.gmailMessageId, {
             addLabelIds,
             removeLabelIds,
-          },
-        );
+          });
 
         this.logger.log(
           `Moved email ${emailId} to column "${column.title}" and synced Gmail labels`,
@@ -1166,10 +1580,18 @@ export class EmailService {
     keywords: string[];
     recentSearches: string[];
   }> {
+    const recentSearches = (
+      await this.searchHistoryService.findRecent(
+        userId,
+        RECENT_SEARCH_SUGGESTIONS,
+        query,
+      )
+    ).map((entry) => entry.query);
+
     const userMailboxIds = await this.getUserMailboxIds(userId);
 
     if (userMailboxIds.length === 0) {
-      return { contacts: [], keywords: [], recentSearches: [] };
+      return { contacts: [], keywords: [], recentSearches };
     }
 
     const searchPattern = query ? `%${query.toLowerCase()}%` : '%';
@@ -1229,7 +1651,7 @@ export class EmailService {
       keywords: keywords
         .map((k) => k.keyword)
         .filter((keyword): keyword is string => Boolean(keyword)),
-      recentSearches: [], // Could be implemented with a search history table
+      recentSearches,
     };
   }
 }
@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { EmbeddingStatusDto } from './dto';
+import { EmbeddingAdminService } from './embedding-admin.service';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@UseGuards(AdminGuard)
+@Controller('admin/embeddings')
+export class EmbeddingAdminController {
+  constructor(private readonly embeddingAdminService: EmbeddingAdminService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get embedding and vector index status',
+    description:
+      'Embeddings per model, progress of re-embedding mail after the ' +
+      'embedding model changed, and the vector indexes. Admins only ' +
+      '(ADMIN_EMAILS).',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: EmbeddingStatusDto })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Not an admin' })
+  async getStatus(): Promise<EmbeddingStatusDto> {
+    return this.embeddingAdminService.getStatus();
+  }
+
+  @Post('indexes/rebuild')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Rebuild vector indexes',
+    description:
+      "Rebuilds the current model's index in the background, without " +
+      'blocking search, and drops indexes search no longer uses. Follow ' +
+      'it with GET /admin/embeddings.',
+  })
+  @ApiResponse({ status: HttpStatus.ACCEPTED, type: EmbeddingStatusDto })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Not an admin' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Index maintenance is already running',
+  })
+  async rebuildIndexes(): Promise<EmbeddingStatusDto> {
+    return this.embeddingAdminService.rebuildIndexes();
+  }
+}
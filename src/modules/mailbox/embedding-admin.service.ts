@@ -0,0 +1,89 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EmbeddingStatusDto } from './dto';
+import { Email } from './entities';
+import { EmbeddingIndexService } from './providers/embedding-index.service';
+import { EmbeddingService } from './providers/embedding.service';
+
+@Injectable()
+export class EmbeddingAdminService {
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    private readonly embeddingService: EmbeddingService,
+    private readonly embeddingIndexService: EmbeddingIndexService,
+  ) {}
+
+  /**
+   * Embeddings per model across all users, re-embedding progress and the
+   * vector indexes; progress counters are this instance's
+   */
+  async getStatus(): Promise<EmbeddingStatusDto> {
+    const model = this.embeddingService.model;
+
+    const [models, [{ missing }], indexes] = await Promise.all([
+      this.emailRepository.query<
+        Array<{ model: string | null; dimensions: number; emails: string }>
+      >(
+        `
+        SELECT "embeddingModel" AS model,
+          MAX(vector_dims(embedding)) AS dimensions, COUNT(*) AS emails
+        FROM emails
+        WHERE embedding IS NOT NULL AND "deletedAt" IS NULL
+        GROUP BY "embeddingModel"
+        ORDER BY COUNT(*) DESC
+        `,
+      ),
+      this.emailRepository.query<Array<{ missing: string }>>(
+        `SELECT COUNT(*) AS missing FROM emails WHERE embedding IS NULL AND "deletedAt" IS NULL`,
+      ),
+      this.embeddingIndexService.listIndexes(),
+    ]);
+
+    const progress = this.embeddingService.getProgress();
+
+    return {
+      model,
+      vectorIndex: this.embeddingIndexService.method,
+      models: models.map((row) => ({
+        model: row.model,
+        dimensions: row.dimensions,
+        emails: Number(row.emails),
+        current: row.model === model,
+      })),
+      missing: Number(missing),
+      reembedding: {
+        remaining: models
+          .filter((row) => row.model !== model)
+          .reduce((sum, row) => sum + Number(row.emails), 0),
+        ...progress,
+      },
+      indexes: indexes.map((index) => ({
+        name: index.name,
+        model: index.model ?? null,
+        dimensions: index.dimensions ?? null,
+        method: index.method,
+        valid: index.valid,
+        rows: index.rows ?? null,
+        sizeBytes: index.sizeBytes,
+        builtAt: index.builtAt ? new Date(index.builtAt) : null,
+      })),
+      maintenance: this.embeddingIndexService.getState(),
+    };
+  }
+
+  /**
+   * Rebuild the current model's vector index in the background and drop
+   * any index search no longer uses
+   */
+  async rebuildIndexes(): Promise<EmbeddingStatusDto> {
+    if (!this.embeddingIndexService.requestMaintenance(true)) {
+      throw new ConflictException(
+        'Vector index maintenance is already running',
+      );
+    }
+
+    return this.getStatus();
+  }
+}
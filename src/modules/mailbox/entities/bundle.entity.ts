@@ -0,0 +1,53 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+
+export enum BundleKind {
+  PROMOTIONS = 'promotions',
+  NEWSLETTERS = 'newsletters',
+  NOTIFICATIONS = 'notifications',
+}
+
+export const BUNDLE_NAMES: Record<BundleKind, string> = {
+  [BundleKind.PROMOTIONS]: 'Promotions',
+  [BundleKind.NEWSLETTERS]: 'Newsletters',
+  [BundleKind.NOTIFICATIONS]: 'Notifications',
+};
+
+/**
+ * Group of low-priority mail (PRD FR-1.1); one per kind and user, created
+ * the first time an email is bundled into it
+ */
+@Entity('bundles')
+@Index(['userId', 'kind'], { unique: true })
+export class Bundle {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'enum', enum: BundleKind })
+  kind: BundleKind;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
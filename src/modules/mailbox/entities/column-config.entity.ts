@@ -25,6 +25,11 @@ export class ColumnConfig {
   @Column({ type: 'varchar', length: 100, nullable: true })
   gmailLabelId: string | null;
 
+  // Shows the emails of this saved search instead of a label's; cards
+  // cannot be moved into such a column
+  @Column({ type: 'int', nullable: true })
+  savedSearchId: number | null;
+
   @Column({ type: 'varchar', length: 20, default: '#6B7280' })
   color: string;
 
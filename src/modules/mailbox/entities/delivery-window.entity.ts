@@ -0,0 +1,66 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+import { Bundle } from './bundle.entity';
+import { EmailCategory } from './email.entity';
+
+/**
+ * Holds new mail of a category, bundle or sender group until the next
+ * delivery time in the user's time zone (PRD FR-1.2)
+ * Exactly one of category, bundleId and senders is set
+ */
+@Entity('delivery_windows')
+@Index(['userId'])
+export class DeliveryWindow {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'enum', enum: EmailCategory, nullable: true })
+  category: EmailCategory | null;
+
+  @Column({ type: 'int', nullable: true })
+  bundleId: number | null;
+
+  // Sender addresses, or whole domains written as @example.com
+  @Column({ type: 'simple-array', nullable: true })
+  senders: string[] | null;
+
+  // Local times as HH:MM
+  @Column({ type: 'simple-array' })
+  deliveryTimes: string[];
+
+  // 0 = Sunday; null delivers every day
+  @Column({ type: 'int', array: true, nullable: true })
+  daysOfWeek: number[] | null;
+
+  @Column({ default: true })
+  isEnabled: boolean;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => Bundle, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bundleId' })
+  bundle: Bundle | null;
+}
@@ -11,8 +11,40 @@ import {
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { Bundle } from './bundle.entity';
 import { Mailbox } from './mailbox.entity';
 
+export enum EnrichmentStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+export interface ActionItem {
+  text: string;
+  // ISO date (YYYY-MM-DD) when the email gives one
+  dueDate: string | null;
+}
+
+export enum ReplyTone {
+  FORMAL = 'formal',
+  FRIENDLY = 'friendly',
+  BRIEF = 'brief',
+}
+
+export interface ReplySuggestion {
+  tone: ReplyTone;
+  text: string;
+}
+
+export interface ReplySuggestions {
+  // ISO 639-1 code of the language the email is written in
+  language: string;
+  suggestions: ReplySuggestion[];
+  generatedAt: string;
+}
+
 export enum EmailCategory {
   PRIMARY = 'primary',
   SOCIAL = 'social',
@@ -34,6 +66,7 @@ export enum TaskStatus {
 @Index(['mailboxId', 'isRead'])
 @Index(['mailboxId', 'category'])
 @Index(['isSnoozed', 'snoozedUntil'])
+@Index(['deliveryWindowId'])
 export class Email {
   @ApiProperty({
     description: 'Email unique identifier',
@@ -115,6 +148,38 @@ export class Email {
   @Column({ type: 'simple-array', nullable: true })
   bccEmails: string[] | null;
 
+  @ApiProperty({
+    description: 'Reply-To addresses, when replies should not go to the sender',
+    example: ['support@example.com'],
+  })
+  @Column({ type: 'simple-array', nullable: true })
+  replyToEmails: string[] | null;
+
+  @ApiProperty({
+    description: 'RFC 5322 Message-ID header, without angle brackets',
+    example: 'CAF1234abcd@mail.gmail.com',
+  })
+  @Column({ type: 'text', nullable: true })
+  internetMessageId: string | null;
+
+  @ApiProperty({
+    description:
+      'Message-IDs from the References (or In-Reply-To) header, oldest first',
+    example: ['CAF0000abcd@mail.gmail.com'],
+  })
+  @Column({ type: 'simple-array', nullable: true })
+  referenceIds: string[] | null;
+
+  @ApiProperty({
+    description: 'Mailing list identifier from the List-Id header',
+    example: 'news.example.com',
+  })
+  @Column({ type: 'text', nullable: true })
+  listId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  listUnsubscribe: string | null;
+
   @Column({ type: 'text', nullable: true })
   bodyHtml: string | null;
 
@@ -203,6 +268,15 @@ export class Email {
   @Index()
   columnId: number | null;
 
+  @ApiProperty({
+    description: 'Bundle of low-priority mail this email belongs to',
+    example: 3,
+    required: false,
+  })
+  @Column({ type: 'int', nullable: true })
+  @Index()
+  bundleId: number | null;
+
   @ApiProperty({
     description: 'Whether the email is currently snoozed',
     example: false,
@@ -217,15 +291,50 @@ export class Email {
   @Column({ type: 'timestamp with time zone', nullable: true })
   snoozedUntil: Date | null;
 
+  @ApiProperty({
+    description:
+      'Hidden from the inbox by a delivery window until this time; null once delivered',
+    example: '2024-01-02T07:00:00.000Z',
+    required: false,
+  })
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  @Index()
+  heldUntil: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  deliveryWindowId: number | null;
+
   @Column({ type: 'text', nullable: true })
   aiSummary: string | null;
 
   @Column({ type: 'jsonb', nullable: true })
-  aiActionItems: Record<string, unknown>[] | null;
+  aiActionItems: ActionItem[] | null;
+
+  // Cached quick replies for this message
+  @Column({ type: 'jsonb', nullable: true })
+  aiReplySuggestions: ReplySuggestions | null;
 
   @Column({ type: 'smallint', nullable: true })
   aiUrgencyScore: number | null;
 
+  // AI enrichment queue state; null for mail that was never queued
+  @Column({ type: 'enum', enum: EnrichmentStatus, nullable: true })
+  @Index()
+  enrichmentStatus: EnrichmentStatus | null;
+
+  @Column({ type: 'smallint', default: 0 })
+  enrichmentAttempts: number;
+
+  // Earliest time of the next attempt after a failure
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  enrichmentRetryAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  enrichmentError: string | null;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  enrichedAt: Date | null;
+
   @CreateDateColumn({ type: 'timestamp with time zone' })
   createdAt: Date;
 
@@ -241,11 +350,19 @@ export class Email {
   @JoinColumn({ name: 'mailboxId' })
   mailbox: Mailbox;
 
+  @ManyToOne(() => Bundle, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'bundleId' })
+  bundle: Bundle | null;
+
+  @ManyToOne('DeliveryWindow', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deliveryWindowId' })
+  deliveryWindow: import('./delivery-window.entity').DeliveryWindow | null;
+
   @OneToMany('Attachment', 'email')
   attachments: import('./attachment.entity').Attachment[];
 
   /**
-   * Vector embedding for semantic search (768 dimensions for Gemini text-embedding-004).
+   * Vector embedding for semantic search, of whatever size embeddingModel makes.
    * Managed via raw SQL and migrations because:
    * 1. TypeORM doesn't natively support pgvector's 'vector' type
    * 2. DO NOT add @Column decorator - it will cause TypeORM synchronize to drop this column
@@ -256,4 +373,14 @@ export class Email {
 
   @Column({ type: 'timestamp', nullable: true })
   embeddingGeneratedAt: Date | null;
+
+  // Model that made the embedding; only embeddings of the same model are
+  // compared. null only for embeddings of unknown origin
+  @Column({ type: 'text', nullable: true })
+  @Index()
+  embeddingModel: string | null;
+
+  // "searchVector" (weighted subject, AI summary and the start of the body
+  // for full-text search) is a generated column only used from SQL, so it
+  // is not mapped either; see migration 1738030000000-AddEmailSearchVector.ts
 }
@@ -1,4 +1,35 @@
 export { Attachment } from './attachment.entity';
+export { Bundle, BUNDLE_NAMES, BundleKind } from './bundle.entity';
 export { ColumnConfig } from './column-config.entity';
-export { Email, EmailCategory, TaskStatus } from './email.entity';
-export { Mailbox, MailboxProvider, MailboxSyncStatus } from './mailbox.entity';
+export { DeliveryWindow } from './delivery-window.entity';
+export {
+  Email,
+  EmailCategory,
+  EnrichmentStatus,
+  ReplyTone,
+  TaskStatus,
+} from './email.entity';
+export type {
+  ActionItem,
+  ReplySuggestion,
+  ReplySuggestions,
+} from './email.entity';
+export { MailRule } from './mail-rule.entity';
+export type { MailRuleActions, MailRuleConditions } from './mail-rule.entity';
+export {
+  Mailbox,
+  MailboxBackfillStatus,
+  MailboxProvider,
+  MailboxSyncStatus,
+} from './mailbox.entity';
+export { OutboxAttachment } from './outbox-attachment.entity';
+export { OutboxMessage, OutboxStatus } from './outbox-message.entity';
+export { SavedSearch } from './saved-search.entity';
+export type { SavedSearchFilters } from './saved-search.entity';
+export { SearchHistory } from './search-history.entity';
+export {
+  SyncJob,
+  SyncJobStatus,
+  SyncJobTrigger,
+  SyncJobType,
+} from './sync-job.entity';
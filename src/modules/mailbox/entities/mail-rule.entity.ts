@@ -0,0 +1,90 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+import { EmailCategory, TaskStatus } from './email.entity';
+import { Mailbox } from './mailbox.entity';
+
+/**
+ * Every condition that is set has to match; text conditions are
+ * case-insensitive substring matches
+ */
+export interface MailRuleConditions {
+  // Sender address or display name
+  from?: string;
+  // Any To, Cc or Bcc address
+  to?: string;
+  subject?: string;
+  // Subject or body
+  text?: string;
+  label?: string;
+  category?: EmailCategory;
+  hasAttachment?: boolean;
+  // AI urgency score (0-10) at least this high
+  minUrgency?: number;
+}
+
+export interface MailRuleActions {
+  moveToColumnId?: number;
+  taskStatus?: TaskStatus;
+  // Deadline this many days after the email was received
+  taskDeadlineDays?: number;
+  pin?: boolean;
+  // Snooze for this many hours from when the rule runs
+  snoozeHours?: number;
+  markRead?: boolean;
+  // Remove the INBOX label
+  archive?: boolean;
+  addLabel?: string;
+}
+
+@Entity('mail_rules')
+@Index(['userId', 'priority'])
+export class MailRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  // Only apply to this mailbox; null applies to all of the user's mailboxes
+  @Column({ type: 'int', nullable: true })
+  mailboxId: number | null;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ default: true })
+  isEnabled: boolean;
+
+  // Lower runs first
+  @Column({ type: 'int', default: 0 })
+  priority: number;
+
+  @Column({ type: 'jsonb' })
+  conditions: MailRuleConditions;
+
+  @Column({ type: 'jsonb' })
+  actions: MailRuleActions;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => Mailbox, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mailboxId' })
+  mailbox: Mailbox | null;
+}
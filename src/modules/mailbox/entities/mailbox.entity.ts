@@ -15,6 +15,15 @@ import { User } from '../../user/entities/user.entity';
 
 export enum MailboxProvider {
   GMAIL = 'gmail',
+  IMAP = 'imap',
+  OUTLOOK = 'outlook',
+}
+
+export enum MailboxBackfillStatus {
+  IDLE = 'idle',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  ERROR = 'error',
 }
 
 export enum MailboxSyncStatus {
@@ -70,6 +79,41 @@ export class Mailbox {
   @Column({ type: 'timestamp with time zone', nullable: true })
   tokenExpiresAt: Date | null;
 
+  // IMAP/SMTP connection settings, null for OAuth providers
+  @ApiProperty({
+    description: 'IMAP server host',
+    example: 'imap.fastmail.com',
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  imapHost: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  imapPort: number | null;
+
+  @Column({ type: 'boolean', nullable: true })
+  imapSecure: boolean | null;
+
+  @ApiProperty({
+    description: 'SMTP server host',
+    example: 'smtp.fastmail.com',
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  smtpHost: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  smtpPort: number | null;
+
+  @Column({ type: 'boolean', nullable: true })
+  smtpSecure: boolean | null;
+
+  @Column({ type: 'text', nullable: true })
+  imapUsername: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  encryptedPassword: string | null;
+
   @ApiProperty({
     description: 'Synchronization status',
     example: MailboxSyncStatus.SYNCED,
@@ -92,9 +136,61 @@ export class Mailbox {
   @Column({ type: 'text', nullable: true })
   lastSyncError: string | null;
 
+  // Provider sync cursor: Gmail historyId, or JSON folder state for IMAP
+  // (UID state) and Outlook (Graph delta links)
   @Column({ type: 'text', nullable: true })
   historyId: string | null;
 
+  @ApiProperty({
+    description: 'When the Gmail push notification watch expires',
+    example: '2024-01-08T00:00:00.000Z',
+    nullable: true,
+  })
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  watchExpiresAt: Date | null;
+
+  @ApiProperty({
+    description: 'History backfill status',
+    example: MailboxBackfillStatus.RUNNING,
+    enum: MailboxBackfillStatus,
+  })
+  @Column({
+    type: 'enum',
+    enum: MailboxBackfillStatus,
+    default: MailboxBackfillStatus.IDLE,
+  })
+  backfillStatus: MailboxBackfillStatus;
+
+  // Gmail page token to resume the backfill from, null before the first page
+  @Column({ type: 'text', nullable: true })
+  backfillPageToken: string | null;
+
+  @ApiProperty({
+    description: 'Messages walked by the backfill so far',
+    example: 4200,
+  })
+  @Column({ default: 0 })
+  backfillProcessed: number;
+
+  @ApiProperty({
+    description: 'Gmail estimate of messages within the backfill horizon',
+    example: 12000,
+    nullable: true,
+  })
+  @Column({ type: 'int', nullable: true })
+  backfillEstimate: number | null;
+
+  @ApiProperty({
+    description: 'Oldest date the backfill reaches, null for all mail',
+    example: '2022-01-01T00:00:00.000Z',
+    nullable: true,
+  })
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  backfillHorizon: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  backfillError: string | null;
+
   @ApiProperty({
     description: 'Total number of emails in mailbox',
     example: 1500,
@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { OutboxMessage } from './outbox-message.entity';
+
+/**
+ * File uploaded with a queued message, kept until the message is sent
+ */
+@Entity('outbox_attachments')
+export class OutboxAttachment {
+  @ApiProperty({
+    description: 'Outbox attachment unique identifier',
+    example: 1,
+  })
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ApiProperty({
+    description: 'Outbox message this attachment belongs to',
+    example: 1,
+  })
+  @Column()
+  @Index()
+  outboxMessageId: number;
+
+  @ApiProperty({
+    description: 'Original filename',
+    example: 'document.pdf',
+  })
+  @Column({ type: 'text' })
+  filename: string;
+
+  @ApiProperty({
+    description: 'MIME type',
+    example: 'application/pdf',
+  })
+  @Column({ type: 'text' })
+  mimeType: string;
+
+  @ApiProperty({
+    description: 'File size in bytes',
+    example: 1024000,
+  })
+  @Column({ type: 'bigint' })
+  size: number;
+
+  // Loaded only when the message is sent
+  @Column({ type: 'bytea', select: false })
+  content: Buffer;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @ManyToOne(() => OutboxMessage, (message) => message.attachments, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'outboxMessageId' })
+  outboxMessage: OutboxMessage;
+}
@@ -0,0 +1,146 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Mailbox } from './mailbox.entity';
+import { OutboxAttachment } from './outbox-attachment.entity';
+
+export enum OutboxStatus {
+  PENDING = 'pending',
+  SENDING = 'sending',
+  SENT = 'sent',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+@Entity('outbox')
+@Index(['status', 'sendAt'])
+@Index(['mailboxId', 'createdAt'])
+export class OutboxMessage {
+  @ApiProperty({
+    description: 'Outbox message unique identifier',
+    example: 1,
+  })
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ApiProperty({
+    description: 'Mailbox the message is sent from',
+    example: 1,
+  })
+  @Column()
+  mailboxId: number;
+
+  @ApiProperty({
+    description: 'Delivery status',
+    enum: OutboxStatus,
+    example: OutboxStatus.PENDING,
+  })
+  @Column({ type: 'enum', enum: OutboxStatus, default: OutboxStatus.PENDING })
+  status: OutboxStatus;
+
+  @ApiProperty({
+    description: 'Recipient email addresses',
+    example: ['recipient@example.com'],
+  })
+  @Column({ type: 'simple-array' })
+  toEmails: string[];
+
+  @ApiProperty({
+    description: 'CC email addresses',
+    example: ['cc@example.com'],
+  })
+  @Column({ type: 'simple-array', nullable: true })
+  ccEmails: string[] | null;
+
+  @ApiProperty({
+    description: 'BCC email addresses',
+    example: ['bcc@example.com'],
+  })
+  @Column({ type: 'simple-array', nullable: true })
+  bccEmails: string[] | null;
+
+  @ApiProperty({
+    description: 'Email subject',
+    example: 'Meeting tomorrow',
+  })
+  @Column({ type: 'text' })
+  subject: string;
+
+  @ApiProperty({ description: 'Plain text body' })
+  @Column({ type: 'text' })
+  bodyText: string;
+
+  @ApiProperty({ description: 'HTML body' })
+  @Column({ type: 'text', nullable: true })
+  bodyHtml: string | null;
+
+  @ApiProperty({ description: 'Message-ID being replied to' })
+  @Column({ type: 'text', nullable: true })
+  inReplyTo: string | null;
+
+  @ApiProperty({ description: 'References chain for replies, oldest first' })
+  @Column({ type: 'simple-array', nullable: true })
+  referenceIds: string[] | null;
+
+  @ApiProperty({ description: 'Provider thread ID for replies' })
+  @Column({ type: 'text', nullable: true })
+  threadId: string | null;
+
+  @ApiProperty({
+    description:
+      'Provider draft sent instead of the stored content (POST /drafts/:id/send)',
+  })
+  @Column({ type: 'text', nullable: true })
+  draftId: string | null;
+
+  @ApiProperty({
+    description: 'When the message is due to be sent',
+    example: '2024-01-02T08:00:00.000Z',
+  })
+  @Column({ type: 'timestamp with time zone' })
+  sendAt: Date;
+
+  @ApiProperty({ description: 'Send attempts made so far', example: 0 })
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'Error of the last failed attempt',
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Provider message ID once sent',
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  sentMessageId: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  sentAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt: Date;
+
+  @ManyToOne(() => Mailbox, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mailboxId' })
+  mailbox: Mailbox;
+
+  @OneToMany(() => OutboxAttachment, (attachment) => attachment.outboxMessage)
+  attachments: OutboxAttachment[];
+}
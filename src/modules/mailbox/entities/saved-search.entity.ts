@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+import { EmailCategory, TaskStatus } from './email.entity';
+
+/**
+ * Filters of GET /emails kept with a saved search; every filter that is
+ * set has to match
+ */
+export interface SavedSearchFilters {
+  mailboxId?: number;
+  isRead?: boolean;
+  isStarred?: boolean;
+  hasAttachments?: boolean;
+  category?: EmailCategory;
+  taskStatus?: TaskStatus;
+  fromEmail?: string;
+  label?: string;
+  excludeLabel?: string;
+  isSnoozed?: boolean;
+  bundleId?: number;
+}
+
+@Entity('saved_searches')
+@Index(['userId', 'name'], { unique: true })
+export class SavedSearch {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // Gmail-style search query; null when only filters are saved
+  @Column({ type: 'text', nullable: true })
+  query: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  filters: SavedSearchFilters;
+
+  // Shown in the sidebar as a folder
+  @Column({ default: false })
+  isPinned: boolean;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
@@ -0,0 +1,34 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+
+/**
+ * One distinct query a user searched for; searching again moves it to
+ * the top instead of adding a row
+ */
+@Entity('search_history')
+@Index(['userId', 'query'], { unique: true })
+@Index(['userId', 'lastSearchedAt'])
+export class SearchHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: 'text' })
+  query: string;
+
+  @Column({ type: 'timestamp with time zone' })
+  lastSearchedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
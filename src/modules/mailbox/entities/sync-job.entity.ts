@@ -0,0 +1,130 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Mailbox } from './mailbox.entity';
+
+export enum SyncJobType {
+  FULL = 'full',
+  INCREMENTAL = 'incremental',
+}
+
+export enum SyncJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export enum SyncJobTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+  PUSH = 'push',
+  INITIAL = 'initial',
+  RETRY = 'retry',
+}
+
+@Entity('sync_jobs')
+@Index(['mailboxId', 'createdAt'])
+@Index(['status', 'scheduledAt'])
+export class SyncJob {
+  @ApiProperty({
+    description: 'Sync job unique identifier',
+    example: 1,
+  })
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ApiProperty({
+    description: 'Mailbox ID this job belongs to',
+    example: 1,
+  })
+  @Column()
+  mailboxId: number;
+
+  @ApiProperty({
+    description: 'Kind of sync performed',
+    enum: SyncJobType,
+    example: SyncJobType.INCREMENTAL,
+  })
+  @Column({ type: 'enum', enum: SyncJobType })
+  type: SyncJobType;
+
+  @ApiProperty({
+    description: 'Job status',
+    enum: SyncJobStatus,
+    example: SyncJobStatus.SUCCEEDED,
+  })
+  @Column({ type: 'enum', enum: SyncJobStatus })
+  status: SyncJobStatus;
+
+  @ApiProperty({
+    description: 'What started the job',
+    enum: SyncJobTrigger,
+    example: SyncJobTrigger.SCHEDULED,
+  })
+  @Column({ type: 'enum', enum: SyncJobTrigger })
+  trigger: SyncJobTrigger;
+
+  @ApiProperty({
+    description: 'Attempt number, greater than 1 for retries',
+    example: 1,
+  })
+  @Column({ type: 'int', default: 1 })
+  attempt: number;
+
+  @ApiProperty({
+    description: 'Error message when the job failed',
+    example: null,
+    nullable: true,
+  })
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'When the job is due to run',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @Column({ type: 'timestamp with time zone' })
+  scheduledAt: Date;
+
+  @ApiProperty({
+    example: '2024-01-01T00:00:00.000Z',
+    nullable: true,
+  })
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  startedAt: Date | null;
+
+  @ApiProperty({
+    example: '2024-01-01T00:00:05.000Z',
+    nullable: true,
+  })
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  finishedAt: Date | null;
+
+  @ApiProperty({ description: 'Messages fetched and saved', example: 12 })
+  @Column({ type: 'int', default: 0 })
+  messagesAdded: number;
+
+  @ApiProperty({ description: 'Messages soft-deleted', example: 1 })
+  @Column({ type: 'int', default: 0 })
+  messagesDeleted: number;
+
+  @ApiProperty({ description: 'Messages whose labels changed', example: 3 })
+  @Column({ type: 'int', default: 0 })
+  messagesRelabelled: number;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @ManyToOne(() => Mailbox, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mailboxId' })
+  mailbox: Mailbox;
+}
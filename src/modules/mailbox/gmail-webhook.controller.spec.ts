@@ -0,0 +1,158 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Mailbox, MailboxProvider, SyncJobTrigger } from './entities';
+import { GmailWebhookController } from './gmail-webhook.controller';
+import { EmailSyncService } from './providers/email-sync.service';
+import { GmailPushService } from './providers/gmail-push.service';
+import { GmailService } from './providers/gmail.service';
+import { FakePubSubPublisher } from './testing/fake-pubsub-publisher';
+
+describe('GmailWebhookController', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+  const publisher = new FakePubSubPublisher();
+
+  const mockMailboxRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockEmailSyncService = {
+    incrementalSync: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'gmailPush.verificationToken' ? 'secret-token' : undefined,
+    ),
+  };
+
+  const flushBackgroundWork = () =>
+    new Promise((resolve) => setImmediate(resolve));
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [GmailWebhookController],
+      providers: [
+        GmailPushService,
+        {
+          provide: getRepositoryToken(Mailbox),
+          useValue: mockMailboxRepository,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: GmailService, useValue: {} },
+        { provide: EmailSyncService, useValue: mockEmailSyncService },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.listen(0, '127.0.0.1');
+
+    baseUrl = `${await app.getUrl()}/webhooks/gmail`;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    mockEmailSyncService.incrementalSync.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject notifications with an invalid token', async () => {
+    const status = await publisher.publish(`${baseUrl}?token=wrong`, {
+      emailAddress: 'user@gmail.com',
+      historyId: 200,
+    });
+
+    expect(status).toBe(401);
+    expect(mockMailboxRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should trigger an incremental sync for the notified mailbox', async () => {
+    mockMailboxRepository.find.mockResolvedValue([
+      { id: 7, provider: MailboxProvider.GMAIL, historyId: '100' },
+    ]);
+
+    const status = await publisher.publish(`${baseUrl}?token=secret-token`, {
+      emailAddress: 'user@gmail.com',
+      historyId: 200,
+    });
+    await flushBackgroundWork();
+
+    expect(status).toBe(204);
+    expect(mockMailboxRepository.find).toHaveBeenCalledTimes(1);
+    expect(mockEmailSyncService.incrementalSync).toHaveBeenCalledWith(7, {
+      trigger: SyncJobTrigger.PUSH,
+    });
+  });
+
+  it('should skip mailboxes that are already past the notified history', async () => {
+    mockMailboxRepository.find.mockResolvedValue([
+      { id: 7, provider: MailboxProvider.GMAIL, historyId: '300' },
+    ]);
+
+    const status = await publisher.publish(`${baseUrl}?token=secret-token`, {
+      emailAddress: 'user@gmail.com',
+      historyId: '200',
+    });
+    await flushBackgroundWork();
+
+    expect(status).toBe(204);
+    expect(mockEmailSyncService.incrementalSync).not.toHaveBeenCalled();
+  });
+
+  it('should acknowledge messages that are not Gmail notifications', async () => {
+    const response = await fetch(`${baseUrl}?token=secret-token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        message: { data: Buffer.from('not json').toString('base64') },
+      }),
+    });
+
+    expect(response.status).toBe(204);
+    expect(mockMailboxRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should acknowledge notifications with a malformed historyId', async () => {
+    const status = await publisher.publish(`${baseUrl}?token=secret-token`, {
+      emailAddress: 'user@gmail.com',
+      historyId: 'abc',
+    });
+
+    expect(status).toBe(204);
+    expect(mockMailboxRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should accept the delivery attempt of dead-lettered subscriptions', async () => {
+    mockMailboxRepository.find.mockResolvedValue([]);
+
+    const response = await fetch(`${baseUrl}?token=secret-token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...publisher.buildEnvelope({
+          emailAddress: 'user@gmail.com',
+          historyId: '12345',
+        }),
+        deliveryAttempt: 2,
+      }),
+    });
+
+    expect(response.status).toBe(204);
+  });
+});
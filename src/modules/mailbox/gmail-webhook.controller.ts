@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  Query,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Public } from '../auth/decorators';
+import { PubSubPushDto } from './dto';
+import { GmailPushService } from './providers/gmail-push.service';
+
+@ApiTags('Webhooks')
+@Controller('webhooks')
+export class GmailWebhookController {
+  private readonly logger = new Logger(GmailWebhookController.name);
+
+  constructor(private readonly gmailPushService: GmailPushService) {}
+
+  @Post('gmail')
+  @Public()
+  @SkipThrottle()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Receive Gmail push notifications from Google Cloud Pub/Sub',
+    description:
+      'Push subscription endpoint. Triggers an incremental sync for the mailbox ' +
+      'named in the notification. Undecodable messages are acknowledged and ignored ' +
+      'so Pub/Sub does not redeliver them.',
+  })
+  @ApiQuery({
+    name: 'token',
+    description: 'Shared verification token (GMAIL_PUSH_VERIFICATION_TOKEN)',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Notification acknowledged',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid verification token',
+  })
+  async handleGmailPush(
+    @Query('token') token: string | undefined,
+    @Body() pushDto: PubSubPushDto,
+  ): Promise<void> {
+    if (!this.gmailPushService.verifyToken(token)) {
+      throw new UnauthorizedException('Invalid push verification token');
+    }
+
+    const notification = this.gmailPushService.decodeMessageData(
+      pushDto.message.data,
+    );
+
+    if (!notification) {
+      this.logger.warn(
+        `Ignoring undecodable Pub/Sub message ${pushDto.message.messageId || pushDto.message.message_id || 'unknown'}`,
+      );
+      return;
+    }
+
+    await this.gmailPushService.handleNotification(notification);
+  }
+}
@@ -9,17 +9,24 @@ import {
   ParseIntPipe,
   Patch,
   Post,
+  Query,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiOperation,
   ApiParam,
+  ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { CurrentUser } from '../auth/decorators';
 import { User } from '../user/entities/user.entity';
-import { ColumnDto, CreateColumnDto, UpdateColumnDto } from './dto';
+import {
+  ColumnDto,
+  CreateColumnDto,
+  ReconcileResultDto,
+  UpdateColumnDto,
+} from './dto';
 import { KanbanService } from './kanban.service';
 
 @ApiTags('Kanban Board')
@@ -137,4 +144,33 @@ export class KanbanController {
     await this.kanbanService.initializeDefaultColumns(user.id);
     return { message: 'Default columns initialized' };
   }
+
+  @Post('reconcile')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reconcile board columns with Gmail labels',
+    description:
+      'Moves cards whose Gmail labels no longer match their column. ' +
+      'Cards in columns without a label mapping stay where they are. ' +
+      'When several mapped columns match, user labels win over system ' +
+      'labels, system labels over INBOX, then column order decides.',
+  })
+  @ApiQuery({
+    name: 'mailboxId',
+    required: false,
+    type: Number,
+    description: 'Only reconcile one mailbox',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reconciliation result',
+    type: ReconcileResultDto,
+  })
+  async reconcile(
+    @CurrentUser() user: User,
+    @Query('mailboxId', new ParseIntPipe({ optional: true }))
+    mailboxId?: number,
+  ): Promise<ReconcileResultDto> {
+    return this.kanbanService.reconcile(user.id, { mailboxId });
+  }
 }
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  ColumnConfig,
+  Email,
+  Mailbox,
+  MailboxProvider,
+  SavedSearch,
+} from './entities';
+import { KanbanService } from './kanban.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+describe('KanbanService - column reconciliation', () => {
+  let service: KanbanService;
+
+  const column = (
+    id: number,
+    gmailLabelId: string | null,
+    orderIndex = id,
+  ): ColumnConfig =>
+    ({
+      id,
+      userId: 1,
+      title: `Column ${id}`,
+      gmailLabelId,
+      orderIndex,
+    }) as ColumnConfig;
+
+  const inbox = column(1, 'INBOX', 0);
+  const important = column(2, 'IMPORTANT', 1);
+  const starred = column(3, 'STARRED', 2);
+  const todo = column(4, null, 3);
+  const clients = column(5, 'Label_42', 4);
+  const columns = [inbox, important, starred, todo, clients];
+
+  const mockColumnConfigRepository = { find: jest.fn() };
+  const mockEmailRepository = { find: jest.fn(), update: jest.fn() };
+  const mockMailboxRepository = { find: jest.fn() };
+  const gmail = {
+    isUserLabel: (labelId: string) => labelId.startsWith('Label_'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KanbanService,
+        {
+          provide: getRepositoryToken(ColumnConfig),
+          useValue: mockColumnConfigRepository,
+        },
+        { provide: getRepositoryToken(Email), useValue: mockEmailRepository },
+        {
+          provide: getRepositoryToken(Mailbox),
+          useValue: mockMailboxRepository,
+        },
+        { provide: getRepositoryToken(SavedSearch), useValue: {} },
+        { provide: MailProviderRegistry, useValue: { get: () => gmail } },
+      ],
+    }).compile();
+
+    service = module.get<KanbanService>(KanbanService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveColumnId', () => {
+    it('should move the card to the column of a newly added label', () => {
+      expect(
+        service.resolveColumnId(
+          columns,
+          ['INBOX', 'STARRED'],
+          inbox.id,
+          gmail,
+          ['STARRED'],
+        ),
+      ).toBe(starred.id);
+    });
+
+    it('should keep a manual column regardless of labels', () => {
+      expect(service.resolveColumnId(columns, ['INBOX'], todo.id, gmail)).toBe(
+        todo.id,
+      );
+    });
+
+    it('should take cards out of a column that shows a saved search', () => {
+      const invoices = { ...column(6, null), savedSearchId: 3 };
+
+      expect(
+        service.resolveColumnId(
+          [...columns, invoices],
+          ['INBOX'],
+          invoices.id,
+          gmail,
+        ),
+      ).toBe(inbox.id);
+    });
+
+    it('should keep the current mapped column while its label is present', () => {
+      expect(
+        service.resolveColumnId(
+          columns,
+          ['INBOX', 'IMPORTANT'],
+          inbox.id,
+          gmail,
+        ),
+      ).toBe(inbox.id);
+    });
+
+    it('should prefer user labels, then system labels, then INBOX', () => {
+      expect(
+        service.resolveColumnId(
+          columns,
+          ['INBOX', 'IMPORTANT', 'Label_42'],
+          null,
+          gmail,
+        ),
+      ).toBe(clients.id);
+      expect(
+        service.resolveColumnId(columns, ['INBOX', 'STARRED'], null, gmail),
+      ).toBe(starred.id);
+    });
+
+    it("should ask the mailbox's provider which labels are user labels", () => {
+      const projects = column(6, 'folder:Inbox/Projects', 5);
+      const outlook = {
+        isUserLabel: (labelId: string) => labelId.startsWith('folder:'),
+      };
+
+      expect(
+        service.resolveColumnId(
+          [...columns, projects],
+          ['STARRED', 'folder:Inbox/Projects'],
+          null,
+          outlook,
+        ),
+      ).toBe(projects.id);
+    });
+
+    it('should break ties by column order', () => {
+      expect(
+        service.resolveColumnId(columns, ['IMPORTANT', 'STARRED'], null, gmail),
+      ).toBe(important.id);
+    });
+
+    it('should leave the board when the current label is removed and nothing matches', () => {
+      expect(
+        service.resolveColumnId(columns, ['SENT'], starred.id, gmail),
+      ).toBe(null);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should update only emails whose column changed', async () => {
+      mockColumnConfigRepository.find.mockResolvedValue(columns);
+      mockMailboxRepository.find.mockResolvedValue([
+        { id: 10, provider: MailboxProvider.GMAIL },
+      ]);
+      mockEmailRepository.find
+        .mockResolvedValueOnce([
+          { id: 1, mailboxId: 10, labels: ['INBOX'], columnId: inbox.id },
+          {
+            id: 2,
+            mailboxId: 10,
+            labels: ['INBOX', 'Label_42'],
+            columnId: inbox.id,
+          },
+          { id: 3, mailboxId: 10, labels: ['SENT'], columnId: starred.id },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.reconcile(1);
+
+      expect(result).toEqual({ scanned: 3, updated: 1 });
+      expect(mockEmailRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockEmailRepository.update).toHaveBeenCalledWith(
+        { id: expect.anything() as unknown },
+        { columnId: null },
+      );
+    });
+
+    it('should skip users without label mappings', async () => {
+      mockColumnConfigRepository.find.mockResolvedValue([todo]);
+
+      await expect(service.reconcile(1)).resolves.toEqual({
+        scanned: 0,
+        updated: 0,
+      });
+      expect(mockEmailRepository.find).not.toHaveBeenCalled();
+    });
+  });
+});
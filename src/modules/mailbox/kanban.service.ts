@@ -1,13 +1,30 @@
 import {
+  BadRequestException,
   ConflictException,
   Injectable,
   Logger,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { ColumnConfig } from './entities';
-import { ColumnDto, CreateColumnDto, UpdateColumnDto } from './dto';
+import {
+  FindOptionsWhere,
+  In,
+  IsNull,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { ColumnConfig, Email, Mailbox, SavedSearch } from './entities';
+import {
+  ColumnDto,
+  CreateColumnDto,
+  ReconcileResultDto,
+  UpdateColumnDto,
+} from './dto';
+import { MailProviderClient } from './providers/mail-provider.interface';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+const RECONCILE_BATCH_SIZE = 500;
 
 @Injectable()
 export class KanbanService {
@@ -16,6 +33,13 @@ export class KanbanService {
   constructor(
     @InjectRepository(ColumnConfig)
     private readonly columnConfigRepository: Repository<ColumnConfig>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    @InjectRepository(SavedSearch)
+    private readonly savedSearchRepository: Repository<SavedSearch>,
+    private readonly mailProviders: MailProviderRegistry,
   ) {}
 
   /**
@@ -85,9 +109,11 @@ export class KanbanService {
       title: createDto.title,
       orderIndex,
       gmailLabelId: createDto.gmailLabelId || null,
+      savedSearchId: createDto.savedSearchId ?? null,
       color: createDto.color || '#6B7280',
       isDefault: false,
     });
+    await this.validateSource(column);
 
     const saved = await this.columnConfigRepository.save(column);
     this.logger.log(`Created column "${saved.title}" for user ${userId}`);
@@ -136,8 +162,11 @@ export class KanbanService {
       column.orderIndex = updateDto.orderIndex;
     if (updateDto.gmailLabelId !== undefined)
       column.gmailLabelId = updateDto.gmailLabelId;
+    if (updateDto.savedSearchId !== undefined)
+      column.savedSearchId = updateDto.savedSearchId;
     if (updateDto.color !== undefined) column.color = updateDto.color;
 
+    await this.validateSource(column);
     const updated = await this.columnConfigRepository.save(column);
     this.logger.log(`Updated column ${columnId} for user ${userId}`);
 
@@ -238,6 +267,189 @@ export class KanbanService {
     this.logger.log(`Initialized default columns for user ${userId}`);
   }
 
+  /**
+   * Set each email's column from its Gmail labels and the user's
+   * label-to-column mappings (see resolveColumnId for the rules)
+   * @param options.mailboxId only reconcile one mailbox
+   * @param options.updatedSince only reconcile emails changed since then,
+   *   used after a sync to touch just the synced emails
+   */
+  async reconcile(
+    userId: number,
+    options: { mailboxId?: number; updatedSince?: Date } = {},
+  ): Promise<ReconcileResultDto> {
+    const result: ReconcileResultDto = { scanned: 0, updated: 0 };
+
+    const columns = await this.columnConfigRepository.find({
+      where: { userId },
+    });
+    if (!columns.some((col) => col.gmailLabelId)) {
+      return result;
+    }
+
+    const mailboxes = await this.mailboxRepository.find({
+      select: { id: true, provider: true },
+      where: {
+        userId,
+        deletedAt: IsNull(),
+        ...(options.mailboxId && { id: options.mailboxId }),
+      },
+    });
+    if (mailboxes.length === 0) {
+      return result;
+    }
+
+    const clients = new Map(
+      mailboxes.map((m) => [m.id, this.mailProviders.get(m)]),
+    );
+
+    const where: FindOptionsWhere<Email> = {
+      mailboxId: In(mailboxes.map((m) => m.id)),
+      ...(options.updatedSince && {
+        updatedAt: MoreThanOrEqual(options.updatedSince),
+      }),
+    };
+
+    let lastId = 0;
+
+    for (;;) {
+      const emails = await this.emailRepository.find({
+        select: { id: true, mailboxId: true, labels: true, columnId: true },
+        where: { ...where, id: MoreThan(lastId) },
+        order: { id: 'ASC' },
+        take: RECONCILE_BATCH_SIZE,
+      });
+
+      if (emails.length === 0) break;
+      lastId = emails[emails.length - 1].id;
+      result.scanned += emails.length;
+
+      // Group moves by target column so each batch is a handful of updates
+      const moves = new Map<number | null, number[]>();
+      for (const email of emails) {
+        const columnId = this.resolveColumnId(
+          columns,
+          email.labels || [],
+          email.columnId,
+          clients.get(email.mailboxId)!,
+        );
+        if (columnId !== email.columnId) {
+          moves.set(columnId, [...(moves.get(columnId) || []), email.id]);
+        }
+      }
+
+      for (const [columnId, emailIds] of moves) {
+        await this.emailRepository.update({ id: In(emailIds) }, { columnId });
+        result.updated += emailIds.length;
+      }
+    }
+
+    if (result.updated > 0) {
+      this.logger.log(
+        `Reconciled columns for user ${userId}: ${result.updated}/${result.scanned} emails moved`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Work out which column an email belongs in from its labels
+   *
+   * 1. A mapped label that was just added wins, so a label applied in Gmail
+   *    moves the card
+   * 2. Otherwise the current column is kept while it still applies; manual
+   *    columns without a label always apply
+   * 3. Otherwise the best mapped column the email has a label for:
+   *    user labels before system labels, system labels before INBOX,
+   *    then by column order
+   * 4. No matching column leaves the email off the board (null)
+   *
+   * Columns showing a saved search never hold cards.
+   *
+   * @param columns the user's columns
+   * @param labels the email's current labels
+   * @param client client of the email's mailbox, which knows its user labels
+   * @param addedLabels labels added by the change being applied, if any
+   */
+  resolveColumnId(
+    columns: ColumnConfig[],
+    labels: string[],
+    currentColumnId: number | null,
+    client: Pick<MailProviderClient, 'isUserLabel'>,
+    addedLabels: string[] = [],
+  ): number | null {
+    const precedence = (labelId: string) =>
+      this.labelPrecedence(labelId, client);
+    const mappedColumns = columns
+      .filter((col) => !!col.gmailLabelId)
+      .sort(
+        (a, b) =>
+          precedence(a.gmailLabelId!) - precedence(b.gmailLabelId!) ||
+          a.orderIndex - b.orderIndex,
+      );
+
+    const addedMatch = mappedColumns.find((col) =>
+      addedLabels.includes(col.gmailLabelId!),
+    );
+    if (addedMatch) {
+      return addedMatch.id;
+    }
+
+    const current = columns.find((col) => col.id === currentColumnId);
+    if (
+      current &&
+      !current.savedSearchId &&
+      (!current.gmailLabelId || labels.includes(current.gmailLabelId))
+    ) {
+      return current.id;
+    }
+
+    const match = mappedColumns.find((col) =>
+      labels.includes(col.gmailLabelId!),
+    );
+    return match ? match.id : null;
+  }
+
+  /**
+   * Lower wins: user-created labels are the most deliberate signal,
+   * INBOX the least since almost everything has it
+   */
+  private labelPrecedence(
+    labelId: string,
+    client: Pick<MailProviderClient, 'isUserLabel'>,
+  ): number {
+    if (labelId === 'INBOX') return 2;
+    return client.isUserLabel(labelId) ? 0 : 1;
+  }
+
+  /**
+   * @throws BadRequestException when a column has both a label and a
+   *   saved search
+   * @throws NotFoundException when the saved search is not the user's
+   */
+  private async validateSource(column: ColumnConfig): Promise<void> {
+    if (!column.savedSearchId) {
+      return;
+    }
+
+    if (column.gmailLabelId) {
+      throw new BadRequestException(
+        'A column shows either a Gmail label or a saved search, not both',
+      );
+    }
+
+    const savedSearch = await this.savedSearchRepository.findOne({
+      where: { id: column.savedSearchId, userId: column.userId },
+    });
+
+    if (!savedSearch) {
+      throw new NotFoundException(
+        `Saved search ${column.savedSearchId} not found`,
+      );
+    }
+  }
+
   /**
    * Reorder columns when moving one column
    */
@@ -282,6 +494,7 @@ export class KanbanService {
       title: column.title,
       orderIndex: column.orderIndex,
       gmailLabelId: column.gmailLabelId,
+      savedSearchId: column.savedSearchId,
       color: column.color,
       isDefault: column.isDefault,
       createdAt: column.createdAt,
@@ -0,0 +1,148 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import {
+  ApplyMailRuleDto,
+  ApplyMailRuleResultDto,
+  CreateMailRuleDto,
+  MailRuleDto,
+  UpdateMailRuleDto,
+} from './dto';
+import { MailRuleService } from './mail-rule.service';
+
+@ApiTags('Mail Rules')
+@ApiBearerAuth()
+@Controller('rules')
+export class MailRuleController {
+  constructor(private readonly mailRuleService: MailRuleService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List mail rules',
+    description: 'Returns the rules in the order they run',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of rules',
+    type: [MailRuleDto],
+  })
+  async findAll(@CurrentUser() user: User): Promise<MailRuleDto[]> {
+    return this.mailRuleService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a mail rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: MailRuleDto })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Rule not found' })
+  async findOne(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<MailRuleDto> {
+    return this.mailRuleService.findOne(user.id, id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a mail rule',
+    description:
+      'Enabled rules run on every new email during sync, lowest priority ' +
+      'first. All conditions that are set have to match.',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: MailRuleDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Rule has no conditions or no actions',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox or column not found',
+  })
+  async create(
+    @CurrentUser() user: User,
+    @Body() dto: CreateMailRuleDto,
+  ): Promise<MailRuleDto> {
+    return this.mailRuleService.create(user.id, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a mail rule',
+    description: 'conditions and actions are replaced as a whole when given',
+  })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: MailRuleDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Rule has no conditions or no actions',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Rule, mailbox or column not found',
+  })
+  async update(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateMailRuleDto,
+  ): Promise<MailRuleDto> {
+    return this.mailRuleService.update(user.id, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a mail rule' })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Rule deleted' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Rule not found' })
+  async remove(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.mailRuleService.remove(user.id, id);
+  }
+
+  @Post(':id/apply')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run a rule over existing mail',
+    description:
+      'Applies the rule to synced emails that match, even when the rule is ' +
+      'disabled, newest first. One call checks up to 2000 emails and ' +
+      'applies the actions to at most 100; pass nextBeforeId back as ' +
+      'beforeId until it is null. Use dryRun to preview the matches first. ' +
+      'Urgency conditions only match emails that already have a score.',
+  })
+  @ApiParam({ name: 'id', description: 'Rule ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: ApplyMailRuleResultDto })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Rule not found' })
+  async apply(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ApplyMailRuleDto,
+  ): Promise<ApplyMailRuleResultDto> {
+    return this.mailRuleService.apply(
+      user.id,
+      id,
+      dto.dryRun ?? false,
+      dto.beforeId,
+    );
+  }
+}
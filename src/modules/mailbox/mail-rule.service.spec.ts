@@ -0,0 +1,116 @@
+import { FindOperator } from 'typeorm';
+import { Email, MailRule } from './entities';
+import {
+  APPLY_ACTION_LIMIT,
+  APPLY_SCAN_LIMIT,
+  MailRuleService,
+} from './mail-rule.service';
+
+describe('MailRuleService', () => {
+  const rule = {
+    id: 3,
+    userId: 1,
+    mailboxId: null,
+    conditions: { from: 'billing@' },
+    actions: { markRead: true },
+  } as MailRule;
+
+  // Mail with IDs 1..total, every third from billing@
+  let total: number;
+  const emailRepository = {
+    find: jest.fn(
+      ({
+        where,
+        take,
+      }: {
+        where: { id?: FindOperator<number> };
+        take: number;
+      }) => {
+        const below = where.id ? where.id.value : total + 1;
+        const emails: Partial<Email>[] = [];
+        for (let id = below - 1; id >= 1 && emails.length < take; id--) {
+          emails.push({
+            id,
+            mailboxId: 2,
+            fromEmail: id % 3 === 0 ? 'billing@example.com' : 'bob@example.com',
+          });
+        }
+        return Promise.resolve(emails);
+      },
+    ),
+    count: jest.fn().mockResolvedValue(0),
+  };
+  const mailRuleRepository = { findOne: jest.fn() };
+  const mailboxRepository = { find: jest.fn(), update: jest.fn() };
+  const columnConfigRepository = { find: jest.fn() };
+  const mailRuleEngine = { executeActions: jest.fn() };
+
+  let service: MailRuleService;
+
+  beforeEach(() => {
+    service = new MailRuleService(
+      mailRuleRepository as never,
+      emailRepository as never,
+      mailboxRepository as never,
+      columnConfigRepository as never,
+      mailRuleEngine as never,
+    );
+    total = 10;
+    mailRuleRepository.findOne.mockResolvedValue(rule);
+    mailboxRepository.find.mockResolvedValue([{ id: 2 }]);
+    columnConfigRepository.find.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('apply', () => {
+    it('runs over all mail when it fits in one call', async () => {
+      const result = await service.apply(1, 3, false);
+
+      expect(result).toMatchObject({
+        scanned: 10,
+        matched: 3,
+        updated: 3,
+        nextBeforeId: null,
+      });
+    });
+
+    it('stops after the action limit and continues from the cursor', async () => {
+      total = 1000;
+
+      const first = await service.apply(1, 3, false);
+
+      expect(mailRuleEngine.executeActions).toHaveBeenCalledTimes(
+        APPLY_ACTION_LIMIT,
+      );
+      // The 100th match is email 702; the next call starts below it
+      expect(first).toMatchObject({
+        scanned: 299,
+        updated: APPLY_ACTION_LIMIT,
+        nextBeforeId: 702,
+      });
+
+      mailRuleEngine.executeActions.mockClear();
+      const second = await service.apply(1, 3, false, first.nextBeforeId!);
+
+      const [, firstEmail] = mailRuleEngine.executeActions.mock.calls[0] as [
+        unknown,
+        Email,
+      ];
+      expect(firstEmail.id).toBe(699);
+      expect(second.nextBeforeId).toBe(402);
+    });
+
+    it('bounds the emails a dry run scans', async () => {
+      total = APPLY_SCAN_LIMIT + 10;
+
+      const result = await service.apply(1, 3, true);
+
+      expect(result.scanned).toBe(APPLY_SCAN_LIMIT);
+      expect(result.nextBeforeId).toBe(11);
+      expect(mailRuleEngine.executeActions).not.toHaveBeenCalled();
+    });
+  });
+});
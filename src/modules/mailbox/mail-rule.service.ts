@@ -0,0 +1,316 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThan, Repository } from 'typeorm';
+import {
+  ColumnConfig,
+  Email,
+  Mailbox,
+  MailRule,
+  MailRuleActions,
+  MailRuleConditions,
+} from './entities';
+import {
+  ApplyMailRuleResultDto,
+  CreateMailRuleDto,
+  MailRuleDto,
+  UpdateMailRuleDto,
+} from './dto';
+import {
+  MailRuleEngineService,
+  matchesConditions,
+} from './providers/mail-rule-engine.service';
+
+const APPLY_BATCH_SIZE = 500;
+// Bounds on the work of one apply request; callers continue with the cursor
+export const APPLY_SCAN_LIMIT = 2000;
+export const APPLY_ACTION_LIMIT = 100;
+const PREVIEW_LIMIT = 50;
+
+@Injectable()
+export class MailRuleService {
+  private readonly logger = new Logger(MailRuleService.name);
+
+  constructor(
+    @InjectRepository(MailRule)
+    private readonly mailRuleRepository: Repository<MailRule>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    @InjectRepository(ColumnConfig)
+    private readonly columnConfigRepository: Repository<ColumnConfig>,
+    private readonly mailRuleEngine: MailRuleEngineService,
+  ) {}
+
+  async findAll(userId: number): Promise<MailRuleDto[]> {
+    const rules = await this.mailRuleRepository.find({
+      where: { userId },
+      order: { priority: 'ASC', id: 'ASC' },
+    });
+
+    return rules.map((rule) => this.toDto(rule));
+  }
+
+  async findOne(userId: number, ruleId: number): Promise<MailRuleDto> {
+    return this.toDto(await this.findRule(userId, ruleId));
+  }
+
+  async create(userId: number, dto: CreateMailRuleDto): Promise<MailRuleDto> {
+    await this.validateRule(userId, dto.mailboxId, dto.conditions, dto.actions);
+
+    const rule = await this.mailRuleRepository.save(
+      this.mailRuleRepository.create({
+        userId,
+        name: dto.name,
+        mailboxId: dto.mailboxId ?? null,
+        isEnabled: dto.isEnabled ?? true,
+        priority: dto.priority ?? 0,
+        conditions: dto.conditions,
+        actions: dto.actions,
+      }),
+    );
+
+    this.logger.log(`Created mail rule ${rule.id} for user ${userId}`);
+
+    return this.toDto(rule);
+  }
+
+  async update(
+    userId: number,
+    ruleId: number,
+    dto: UpdateMailRuleDto,
+  ): Promise<MailRuleDto> {
+    const rule = await this.findRule(userId, ruleId);
+
+    if (dto.name !== undefined) rule.name = dto.name;
+    if (dto.mailboxId !== undefined) rule.mailboxId = dto.mailboxId;
+    if (dto.isEnabled !== undefined) rule.isEnabled = dto.isEnabled;
+    if (dto.priority !== undefined) rule.priority = dto.priority;
+    if (dto.conditions !== undefined) rule.conditions = dto.conditions;
+    if (dto.actions !== undefined) rule.actions = dto.actions;
+
+    await this.validateRule(
+      userId,
+      rule.mailboxId ?? undefined,
+      rule.conditions,
+      rule.actions,
+    );
+
+    return this.toDto(await this.mailRuleRepository.save(rule));
+  }
+
+  async remove(userId: number, ruleId: number): Promise<void> {
+    const rule = await this.findRule(userId, ruleId);
+    await this.mailRuleRepository.remove(rule);
+  }
+
+  /**
+   * Run a rule over mail that is already synced, disabled rules included,
+   * newest first and at most APPLY_SCAN_LIMIT emails and APPLY_ACTION_LIMIT
+   * actioned emails per call
+   * Urgency conditions only use stored scores; nothing is scored here
+   * @param beforeId nextBeforeId of the previous call, to continue there
+   */
+  async apply(
+    userId: number,
+    ruleId: number,
+    dryRun: boolean,
+    beforeId?: number,
+  ): Promise<ApplyMailRuleResultDto> {
+    const rule = await this.findRule(userId, ruleId);
+
+    const mailboxes = await this.mailboxRepository.find({
+      where: {
+        userId,
+        deletedAt: IsNull(),
+        ...(rule.mailboxId && { id: rule.mailboxId }),
+      },
+    });
+    const columns = await this.columnConfigRepository.find({
+      where: { userId },
+    });
+
+    const result: ApplyMailRuleResultDto = {
+      ruleId,
+      dryRun,
+      scanned: 0,
+      matched: 0,
+      updated: 0,
+      preview: [],
+      nextBeforeId: null,
+    };
+
+    if (mailboxes.length === 0) {
+      return result;
+    }
+
+    let lastId = beforeId;
+    let actioned = 0;
+
+    while (result.nextBeforeId === null) {
+      const take = Math.min(
+        APPLY_BATCH_SIZE,
+        APPLY_SCAN_LIMIT - result.scanned,
+      );
+      const emails = await this.emailRepository.find({
+        where: {
+          mailboxId: In(mailboxes.map((m) => m.id)),
+          deletedAt: IsNull(),
+          ...(lastId !== undefined && { id: LessThan(lastId) }),
+        },
+        order: { id: 'DESC' },
+        take,
+      });
+
+      for (const email of emails) {
+        if (!dryRun && actioned === APPLY_ACTION_LIMIT) {
+          result.nextBeforeId = lastId!;
+          break;
+        }
+
+        lastId = email.id;
+        result.scanned++;
+
+        if (!matchesConditions(email, rule.conditions)) {
+          continue;
+        }
+
+        result.matched++;
+
+        if (result.preview.length < PREVIEW_LIMIT) {
+          result.preview.push({
+            emailId: email.id,
+            subject: email.subject,
+            fromEmail: email.fromEmail,
+            receivedAt: email.receivedAt,
+          });
+        }
+
+        if (dryRun) {
+          continue;
+        }
+
+        const mailbox = mailboxes.find((m) => m.id === email.mailboxId)!;
+
+        actioned++;
+        try {
+          await this.mailRuleEngine.executeActions(
+            mailbox,
+            email,
+            rule.actions,
+            columns,
+          );
+          result.updated++;
+        } catch (error) {
+          this.logger.warn(
+            `Rule ${ruleId} failed on email ${email.id}: ${(error as Error).message}`,
+          );
+        }
+      }
+
+      if (emails.length < take) {
+        break;
+      }
+      // A full last batch may have been the end; the next call finds out
+      if (result.scanned === APPLY_SCAN_LIMIT) {
+        result.nextBeforeId = lastId!;
+      }
+    }
+
+    if (result.updated > 0) {
+      for (const mailbox of mailboxes) {
+        const unreadCount = await this.emailRepository.count({
+          where: { mailboxId: mailbox.id, isRead: false, deletedAt: IsNull() },
+        });
+        await this.mailboxRepository.update(mailbox.id, { unreadCount });
+      }
+    }
+
+    this.logger.log(
+      `Rule ${ruleId}${dryRun ? ' (dry run)' : ''}: ${result.matched}/${result.scanned} emails matched, ${result.updated} updated${result.nextBeforeId ? ', more to go' : ''}`,
+    );
+
+    return result;
+  }
+
+  private async findRule(userId: number, ruleId: number): Promise<MailRule> {
+    const rule = await this.mailRuleRepository.findOne({
+      where: { id: ruleId, userId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException(`Mail rule ${ruleId} not found`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * @throws BadRequestException for a rule without conditions or actions,
+   *   or one moving mail into a column that shows a saved search
+   * @throws NotFoundException when the mailbox or column is not the user's
+   */
+  private async validateRule(
+    userId: number,
+    mailboxId: number | undefined,
+    conditions: MailRuleConditions,
+    actions: MailRuleActions,
+  ): Promise<void> {
+    const isSet = (value: unknown) => value !== undefined && value !== null;
+
+    if (!Object.values(conditions).some(isSet)) {
+      throw new BadRequestException('A rule needs at least one condition');
+    }
+
+    if (!Object.values(actions).some(isSet)) {
+      throw new BadRequestException('A rule needs at least one action');
+    }
+
+    if (mailboxId) {
+      const mailbox = await this.mailboxRepository.findOne({
+        where: { id: mailboxId, userId, deletedAt: IsNull() },
+      });
+
+      if (!mailbox) {
+        throw new NotFoundException(`Mailbox ${mailboxId} not found`);
+      }
+    }
+
+    if (actions.moveToColumnId) {
+      const column = await this.columnConfigRepository.findOne({
+        where: { id: actions.moveToColumnId, userId },
+      });
+
+      if (!column) {
+        throw new NotFoundException(
+          `Column ${actions.moveToColumnId} not found`,
+        );
+      }
+
+      if (column.savedSearchId) {
+        throw new BadRequestException(
+          `Column ${actions.moveToColumnId} shows a saved search; emails cannot be moved into it`,
+        );
+      }
+    }
+  }
+
+  private toDto(rule: MailRule): MailRuleDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      mailboxId: rule.mailboxId,
+      isEnabled: rule.isEnabled,
+      priority: rule.priority,
+      conditions: rule.conditions,
+      actions: rule.actions,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
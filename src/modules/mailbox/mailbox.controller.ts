@@ -9,6 +9,7 @@ import {
   ParseIntPipe,
   Post,
   Query,
+  Req,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -17,13 +18,20 @@ import {
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
+import type { Request } from 'express';
 import { CurrentUser } from '../auth/decorators';
 import { User } from '../user/entities/user.entity';
 import {
+  ConnectImapMailboxDto,
   ConnectMailboxDto,
+  EnrichMailboxDto,
+  EnrichmentQueuedDto,
   GmailLabelsResponseDto,
   MailboxResponseDto,
   MailboxStatsDto,
+  PaginatedSyncJobsDto,
+  StartBackfillDto,
+  SyncJobQueryDto,
 } from './dto';
 import { EmailService } from './email.service';
 import { MailboxService } from './mailbox.service';
@@ -91,6 +99,66 @@ export class MailboxController {
     return this.toResponseDto(mailbox);
   }
 
+  @Post('connect/outlook')
+  @ApiOperation({
+    summary: 'Connect a Microsoft 365 / Outlook mailbox using OAuth code',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Mailbox connected successfully',
+    type: MailboxResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Mailbox already connected',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'The OAuth code was rejected, or Outlook is not configured on the server',
+  })
+  async connectOutlook(
+    @CurrentUser() user: User,
+    @Body() connectDto: ConnectMailboxDto,
+  ): Promise<MailboxResponseDto> {
+    const mailbox = await this.mailboxService.connectOutlookMailbox(
+      user.id,
+      connectDto,
+    );
+    return this.toResponseDto(mailbox);
+  }
+
+  @Post('connect/imap')
+  @ApiOperation({
+    summary: 'Connect an IMAP/SMTP mailbox',
+    description:
+      'For providers without Gmail OAuth (Fastmail, company mail servers). ' +
+      'Credentials are checked against both servers before the mailbox is saved.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Mailbox connected successfully',
+    type: MailboxResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Could not log in to the IMAP or SMTP server',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Mailbox already connected',
+  })
+  async connectImap(
+    @CurrentUser() user: User,
+    @Body() connectDto: ConnectImapMailboxDto,
+  ): Promise<MailboxResponseDto> {
+    const mailbox = await this.mailboxService.connectImapMailbox(
+      user.id,
+      connectDto,
+    );
+    return this.toResponseDto(mailbox);
+  }
+
   @Post(':id/sync')
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Trigger mailbox synchronization' })
@@ -132,8 +200,100 @@ export class MailboxController {
     return this.emailService.getMailboxStats(user.id, id);
   }
 
+  @Post(':id/backfill')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Start or resume a full-history backfill',
+    description:
+      'Imports mail older than the initial sync in the background. ' +
+      'Progress is reported in the "backfill" field of the mailbox.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Backfill scheduled',
+    type: MailboxResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox not found',
+  })
+  async startBackfill(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() backfillDto: StartBackfillDto,
+  ): Promise<MailboxResponseDto> {
+    const mailbox = await this.mailboxService.startBackfill(
+      user.id,
+      id,
+      backfillDto,
+    );
+    return this.toResponseDto(mailbox);
+  }
+
+  @Post(':id/enrich')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Re-run AI enrichment for a mailbox',
+    description:
+      'Queues the emails of the mailbox for urgency scoring, action item ' +
+      'extraction and (if enabled for the user) summaries. Results appear ' +
+      'on the emails as the background worker gets to them.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Emails queued',
+    type: EnrichmentQueuedDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'AI enrichment is turned off for the user',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox not found',
+  })
+  async enrich(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() enrichDto: EnrichMailboxDto,
+  ): Promise<EnrichmentQueuedDto> {
+    return this.mailboxService.enrich(user.id, id, enrichDto);
+  }
+
+  @Get(':id/sync-jobs')
+  @ApiOperation({
+    summary: 'List sync job history for a mailbox',
+    description:
+      'Most recent first. Failed jobs carry the error that put the mailbox ' +
+      'into the error state; pending jobs are scheduled retries.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated sync jobs',
+    type: PaginatedSyncJobsDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Mailbox not found',
+  })
+  async getSyncJobs(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: SyncJobQueryDto,
+    @Req() request: Request,
+  ): Promise<PaginatedSyncJobsDto> {
+    const baseUrl = `${request.protocol}://${request.get('host')}${request.path}`;
+    return this.mailboxService.getSyncJobs(user.id, id, query, baseUrl);
+  }
+
   @Get(':id/labels')
-  @ApiOperation({ summary: 'Get Gmail labels for a mailbox' })
+  @ApiOperation({
+    summary: 'Get labels for a mailbox',
+    description: 'IMAP mailboxes report their folders as labels.',
+  })
   @ApiParam({ name: 'id', type: Number })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -182,6 +342,7 @@ export class MailboxController {
       totalEmails: mailbox.totalEmails,
       unreadCount: mailbox.unreadCount,
       isActive: mailbox.isActive,
+      backfill: this.mailboxService.getBackfillProgress(mailbox),
       createdAt: mailbox.createdAt,
     };
   }
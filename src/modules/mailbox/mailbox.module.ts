@@ -1,43 +1,166 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import encryptionConfig from '../../config/encryption.config';
+import enrichmentConfig from '../../config/enrichment.config';
+import gmailPushConfig from '../../config/gmail-push.config';
 import googleOAuthConfig from '../../config/google-oauth.config';
+import microsoftOAuthConfig from '../../config/microsoft-oauth.config';
+import outboxConfig from '../../config/outbox.config';
+import searchConfig from '../../config/search.config';
+import syncConfig from '../../config/sync.config';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { User } from '../user/entities/user.entity';
 import { AttachmentController } from './attachment.controller';
 import { AttachmentService } from './attachment.service';
+import { BundleController } from './bundle.controller';
+import { BundleService } from './bundle.service';
+import { ComposeService } from './compose.service';
+import { DeliveryWindowController } from './delivery-window.controller';
+import { DeliveryWindowService } from './delivery-window.service';
+import { DraftController } from './draft.controller';
+import { DraftService } from './draft.service';
 import { EmailController } from './email.controller';
 import { EmailService } from './email.service';
-import { Attachment, ColumnConfig, Email, Mailbox } from './entities';
+import { EmbeddingAdminController } from './embedding-admin.controller';
+import { EmbeddingAdminService } from './embedding-admin.service';
+import { GmailWebhookController } from './gmail-webhook.controller';
+import {
+  Attachment,
+  Bundle,
+  ColumnConfig,
+  DeliveryWindow,
+  Email,
+  Mailbox,
+  MailRule,
+  OutboxAttachment,
+  OutboxMessage,
+  SavedSearch,
+  SearchHistory,
+  SyncJob,
+} from './entities';
 import { KanbanController } from './kanban.controller';
 import { KanbanService } from './kanban.service';
+import { MailRuleController } from './mail-rule.controller';
+import { MailRuleService } from './mail-rule.service';
 import { MailboxController } from './mailbox.controller';
 import { MailboxService } from './mailbox.service';
+import { OutboxController } from './outbox.controller';
+import { OutboxService } from './outbox.service';
+import { ReplySuggestionService } from './reply-suggestion.service';
+import { SavedSearchController } from './saved-search.controller';
+import { SavedSearchService } from './saved-search.service';
+import { SearchHistoryController } from './search-history.controller';
+import { SearchHistoryService } from './search-history.service';
+import { SearchService } from './search.service';
 import { AiService } from './providers/ai.service';
+import { BackfillService } from './providers/backfill.service';
+import { BundlingService } from './providers/bundling.service';
+import { DeliverySchedulerService } from './providers/delivery-scheduler.service';
 import { EmailSyncService } from './providers/email-sync.service';
+import { EmbeddingIndexService } from './providers/embedding-index.service';
+import { EmbeddingService } from './providers/embedding.service';
+import { EnrichmentService } from './providers/enrichment.service';
+import { GmailPushService } from './providers/gmail-push.service';
 import { GmailService } from './providers/gmail.service';
+import { createLlmProvider } from './providers/llm-provider.factory';
+import { LLM_PROVIDER } from './providers/llm-provider.interface';
+import { ImapService } from './providers/imap.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+import { MailRuleEngineService } from './providers/mail-rule-engine.service';
+import { OutboxSenderService } from './providers/outbox-sender.service';
+import { OutlookService } from './providers/outlook.service';
+import { PriorityRankingService } from './providers/priority-ranking.service';
 import { SnoozeWakeupService } from './providers/snooze-wakeup.service';
+import { SyncJobService } from './providers/sync-job.service';
+import { SyncLockService } from './providers/sync-lock.service';
+import { ThreadController } from './thread.controller';
+import { ThreadService } from './thread.service';
 import { MailboxCron } from './mailbox.cron';
 
 @Module({
   imports: [
     ConfigModule.forFeature(googleOAuthConfig),
+    ConfigModule.forFeature(microsoftOAuthConfig),
     ConfigModule.forFeature(encryptionConfig),
-    TypeOrmModule.forFeature([Mailbox, Email, Attachment, ColumnConfig]),
+    ConfigModule.forFeature(gmailPushConfig),
+    ConfigModule.forFeature(syncConfig),
+    ConfigModule.forFeature(outboxConfig),
+    ConfigModule.forFeature(enrichmentConfig),
+    ConfigModule.forFeature(searchConfig),
+    TypeOrmModule.forFeature([
+      Mailbox,
+      Email,
+      Attachment,
+      ColumnConfig,
+      SyncJob,
+      OutboxMessage,
+      OutboxAttachment,
+      MailRule,
+      Bundle,
+      DeliveryWindow,
+      SavedSearch,
+      SearchHistory,
+      User,
+    ]),
+    IdempotencyModule,
   ],
   controllers: [
     MailboxController,
     EmailController,
+    ThreadController,
+    DraftController,
+    OutboxController,
     AttachmentController,
     KanbanController,
+    MailRuleController,
+    BundleController,
+    DeliveryWindowController,
+    SavedSearchController,
+    SearchHistoryController,
+    EmbeddingAdminController,
+    GmailWebhookController,
   ],
   providers: [
     MailboxService,
     EmailService,
+    ComposeService,
+    ReplySuggestionService,
+    SearchService,
+    SavedSearchService,
+    SearchHistoryService,
+    EmbeddingAdminService,
+    ThreadService,
+    DraftService,
+    OutboxService,
     AttachmentService,
     KanbanService,
+    MailRuleService,
+    BundleService,
+    DeliveryWindowService,
     GmailService,
+    ImapService,
+    OutlookService,
+    MailProviderRegistry,
+    GmailPushService,
     EmailSyncService,
+    MailRuleEngineService,
+    BundlingService,
+    EmbeddingService,
+    EmbeddingIndexService,
+    PriorityRankingService,
+    SyncLockService,
+    SyncJobService,
+    BackfillService,
     SnoozeWakeupService,
+    DeliverySchedulerService,
+    EnrichmentService,
+    OutboxSenderService,
+    {
+      provide: LLM_PROVIDER,
+      useFactory: createLlmProvider,
+      inject: [ConfigService],
+    },
     AiService,
     MailboxCron,
   ],
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   ConflictException,
   Injectable,
   Logger,
@@ -10,13 +11,34 @@ import { OAuth2Client } from 'google-auth-library';
 import { IsNull, Repository } from 'typeorm';
 import { EncryptionUtil } from '../../common/utils/encryption.util';
 import {
+  BackfillHorizon,
+  BackfillProgressDto,
+  ConnectImapMailboxDto,
   ConnectMailboxDto,
+  EnrichMailboxDto,
+  EnrichmentQueuedDto,
   GmailLabelDto,
   GmailLabelsResponseDto,
+  PaginatedSyncJobsDto,
+  StartBackfillDto,
+  SyncJobQueryDto,
+  SyncJobResponseDto,
 } from './dto';
-import { Mailbox, MailboxProvider, MailboxSyncStatus } from './entities';
+import {
+  Mailbox,
+  MailboxProvider,
+  MailboxSyncStatus,
+  SyncJob,
+  SyncJobTrigger,
+} from './entities';
+import { BackfillService } from './providers/backfill.service';
 import { EmailSyncService } from './providers/email-sync.service';
-import { GmailService } from './providers/gmail.service';
+import { EnrichmentService } from './providers/enrichment.service';
+import { GmailPushService } from './providers/gmail-push.service';
+import { ImapService } from './providers/imap.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+import { OutlookService, OutlookTokens } from './providers/outlook.service';
+import { SyncJobService } from './providers/sync-job.service';
 
 @Injectable()
 export class MailboxService {
@@ -27,8 +49,14 @@ export class MailboxService {
     @InjectRepository(Mailbox)
     private readonly mailboxRepository: Repository<Mailbox>,
     private readonly configService: ConfigService,
-    private readonly gmailService: GmailService,
+    private readonly imapService: ImapService,
+    private readonly outlookService: OutlookService,
+    private readonly mailProviders: MailProviderRegistry,
     private readonly emailSyncService: EmailSyncService,
+    private readonly gmailPushService: GmailPushService,
+    private readonly syncJobService: SyncJobService,
+    private readonly backfillService: BackfillService,
+    private readonly enrichmentService: EnrichmentService,
   ) {
     const encryptionKey = this.configService.get<string>('encryption.key');
     if (!encryptionKey) {
@@ -113,11 +141,148 @@ export class MailboxService {
     this.logger.log(`Connected Gmail mailbox ${email} for user ${userId}`);
 
     setImmediate(() => {
-      this.emailSyncService.fullSync(savedMailbox.id).catch((err: Error) => {
-        this.logger.error(
-          `Initial sync failed for mailbox ${savedMailbox.id}: ${err.message}`,
-        );
-      });
+      this.emailSyncService
+        .fullSync(savedMailbox.id, { trigger: SyncJobTrigger.INITIAL })
+        .then(() => this.gmailPushService.registerWatch(savedMailbox))
+        .catch((err: Error) => {
+          this.logger.error(
+            `Initial sync failed for mailbox ${savedMailbox.id}: ${err.message}`,
+          );
+        });
+    });
+
+    return savedMailbox;
+  }
+
+  /**
+   * Connect a Microsoft 365 / Outlook.com account using an OAuth code
+   */
+  async connectOutlookMailbox(
+    userId: number,
+    connectDto: ConnectMailboxDto,
+  ): Promise<Mailbox> {
+    if (!this.outlookService.isConfigured) {
+      throw new BadRequestException(
+        'Outlook mailboxes are not configured on this server',
+      );
+    }
+
+    let tokens: OutlookTokens;
+    let email: string;
+
+    try {
+      tokens = await this.outlookService.exchangeCode(
+        connectDto.code,
+        connectDto.codeVerifier,
+      );
+      email = await this.outlookService.getAccountEmail(tokens.accessToken);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not connect Outlook account: ${(error as Error).message}`,
+      );
+    }
+
+    const existingMailbox = await this.mailboxRepository.findOne({
+      where: { userId, email, deletedAt: IsNull() },
+    });
+
+    if (existingMailbox) {
+      throw new ConflictException(`Mailbox ${email} is already connected`);
+    }
+
+    const mailbox = this.mailboxRepository.create({
+      userId,
+      email,
+      provider: MailboxProvider.OUTLOOK,
+      encryptedAccessToken: this.encryptionUtil.encrypt(tokens.accessToken),
+      encryptedRefreshToken: this.encryptionUtil.encrypt(tokens.refreshToken),
+      tokenExpiresAt: tokens.expiresAt,
+      syncStatus: MailboxSyncStatus.PENDING,
+    });
+
+    const savedMailbox = await this.mailboxRepository.save(mailbox);
+
+    this.logger.log(`Connected Outlook mailbox ${email} for user ${userId}`);
+
+    // The full sync stores the delta links in historyId
+    setImmediate(() => {
+      this.emailSyncService
+        .fullSync(savedMailbox.id, { trigger: SyncJobTrigger.INITIAL })
+        .catch((err: Error) => {
+          this.logger.error(
+            `Initial sync failed for mailbox ${savedMailbox.id}: ${err.message}`,
+          );
+        });
+    });
+
+    return savedMailbox;
+  }
+
+  /**
+   * Connect an IMAP/SMTP account after checking the credentials
+   */
+  async connectImapMailbox(
+    userId: number,
+    connectDto: ConnectImapMailboxDto,
+  ): Promise<Mailbox> {
+    const existingMailbox = await this.mailboxRepository.findOne({
+      where: { userId, email: connectDto.email, deletedAt: IsNull() },
+    });
+
+    if (existingMailbox) {
+      throw new ConflictException(
+        `Mailbox ${connectDto.email} is already connected`,
+      );
+    }
+
+    const settings = {
+      imapHost: connectDto.imapHost,
+      imapPort: connectDto.imapPort ?? 993,
+      imapSecure: connectDto.imapSecure ?? true,
+      smtpHost: connectDto.smtpHost,
+      smtpPort: connectDto.smtpPort ?? 465,
+      smtpSecure: connectDto.smtpSecure ?? true,
+      username: connectDto.username || connectDto.email,
+      password: connectDto.password,
+    };
+
+    try {
+      await this.imapService.verifyCredentials(settings);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not connect to mail server: ${(error as Error).message}`,
+      );
+    }
+
+    const mailbox = this.mailboxRepository.create({
+      userId,
+      email: connectDto.email,
+      provider: MailboxProvider.IMAP,
+      imapHost: settings.imapHost,
+      imapPort: settings.imapPort,
+      imapSecure: settings.imapSecure,
+      smtpHost: settings.smtpHost,
+      smtpPort: settings.smtpPort,
+      smtpSecure: settings.smtpSecure,
+      imapUsername: settings.username,
+      encryptedPassword: this.encryptionUtil.encrypt(settings.password),
+      syncStatus: MailboxSyncStatus.PENDING,
+    });
+
+    const savedMailbox = await this.mailboxRepository.save(mailbox);
+
+    this.logger.log(
+      `Connected IMAP mailbox ${savedMailbox.email} for user ${userId}`,
+    );
+
+    setImmediate(() => {
+      this.emailSyncService
+        .fullSync(savedMailbox.id, { trigger: SyncJobTrigger.INITIAL })
+        .catch((err: Error) => {
+          this.logger.error(
+            `Initial sync failed for mailbox ${savedMailbox.id}: ${err.message}`,
+          );
+        });
     });
 
     return savedMailbox;
@@ -168,19 +333,135 @@ export class MailboxService {
 
     // Trigger background sync
     setImmediate(() => {
-      this.emailSyncService.fullSync(savedMailbox.id).catch((err: Error) => {
-        this.logger.error(
-          `Initial sync failed for mailbox ${savedMailbox.id}: ${err.message}`,
-        );
-      });
+      this.emailSyncService
+        .fullSync(savedMailbox.id, { trigger: SyncJobTrigger.INITIAL })
+        .then(() => this.gmailPushService.registerWatch(savedMailbox))
+        .catch((err: Error) => {
+          this.logger.error(
+            `Initial sync failed for mailbox ${savedMailbox.id}: ${err.message}`,
+          );
+        });
     });
 
     return savedMailbox;
   }
 
+  /**
+   * Start or resume the full-history backfill for a mailbox
+   */
+  async startBackfill(
+    userId: number,
+    mailboxId: number,
+    dto: StartBackfillDto,
+  ): Promise<Mailbox> {
+    const mailbox = await this.findOneByUser(userId, mailboxId);
+
+    let horizon: Date | null;
+
+    if (dto.since) {
+      horizon = new Date(dto.since);
+      if (horizon.getTime() > Date.now()) {
+        throw new BadRequestException('"since" must be in the past');
+      }
+    } else {
+      horizon = this.resolveBackfillHorizon(
+        dto.horizon ?? BackfillHorizon.ONE_YEAR,
+      );
+    }
+
+    return this.backfillService.start(mailbox, horizon);
+  }
+
+  /**
+   * Queue the mailbox's emails for AI enrichment again
+   */
+  async enrich(
+    userId: number,
+    mailboxId: number,
+    dto: EnrichMailboxDto,
+  ): Promise<EnrichmentQueuedDto> {
+    const mailbox = await this.findOneByUser(userId, mailboxId);
+
+    if (!(await this.enrichmentService.isEnabledFor(userId))) {
+      throw new BadRequestException('AI enrichment is turned off');
+    }
+
+    const queued = await this.enrichmentService.requeue({
+      mailboxId: mailbox.id,
+      onlyMissing: dto.onlyMissing,
+    });
+
+    this.logger.log(
+      `Queued ${queued} emails of mailbox ${mailbox.id} for enrichment`,
+    );
+
+    return { queued };
+  }
+
+  getBackfillProgress(mailbox: Mailbox): BackfillProgressDto {
+    return {
+      status: mailbox.backfillStatus,
+      horizon: mailbox.backfillHorizon,
+      processed: mailbox.backfillProcessed,
+      estimate: mailbox.backfillEstimate,
+      percentComplete: this.backfillService.getPercentComplete(mailbox),
+      error: mailbox.backfillError,
+    };
+  }
+
+  /**
+   * Sync job history for a mailbox, newest first
+   */
+  async getSyncJobs(
+    userId: number,
+    mailboxId: number,
+    query: SyncJobQueryDto,
+    baseUrl: string,
+  ): Promise<PaginatedSyncJobsDto> {
+    await this.findOneByUser(userId, mailboxId);
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [jobs, totalItems] = await this.syncJobService.findByMailbox(
+      mailboxId,
+      page,
+      limit,
+      query.status,
+    );
+
+    const totalPages = Math.ceil(totalItems / limit);
+
+    const buildUrl = (targetPage: number) => {
+      const params = new URLSearchParams();
+      params.set('page', targetPage.toString());
+      params.set('limit', limit.toString());
+      if (query.status) params.set('status', query.status);
+      return `${baseUrl}?${params.toString()}`;
+    };
+
+    return {
+      data: jobs.map((job) => this.toSyncJobDto(job)),
+      meta: {
+        itemsPerPage: limit,
+        totalItems,
+        currentPage: page,
+        totalPages,
+      },
+      links: {
+        first: buildUrl(1),
+        last: buildUrl(Math.max(1, totalPages)),
+        current: buildUrl(page),
+        next: page < totalPages ? buildUrl(page + 1) : null,
+        previous: page > 1 ? buildUrl(page - 1) : null,
+      },
+    };
+  }
+
   async disconnectMailbox(userId: number, mailboxId: number): Promise<void> {
     const mailbox = await this.findOneByUser(userId, mailboxId);
 
+    await this.gmailPushService.stopWatch(mailbox);
     await this.mailboxRepository.softDelete(mailbox.id);
 
     this.logger.log(`Disconnected mailbox ${mailbox.email} for user ${userId}`);
@@ -203,7 +484,7 @@ export class MailboxService {
   }
 
   /**
-   * Get Gmail labels for a mailbox
+   * Get labels for a mailbox (folders for IMAP mailboxes)
    */
   async getGmailLabels(
     userId: number,
@@ -211,27 +492,21 @@ export class MailboxService {
   ): Promise<GmailLabelsResponseDto> {
     const mailbox = await this.findOneByUser(userId, mailboxId);
 
+    const client = this.mailProviders.get(mailbox);
+
     // Check if token is expired or about to expire (within 5 minutes)
     const now = new Date();
     const expiresAt = mailbox.tokenExpiresAt;
     const needsRefresh =
       !expiresAt || expiresAt.getTime() - now.getTime() < 5 * 60 * 1000;
 
-    if (needsRefresh) {
+    if (client.refreshTokens && needsRefresh) {
       this.logger.log(`Refreshing expired token for mailbox ${mailbox.id}`);
-      const { accessToken, expiresAt: newExpiresAt } =
-        await this.gmailService.refreshTokens(mailbox);
-
-      // Update mailbox with new encrypted token
-      mailbox.encryptedAccessToken =
-        this.encryptionUtil.encrypt(accessToken);
-      mailbox.tokenExpiresAt = newExpiresAt;
-      await this.mailboxRepository.save(mailbox);
+      // Stores the new token on the mailbox
+      await client.refreshTokens(mailbox);
     }
 
-    // Reload mailbox to get fresh data after potential save
-    const freshMailbox = await this.findOneByUser(userId, mailboxId);
-    const gmailLabels = await this.gmailService.listLabels(freshMailbox);
+    const labels = await client.listLabels(mailbox);
 
     const systemLabels: GmailLabelDto[] = [];
     const userLabels: GmailLabelDto[] = [];
@@ -252,17 +527,15 @@ export class MailboxService {
       'CATEGORY_FORUMS',
     ]);
 
-    for (const label of gmailLabels) {
-      if (!label.id || !label.name) continue;
-
+    for (const label of labels) {
       const labelDto: GmailLabelDto = {
         id: label.id,
         name: label.name,
-        type: label.type === 'user' ? 'user' : 'system',
-        messagesTotal: label.messagesTotal ?? undefined,
-        messagesUnread: label.messagesUnread ?? undefined,
-        backgroundColor: label.color?.backgroundColor ?? undefined,
-        textColor: label.color?.textColor ?? undefined,
+        type: label.type,
+        messagesTotal: label.messagesTotal,
+        messagesUnread: label.messagesUnread,
+        backgroundColor: label.backgroundColor,
+        textColor: label.textColor,
       };
 
       if (label.type === 'user') {
@@ -281,4 +554,45 @@ export class MailboxService {
 
     return { system: systemLabels, user: userLabels };
   }
+
+  private resolveBackfillHorizon(horizon: BackfillHorizon): Date | null {
+    const yearsBack: Record<BackfillHorizon, number | null> = {
+      [BackfillHorizon.SIX_MONTHS]: 0.5,
+      [BackfillHorizon.ONE_YEAR]: 1,
+      [BackfillHorizon.TWO_YEARS]: 2,
+      [BackfillHorizon.FIVE_YEARS]: 5,
+      [BackfillHorizon.ALL]: null,
+    };
+
+    const years = yearsBack[horizon];
+    if (years === null) {
+      return null;
+    }
+
+    const date = new Date();
+    date.setMonth(date.getMonth() - years * 12);
+    date.setHours(0, 0, 0, 0);
+    return date;
+  }
+
+  private toSyncJobDto(job: SyncJob): SyncJobResponseDto {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      trigger: job.trigger,
+      attempt: job.attempt,
+      error: job.error,
+      scheduledAt: job.scheduledAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      durationMs:
+        job.startedAt && job.finishedAt
+          ? job.finishedAt.getTime() - job.startedAt.getTime()
+          : null,
+      messagesAdded: job.messagesAdded,
+      messagesDeleted: job.messagesDeleted,
+      messagesRelabelled: job.messagesRelabelled,
+    };
+  }
 }
@@ -0,0 +1,126 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Query,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import {
+  OutboxMessageDto,
+  OutboxQueryDto,
+  PaginatedOutboxDto,
+  RescheduleOutboxDto,
+} from './dto';
+import { OutboxService } from './outbox.service';
+
+@ApiTags('Outbox')
+@ApiBearerAuth()
+@Controller('outbox')
+export class OutboxController {
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List queued, sent and failed outgoing messages',
+    description:
+      'Latest send time first; filter by status=pending for sends that can still be undone.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated outbox messages',
+    type: PaginatedOutboxDto,
+  })
+  async findAll(
+    @CurrentUser() user: User,
+    @Query() query: OutboxQueryDto,
+    @Req() request: Request,
+  ): Promise<PaginatedOutboxDto> {
+    const baseUrl = `${request.protocol}://${request.get('host')}${request.path}`;
+    return this.outboxService.findAll(user.id, query, baseUrl);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Fetch a single outbox message' })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Outbox message',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Outbox message not found',
+  })
+  async findOne(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<OutboxMessageDto> {
+    return this.outboxService.findOne(user.id, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Reschedule a pending send, or retry a failed one',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Message rescheduled',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Outbox message not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Message is already being sent, sent or cancelled',
+  })
+  async reschedule(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() rescheduleDto: RescheduleOutboxDto,
+  ): Promise<OutboxMessageDto> {
+    return this.outboxService.reschedule(user.id, id, rescheduleDto.sendAt);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Cancel a pending send (undo send)',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Message cancelled',
+    type: OutboxMessageDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Outbox message not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Message is already being sent, sent or cancelled',
+  })
+  async cancel(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<OutboxMessageDto> {
+    return this.outboxService.cancel(user.id, id);
+  }
+}
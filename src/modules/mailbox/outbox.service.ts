@@ -0,0 +1,304 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { OutboxMessageDto, OutboxQueryDto, PaginatedOutboxDto } from './dto';
+import {
+  Mailbox,
+  OutboxAttachment,
+  OutboxMessage,
+  OutboxStatus,
+} from './entities';
+import {
+  MailDraft,
+  OutgoingEmail,
+  OutgoingFile,
+} from './providers/mail-provider.interface';
+
+/**
+ * Every outgoing message is queued here first and sent by
+ * OutboxSenderService once sendAt has passed; until then it can be
+ * rescheduled or cancelled (undo send)
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+
+  constructor(
+    @InjectRepository(OutboxMessage)
+    private readonly outboxRepository: Repository<OutboxMessage>,
+    @InjectRepository(OutboxAttachment)
+    private readonly outboxAttachmentRepository: Repository<OutboxAttachment>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Queue a message with its uploaded attachments
+   * @param sendAt requested send time; never earlier than the undo delay
+   */
+  async enqueue(
+    mailbox: Mailbox,
+    email: OutgoingEmail,
+    files: OutgoingFile[] = [],
+    sendAt?: Date,
+  ): Promise<OutboxMessageDto> {
+    const message = await this.outboxRepository.save(
+      this.outboxRepository.create({
+        mailboxId: mailbox.id,
+        status: OutboxStatus.PENDING,
+        toEmails: email.to,
+        ccEmails: email.cc?.length ? email.cc : null,
+        bccEmails: email.bcc?.length ? email.bcc : null,
+        subject: email.subject,
+        bodyText: email.body,
+        bodyHtml: email.bodyHtml || null,
+        inReplyTo: email.inReplyTo || null,
+        referenceIds: email.references?.length ? email.references : null,
+        threadId: email.threadId || null,
+        sendAt: this.resolveSendAt(sendAt),
+      }),
+    );
+
+    message.attachments = [];
+    for (const file of files) {
+      message.attachments.push(
+        await this.outboxAttachmentRepository.save(
+          this.outboxAttachmentRepository.create({
+            outboxMessageId: message.id,
+            filename: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            content: file.buffer,
+          }),
+        ),
+      );
+    }
+
+    this.logger.log(
+      `Queued message ${message.id} from mailbox ${mailbox.id} for ${message.sendAt.toISOString()}`,
+    );
+
+    return this.toDto(message);
+  }
+
+  /**
+   * Queue a provider draft; its content stays on the mail server and only
+   * the recipients and subject are copied for listing
+   */
+  async enqueueDraft(
+    mailbox: Mailbox,
+    draft: MailDraft,
+  ): Promise<OutboxMessageDto> {
+    const message = await this.outboxRepository.save(
+      this.outboxRepository.create({
+        mailboxId: mailbox.id,
+        status: OutboxStatus.PENDING,
+        toEmails: draft.message.toEmails,
+        ccEmails: draft.message.ccEmails.length ? draft.message.ccEmails : null,
+        bccEmails: draft.message.bccEmails.length
+          ? draft.message.bccEmails
+          : null,
+        subject: draft.message.subject || '',
+        bodyText: '',
+        draftId: draft.id,
+        sendAt: this.resolveSendAt(),
+      }),
+    );
+    message.attachments = [];
+
+    this.logger.log(
+      `Queued draft ${draft.id} from mailbox ${mailbox.id} as message ${message.id}`,
+    );
+
+    return this.toDto(message);
+  }
+
+  async findAll(
+    userId: number,
+    query: OutboxQueryDto,
+    baseUrl: string,
+  ): Promise<PaginatedOutboxDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    let mailboxIds = await this.getUserMailboxIds(userId);
+    if (query.mailboxId) {
+      mailboxIds = mailboxIds.filter((id) => id === query.mailboxId);
+    }
+
+    const [messages, totalItems] =
+      mailboxIds.length > 0
+        ? await this.outboxRepository.findAndCount({
+            where: {
+              mailboxId: In(mailboxIds),
+              ...(query.status && { status: query.status }),
+            },
+            relations: ['attachments'],
+            order: { sendAt: 'DESC', id: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+          })
+        : [[], 0];
+
+    const totalPages = Math.ceil(totalItems / limit);
+
+    const buildUrl = (targetPage: number) => {
+      const params = new URLSearchParams();
+      params.set('page', targetPage.toString());
+      params.set('limit', limit.toString());
+      if (query.mailboxId) params.set('mailboxId', query.mailboxId.toString());
+      if (query.status) params.set('status', query.status);
+      return `${baseUrl}?${params.toString()}`;
+    };
+
+    return {
+      data: messages.map((message) => this.toDto(message)),
+      meta: {
+        itemsPerPage: limit,
+        totalItems,
+        currentPage: page,
+        totalPages,
+      },
+      links: {
+        first: buildUrl(1),
+        last: buildUrl(Math.max(1, totalPages)),
+        current: buildUrl(page),
+        next: page < totalPages ? buildUrl(page + 1) : null,
+        previous: page > 1 ? buildUrl(page - 1) : null,
+      },
+    };
+  }
+
+  async findOne(userId: number, id: number): Promise<OutboxMessageDto> {
+    return this.toDto(await this.findOneByUser(userId, id));
+  }
+
+  /**
+   * Move a pending message, or retry a failed one, at a new time
+   */
+  async reschedule(
+    userId: number,
+    id: number,
+    sendAt: Date,
+  ): Promise<OutboxMessageDto> {
+    const message = await this.findOneByUser(userId, id);
+    const nextSendAt = sendAt > new Date() ? sendAt : new Date();
+
+    // Conditional update so a message the sender just claimed is not
+    // queued a second time
+    const result = await this.outboxRepository.update(
+      { id, status: In([OutboxStatus.PENDING, OutboxStatus.FAILED]) },
+      {
+        status: OutboxStatus.PENDING,
+        sendAt: nextSendAt,
+        ...(message.status === OutboxStatus.FAILED && {
+          attempts: 0,
+          error: null,
+        }),
+      },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException(
+        `Outbox message ${id} is ${message.status} and can no longer be rescheduled`,
+      );
+    }
+
+    this.logger.log(
+      `Rescheduled outbox message ${id} for ${nextSendAt.toISOString()}`,
+    );
+
+    return this.findOne(userId, id);
+  }
+
+  /**
+   * Undo send: cancel a message that has not gone out yet
+   */
+  async cancel(userId: number, id: number): Promise<OutboxMessageDto> {
+    const message = await this.findOneByUser(userId, id);
+
+    const result = await this.outboxRepository.update(
+      { id, status: In([OutboxStatus.PENDING, OutboxStatus.FAILED]) },
+      { status: OutboxStatus.CANCELLED },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException(
+        `Outbox message ${id} is ${message.status} and can no longer be cancelled`,
+      );
+    }
+
+    this.logger.log(`Cancelled outbox message ${id}`);
+
+    return this.findOne(userId, id);
+  }
+
+  private resolveSendAt(requested?: Date): Date {
+    const undoDelaySeconds =
+      this.configService.get<number>('outbox.undoDelaySeconds') ?? 10;
+    const earliest = new Date(Date.now() + undoDelaySeconds * 1000);
+
+    return requested && requested > earliest ? requested : earliest;
+  }
+
+  private async findOneByUser(
+    userId: number,
+    id: number,
+  ): Promise<OutboxMessage> {
+    const mailboxIds = await this.getUserMailboxIds(userId);
+
+    const message =
+      mailboxIds.length > 0
+        ? await this.outboxRepository.findOne({
+            where: { id, mailboxId: In(mailboxIds) },
+            relations: ['attachments'],
+          })
+        : null;
+
+    if (!message) {
+      throw new NotFoundException(`Outbox message ${id} not found`);
+    }
+
+    return message;
+  }
+
+  private async getUserMailboxIds(userId: number): Promise<number[]> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+      select: ['id'],
+    });
+    return mailboxes.map((m) => m.id);
+  }
+
+  private toDto(message: OutboxMessage): OutboxMessageDto {
+    return {
+      id: message.id,
+      mailboxId: message.mailboxId,
+      status: message.status,
+      to: message.toEmails,
+      cc: message.ccEmails || [],
+      bcc: message.bccEmails || [],
+      subject: message.subject,
+      draftId: message.draftId ?? null,
+      sendAt: message.sendAt,
+      attempts: message.attempts,
+      error: message.error ?? null,
+      sentMessageId: message.sentMessageId ?? null,
+      sentAt: message.sentAt ?? null,
+      attachments: (message.attachments || []).map((attachment) => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: Number(attachment.size),
+      })),
+      createdAt: message.createdAt,
+    };
+  }
+}
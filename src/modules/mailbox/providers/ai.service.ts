@@ -1,27 +1,25 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ActionItem, ReplySuggestion, ReplyTone } from '../entities';
+import { LLM_PROVIDER, LlmTask } from './llm-provider.interface';
+import type { LlmProvider } from './llm-provider.interface';
 
+/**
+ * Prompts and response parsing for the AI features; the model behind them
+ * is the configured LlmProvider
+ */
 @Injectable()
 export class AiService {
   private readonly logger = new Logger(AiService.name);
-  private readonly genAI: GoogleGenerativeAI;
-  private readonly model: string;
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get<string>('gemini.apiKey');
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY is not configured');
-    }
-    this.model =
-      this.configService.get<string>('gemini.model') || 'gemini-1.5-flash';
-    this.genAI = new GoogleGenerativeAI(apiKey);
+  constructor(@Inject(LLM_PROVIDER) private readonly llm: LlmProvider) {}
+
+  // Model generateEmbedding uses
+  get embeddingModel(): string {
+    return this.llm.embeddingModel;
   }
 
   async summarizeEmail(emailContent: string): Promise<string> {
     try {
-      const model = this.genAI.getGenerativeModel({ model: this.model });
-
       const prompt = `You are an AI assistant that summarizes emails concisely.
 Please provide a brief, clear summary (2-3 sentences) of the following email content.
 Focus on the main purpose, key information, and any action items.
@@ -31,9 +29,11 @@ ${emailContent}
 
 Summary:`;
 
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const summary = response.text();
+      const summary = await this.llm.generate({
+        task: LlmTask.SUMMARY,
+        prompt,
+        input: emailContent,
+      });
 
       this.logger.log(`Generated email summary (${summary.length} chars)`);
       return summary.trim();
@@ -47,17 +47,134 @@ Summary:`;
   }
 
   /**
-   * Generate embedding vector for email content
-   * Uses Gemini text-embedding-004 model (768 dimensions)
+   * Summarize a whole conversation, oldest message first
+   * Each message body is truncated to 2000 chars to stay within token limits
    */
-  async generateEmbedding(content: string): Promise<number[]> {
+  async summarizeThread(
+    messages: Array<{ from: string; sentAt: Date; content: string }>,
+  ): Promise<string> {
     try {
-      const model = this.genAI.getGenerativeModel({
-        model: 'text-embedding-004',
+      const conversation = messages
+        .map(
+          (message, index) =>
+            `[${index + 1}] From: ${message.from} (${message.sentAt.toISOString()})\n${message.content.substring(0, 2000)}`,
+        )
+        .join('\n\n');
+
+      const prompt = `You are an AI assistant that summarizes email conversations concisely.
+Please provide a brief, clear summary (3-5 sentences) of the following email thread.
+Cover how the conversation developed, any decisions made, open questions,
+and action items with who is responsible for them.
+
+Email thread (oldest first):
+${conversation}
+
+Summary:`;
+
+      const summary = await this.llm.generate({
+        task: LlmTask.THREAD_SUMMARY,
+        prompt,
+        input: conversation,
+      });
+
+      this.logger.log(
+        `Generated thread summary for ${messages.length} messages (${summary.length} chars)`,
+      );
+      return summary.trim();
+    } catch (error) {
+      this.logger.error(
+        'Failed to generate thread summary',
+        error instanceof Error ? error.stack : String(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Suggest one short reply per tone to the last message of a conversation,
+   * written in that message's language
+   * Each message body is truncated to 2000 chars to stay within token limits
+   */
+  async suggestReplies(
+    messages: Array<{ from: string; sentAt: Date; content: string }>,
+    replyFrom: string,
+  ): Promise<{ language: string; suggestions: ReplySuggestion[] }> {
+    try {
+      const tones = Object.values(ReplyTone);
+
+      const conversation = messages
+        .map(
+          (message, index) =>
+            `[${index + 1}] From: ${message.from} (${message.sentAt.toISOString()})\n${message.content.substring(0, 2000)}`,
+        )
+        .join('\n\n');
+
+      const prompt = `You are an AI assistant that drafts quick email replies.
+Write one short reply (1-3 sentences) from ${replyFrom} to the LAST message of
+the conversation below for each of these tones: ${tones.join(', ')}.
+Use the earlier messages only as context. Write the replies in the same
+language as the last message. Do not add a subject, greeting placeholders
+or a signature.
+
+Return ONLY a JSON object of the form
+{"language": "<ISO 639-1 code>", "suggestions": [{"tone": "<tone>", "text": "<reply>"}]}
+
+Email thread (oldest first):
+${conversation}
+
+JSON:`;
+
+      const response = await this.llm.generate({
+        task: LlmTask.REPLY_SUGGESTIONS,
+        prompt,
+        input: conversation,
       });
+      const text = response.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
 
-      const result = await model.embedContent(content);
-      const embedding = result.embedding.values;
+      const parsed = JSON.parse(text) as {
+        language?: unknown;
+        suggestions?: Array<{ tone?: unknown; text?: unknown }>;
+      };
+
+      const suggestions = tones
+        .map((tone) => ({
+          tone,
+          text: parsed.suggestions?.find((s) => s.tone === tone)?.text,
+        }))
+        .filter(
+          (s): s is ReplySuggestion =>
+            typeof s.text === 'string' && s.text.trim().length > 0,
+        )
+        .map((s) => ({ tone: s.tone, text: s.text.trim() }));
+
+      if (suggestions.length === 0) {
+        throw new Error(`No reply suggestions in response: ${text}`);
+      }
+
+      this.logger.log(`Generated ${suggestions.length} reply suggestions`);
+      return {
+        language: typeof parsed.language === 'string' ? parsed.language : 'und',
+        suggestions,
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to generate reply suggestions',
+        error instanceof Error ? error.stack : String(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generate embedding vector for email content with embeddingModel
+   */
+  async generateEmbedding(content: string): Promise<number[]> {
+    try {
+      const embedding = await this.llm.embed(content);
+
+      if (embedding.length === 0) {
+        throw new Error(`${this.llm.embeddingModel} returned no dimensions`);
+      }
 
       this.logger.log(`Generated embedding (${embedding.length} dimensions)`);
       return embedding;
@@ -95,12 +212,20 @@ Summary:`;
     return parts.join('\n');
   }
 
-  async extractActionItems(emailContent: string): Promise<string[]> {
+  /**
+   * Extract action items, resolving due dates relative to when the email
+   * was received
+   * @throws when the model fails or returns something unparseable
+   */
+  async extractActionItems(
+    emailContent: string,
+    receivedAt: Date,
+  ): Promise<ActionItem[]> {
     try {
-      const model = this.genAI.getGenerativeModel({ model: this.model });
-
       const prompt = `Extract all action items from the following email.
-Return ONLY a JSON array of strings, where each string is a distinct action item.
+Return ONLY a JSON array of objects of the form {"text": "<action item>", "dueDate": "<YYYY-MM-DD or null>"}.
+Set dueDate only when the email gives a deadline; resolve relative dates such as
+"by Friday" against the date the email was received: ${receivedAt.toISOString().slice(0, 10)}.
 If there are no action items, return an empty array [].
 
 Email content:
@@ -108,12 +233,34 @@ ${emailContent}
 
 Action items (JSON array only):`;
 
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text().trim();
+      const response = await this.llm.generate({
+        task: LlmTask.ACTION_ITEMS,
+        prompt,
+        input: emailContent,
+      });
+      const text = response.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+      const parsed = JSON.parse(text) as Array<{
+        text?: unknown;
+        dueDate?: unknown;
+      }>;
 
-      // Parse JSON response
-      const actionItems = JSON.parse(text) as string[];
+      if (!Array.isArray(parsed)) {
+        throw new Error(`Expected a JSON array of action items: ${text}`);
+      }
+
+      const actionItems = parsed
+        .filter(
+          (item) => typeof item.text === 'string' && item.text.trim() !== '',
+        )
+        .map((item) => ({
+          text: (item.text as string).trim(),
+          dueDate:
+            typeof item.dueDate === 'string' &&
+            /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate)
+              ? item.dueDate
+              : null,
+        }));
 
       this.logger.log(`Extracted ${actionItems.length} action items`);
       return actionItems;
@@ -122,15 +269,19 @@ Action items (JSON array only):`;
         'Failed to extract action items',
         error instanceof Error ? error.stack : String(error),
       );
-      // Return empty array on error
-      return [];
+      throw error;
     }
   }
 
-  async calculateUrgencyScore(emailContent: string): Promise<number> {
+  /**
+   * @param options.throwOnError fail instead of falling back to a medium
+   * score of 5, so the caller can retry
+   */
+  async calculateUrgencyScore(
+    emailContent: string,
+    options: { throwOnError?: boolean } = {},
+  ): Promise<number> {
     try {
-      const model = this.genAI.getGenerativeModel({ model: this.model });
-
       const prompt = `Analyze the urgency level of the following email and provide a score from 0 to 10.
 - 0-2: Low urgency (informational, newsletters, promotions)
 - 3-5: Medium urgency (general inquiries, standard requests)
@@ -144,14 +295,20 @@ ${emailContent}
 
 Urgency score (0-10):`;
 
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text().trim();
+      const response = await this.llm.generate({
+        task: LlmTask.URGENCY,
+        prompt,
+        input: emailContent,
+      });
+      const text = response.trim();
 
       // Parse the score
       const score = parseInt(text, 10);
 
       if (isNaN(score) || score < 0 || score > 10) {
+        if (options.throwOnError) {
+          throw new Error(`Invalid urgency score received: ${text}`);
+        }
         this.logger.warn(
           `Invalid urgency score received: ${text}, defaulting to 5`,
         );
@@ -165,6 +322,9 @@ Urgency score (0-10):`;
         'Failed to calculate urgency score',
         error instanceof Error ? error.stack : String(error),
       );
+      if (options.throwOnError) {
+        throw error;
+      }
       // Return medium urgency on error
       return 5;
     }
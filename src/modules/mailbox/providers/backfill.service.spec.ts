@@ -0,0 +1,209 @@
+import { ConfigService } from '@nestjs/config';
+import { Mailbox, MailboxBackfillStatus } from '../entities';
+import { BackfillService } from './backfill.service';
+
+describe('BackfillService', () => {
+  const mailboxRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+  const client = { listMessages: jest.fn() };
+  const emailSyncService = { ingestMessages: jest.fn() };
+  const kanbanService = { reconcile: jest.fn() };
+  const syncLockService = {
+    runExclusive: (_id: number, task: () => Promise<void>) =>
+      task().then(() => true),
+  };
+
+  const running = (overrides: Partial<Mailbox> = {}): Mailbox =>
+    ({
+      id: 2,
+      userId: 1,
+      isActive: true,
+      backfillStatus: MailboxBackfillStatus.RUNNING,
+      backfillHorizon: null,
+      backfillPageToken: null,
+      backfillProcessed: 0,
+      backfillEstimate: null,
+      ...overrides,
+    }) as Mailbox;
+
+  const page = (ids: string[], nextPageToken?: string) => ({
+    messages: ids.map((id) => ({ id })),
+    nextPageToken,
+    resultSizeEstimate: 500,
+  });
+
+  let service: BackfillService;
+
+  const runTick = async (mailbox: Mailbox) => {
+    mailboxRepository.find.mockResolvedValue([mailbox]);
+    mailboxRepository.findOne.mockResolvedValue(mailbox);
+    await service.processBackfills();
+  };
+
+  beforeEach(() => {
+    service = new BackfillService(
+      mailboxRepository as never,
+      new ConfigService({
+        sync: { backfillPageSize: 2, backfillPagesPerTick: 2 },
+      }),
+      { get: () => client } as never,
+      emailSyncService as never,
+      syncLockService as never,
+      kanbanService as never,
+    );
+    emailSyncService.ingestMessages.mockImplementation(
+      (_mailbox: Mailbox, ids: string[]) => Promise.resolve(ids.length),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('resumes from the stored page token and saves progress after every page', async () => {
+    client.listMessages
+      .mockResolvedValueOnce(page(['m5', 'm6'], 'page-4'))
+      .mockResolvedValueOnce(page(['m7', 'm8'], 'page-5'));
+
+    await runTick(
+      running({
+        backfillPageToken: 'page-3',
+        backfillProcessed: 4,
+        backfillEstimate: 500,
+      }),
+    );
+
+    expect(client.listMessages).toHaveBeenNthCalledWith(1, expect.anything(), {
+      maxResults: 2,
+      pageToken: 'page-3',
+      after: undefined,
+    });
+    expect(client.listMessages).toHaveBeenNthCalledWith(2, expect.anything(), {
+      maxResults: 2,
+      pageToken: 'page-4',
+      after: undefined,
+    });
+    expect(mailboxRepository.update.mock.calls).toEqual([
+      [
+        2,
+        {
+          backfillPageToken: 'page-4',
+          backfillProcessed: 6,
+          backfillEstimate: 500,
+        },
+      ],
+      [
+        2,
+        {
+          backfillPageToken: 'page-5',
+          backfillProcessed: 8,
+          backfillEstimate: 500,
+        },
+      ],
+    ]);
+    expect(kanbanService.reconcile).toHaveBeenCalledWith(1, {
+      mailboxId: 2,
+      updatedSince: expect.any(Date) as unknown,
+    });
+  });
+
+  it('completes the backfill on the last page', async () => {
+    client.listMessages.mockResolvedValueOnce(page(['m9']));
+
+    await runTick(
+      running({
+        backfillPageToken: 'page-5',
+        backfillProcessed: 8,
+        backfillEstimate: 5,
+      }),
+    );
+
+    expect(client.listMessages).toHaveBeenCalledTimes(1);
+    expect(mailboxRepository.update.mock.calls).toEqual([
+      [
+        2,
+        {
+          backfillPageToken: null,
+          backfillProcessed: 9,
+          // The estimate never falls behind what was actually walked
+          backfillEstimate: 9,
+        },
+      ],
+      [2, { backfillStatus: MailboxBackfillStatus.COMPLETED }],
+    ]);
+  });
+
+  it('keeps its place and status when the provider rate limits it', async () => {
+    client.listMessages.mockRejectedValue(
+      Object.assign(new Error('Too many requests'), { code: 429 }),
+    );
+
+    await runTick(running({ backfillPageToken: 'page-3' }));
+
+    expect(mailboxRepository.update).not.toHaveBeenCalled();
+    expect(kanbanService.reconcile).not.toHaveBeenCalled();
+  });
+
+  it('records other provider errors on the mailbox', async () => {
+    client.listMessages.mockRejectedValue(new Error('Mailbox not found'));
+
+    await runTick(running());
+
+    expect(mailboxRepository.update).toHaveBeenCalledWith(2, {
+      backfillStatus: MailboxBackfillStatus.ERROR,
+      backfillError: 'Mailbox not found',
+    });
+  });
+
+  describe('start', () => {
+    it('keeps the progress of an unfinished backfill with the same horizon', async () => {
+      const mailbox = running({
+        backfillStatus: MailboxBackfillStatus.ERROR,
+        backfillPageToken: 'page-3',
+        backfillProcessed: 4,
+      });
+
+      await service.start(mailbox, null);
+
+      expect(mailboxRepository.update).toHaveBeenCalledWith(2, {
+        backfillStatus: MailboxBackfillStatus.RUNNING,
+        backfillHorizon: null,
+        backfillError: null,
+      });
+      expect(mailbox.backfillPageToken).toBe('page-3');
+    });
+
+    it('starts over when the horizon changes', async () => {
+      const horizon = new Date('2023-01-01T00:00:00.000Z');
+      const mailbox = running({
+        backfillPageToken: 'page-3',
+        backfillProcessed: 4,
+      });
+
+      await service.start(mailbox, horizon);
+
+      expect(mailbox).toMatchObject({
+        backfillHorizon: horizon,
+        backfillPageToken: null,
+        backfillProcessed: 0,
+        backfillEstimate: null,
+      });
+    });
+  });
+
+  it('reports progress without claiming completion early', () => {
+    expect(
+      service.getPercentComplete(
+        running({ backfillProcessed: 600, backfillEstimate: 500 }),
+      ),
+    ).toBe(99);
+    expect(
+      service.getPercentComplete(
+        running({ backfillStatus: MailboxBackfillStatus.COMPLETED }),
+      ),
+    ).toBe(100);
+  });
+});
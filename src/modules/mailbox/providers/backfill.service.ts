@@ -0,0 +1,218 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Mailbox, MailboxBackfillStatus } from '../entities';
+import { KanbanService } from '../kanban.service';
+import { EmailSyncService } from './email-sync.service';
+import { MailProviderRegistry } from './mail-provider.registry';
+import { SyncLockService } from './sync-lock.service';
+
+/**
+ * Walks a mailbox's full mail history in the background, a few pages per
+ * tick, saving the page token on the mailbox so it resumes after restarts
+ */
+@Injectable()
+export class BackfillService {
+  private readonly logger = new Logger(BackfillService.name);
+  private isRunning = false;
+
+  constructor(
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly configService: ConfigService,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly emailSyncService: EmailSyncService,
+    private readonly syncLockService: SyncLockService,
+    private readonly kanbanService: KanbanService,
+  ) {}
+
+  /**
+   * Start (or restart) a backfill down to the given horizon
+   * An unfinished backfill with the same horizon keeps its progress
+   * @param horizon oldest date to backfill, null for all mail
+   */
+  async start(mailbox: Mailbox, horizon: Date | null): Promise<Mailbox> {
+    const sameHorizon =
+      (mailbox.backfillHorizon?.getTime() ?? null) ===
+      (horizon?.getTime() ?? null);
+    const resumable =
+      sameHorizon &&
+      mailbox.backfillStatus !== MailboxBackfillStatus.COMPLETED &&
+      mailbox.backfillStatus !== MailboxBackfillStatus.IDLE;
+
+    const update: Partial<
+      Pick<
+        Mailbox,
+        | 'backfillStatus'
+        | 'backfillHorizon'
+        | 'backfillError'
+        | 'backfillPageToken'
+        | 'backfillProcessed'
+        | 'backfillEstimate'
+      >
+    > = {
+      backfillStatus: MailboxBackfillStatus.RUNNING,
+      backfillHorizon: horizon,
+      backfillError: null,
+    };
+
+    if (!resumable) {
+      update.backfillPageToken = null;
+      update.backfillProcessed = 0;
+      update.backfillEstimate = null;
+    }
+
+    await this.mailboxRepository.update(mailbox.id, update);
+
+    this.logger.log(
+      `Backfill ${resumable ? 'resumed' : 'started'} for mailbox ${mailbox.id} (horizon: ${horizon?.toISOString() ?? 'all'})`,
+    );
+
+    return Object.assign(mailbox, update);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'mailbox-backfill' })
+  async processBackfills(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      const mailboxes = await this.mailboxRepository.find({
+        where: {
+          isActive: true,
+          backfillStatus: MailboxBackfillStatus.RUNNING,
+        },
+      });
+
+      for (const { id } of mailboxes) {
+        // Regular syncs take priority; a busy mailbox is retried next tick
+        await this.syncLockService.runExclusive(id, async () => {
+          // Reload under the lock in case the backfill was restarted meanwhile
+          const mailbox = await this.mailboxRepository.findOne({
+            where: { id, backfillStatus: MailboxBackfillStatus.RUNNING },
+          });
+
+          if (mailbox) {
+            await this.processPages(mailbox);
+          }
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        'Backfill job failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Progress as a whole percentage, null when nothing has been estimated yet
+   */
+  getPercentComplete(mailbox: Mailbox): number | null {
+    if (mailbox.backfillStatus === MailboxBackfillStatus.COMPLETED) {
+      return 100;
+    }
+
+    if (!mailbox.backfillEstimate) {
+      return mailbox.backfillStatus === MailboxBackfillStatus.IDLE ? null : 0;
+    }
+
+    // Provider estimates are rough, never claim completion before the last page
+    return Math.min(
+      99,
+      Math.floor((mailbox.backfillProcessed / mailbox.backfillEstimate) * 100),
+    );
+  }
+
+  private async processPages(mailbox: Mailbox): Promise<void> {
+    const pageSize =
+      this.configService.get<number>('sync.backfillPageSize') || 100;
+    const pagesPerTick =
+      this.configService.get<number>('sync.backfillPagesPerTick') || 3;
+    const client = this.mailProviders.get(mailbox);
+
+    let pageToken = mailbox.backfillPageToken ?? undefined;
+    let processed = mailbox.backfillProcessed;
+    let estimate = mailbox.backfillEstimate;
+    let added = 0;
+    const tickStartedAt = new Date();
+
+    try {
+      for (let page = 0; page < pagesPerTick; page++) {
+        const { messages, nextPageToken, resultSizeEstimate } =
+          await client.listMessages(mailbox, {
+            maxResults: pageSize,
+            pageToken,
+            after: mailbox.backfillHorizon ?? undefined,
+          });
+
+        if (estimate === null) {
+          estimate = resultSizeEstimate;
+        }
+
+        added += await this.emailSyncService.ingestMessages(
+          mailbox,
+          messages.map((m) => m.id),
+        );
+        processed += messages.length;
+        pageToken = nextPageToken;
+
+        // Persist after every page so a restart loses at most one page
+        await this.mailboxRepository.update(mailbox.id, {
+          backfillPageToken: pageToken ?? null,
+          backfillProcessed: processed,
+          backfillEstimate: Math.max(estimate, processed),
+        });
+
+        if (!pageToken) {
+          await this.mailboxRepository.update(mailbox.id, {
+            backfillStatus: MailboxBackfillStatus.COMPLETED,
+          });
+
+          this.logger.log(
+            `Backfill completed for mailbox ${mailbox.id}: ${processed} messages walked`,
+          );
+          break;
+        }
+      }
+
+      this.logger.debug(
+        `Backfill for mailbox ${mailbox.id}: ${processed} walked, ${added} new this tick`,
+      );
+
+      if (added > 0) {
+        await this.kanbanService.reconcile(mailbox.userId, {
+          mailboxId: mailbox.id,
+          updatedSince: tickStartedAt,
+        });
+      }
+    } catch (error) {
+      const err = error as Error & { code?: number; status?: number };
+
+      // Quota errors are transient: keep the page token and try next tick
+      if (
+        err.code === 429 ||
+        err.status === 429 ||
+        (err.code === 403 && /rate limit/i.test(err.message))
+      ) {
+        this.logger.warn(
+          `Backfill throttled by provider for mailbox ${mailbox.id}: ${err.message}`,
+        );
+        return;
+      }
+
+      this.logger.error(
+        `Backfill failed for mailbox ${mailbox.id}: ${err.message}`,
+      );
+
+      await this.mailboxRepository.update(mailbox.id, {
+        backfillStatus: MailboxBackfillStatus.ERROR,
+        backfillError: err.message,
+      });
+    }
+  }
+}
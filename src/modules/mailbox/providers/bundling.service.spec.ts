@@ -0,0 +1,89 @@
+import { BundleKind, Email, EmailCategory } from '../entities';
+import { classifyBundle, pickBundleByNeighbours } from './bundling.service';
+
+describe('BundlingService', () => {
+  const email = (overrides: Partial<Email> = {}): Email =>
+    ({
+      fromEmail: 'alice@example.com',
+      labels: ['INBOX'],
+      category: EmailCategory.PRIMARY,
+      listId: null,
+      listUnsubscribe: null,
+      aiUrgencyScore: null,
+      ...overrides,
+    }) as Email;
+
+  describe('classifyBundle', () => {
+    it('leaves personal mail alone', () => {
+      expect(classifyBundle(email())).toBeNull();
+    });
+
+    it("follows Gmail's categories first", () => {
+      expect(
+        classifyBundle(
+          email({ category: EmailCategory.PROMOTIONS, listId: 'news.shop' }),
+        ),
+      ).toBe(BundleKind.PROMOTIONS);
+      expect(classifyBundle(email({ category: EmailCategory.SOCIAL }))).toBe(
+        BundleKind.NOTIFICATIONS,
+      );
+    });
+
+    it('bundles mailing lists as newsletters', () => {
+      expect(classifyBundle(email({ listId: 'weekly.example.com' }))).toBe(
+        BundleKind.NEWSLETTERS,
+      );
+      expect(
+        classifyBundle(
+          email({ listUnsubscribe: '<mailto:unsubscribe@example.com>' }),
+        ),
+      ).toBe(BundleKind.NEWSLETTERS);
+    });
+
+    it('recognises automated senders', () => {
+      expect(classifyBundle(email({ fromEmail: 'no-reply@bank.com' }))).toBe(
+        BundleKind.NOTIFICATIONS,
+      );
+      expect(classifyBundle(email({ fromEmail: 'deals@shop.com' }))).toBe(
+        BundleKind.PROMOTIONS,
+      );
+      expect(classifyBundle(email({ fromEmail: 'newsroom@paper.com' }))).toBe(
+        null,
+      );
+    });
+
+    it('never bundles urgent, starred or sent mail', () => {
+      const newsletter = { listId: 'weekly.example.com' };
+
+      expect(
+        classifyBundle(email({ ...newsletter, aiUrgencyScore: 8 })),
+      ).toBeNull();
+      expect(
+        classifyBundle(email({ ...newsletter, labels: ['INBOX', 'STARRED'] })),
+      ).toBeNull();
+      expect(classifyBundle(email({ ...newsletter, labels: ['SENT'] }))).toBe(
+        null,
+      );
+    });
+  });
+
+  describe('pickBundleByNeighbours', () => {
+    it('needs a majority of close neighbours', () => {
+      expect(
+        pickBundleByNeighbours([
+          { bundleId: 1, similarity: 0.95 },
+          { bundleId: 1, similarity: 0.9 },
+          { bundleId: 2, similarity: 0.9 },
+          { bundleId: 1, similarity: 0.85 },
+        ]),
+      ).toBe(1);
+      expect(
+        pickBundleByNeighbours([
+          { bundleId: 1, similarity: 0.95 },
+          { bundleId: 1, similarity: 0.9 },
+          { bundleId: 1, similarity: 0.5 },
+        ]),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, MoreThan, Repository } from 'typeorm';
+import {
+  Bundle,
+  BUNDLE_NAMES,
+  BundleKind,
+  Email,
+  EmailCategory,
+  Mailbox,
+} from '../entities';
+import { cosineDistanceSql, Embedding } from './embedding.service';
+
+// Mail scored at least this urgent is never bundled
+const URGENT_SCORE = 6;
+
+// Mail the user wrote, starred or will never see stays out of bundles
+const UNBUNDLED_LABELS = ['SENT', 'DRAFT', 'STARRED', 'SPAM', 'TRASH'];
+
+// Matched against the local part of the sender address
+const PROMOTION_SENDER =
+  /^(marketing|promo|promos|promotions?|offers?|deals?|sales?|shop)([._+-]|$)/;
+const NEWSLETTER_SENDER = /^(news|newsletters?|digest|weekly)([._+-]|$)/;
+const NOTIFICATION_SENDER =
+  /^(no-?reply|do-?not-?reply|notifications?|notify|alerts?|updates?|mailer-daemon|accounts?|security)([._+-]|$)/;
+
+// Embedding fallback: nearest bundled emails to look at, how similar they
+// have to be, and how many of them have to agree
+const NEIGHBOUR_COUNT = 5;
+const NEIGHBOUR_MIN_SIMILARITY = 0.8;
+const NEIGHBOUR_MIN_VOTES = 3;
+
+const REBUILD_BATCH_SIZE = 500;
+
+type BundleCandidate = Pick<
+  Email,
+  | 'fromEmail'
+  | 'labels'
+  | 'category'
+  | 'listId'
+  | 'listUnsubscribe'
+  | 'aiUrgencyScore'
+>;
+
+export interface BundleNeighbour {
+  bundleId: number;
+  similarity: number;
+}
+
+/**
+ * Whether an email was scored urgent enough to skip bundles and delivery
+ * windows; unscored mail is not
+ */
+export function isUrgent(email: Pick<Email, 'aiUrgencyScore'>): boolean {
+  return (email.aiUrgencyScore ?? 0) >= URGENT_SCORE;
+}
+
+/**
+ * Whether an email may be bundled at all
+ */
+export function isBundleCandidate(email: BundleCandidate): boolean {
+  if (isUrgent(email)) {
+    return false;
+  }
+
+  const labels = email.labels || [];
+  return !UNBUNDLED_LABELS.some((label) => labels.includes(label));
+}
+
+/**
+ * Pick a bundle from the email itself: Gmail's category first, then
+ * mailing list headers, then well-known sender addresses
+ * @returns null when the email is not bundled or needs the embedding
+ * fallback
+ */
+export function classifyBundle(email: BundleCandidate): BundleKind | null {
+  if (!isBundleCandidate(email)) {
+    return null;
+  }
+
+  switch (email.category) {
+    case EmailCategory.PROMOTIONS:
+      return BundleKind.PROMOTIONS;
+    case EmailCategory.UPDATES:
+    case EmailCategory.SOCIAL:
+      return BundleKind.NOTIFICATIONS;
+    case EmailCategory.FORUMS:
+      return BundleKind.NEWSLETTERS;
+  }
+
+  const localPart = email.fromEmail.split('@')[0].toLowerCase();
+
+  if (PROMOTION_SENDER.test(localPart)) {
+    return BundleKind.PROMOTIONS;
+  }
+
+  if (
+    email.listId ||
+    email.listUnsubscribe ||
+    NEWSLETTER_SENDER.test(localPart)
+  ) {
+    return BundleKind.NEWSLETTERS;
+  }
+
+  if (NOTIFICATION_SENDER.test(localPart)) {
+    return BundleKind.NOTIFICATIONS;
+  }
+
+  return null;
+}
+
+/**
+ * Majority vote of the nearest bundled emails
+ * @param neighbours ordered by similarity, most similar first
+ */
+export function pickBundleByNeighbours(
+  neighbours: BundleNeighbour[],
+): number | null {
+  const votes = new Map<number, number>();
+
+  for (const neighbour of neighbours.slice(0, NEIGHBOUR_COUNT)) {
+    if (neighbour.similarity >= NEIGHBOUR_MIN_SIMILARITY) {
+      votes.set(neighbour.bundleId, (votes.get(neighbour.bundleId) ?? 0) + 1);
+    }
+  }
+
+  let winner: number | null = null;
+  let winnerVotes = 0;
+  for (const [bundleId, count] of votes) {
+    if (count > winnerVotes) {
+      winner = bundleId;
+      winnerVotes = count;
+    }
+  }
+
+  return winnerVotes >= NEIGHBOUR_MIN_VOTES ? winner : null;
+}
+
+/**
+ * Sorts low-priority mail into the user's bundles (PRD FR-1.1)
+ */
+@Injectable()
+export class BundlingService {
+  private readonly logger = new Logger(BundlingService.name);
+
+  constructor(
+    @InjectRepository(Bundle)
+    private readonly bundleRepository: Repository<Bundle>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+  ) {}
+
+  /**
+   * Bundle a newly synced email from its headers and sender
+   * @returns the bundle ID, or null when the email was left alone
+   */
+  async assignBundle(mailbox: Mailbox, email: Email): Promise<number | null> {
+    const kind = classifyBundle(email);
+
+    if (!kind) {
+      return null;
+    }
+
+    const bundle = await this.getOrCreateBundle(mailbox.userId, kind);
+    await this.emailRepository.update(email.id, { bundleId: bundle.id });
+    email.bundleId = bundle.id;
+
+    return bundle.id;
+  }
+
+  /**
+   * Take an email back out of its bundle once it is scored urgent; new mail
+   * is bundled before enrichment scores it
+   * @returns whether the email was unbundled
+   */
+  async unbundleIfUrgent(email: Email): Promise<boolean> {
+    if (!email.bundleId || !isUrgent(email)) {
+      return false;
+    }
+
+    await this.emailRepository.update(email.id, { bundleId: null });
+    email.bundleId = null;
+
+    this.logger.debug(`Unbundled urgent email ${email.id}`);
+
+    return true;
+  }
+
+  /**
+   * Bundle an email the header rules left alone with the bundle most of
+   * its nearest neighbours are in; called once its embedding is stored
+   */
+  async assignByEmbedding(
+    email: Email,
+    embedding: Embedding,
+  ): Promise<number | null> {
+    if (email.bundleId || !isBundleCandidate(email)) {
+      return null;
+    }
+
+    const mailbox = await this.mailboxRepository.findOne({
+      where: { id: email.mailboxId },
+    });
+
+    if (!mailbox) {
+      return null;
+    }
+
+    const distance = cosineDistanceSql('$1', embedding.dimensions);
+    const neighbours = await this.emailRepository.query<BundleNeighbour[]>(
+      `
+      SELECT email."bundleId" AS "bundleId",
+        1 - ${distance} AS similarity
+      FROM emails email
+      INNER JOIN mailboxes mailbox ON mailbox.id = email."mailboxId"
+      WHERE mailbox."userId" = $2
+        AND email.id <> $3
+        AND email."bundleId" IS NOT NULL
+        AND email."deletedAt" IS NULL
+        AND email."embeddingModel" = $5
+        AND email.embedding IS NOT NULL
+      ORDER BY ${distance}
+      LIMIT $4
+      `,
+      [
+        embedding.vector,
+        mailbox.userId,
+        email.id,
+        NEIGHBOUR_COUNT,
+        embedding.model,
+      ],
+    );
+
+    const bundleId = pickBundleByNeighbours(
+      neighbours.map((n) => ({
+        bundleId: Number(n.bundleId),
+        similarity: Number(n.similarity),
+      })),
+    );
+
+    if (!bundleId) {
+      return null;
+    }
+
+    // The header rules may have bundled it while the embedding was made
+    const result = await this.emailRepository.update(
+      { id: email.id, bundleId: IsNull() },
+      { bundleId },
+    );
+
+    if (!result.affected) {
+      return null;
+    }
+
+    this.logger.debug(`Bundled email ${email.id} by similarity`);
+
+    return bundleId;
+  }
+
+  /**
+   * Bundle the user's existing mail that is not in a bundle yet, using the
+   * header rules only
+   */
+  async rebuild(userId: number): Promise<{ scanned: number; bundled: number }> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+      select: ['id'],
+    });
+
+    let scanned = 0;
+    let bundled = 0;
+
+    if (mailboxes.length === 0) {
+      return { scanned, bundled };
+    }
+
+    let lastId = 0;
+
+    for (;;) {
+      const emails = await this.emailRepository.find({
+        where: {
+          mailboxId: In(mailboxes.map((m) => m.id)),
+          bundleId: IsNull(),
+          deletedAt: IsNull(),
+          id: MoreThan(lastId),
+        },
+        order: { id: 'ASC' },
+        take: REBUILD_BATCH_SIZE,
+      });
+
+      if (emails.length === 0) {
+        break;
+      }
+
+      lastId = emails[emails.length - 1].id;
+      scanned += emails.length;
+
+      const byKind = new Map<BundleKind, number[]>();
+      for (const email of emails) {
+        const kind = classifyBundle(email);
+        if (kind) {
+          byKind.set(kind, [...(byKind.get(kind) ?? []), email.id]);
+        }
+      }
+
+      for (const [kind, ids] of byKind) {
+        const bundle = await this.getOrCreateBundle(userId, kind);
+        await this.emailRepository.update(
+          { id: In(ids) },
+          { bundleId: bundle.id },
+        );
+        bundled += ids.length;
+      }
+    }
+
+    this.logger.log(
+      `Rebuilt bundles for user ${userId}: ${bundled}/${scanned} emails bundled`,
+    );
+
+    return { scanned, bundled };
+  }
+
+  private async getOrCreateBundle(
+    userId: number,
+    kind: BundleKind,
+  ): Promise<Bundle> {
+    const existing = await this.bundleRepository.findOne({
+      where: { userId, kind },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    // ON CONFLICT DO NOTHING: a concurrent sync may create it first
+    await this.bundleRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ userId, kind, name: BUNDLE_NAMES[kind] })
+      .orIgnore()
+      .execute();
+
+    return this.bundleRepository.findOneOrFail({ where: { userId, kind } });
+  }
+}
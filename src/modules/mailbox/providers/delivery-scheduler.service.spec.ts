@@ -0,0 +1,147 @@
+import { DeliveryWindow, Email, EmailCategory, Mailbox } from '../entities';
+import {
+  DeliverySchedulerService,
+  matchesDeliveryWindow,
+} from './delivery-scheduler.service';
+
+describe('DeliverySchedulerService', () => {
+  const email = (overrides: Partial<Email> = {}): Email =>
+    ({
+      id: 7,
+      mailboxId: 1,
+      fromEmail: 'Deals@Shop.example',
+      labels: ['INBOX', 'UNREAD', 'CATEGORY_PROMOTIONS'],
+      category: EmailCategory.PROMOTIONS,
+      bundleId: 3,
+      ...overrides,
+    }) as Email;
+
+  const window = (overrides: Partial<DeliveryWindow>): DeliveryWindow =>
+    ({
+      id: 1,
+      category: null,
+      bundleId: null,
+      senders: null,
+      deliveryTimes: ['17:00'],
+      daysOfWeek: null,
+      isEnabled: true,
+      ...overrides,
+    }) as DeliveryWindow;
+
+  describe('matchesDeliveryWindow', () => {
+    it('matches by category or bundle', () => {
+      expect(
+        matchesDeliveryWindow(
+          email(),
+          window({ category: EmailCategory.PROMOTIONS }),
+        ),
+      ).toBe(true);
+      expect(
+        matchesDeliveryWindow(
+          email(),
+          window({ category: EmailCategory.SOCIAL }),
+        ),
+      ).toBe(false);
+      expect(matchesDeliveryWindow(email(), window({ bundleId: 3 }))).toBe(
+        true,
+      );
+    });
+
+    it('matches senders by address or domain', () => {
+      expect(
+        matchesDeliveryWindow(
+          email(),
+          window({ senders: ['deals@shop.example'] }),
+        ),
+      ).toBe(true);
+      expect(
+        matchesDeliveryWindow(email(), window({ senders: ['@SHOP.example'] })),
+      ).toBe(true);
+      expect(
+        matchesDeliveryWindow(email(), window({ senders: ['shop.example'] })),
+      ).toBe(false);
+    });
+  });
+
+  describe('holdIfScheduled', () => {
+    const mailbox = { id: 1, userId: 3 } as Mailbox;
+    const deliveryWindowRepository = { find: jest.fn() };
+    const emailRepository = { update: jest.fn() };
+    const userRepository = {
+      findOne: jest.fn().mockResolvedValue({ id: 3, timeZone: 'Asia/Tokyo' }),
+    };
+
+    let scheduler: DeliverySchedulerService;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-01-02T00:00:00.000Z') });
+      scheduler = new DeliverySchedulerService(
+        deliveryWindowRepository as never,
+        emailRepository as never,
+        userRepository as never,
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.clearAllMocks();
+    });
+
+    it("holds until the next delivery time in the user's time zone", async () => {
+      deliveryWindowRepository.find.mockResolvedValue([
+        window({ id: 1, category: EmailCategory.SOCIAL }),
+        window({ id: 2, bundleId: 3 }),
+      ]);
+      const target = email();
+
+      // 09:00 in Tokyo, so 17:00 local is 08:00 UTC the same day
+      const heldUntil = new Date('2024-01-02T08:00:00.000Z');
+      await expect(scheduler.holdIfScheduled(mailbox, target)).resolves.toEqual(
+        heldUntil,
+      );
+
+      expect(emailRepository.update).toHaveBeenCalledWith(7, {
+        heldUntil,
+        deliveryWindowId: 2,
+      });
+      expect(target.deliveryWindowId).toBe(2);
+    });
+
+    it('leaves read mail alone', async () => {
+      await expect(
+        scheduler.holdIfScheduled(mailbox, email({ labels: ['INBOX'] })),
+      ).resolves.toBeNull();
+
+      expect(deliveryWindowRepository.find).not.toHaveBeenCalled();
+      expect(emailRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('does not hold mail a rule scored urgent', async () => {
+      await expect(
+        scheduler.holdIfScheduled(mailbox, email({ aiUrgencyScore: 7 })),
+      ).resolves.toBeNull();
+
+      expect(emailRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('releases held mail once it is scored urgent', async () => {
+      const held = email({
+        heldUntil: new Date('2024-01-02T08:00:00.000Z'),
+        deliveryWindowId: 2,
+        aiUrgencyScore: 3,
+      });
+
+      await expect(scheduler.releaseIfUrgent(held)).resolves.toBe(false);
+
+      held.aiUrgencyScore = 9;
+      await expect(scheduler.releaseIfUrgent(held)).resolves.toBe(true);
+
+      expect(emailRepository.update).toHaveBeenCalledTimes(1);
+      expect(emailRepository.update).toHaveBeenCalledWith(7, {
+        heldUntil: null,
+        deliveryWindowId: null,
+      });
+      expect(held.heldUntil).toBeNull();
+    });
+  });
+});
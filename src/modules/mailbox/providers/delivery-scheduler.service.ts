@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { nextLocalTime } from '../../../common/utils/time-zone.util';
+import { User } from '../../user/entities/user.entity';
+import { DeliveryWindow, Email, Mailbox } from '../entities';
+import { isUrgent } from './bundling.service';
+
+/**
+ * Whether a delivery window applies to an email
+ */
+export function matchesDeliveryWindow(
+  email: Pick<Email, 'category' | 'bundleId' | 'fromEmail'>,
+  window: DeliveryWindow,
+): boolean {
+  if (window.category) {
+    return email.category === window.category;
+  }
+
+  if (window.bundleId) {
+    return email.bundleId === window.bundleId;
+  }
+
+  const from = email.fromEmail.toLowerCase();
+  return (window.senders || []).some((sender) => {
+    const pattern = sender.toLowerCase();
+    return pattern.startsWith('@') ? from.endsWith(pattern) : from === pattern;
+  });
+}
+
+/**
+ * Next time a window delivers, after `from`
+ */
+export function nextDeliveryAt(
+  window: DeliveryWindow,
+  timeZone: string,
+  from: Date = new Date(),
+): Date | null {
+  return nextLocalTime(
+    from,
+    window.deliveryTimes,
+    timeZone,
+    window.daysOfWeek ?? [],
+  );
+}
+
+/**
+ * Holds new mail that falls under a delivery window and releases it when
+ * the window opens
+ */
+@Injectable()
+export class DeliverySchedulerService {
+  private readonly logger = new Logger(DeliverySchedulerService.name);
+
+  constructor(
+    @InjectRepository(DeliveryWindow)
+    private readonly deliveryWindowRepository: Repository<DeliveryWindow>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Hide a newly synced email until its delivery window opens
+   * Only unread inbox mail that is not urgent is held; the first matching
+   * window wins
+   * @returns when the email will be delivered, or null when it is not held
+   */
+  async holdIfScheduled(mailbox: Mailbox, email: Email): Promise<Date | null> {
+    const labels = email.labels || [];
+    if (
+      !labels.includes('INBOX') ||
+      !labels.includes('UNREAD') ||
+      isUrgent(email)
+    ) {
+      return null;
+    }
+
+    const windows = await this.deliveryWindowRepository.find({
+      where: { userId: mailbox.userId, isEnabled: true },
+      order: { id: 'ASC' },
+    });
+
+    const window = windows.find((w) => matchesDeliveryWindow(email, w));
+    if (!window) {
+      return null;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: mailbox.userId },
+      select: ['id', 'timeZone'],
+    });
+    const heldUntil = nextDeliveryAt(window, user?.timeZone || 'UTC');
+
+    if (!heldUntil) {
+      return null;
+    }
+
+    await this.emailRepository.update(email.id, {
+      heldUntil,
+      deliveryWindowId: window.id,
+    });
+    email.heldUntil = heldUntil;
+    email.deliveryWindowId = window.id;
+
+    return heldUntil;
+  }
+
+  /**
+   * Deliver a held email right away once it is scored urgent; new mail is
+   * held before enrichment scores it
+   * @returns whether the email was released
+   */
+  async releaseIfUrgent(email: Email): Promise<boolean> {
+    if (!email.heldUntil || !isUrgent(email)) {
+      return false;
+    }
+
+    await this.emailRepository.update(email.id, {
+      heldUntil: null,
+      deliveryWindowId: null,
+    });
+    email.heldUntil = null;
+    email.deliveryWindowId = null;
+
+    this.logger.debug(`Released urgent email ${email.id}`);
+
+    return true;
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseDueEmails(): Promise<void> {
+    const result = await this.emailRepository.update(
+      { heldUntil: LessThanOrEqual(new Date()) },
+      { heldUntil: null, deliveryWindowId: null },
+    );
+
+    if (result.affected) {
+      this.logger.log(`Delivered ${result.affected} held emails`);
+    }
+  }
+}
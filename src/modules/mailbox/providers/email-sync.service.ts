@@ -4,34 +4,46 @@ import {
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectRepository } from '@nestjs/typeorm';
-import { IsNull, LessThan, Repository } from 'typeorm';
+import { In, IsNull, LessThan, Repository } from 'typeorm';
+import { KanbanService } from '../kanban.service';
 import {
   Attachment,
+  ColumnConfig,
   Email,
   EmailCategory,
   Mailbox,
   MailboxSyncStatus,
+  SyncJob,
+  SyncJobTrigger,
+  SyncJobType,
 } from '../entities';
-import { AiService } from './ai.service';
-import { GmailService, ParsedEmail } from './gmail.service';
-
-interface SyncJob {
-  mailboxId: number;
-  retryCount: number;
-  lastError?: string;
-  scheduledAt: Date;
+import { BundlingService } from './bundling.service';
+import { DeliverySchedulerService } from './delivery-scheduler.service';
+import { EmbeddingService } from './embedding.service';
+import { EnrichmentService } from './enrichment.service';
+import { ParsedEmail, SyncCursorExpiredError } from './mail-provider.interface';
+import { MailProviderRegistry } from './mail-provider.registry';
+import { MailRuleEngineService } from './mail-rule-engine.service';
+import {
+  MAX_SYNC_RETRIES,
+  syncRetryDelay,
+  SyncCounts,
+  SyncJobService,
+} from './sync-job.service';
+import { SyncLockService } from './sync-lock.service';
+
+export interface SyncOptions {
+  trigger?: SyncJobTrigger;
+  maxEmails?: number;
 }
 
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [60000, 300000, 900000];
-
 @Injectable()
 export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(EmailSyncService.name);
-  private readonly retryQueue: Map<number, SyncJob> = new Map();
-  private isSyncing = false;
+  private isPolling = false;
   private isShuttingDown = false;
 
   constructor(
@@ -41,8 +53,18 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
     private readonly emailRepository: Repository<Email>,
     @InjectRepository(Attachment)
     private readonly attachmentRepository: Repository<Attachment>,
-    private readonly gmailService: GmailService,
-    private readonly aiService: AiService,
+    @InjectRepository(ColumnConfig)
+    private readonly columnConfigRepository: Repository<ColumnConfig>,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly embeddingService: EmbeddingService,
+    private readonly configService: ConfigService,
+    private readonly syncLockService: SyncLockService,
+    private readonly syncJobService: SyncJobService,
+    private readonly kanbanService: KanbanService,
+    private readonly mailRuleEngine: MailRuleEngineService,
+    private readonly bundlingService: BundlingService,
+    private readonly deliveryScheduler: DeliverySchedulerService,
+    private readonly enrichmentService: EnrichmentService,
   ) {}
 
   onModuleInit() {
@@ -59,6 +81,7 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
     if (this.isShuttingDown) return;
     this.logger.debug('Running scheduled token refresh');
 
+    // Only OAuth mailboxes have a token expiry
     const expiringMailboxes = await this.mailboxRepository.find({
       where: {
         isActive: true,
@@ -73,11 +96,25 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
 
   @Cron(CronExpression.EVERY_30_SECONDS)
   async scheduledIncrementalSync() {
-    if (this.isSyncing || this.isShuttingDown) {
-      this.logger.debug('Sync already in progress or shutting down, skipping');
+    // Only guards against overlapping cron ticks; individual mailboxes
+    // are protected by their own sync lock
+    if (this.isPolling || this.isShuttingDown) {
+      this.logger.debug(
+        'Previous poll still running or shutting down, skipping',
+      );
       return;
     }
 
+    this.isPolling = true;
+
+    try {
+      await this.pollMailboxes();
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async pollMailboxes(): Promise<void> {
     this.logger.debug('Running scheduled incremental sync');
 
     // Find mailboxes ready to sync (SYNCED, ERROR, or PENDING status)
@@ -99,54 +136,100 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
       },
     });
 
-    if (stuckMailboxes.length > 0) {
-      this.logger.warn(
-        `Found ${stuckMailboxes.length} stuck mailboxes, resetting to SYNCED`,
+    for (const mailbox of stuckMailboxes) {
+      // A mailbox whose lock is still held is being synced right now,
+      // only reset the ones whose sync actually died
+      const reset = await this.syncLockService.runExclusive(
+        mailbox.id,
+        async () => {
+          await this.syncJobService.failInterrupted(mailbox.id);
+          await this.mailboxRepository.update(mailbox.id, {
+            syncStatus: MailboxSyncStatus.SYNCED,
+          });
+        },
       );
-      for (const mailbox of stuckMailboxes) {
-        await this.mailboxRepository.update(mailbox.id, {
-          syncStatus: MailboxSyncStatus.SYNCED,
-        });
+
+      if (reset) {
+        this.logger.warn(`Reset stuck mailbox ${mailbox.id} to SYNCED`);
+        mailboxes.push(mailbox);
       }
-      // Add reset mailboxes to the sync list
-      mailboxes.push(...stuckMailboxes);
     }
 
-    if (mailboxes.length > 0) {
-      this.logger.debug(`Found ${mailboxes.length} mailboxes to sync`);
+    // Mailboxes with an active push watch are synced by the webhook;
+    // poll them only occasionally as a fallback for missed notifications
+    const fallbackPollMinutes =
+      this.configService.get<number>('gmailPush.fallbackPollMinutes') || 15;
+    const fallbackPollMs = fallbackPollMinutes * 60 * 1000;
+    // Mailboxes waiting on a retry are left to processRetryQueue
+    const awaitingRetry =
+      await this.syncJobService.findMailboxIdsWithPendingRetry(
+        mailboxes.map((mailbox) => mailbox.id),
+      );
+    const dueMailboxes = mailboxes.filter(
+      (mailbox) =>
+        !awaitingRetry.has(mailbox.id) &&
+        !this.isCoveredByPush(mailbox, fallbackPollMs),
+    );
+
+    if (dueMailboxes.length > 0) {
+      this.logger.debug(`Found ${dueMailboxes.length} mailboxes to sync`);
     }
 
-    for (const mailbox of mailboxes) {
-      await this.incrementalSync(mailbox.id);
-    }
+    // Parallelism is bounded by the sync lock's concurrency limit
+    await Promise.all(
+      dueMailboxes.map((mailbox) =>
+        this.incrementalSync(mailbox.id).catch((error: Error) => {
+          this.logger.error(
+            `Scheduled sync failed for mailbox ${mailbox.id}: ${error.message}`,
+          );
+        }),
+      ),
+    );
+  }
+
+  private isCoveredByPush(mailbox: Mailbox, fallbackPollMs: number): boolean {
+    const now = Date.now();
+    return (
+      !!mailbox.watchExpiresAt &&
+      mailbox.watchExpiresAt.getTime() > now &&
+      !!mailbox.lastSyncAt &&
+      mailbox.lastSyncAt.getTime() > now - fallbackPollMs &&
+      mailbox.syncStatus === MailboxSyncStatus.SYNCED
+    );
   }
 
   @Cron(CronExpression.EVERY_MINUTE)
   async processRetryQueue() {
-    const now = Date.now();
+    if (this.isShuttingDown) return;
 
-    for (const [mailboxId, job] of this.retryQueue.entries()) {
-      if (job.scheduledAt.getTime() <= now) {
-        this.logger.log(
-          `Retrying sync for mailbox ${mailboxId}, attempt ${job.retryCount + 1}`,
-        );
-        this.retryQueue.delete(mailboxId);
-        await this.incrementalSync(mailboxId);
-      }
+    const dueJobs = await this.syncJobService.findDueRetries();
+
+    for (const job of dueJobs) {
+      this.logger.log(
+        `Retrying sync for mailbox ${job.mailboxId}, attempt ${job.attempt}`,
+      );
+
+      // Jobs whose mailbox is busy stay PENDING and are picked up next tick
+      await this.runJob(job.mailboxId, job.type, {}, job).catch(
+        (error: Error) => {
+          this.logger.error(
+            `Retry failed for mailbox ${job.mailboxId}: ${error.message}`,
+          );
+        },
+      );
     }
   }
 
   async refreshMailboxTokens(mailbox: Mailbox): Promise<void> {
-    try {
-      const { accessToken, expiresAt } =
-        await this.gmailService.refreshTokens(mailbox);
+    const client = this.mailProviders.get(mailbox);
 
-      await this.mailboxRepository.update(mailbox.id, {
-        encryptedAccessToken: this.gmailService.encryptToken(accessToken),
-        tokenExpiresAt: expiresAt,
-      });
+    if (!client.refreshTokens) {
+      return;
+    }
 
-      this.logger.log(`Refreshed tokens for mailbox ${mailbox.id}`);
+    try {
+      // The client stores the new tokens itself
+      await client.refreshTokens(mailbox);
     } catch (error) {
       this.logger.error(
         `Failed to refresh tokens for mailbox ${mailbox.id}: ${(error as Error).message}`,
@@ -159,130 +242,215 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async fullSync(mailboxId: number, maxEmails: number = 200): Promise<void> {
-    const mailbox = await this.mailboxRepository.findOne({
-      where: { id: mailboxId },
-    });
+  /**
+   * Run a full sync while holding the mailbox sync lock
+   * @returns false when another sync is already running for the mailbox
+   */
+  async fullSync(
+    mailboxId: number,
+    options: SyncOptions = {},
+  ): Promise<boolean> {
+    return this.runJob(mailboxId, SyncJobType.FULL, options);
+  }
 
-    if (!mailbox) {
-      throw new Error(`Mailbox ${mailboxId} not found`);
-    }
+  /**
+   * Run an incremental sync while holding the mailbox sync lock
+   * @returns false when another sync is already running for the mailbox
+   */
+  async incrementalSync(
+    mailboxId: number,
+    options: SyncOptions = {},
+  ): Promise<boolean> {
+    return this.runJob(mailboxId, SyncJobType.INCREMENTAL, options);
+  }
 
-    this.isSyncing = true;
+  /**
+   * Acquire the mailbox lock and run a sync, recording it in sync_jobs
+   * @param pendingJob scheduled retry to claim instead of creating a new job
+   */
+  private async runJob(
+    mailboxId: number,
+    type: SyncJobType,
+    options: SyncOptions,
+    pendingJob?: SyncJob,
+  ): Promise<boolean> {
+    return this.syncLockService.runExclusive(mailboxId, async () => {
+      let job: SyncJob;
+
+      if (pendingJob) {
+        if (!(await this.syncJobService.claim(pendingJob))) {
+          return;
+        }
+        job = pendingJob;
+      } else {
+        job = await this.syncJobService.start(
+          mailboxId,
+          type,
+          options.trigger ?? SyncJobTrigger.SCHEDULED,
+        );
+      }
 
-    try {
-      await this.mailboxRepository.update(mailboxId, {
-        syncStatus: MailboxSyncStatus.SYNCING,
-      });
+      try {
+        const mailbox = await this.mailboxRepository.findOne({
+          where: { id: mailboxId },
+        });
 
-      this.logger.log(
-        `Starting full sync for mailbox ${mailboxId} (max ${maxEmails} emails)`,
-      );
+        if (!mailbox) {
+          throw new Error(`Mailbox ${mailboxId} not found`);
+        }
 
-      const profile = await this.gmailService.getProfile(mailbox);
+        const counts =
+          job.type === SyncJobType.FULL
+            ? await this.runFullSync(mailbox, job, options.maxEmails)
+            : await this.runIncrementalSync(mailbox, job);
+
+        await this.syncJobService.complete(job, counts);
+
+        // Move cards whose labels changed; failures must not fail the sync
+        await this.kanbanService
+          .reconcile(mailbox.userId, {
+            mailboxId,
+            updatedSince: job.startedAt ?? undefined,
+          })
+          .catch((error: Error) =>
+            this.logger.error(
+              `Column reconciliation failed for mailbox ${mailboxId}: ${error.message}`,
+            ),
+          );
+      } catch (error) {
+        await this.handleSyncError(mailboxId, job, error as Error);
+      }
+    });
+  }
 
-      let pageToken: string | undefined;
-      let totalSynced = 0;
-      let pagesProcessed = 0;
+  // Callers must hold the mailbox sync lock; errors are left to runJob
+  private async runFullSync(
+    mailbox: Mailbox,
+    job: SyncJob,
+    maxEmails: number = 200,
+  ): Promise<SyncCounts> {
+    const mailboxId = mailbox.id;
+    job.type = SyncJobType.FULL;
 
-      do {
-        // Fetch all emails (not just INBOX) to include emails with custom labels
-        const { messages, nextPageToken } =
-          await this.gmailService.listMessages(mailbox, {
-            maxResults: Math.min(50, maxEmails - totalSynced), // Smaller batches for faster response
-            pageToken,
-            // No labelIds filter = all emails (inbox, sent, custom labels, etc.)
-          });
+    await this.mailboxRepository.update(mailboxId, {
+      syncStatus: MailboxSyncStatus.SYNCING,
+    });
 
-        if (messages.length > 0) {
-          const messageIds = messages.map((m) => m.id);
-          const parsedEmails = await this.gmailService.getMessages(
-            mailbox,
-            messageIds,
-          );
+    this.logger.log(
+      `Starting full sync for mailbox ${mailboxId} (max ${maxEmails} emails)`,
+    );
 
-          for (const parsedEmail of parsedEmails) {
-            await this.saveEmail(mailbox, parsedEmail);
-          }
+    const client = this.mailProviders.get(mailbox);
+    const profile = await client.getProfile(mailbox);
 
-          totalSynced += parsedEmails.length;
-          pagesProcessed++;
+    let pageToken: string | undefined;
+    let totalSynced = 0;
+    let pagesProcessed = 0;
 
-          this.logger.log(
-            `Full sync progress: ${totalSynced} emails synced (page ${pagesProcessed})`,
-          );
-        }
+    do {
+      // Fetch all emails (not just INBOX) to include emails with custom labels
+      const { messages, nextPageToken } = await client.listMessages(mailbox, {
+        maxResults: Math.min(50, maxEmails - totalSynced), // Smaller batches for faster response
+        pageToken,
+      });
 
-        pageToken = nextPageToken;
+      if (messages.length > 0) {
+        const messageIds = messages.map((m) => m.id);
+        const parsedEmails = await client.getMessages(mailbox, messageIds);
 
-        // Stop if we've reached the max emails limit
-        if (totalSynced >= maxEmails) {
-          this.logger.log(
-            `Reached max emails limit (${maxEmails}), stopping full sync`,
-          );
-          break;
+        for (const parsedEmail of parsedEmails) {
+          await this.saveEmail(mailbox, parsedEmail, {
+            applyRules: true,
+            holdForDelivery: true,
+            enrich: true,
+          });
         }
-      } while (pageToken);
 
-      await this.mailboxRepository.update(mailboxId, {
-        syncStatus: MailboxSyncStatus.SYNCED,
-        lastSyncAt: new Date(),
-        lastSyncError: null,
-        historyId: profile.historyId,
-        totalEmails: totalSynced,
-      });
+        totalSynced += parsedEmails.length;
+        pagesProcessed++;
 
-      await this.updateUnreadCount(mailboxId);
+        this.logger.log(
+          `Full sync progress: ${totalSynced} emails synced (page ${pagesProcessed})`,
+        );
+      }
 
-      this.logger.log(
-        `Full sync completed for mailbox ${mailboxId}: ${totalSynced} emails`,
-      );
-    } catch (error) {
-      await this.handleSyncError(mailboxId, error as Error);
-    } finally {
-      this.isSyncing = false;
-    }
-  }
+      pageToken = nextPageToken;
 
-  async incrementalSync(mailboxId: number): Promise<void> {
-    const mailbox = await this.mailboxRepository.findOne({
-      where: { id: mailboxId },
+      // Stop if we've reached the max emails limit
+      if (totalSynced >= maxEmails) {
+        this.logger.log(
+          `Reached max emails limit (${maxEmails}), stopping full sync`,
+        );
+        break;
+      }
+    } while (pageToken);
+
+    await this.mailboxRepository.update(mailboxId, {
+      syncStatus: MailboxSyncStatus.SYNCED,
+      lastSyncAt: new Date(),
+      lastSyncError: null,
+      historyId: profile.historyId,
+      totalEmails: totalSynced,
     });
 
-    if (!mailbox) {
-      throw new Error(`Mailbox ${mailboxId} not found`);
-    }
+    await this.updateUnreadCount(mailboxId);
+
+    this.logger.log(
+      `Full sync completed for mailbox ${mailboxId}: ${totalSynced} emails`,
+    );
+
+    return {
+      messagesAdded: totalSynced,
+      messagesDeleted: 0,
+      messagesRelabelled: 0,
+    };
+  }
+
+  // Callers must hold the mailbox sync lock; errors are left to runJob
+  private async runIncrementalSync(
+    mailbox: Mailbox,
+    job: SyncJob,
+  ): Promise<SyncCounts> {
+    const mailboxId = mailbox.id;
 
     if (!mailbox.historyId) {
-      return this.fullSync(mailboxId);
+      return this.runFullSync(mailbox, job);
     }
 
-    this.isSyncing = true;
+    const counts: SyncCounts = {
+      messagesAdded: 0,
+      messagesDeleted: 0,
+      messagesRelabelled: 0,
+    };
 
     try {
       await this.mailboxRepository.update(mailboxId, {
         syncStatus: MailboxSyncStatus.SYNCING,
       });
 
-      const changes = await this.gmailService.getHistoryChanges(
-        mailbox,
-        mailbox.historyId,
-      );
+      const client = this.mailProviders.get(mailbox);
+      const changes = await client.getChanges(mailbox, mailbox.historyId);
 
       this.logger.debug(
         `Changes for ${mailbox.email}: ${changes.messagesAdded.length} added, ${changes.messagesDeleted.length} deleted, ${changes.labelsModified.length} labels modified`,
       );
 
       if (changes.messagesAdded.length > 0) {
-        const parsedEmails = await this.gmailService.getMessages(
+        const parsedEmails = await client.getMessages(
           mailbox,
           changes.messagesAdded,
         );
 
         for (const parsedEmail of parsedEmails) {
-          await this.saveEmail(mailbox, parsedEmail);
+          await this.saveEmail(mailbox, parsedEmail, {
+            applyRules: true,
+            holdForDelivery: true,
+            enrich: true,
+          });
         }
 
+        counts.messagesAdded = parsedEmails.length;
+
         this.logger.log(
           `Added ${parsedEmails.length} new emails for mailbox ${mailboxId}`,
         );
@@ -291,14 +459,23 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
       if (changes.messagesDeleted.length > 0) {
         await this.emailRepository.softDelete({
           mailboxId,
-          gmailMessageId: changes.messagesDeleted as unknown as string,
+          gmailMessageId: In(changes.messagesDeleted),
         });
 
+        counts.messagesDeleted = changes.messagesDeleted.length;
+
         this.logger.log(
           `Soft-deleted ${changes.messagesDeleted.length} emails for mailbox ${mailboxId}`,
         );
       }
 
+      const columns =
+        changes.labelsModified.length > 0
+          ? await this.columnConfigRepository.find({
+              where: { userId: mailbox.userId },
+            })
+          : [];
+
       for (const labelChange of changes.labelsModified) {
         const email = await this.emailRepository.findOne({
           where: { mailboxId, gmailMessageId: labelChange.messageId },
@@ -318,7 +495,17 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
             labels: updatedLabels,
             isRead: !updatedLabels.includes('UNREAD'),
             isStarred: updatedLabels.includes('STARRED'),
+            category: this.categorizeEmail(updatedLabels),
+            columnId: this.kanbanService.resolveColumnId(
+              columns,
+              updatedLabels,
+              email.columnId,
+              client,
+              labelChange.labelsAdded,
+            ),
           });
+
+          counts.messagesRelabelled++;
         }
       }
 
@@ -331,19 +518,12 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
 
       await this.updateUnreadCount(mailboxId);
 
-      this.retryQueue.delete(mailboxId);
-
       this.logger.log(`Incremental sync completed for mailbox ${mailboxId}`);
+
+      return counts;
     } catch (error) {
-      const err = error as Error & { code?: number; status?: number };
-
-      // Gmail API returns 404 when historyId is too old (> 7 days)
-      // In this case, we need to do a full sync
-      if (
-        err.code === 404 ||
-        err.status === 404 ||
-        err.message?.includes('404')
-      ) {
+      // e.g. Gmail history older than 7 days; fall back to a full sync
+      if (error instanceof SyncCursorExpiredError) {
         this.logger.warn(
           `HistoryId ${mailbox.historyId} is stale for mailbox ${mailboxId}, triggering full sync`,
         );
@@ -354,13 +534,10 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
           syncStatus: MailboxSyncStatus.PENDING,
         });
 
-        this.isSyncing = false;
-        return this.fullSync(mailboxId);
+        return this.runFullSync(mailbox, job);
       }
 
-      await this.handleSyncError(mailboxId, err);
-    } finally {
-      this.isSyncing = false;
+      throw error;
     }
   }
 
@@ -373,29 +550,81 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
       throw new Error(`Mailbox ${mailboxId} not found`);
     }
 
-    if (mailbox.syncStatus === MailboxSyncStatus.SYNCING) {
-      this.logger.warn(`Mailbox ${mailboxId} is already syncing`);
-      return;
-    }
-
     // Check if mailbox has any emails - if not, force full sync
     const emailCount = await this.emailRepository.count({
       where: { mailboxId },
     });
 
+    const trigger = SyncJobTrigger.MANUAL;
+    let started: boolean;
+
     if (forceFullSync || emailCount === 0) {
       this.logger.log(`Forcing full sync for mailbox ${mailboxId} (emailCount: ${emailCount})`);
-      await this.fullSync(mailboxId);
+      started = await this.fullSync(mailboxId, { trigger });
     } else if (mailbox.historyId) {
-      await this.incrementalSync(mailboxId);
+      started = await this.incrementalSync(mailboxId, { trigger });
     } else {
-      await this.fullSync(mailboxId);
+      started = await this.fullSync(mailboxId, { trigger });
     }
+
+    if (!started) {
+      this.logger.warn(`Mailbox ${mailboxId} is already syncing`);
+    }
+  }
+
+  /**
+   * Fetch and save messages that are not stored yet
+   * Used by the history backfill; callers must hold the mailbox sync lock
+   * @returns number of newly saved emails
+   */
+  async ingestMessages(
+    mailbox: Mailbox,
+    messageIds: string[],
+  ): Promise<number> {
+    if (messageIds.length === 0) {
+      return 0;
+    }
+
+    const existing = await this.emailRepository.find({
+      select: { gmailMessageId: true },
+      where: { mailboxId: mailbox.id, gmailMessageId: In(messageIds) },
+      withDeleted: true,
+    });
+    const existingIds = new Set(existing.map((e) => e.gmailMessageId));
+    const missingIds = messageIds.filter((id) => !existingIds.has(id));
+
+    if (missingIds.length === 0) {
+      return 0;
+    }
+
+    const parsedEmails = await this.mailProviders
+      .get(mailbox)
+      .getMessages(mailbox, missingIds);
+
+    for (const parsedEmail of parsedEmails) {
+      await this.saveEmail(mailbox, parsedEmail);
+    }
+
+    await this.updateUnreadCount(mailbox.id);
+
+    return parsedEmails.length;
   }
 
+  /**
+   * @param options.applyRules run the user's mail rules on a new email;
+   * the history backfill leaves old mail alone
+   * @param options.holdForDelivery hold a new email until its delivery
+   * window opens
+   * @param options.enrich queue a new email for AI enrichment
+   */
   private async saveEmail(
     mailbox: Mailbox,
     parsedEmail: ParsedEmail,
+    options: {
+      applyRules?: boolean;
+      holdForDelivery?: boolean;
+      enrich?: boolean;
+    } = {},
   ): Promise<Email> {
     let email = await this.emailRepository.findOne({
       where: {
@@ -415,6 +644,11 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
       toEmails: parsedEmail.toEmails,
       ccEmails: parsedEmail.ccEmails,
       bccEmails: parsedEmail.bccEmails,
+      replyToEmails: parsedEmail.replyToEmails,
+      internetMessageId: parsedEmail.internetMessageId,
+      referenceIds: parsedEmail.referenceIds,
+      listId: parsedEmail.listId,
+      listUnsubscribe: parsedEmail.listUnsubscribe,
       bodyHtml: parsedEmail.bodyHtml,
       bodyText: parsedEmail.bodyText,
       receivedAt: parsedEmail.receivedAt,
@@ -452,6 +686,49 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
       if (isNewEmail && email) {
         this.generateEmbeddingAsync(email.id);
       }
+
+      // A failing rule must not fail the sync
+      if (options.applyRules) {
+        await this.mailRuleEngine
+          .applyToNewEmail(mailbox, email)
+          .catch((error: Error) =>
+            this.logger.error(
+              `Mail rules failed for email ${email!.id}: ${error.message}`,
+            ),
+          );
+      }
+
+      // After the rules, which may star the email or score its urgency
+      await this.bundlingService
+        .assignBundle(mailbox, email)
+        .catch((error: Error) =>
+          this.logger.error(
+            `Bundling failed for email ${email!.id}: ${error.message}`,
+          ),
+        );
+
+      // After bundling, so windows can target a bundle
+      if (options.holdForDelivery) {
+        await this.deliveryScheduler
+          .holdIfScheduled(mailbox, email)
+          .catch((error: Error) =>
+            this.logger.error(
+              `Delivery window failed for email ${email!.id}: ${error.message}`,
+            ),
+          );
+      }
+
+      // Enrichment scores urgency later and then takes urgent mail back
+      // out of its bundle and delivery window
+      if (options.enrich) {
+        await this.enrichmentService
+          .queue(mailbox, email)
+          .catch((error: Error) =>
+            this.logger.error(
+              `Queueing enrichment failed for email ${email!.id}: ${error.message}`,
+            ),
+          );
+      }
     }
 
     return email;
@@ -499,17 +776,11 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
             return;
           }
 
-          const content = this.aiService.prepareEmailContentForEmbedding(email);
-          const embedding = await this.aiService.generateEmbedding(content);
-
-          // Use raw SQL to update embedding since it's not managed by @Column decorator
-          const vectorString = `[${embedding.join(',')}]`;
-          await this.emailRepository.query(
-            `UPDATE emails SET embedding = $1::vector, "embeddingGeneratedAt" = $2 WHERE id = $3`,
-            [vectorString, new Date(), emailId],
-          );
+          const embedding = await this.embeddingService.embedEmail(email);
 
           this.logger.log(`Generated embedding for email ${emailId}`);
+
+          await this.bundlingService.assignByEmbedding(email, embedding);
         } catch (error) {
           this.logger.error(
             `Failed to generate embedding for email ${emailId}`,
@@ -522,35 +793,43 @@ export class EmailSyncService implements OnModuleInit, OnModuleDestroy {
 
   private async handleSyncError(
     mailboxId: number,
+    job: SyncJob,
     error: Error,
   ): Promise<void> {
     this.logger.error(`Sync failed for mailbox ${mailboxId}: ${error.message}`);
 
-    const existingJob = this.retryQueue.get(mailboxId);
-    const retryCount = existingJob ? existingJob.retryCount + 1 : 0;
+    await this.syncJobService.fail(job, error.message);
 
-    if (retryCount < MAX_RETRIES) {
-      const delay =
-        RETRY_DELAYS[retryCount] || RETRY_DELAYS[RETRY_DELAYS.length - 1];
+    // Attempt 1 is the original sync, everything after it is a retry
+    const retryCount = job.attempt - 1;
+    const delay = syncRetryDelay(job.attempt);
 
-      this.retryQueue.set(mailboxId, {
-        mailboxId,
-        retryCount,
-        lastError: error.message,
-        scheduledAt: new Date(Date.now() + delay),
-      });
+    if (delay !== null) {
+      // Another failed sync may already have queued a retry; keep that one
+      const pending = await this.syncJobService.findPendingRetry(mailboxId);
+      let retryNote: string;
 
-      this.logger.log(
-        `Scheduled retry ${retryCount + 1}/${MAX_RETRIES} for mailbox ${mailboxId} in ${delay / 1000}s`,
-      );
+      if (pending) {
+        retryNote = `retry ${pending.attempt - 1}/${MAX_SYNC_RETRIES} pending`;
+        this.logger.log(
+          `Retry ${pending.attempt - 1}/${MAX_SYNC_RETRIES} already pending for mailbox ${mailboxId}`,
+        );
+      } else {
+        await this.syncJobService.scheduleRetry(
+          job,
+          new Date(Date.now() + delay),
+        );
+        retryNote = `retry ${retryCount + 1}/${MAX_SYNC_RETRIES} scheduled`;
+        this.logger.log(
+          `Scheduled retry ${retryCount + 1}/${MAX_SYNC_RETRIES} for mailbox ${mailboxId} in ${delay / 1000}s`,
+        );
+      }
 
       await this.mailboxRepository.update(mailboxId, {
         syncStatus: MailboxSyncStatus.ERROR,
-        lastSyncError: `${error.message} (retry ${retryCount + 1}/${MAX_RETRIES} scheduled)`,
+        lastSyncError: `${error.message} (${retryNote})`,
       });
     } else {
-      this.retryQueue.delete(mailboxId);
-
       await this.mailboxRepository.update(mailboxId, {
         syncStatus: MailboxSyncStatus.ERROR,
         lastSyncError: `${error.message} (max retries exceeded)`,
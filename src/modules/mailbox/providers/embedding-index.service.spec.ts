@@ -0,0 +1,94 @@
+import {
+  EmbeddingIndex,
+  EmbeddingModelStats,
+  ivfflatLists,
+  planIndexMaintenance,
+} from './embedding-index.service';
+
+describe('planIndexMaintenance', () => {
+  const current: EmbeddingModelStats = {
+    model: 'text-embedding-3-small',
+    dimensions: 1536,
+    rows: 20000,
+  };
+
+  const index = (overrides: Partial<EmbeddingIndex> = {}): EmbeddingIndex => ({
+    name: 'IDX_emails_embedding_a1b2c3d4_m5x2k7qa',
+    method: 'hnsw',
+    valid: true,
+    sizeBytes: 1024,
+    model: current.model,
+    dimensions: current.dimensions ?? undefined,
+    rows: current.rows,
+    builtAt: '2025-01-28T09:50:00.000Z',
+    ...overrides,
+  });
+
+  const summary = (actions: ReturnType<typeof planIndexMaintenance>) =>
+    actions.map((action) =>
+      action.type === 'build' ? 'build' : `drop: ${action.reason}`,
+    );
+
+  it('keeps an index that matches the current model', () => {
+    expect(planIndexMaintenance([index()], current, 'hnsw')).toEqual([]);
+  });
+
+  it('builds the new index before dropping the old model', () => {
+    const old = index({ model: 'text-embedding-004', dimensions: 768 });
+
+    expect(summary(planIndexMaintenance([old], current, 'hnsw'))).toEqual([
+      'build',
+      'drop: embedding model replaced',
+    ]);
+  });
+
+  it('replaces invalid indexes and ones of another type', () => {
+    expect(
+      summary(
+        planIndexMaintenance(
+          [index({ valid: false }), index({ method: 'ivfflat' })],
+          current,
+          'hnsw',
+        ),
+      ),
+    ).toEqual(['build', 'drop: invalid', 'drop: index type changed to hnsw']);
+  });
+
+  it('rebuilds IVFFlat once the table has outgrown its lists', () => {
+    const built = index({ method: 'ivfflat', rows: 20000 });
+
+    expect(planIndexMaintenance([built], current, 'ivfflat')).toEqual([]);
+    expect(
+      summary(
+        planIndexMaintenance([built], { ...current, rows: 45000 }, 'ivfflat'),
+      ),
+    ).toEqual(['build', 'drop: lists out of date']);
+  });
+
+  it('does not index models it cannot index', () => {
+    expect(
+      planIndexMaintenance([], { ...current, dimensions: 3072 }, 'hnsw'),
+    ).toEqual([]);
+    expect(
+      planIndexMaintenance(
+        [],
+        { ...current, dimensions: null, rows: 0 },
+        'hnsw',
+      ),
+    ).toEqual([]);
+  });
+
+  it('rebuilds a healthy index on request', () => {
+    expect(
+      summary(planIndexMaintenance([index()], current, 'hnsw', true)),
+    ).toEqual(['build', 'drop: rebuild requested']);
+  });
+});
+
+describe('ivfflatLists', () => {
+  it('uses rows / 1000 up to a million rows, then sqrt(rows)', () => {
+    expect(ivfflatLists(10)).toBe(1);
+    expect(ivfflatLists(250000)).toBe(250);
+    expect(ivfflatLists(4000000)).toBe(2000);
+  });
+});
@@ -0,0 +1,362 @@
+import { createHash } from 'crypto';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource, QueryRunner } from 'typeorm';
+import { AiService } from './ai.service';
+
+// First key of the two-key advisory lock held while indexes are changed,
+// so only one instance maintains them at a time
+const INDEX_LOCK_NAMESPACE = 0x656d6278;
+
+// Every index whose name starts with this is managed here
+const INDEX_PREFIX = 'IDX_emails_embedding_';
+
+// pgvector cannot index longer vectors; such models use exact search
+export const MAX_INDEXED_DIMENSIONS = 2000;
+
+export type VectorIndexMethod = 'hnsw' | 'ivfflat';
+
+/** What an index was built for; stored as the index's comment */
+interface IndexInfo {
+  model: string;
+  dimensions: number;
+  // Embeddings of the model when the index was built
+  rows: number;
+  builtAt: string;
+}
+
+export interface EmbeddingIndex extends Partial<IndexInfo> {
+  name: string;
+  method: string;
+  // false while CONCURRENTLY builds it, or when a build failed
+  valid: boolean;
+  sizeBytes: number;
+}
+
+export interface EmbeddingModelStats {
+  model: string;
+  // null when no email has an embedding of the model yet
+  dimensions: number | null;
+  rows: number;
+}
+
+export type IndexAction =
+  | { type: 'build' }
+  | { type: 'drop'; index: EmbeddingIndex; reason: string };
+
+export interface IndexMaintenanceState {
+  running: boolean;
+  lastRunAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * IVFFlat list count recommended by pgvector for a number of rows
+ */
+export function ivfflatLists(rows: number): number {
+  return rows > 1_000_000
+    ? Math.round(Math.sqrt(rows))
+    : Math.max(1, Math.round(rows / 1000));
+}
+
+/**
+ * Work that brings the managed indexes in line with the current model: one
+ * valid index of the configured method and the model's dimensions, and
+ * none for other models. Builds come first so search keeps an index while
+ * one is replaced.
+ * @param rebuild replace the current model's index even if it is fine
+ */
+export function planIndexMaintenance(
+  indexes: EmbeddingIndex[],
+  current: EmbeddingModelStats,
+  method: VectorIndexMethod,
+  rebuild = false,
+): IndexAction[] {
+  const drops: IndexAction[] = [];
+  let kept = false;
+
+  const dropReason = (index: EmbeddingIndex): string | null => {
+    if (!index.valid) {
+      return 'invalid';
+    }
+    if (!index.model) {
+      return 'unknown';
+    }
+    if (index.model !== current.model) {
+      return 'embedding model replaced';
+    }
+    if (index.method !== method) {
+      return `index type changed to ${method}`;
+    }
+    if (index.dimensions !== current.dimensions) {
+      return 'dimensions changed';
+    }
+    if (
+      method === 'ivfflat' &&
+      outgrown(ivfflatLists(index.rows ?? 0), ivfflatLists(current.rows))
+    ) {
+      return 'lists out of date';
+    }
+    if (rebuild) {
+      return 'rebuild requested';
+    }
+    return kept ? 'duplicate' : null;
+  };
+
+  for (const index of indexes) {
+    const reason = dropReason(index);
+    if (reason) {
+      drops.push({ type: 'drop', index, reason });
+    } else {
+      kept = true;
+    }
+  }
+
+  const indexable =
+    current.rows > 0 &&
+    current.dimensions !== null &&
+    current.dimensions <= MAX_INDEXED_DIMENSIONS;
+
+  return !kept && indexable ? [{ type: 'build' }, ...drops] : drops;
+}
+
+// IVFFlat keeps the lists it was built with, so it is rebuilt once the
+// recommended count is off by half
+function outgrown(builtLists: number, lists: number): boolean {
+  return lists >= builtLists * 2 || lists * 2 <= builtLists;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Keeps an HNSW or IVFFlat index for the current embedding model
+ *
+ * Each index is a partial expression index on embedding::vector(n) for the
+ * emails of one model, so emails of several models can share the column
+ * while the model is being replaced. Indexes are built CONCURRENTLY, so
+ * sync and search go on while they are; the instance holding the advisory
+ * lock does the work.
+ */
+@Injectable()
+export class EmbeddingIndexService implements OnModuleDestroy {
+  private readonly logger = new Logger(EmbeddingIndexService.name);
+  private isShuttingDown = false;
+  private readonly state: IndexMaintenanceState = {
+    running: false,
+    lastRunAt: null,
+    lastError: null,
+  };
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly aiService: AiService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleDestroy() {
+    this.isShuttingDown = true;
+  }
+
+  get method(): VectorIndexMethod {
+    return this.configService.get<string>('search.vectorIndex') === 'ivfflat'
+      ? 'ivfflat'
+      : 'hnsw';
+  }
+
+  getState(): IndexMaintenanceState {
+    return { ...this.state };
+  }
+
+  async listIndexes(queryRunner?: QueryRunner): Promise<EmbeddingIndex[]> {
+    const rows = (await (queryRunner ?? this.dataSource).query(
+      `
+      SELECT c.relname AS name, am.amname AS method, i.indisvalid AS valid,
+        pg_relation_size(c.oid) AS "sizeBytes",
+        obj_description(c.oid, 'pg_class') AS comment
+      FROM pg_index i
+      INNER JOIN pg_class c ON c.oid = i.indexrelid
+      INNER JOIN pg_am am ON am.oid = c.relam
+      WHERE i.indrelid = 'emails'::regclass
+        AND starts_with(c.relname, $1)
+      ORDER BY c.relname
+      `,
+      [INDEX_PREFIX],
+    )) as Array<{
+      name: string;
+      method: string;
+      valid: boolean;
+      sizeBytes: string;
+      comment: string | null;
+    }>;
+
+    return rows.map(({ comment, ...row }) => ({
+      ...row,
+      sizeBytes: Number(row.sizeBytes),
+      ...this.parseInfo(comment),
+    }));
+  }
+
+  /**
+   * Check the indexes now instead of on the next tick
+   * @param rebuild also replace the current model's index
+   * @returns false when maintenance is already running on this instance
+   */
+  requestMaintenance(rebuild = false): boolean {
+    if (this.state.running) {
+      return false;
+    }
+
+    void this.maintain(rebuild);
+    return true;
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'maintain-vector-indexes' })
+  async maintain(rebuild = false): Promise<void> {
+    if (this.state.running || this.isShuttingDown) {
+      return;
+    }
+
+    this.state.running = true;
+    const queryRunner = this.dataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+
+      const [{ locked }] = (await queryRunner.query(
+        'SELECT pg_try_advisory_lock($1, 0) AS locked',
+        [INDEX_LOCK_NAMESPACE],
+      )) as Array<{ locked: boolean }>;
+
+      if (!locked) {
+        this.logger.debug('Vector indexes are maintained by another instance');
+        return;
+      }
+
+      try {
+        await this.applyPlan(queryRunner, rebuild);
+      } finally {
+        await queryRunner
+          .query('SELECT pg_advisory_unlock($1, 0)', [INDEX_LOCK_NAMESPACE])
+          .catch((error: Error) =>
+            this.logger.warn(
+              `Failed to release vector index lock: ${error.message}`,
+            ),
+          );
+      }
+
+      this.state.lastError = null;
+    } catch (error) {
+      this.state.lastError = (error as Error).message;
+      this.logger.error(
+        'Vector index maintenance failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      await queryRunner.release();
+      this.state.lastRunAt = new Date();
+      this.state.running = false;
+    }
+  }
+
+  private async applyPlan(
+    queryRunner: QueryRunner,
+    rebuild: boolean,
+  ): Promise<void> {
+    const model = this.aiService.embeddingModel;
+    const method = this.method;
+
+    const [stats] = (await queryRunner.query(
+      `
+      SELECT COUNT(*) AS "rows", MAX(vector_dims(embedding)) AS dimensions
+      FROM emails
+      WHERE "embeddingModel" = $1 AND embedding IS NOT NULL
+      `,
+      [model],
+    )) as Array<{ rows: string; dimensions: number | null }>;
+
+    const current: EmbeddingModelStats = {
+      model,
+      rows: Number(stats.rows),
+      dimensions: stats.dimensions,
+    };
+
+    if ((current.dimensions ?? 0) > MAX_INDEXED_DIMENSIONS) {
+      this.logger.debug(
+        `${model} makes ${current.dimensions}-dimension embeddings, too long to index`,
+      );
+    }
+
+    const indexes = await this.listIndexes(queryRunner);
+
+    for (const action of planIndexMaintenance(
+      indexes,
+      current,
+      method,
+      rebuild,
+    )) {
+      if (this.isShuttingDown) {
+        return;
+      }
+
+      if (action.type === 'build') {
+        await this.build(queryRunner, current, method);
+      } else {
+        this.logger.log(
+          `Dropping vector index ${action.index.name}: ${action.reason}`,
+        );
+        await queryRunner.query(
+          `DROP INDEX CONCURRENTLY IF EXISTS "${action.index.name}"`,
+        );
+      }
+    }
+  }
+
+  private async build(
+    queryRunner: QueryRunner,
+    current: EmbeddingModelStats,
+    method: VectorIndexMethod,
+  ): Promise<void> {
+    const { model, rows } = current;
+    const dimensions = current.dimensions as number;
+    // Unique per build, so a replacement never clashes with the old index
+    const name = `${INDEX_PREFIX}${createHash('sha1')
+      .update(model)
+      .digest('hex')
+      .slice(0, 8)}_${Date.now().toString(36)}`;
+    const options =
+      method === 'ivfflat' ? ` WITH (lists = ${ivfflatLists(rows)})` : '';
+
+    this.logger.log(
+      `Building ${method} index ${name} over ${rows} ${model} embeddings`,
+    );
+
+    await queryRunner.query(`
+      CREATE INDEX CONCURRENTLY "${name}" ON emails
+      USING ${method} ((embedding::vector(${dimensions})) vector_cosine_ops)${options}
+      WHERE "embeddingModel" = ${quoteLiteral(model)}
+    `);
+
+    const info: IndexInfo = {
+      model,
+      dimensions,
+      rows,
+      builtAt: new Date().toISOString(),
+    };
+    await queryRunner.query(
+      `COMMENT ON INDEX "${name}" IS ${quoteLiteral(JSON.stringify(info))}`,
+    );
+  }
+
+  private parseInfo(comment: string | null): Partial<IndexInfo> {
+    try {
+      return comment ? (JSON.parse(comment) as IndexInfo) : {};
+    } catch {
+      return {};
+    }
+  }
+}
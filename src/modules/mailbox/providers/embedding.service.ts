@@ -0,0 +1,194 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Email } from '../entities';
+import { AiService } from './ai.service';
+
+/**
+ * An embedding in pgvector text form, with the model that made it
+ */
+export interface Embedding {
+  vector: string;
+  model: string;
+  dimensions: number;
+}
+
+export interface ReembedProgress {
+  // Since this instance started
+  reembedded: number;
+  failed: number;
+  lastRunAt: Date | null;
+}
+
+/**
+ * Cosine distance between stored embeddings and a query vector of the same
+ * model, written like the expression of the model's ANN index so the index
+ * can serve it; order by it ascending
+ * @param vector SQL of the query vector in pgvector text form, e.g. '$1'
+ */
+export function cosineDistanceSql(
+  vector: string,
+  dimensions: number,
+  column = 'email.embedding',
+): string {
+  return `(CAST(${column} AS vector(${dimensions})) <=> CAST(${vector} AS vector(${dimensions})))`;
+}
+
+/**
+ * Embeds emails and search queries with the configured model, and
+ * re-embeds stored mail in the background after the model changed
+ *
+ * Until an email is re-embedded its old embedding stays in place but is
+ * left out of semantic search. The job walks the stale emails by id, so an
+ * email that cannot be embedded is retried on the next pass instead of
+ * holding up the rest.
+ */
+@Injectable()
+export class EmbeddingService implements OnModuleDestroy {
+  private readonly logger = new Logger(EmbeddingService.name);
+  private isProcessing = false;
+  private isShuttingDown = false;
+  // Last email handled in the current pass over the stale emails
+  private cursor = 0;
+  private readonly progress: ReembedProgress = {
+    reembedded: 0,
+    failed: 0,
+    lastRunAt: null,
+  };
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    private readonly aiService: AiService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleDestroy() {
+    this.isShuttingDown = true;
+  }
+
+  get model(): string {
+    return this.aiService.embeddingModel;
+  }
+
+  getProgress(): ReembedProgress {
+    return { ...this.progress };
+  }
+
+  /**
+   * Embed an email and store the embedding with its model
+   */
+  async embedEmail(
+    email: Pick<
+      Email,
+      'id' | 'subject' | 'bodyText' | 'fromName' | 'fromEmail'
+    >,
+  ): Promise<Embedding> {
+    const embedding = await this.embed(
+      this.aiService.prepareEmailContentForEmbedding(email),
+    );
+
+    await this.emailRepository.query(
+      `UPDATE emails SET embedding = $1::vector, "embeddingModel" = $2, "embeddingGeneratedAt" = $3 WHERE id = $4`,
+      [embedding.vector, embedding.model, new Date(), email.id],
+    );
+
+    return embedding;
+  }
+
+  /**
+   * Embed a search query the way emails are embedded
+   */
+  embedQuery(query: string): Promise<Embedding> {
+    return this.embed(
+      this.aiService.prepareEmailContentForEmbedding({
+        subject: query,
+        bodyText: query,
+      }),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 're-embed-emails' })
+  async reembedStale(): Promise<void> {
+    if (this.isProcessing || this.isShuttingDown) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const model = this.model;
+      const batchSize =
+        this.configService.get<number>('search.reembedBatchSize') || 50;
+
+      const stale = await this.emailRepository
+        .createQueryBuilder('email')
+        .select([
+          'email.id',
+          'email.subject',
+          'email.bodyText',
+          'email.fromName',
+          'email.fromEmail',
+        ])
+        .where('email.embedding IS NOT NULL')
+        .andWhere('email.embeddingModel IS DISTINCT FROM :model', { model })
+        .andWhere('email.id > :cursor', { cursor: this.cursor })
+        .orderBy('email.id', 'ASC')
+        .limit(batchSize)
+        .getMany();
+
+      if (stale.length === 0) {
+        // Pass done; start over to retry the emails that failed
+        this.cursor = 0;
+        return;
+      }
+
+      let reembedded = 0;
+
+      for (const email of stale) {
+        if (this.isShuttingDown) {
+          break;
+        }
+
+        this.cursor = email.id;
+
+        try {
+          await this.embedEmail(email);
+          reembedded++;
+        } catch (error) {
+          // Most failures are the provider's, so leave the rest for the
+          // next tick instead of failing them all
+          this.progress.failed++;
+          this.logger.warn(
+            `Failed to re-embed email ${email.id} with ${model}: ${(error as Error).message}`,
+          );
+          break;
+        }
+      }
+
+      this.progress.reembedded += reembedded;
+      this.logger.log(`Re-embedded ${reembedded} emails with ${model}`);
+    } catch (error) {
+      this.logger.error(
+        'Re-embedding failed',
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      this.progress.lastRunAt = new Date();
+      this.isProcessing = false;
+    }
+  }
+
+  private async embed(content: string): Promise<Embedding> {
+    const model = this.model;
+    const values = await this.aiService.generateEmbedding(content);
+
+    return {
+      vector: `[${values.join(',')}]`,
+      model,
+      dimensions: values.length,
+    };
+  }
+}
@@ -0,0 +1,208 @@
+import { ConfigService } from '@nestjs/config';
+import { User } from '../../user/entities/user.entity';
+import { Email, EnrichmentStatus, Mailbox } from '../entities';
+import { BundlingService } from './bundling.service';
+import { DeliverySchedulerService } from './delivery-scheduler.service';
+import { EnrichmentService } from './enrichment.service';
+
+describe('EnrichmentService', () => {
+  const user = {
+    id: 3,
+    aiEnrichmentEnabled: true,
+    aiSummaryEnabled: false,
+  } as User;
+
+  const mailbox = { id: 2, userId: user.id, user } as Mailbox;
+
+  const emailRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const mailboxRepository = { findOne: jest.fn() };
+  const userRepository = { findOne: jest.fn() };
+  const aiService = {
+    calculateUrgencyScore: jest.fn(),
+    extractActionItems: jest.fn(),
+    summarizeEmail: jest.fn(),
+  };
+
+  let service: EnrichmentService;
+
+  const queued = (overrides: Partial<Email> = {}): Email =>
+    ({
+      id: 9,
+      mailboxId: mailbox.id,
+      subject: 'Contract',
+      snippet: null,
+      bodyText: 'Please send the signed contract by Friday.',
+      receivedAt: new Date('2024-01-15T09:00:00.000Z'),
+      aiSummary: null,
+      aiActionItems: null,
+      aiUrgencyScore: null,
+      enrichmentStatus: EnrichmentStatus.PENDING,
+      enrichmentAttempts: 0,
+      enrichedAt: null,
+      ...overrides,
+    }) as Email;
+
+  const lastUpdate = () =>
+    emailRepository.update.mock.lastCall as [number, Partial<Email>];
+
+  beforeEach(() => {
+    service = new EnrichmentService(
+      emailRepository as never,
+      mailboxRepository as never,
+      userRepository as never,
+      aiService as never,
+      new BundlingService(
+        {} as never,
+        emailRepository as never,
+        mailboxRepository as never,
+      ),
+      new DeliverySchedulerService(
+        {} as never,
+        emailRepository as never,
+        userRepository as never,
+      ),
+      new ConfigService({ enrichment: { concurrency: 2, maxAttempts: 3 } }),
+    );
+
+    emailRepository.update.mockResolvedValue({ affected: 1 });
+    mailboxRepository.findOne.mockResolvedValue(mailbox);
+    userRepository.findOne.mockResolvedValue(user);
+    aiService.calculateUrgencyScore.mockResolvedValue(8);
+    aiService.extractActionItems.mockResolvedValue([
+      { text: 'Send the signed contract', dueDate: '2024-01-19' },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('stores urgency and action items', async () => {
+    await service.enrich(queued());
+
+    expect(aiService.extractActionItems).toHaveBeenCalledWith(
+      'Please send the signed contract by Friday.',
+      new Date('2024-01-15T09:00:00.000Z'),
+    );
+    expect(aiService.summarizeEmail).not.toHaveBeenCalled();
+    expect(lastUpdate()).toEqual([
+      9,
+      expect.objectContaining({
+        aiUrgencyScore: 8,
+        aiActionItems: [
+          { text: 'Send the signed contract', dueDate: '2024-01-19' },
+        ],
+        enrichmentStatus: EnrichmentStatus.DONE,
+      }),
+    ]);
+  });
+
+  it('takes mail scored urgent out of its bundle and delivery window', async () => {
+    const email = queued({
+      bundleId: 4,
+      heldUntil: new Date('2024-01-15T17:00:00.000Z'),
+    });
+
+    await service.enrich(email);
+
+    expect(emailRepository.update).toHaveBeenCalledWith(9, { bundleId: null });
+    expect(emailRepository.update).toHaveBeenCalledWith(9, {
+      heldUntil: null,
+      deliveryWindowId: null,
+    });
+    expect(email).toEqual(
+      expect.objectContaining({ bundleId: null, heldUntil: null }),
+    );
+  });
+
+  it('leaves mail that is not urgent where it is', async () => {
+    aiService.calculateUrgencyScore.mockResolvedValue(2);
+
+    await service.enrich(queued({ bundleId: 4 }));
+
+    expect(emailRepository.update).not.toHaveBeenCalledWith(9, {
+      bundleId: null,
+    });
+  });
+
+  it('summarizes when the user asked for summaries', async () => {
+    mailboxRepository.findOne.mockResolvedValue({
+      ...mailbox,
+      user: { ...user, aiSummaryEnabled: true },
+    });
+    aiService.summarizeEmail.mockResolvedValue('Contract due Friday.');
+
+    await service.enrich(queued());
+
+    const [, changes] = lastUpdate();
+    expect(changes.aiSummary).toBe('Contract due Friday.');
+  });
+
+  it('keeps an urgency score set by a mail rule', async () => {
+    await service.enrich(queued({ aiUrgencyScore: 4 }));
+
+    expect(aiService.calculateUrgencyScore).not.toHaveBeenCalled();
+    const [, changes] = lastUpdate();
+    expect(changes.aiUrgencyScore).toBe(4);
+  });
+
+  it('does nothing when another instance claimed the email', async () => {
+    emailRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+    await service.enrich(queued());
+
+    expect(mailboxRepository.findOne).not.toHaveBeenCalled();
+    expect(emailRepository.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a failure after a delay', async () => {
+    aiService.extractActionItems.mockRejectedValue(new Error('quota'));
+
+    await service.enrich(queued());
+
+    const [, changes] = lastUpdate();
+    expect(changes).toMatchObject({
+      enrichmentStatus: EnrichmentStatus.PENDING,
+      enrichmentError: 'quota',
+    });
+    expect(changes.enrichmentRetryAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('gives up after the last attempt', async () => {
+    aiService.extractActionItems.mockRejectedValue(new Error('quota'));
+
+    await service.enrich(queued({ enrichmentAttempts: 2 }));
+
+    const [, changes] = lastUpdate();
+    expect(changes).toMatchObject({
+      enrichmentStatus: EnrichmentStatus.FAILED,
+      enrichmentError: 'quota',
+    });
+  });
+
+  it('does not queue mail of users who opted out', async () => {
+    userRepository.findOne.mockResolvedValue({
+      ...user,
+      aiEnrichmentEnabled: false,
+    });
+
+    await expect(service.queue(mailbox, queued())).resolves.toBe(false);
+    expect(emailRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('drops queued mail of users who opted out since', async () => {
+    mailboxRepository.findOne.mockResolvedValue({
+      ...mailbox,
+      user: { ...user, aiEnrichmentEnabled: false },
+    });
+
+    await service.enrich(queued());
+
+    expect(aiService.extractActionItems).not.toHaveBeenCalled();
+    const [, changes] = lastUpdate();
+    expect(changes.enrichmentStatus).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { Semaphore } from '../../../common/utils/semaphore.util';
+import { User } from '../../user/entities/user.entity';
+import { Email, EnrichmentStatus, Mailbox } from '../entities';
+import { AiService } from './ai.service';
+import { BundlingService } from './bundling.service';
+import { DeliverySchedulerService } from './delivery-scheduler.service';
+
+// An email still PROCESSING after this long belongs to a process that died
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const BATCH_SIZE = 20;
+
+/**
+ * Fills in urgency, action items and (when the user wants it) a summary
+ * for new mail in the background
+ *
+ * Emails are queued by setting enrichmentStatus to PENDING; each one is
+ * claimed with a conditional update so several instances can share the
+ * queue.
+ */
+@Injectable()
+export class EnrichmentService implements OnModuleDestroy {
+  private readonly logger = new Logger(EnrichmentService.name);
+  private readonly semaphore: Semaphore;
+  private isProcessing = false;
+  private isShuttingDown = false;
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly aiService: AiService,
+    private readonly bundlingService: BundlingService,
+    private readonly deliveryScheduler: DeliverySchedulerService,
+    private readonly configService: ConfigService,
+  ) {
+    this.semaphore = new Semaphore(
+      this.configService.get<number>('enrichment.concurrency') || 2,
+    );
+  }
+
+  onModuleDestroy() {
+    this.isShuttingDown = true;
+  }
+
+  async isEnabledFor(userId: number): Promise<boolean> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'aiEnrichmentEnabled'],
+    });
+
+    return user?.aiEnrichmentEnabled ?? false;
+  }
+
+  /**
+   * Queue a newly synced email unless its owner opted out
+   * @returns whether the email was queued
+   */
+  async queue(mailbox: Mailbox, email: Email): Promise<boolean> {
+    if (!(await this.isEnabledFor(mailbox.userId))) {
+      return false;
+    }
+
+    await this.emailRepository.update(email.id, {
+      enrichmentStatus: EnrichmentStatus.PENDING,
+      enrichmentAttempts: 0,
+      enrichmentRetryAt: null,
+      enrichmentError: null,
+    });
+    email.enrichmentStatus = EnrichmentStatus.PENDING;
+
+    return true;
+  }
+
+  /**
+   * Queue emails of a mailbox again, e.g. after a failure or to pick up a
+   * better model; emails being enriched right now are left alone
+   * @param criteria.emailId only this email
+   * @param criteria.onlyMissing skip emails that were enriched before
+   * @returns number of emails queued
+   */
+  async requeue(criteria: {
+    mailboxId: number;
+    emailId?: number;
+    onlyMissing?: boolean;
+  }): Promise<number> {
+    const query = this.emailRepository
+      .createQueryBuilder()
+      .update(Email)
+      .set({
+        enrichmentStatus: EnrichmentStatus.PENDING,
+        enrichmentAttempts: 0,
+        enrichmentRetryAt: null,
+        enrichmentError: null,
+      })
+      .where('"mailboxId" = :mailboxId', { mailboxId: criteria.mailboxId })
+      .andWhere('"deletedAt" IS NULL')
+      .andWhere(
+        '("enrichmentStatus" IS NULL OR "enrichmentStatus" != :processing)',
+        { processing: EnrichmentStatus.PROCESSING },
+      );
+
+    if (criteria.emailId !== undefined) {
+      query.andWhere('id = :emailId', { emailId: criteria.emailId });
+    }
+
+    if (criteria.onlyMissing) {
+      query.andWhere('"enrichedAt" IS NULL');
+    }
+
+    const result = await query.execute();
+    return result.affected ?? 0;
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS, { name: 'enrich-emails' })
+  async processQueue(): Promise<void> {
+    // Only guards against overlapping ticks, like the outbox sender
+    if (this.isProcessing || this.isShuttingDown) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      await this.requeueInterrupted();
+
+      const now = new Date();
+      const due = await this.emailRepository.find({
+        where: [
+          {
+            enrichmentStatus: EnrichmentStatus.PENDING,
+            enrichmentRetryAt: IsNull(),
+          },
+          {
+            enrichmentStatus: EnrichmentStatus.PENDING,
+            enrichmentRetryAt: LessThanOrEqual(now),
+          },
+        ],
+        order: { id: 'ASC' },
+        take: BATCH_SIZE,
+      });
+
+      await Promise.all(
+        due.map((email) =>
+          this.semaphore.run(async () => {
+            if (!this.isShuttingDown) {
+              await this.enrich(email);
+            }
+          }),
+        ),
+      );
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Enrich one queued email; failures are retried with a growing delay
+   * until enrichment.maxAttempts is reached
+   */
+  async enrich(email: Email): Promise<void> {
+    const attempts = email.enrichmentAttempts + 1;
+
+    const claimed = await this.emailRepository.update(
+      { id: email.id, enrichmentStatus: EnrichmentStatus.PENDING },
+      {
+        enrichmentStatus: EnrichmentStatus.PROCESSING,
+        enrichmentAttempts: attempts,
+      },
+    );
+
+    if (!claimed.affected) {
+      // Picked up by another instance
+      return;
+    }
+
+    try {
+      const mailbox = await this.mailboxRepository.findOne({
+        where: { id: email.mailboxId },
+        relations: { user: true },
+      });
+
+      // Opted out after the email was queued
+      if (!mailbox?.user.aiEnrichmentEnabled) {
+        await this.emailRepository.update(email.id, {
+          enrichmentStatus: null,
+          enrichmentRetryAt: null,
+        });
+        return;
+      }
+
+      const analysis = await this.analyze(email, mailbox.user);
+
+      await this.emailRepository.update(email.id, {
+        ...analysis,
+        enrichmentStatus: EnrichmentStatus.DONE,
+        enrichmentRetryAt: null,
+        enrichmentError: null,
+        enrichedAt: new Date(),
+      });
+      email.aiUrgencyScore = analysis.aiUrgencyScore;
+
+      // New mail was bundled and held before it had a score
+      await this.bundlingService.unbundleIfUrgent(email);
+      await this.deliveryScheduler.releaseIfUrgent(email);
+
+      this.logger.log(`Enriched email ${email.id}`);
+    } catch (error) {
+      await this.recordFailure(email, attempts, error as Error);
+    }
+  }
+
+  private async analyze(
+    email: Email,
+    user: User,
+  ): Promise<Pick<Email, 'aiUrgencyScore' | 'aiActionItems' | 'aiSummary'>> {
+    const content = email.bodyText || email.snippet || email.subject || '';
+
+    if (!content) {
+      return {
+        aiUrgencyScore: email.aiUrgencyScore,
+        aiActionItems: [],
+        aiSummary: email.aiSummary,
+      };
+    }
+
+    // A re-run recomputes everything; on the first run a mail rule may
+    // already have scored the email
+    const rerun = email.enrichedAt !== null;
+
+    const aiUrgencyScore =
+      email.aiUrgencyScore !== null && !rerun
+        ? email.aiUrgencyScore
+        : await this.aiService.calculateUrgencyScore(content, {
+            throwOnError: true,
+          });
+
+    const aiActionItems = await this.aiService.extractActionItems(
+      content,
+      email.receivedAt,
+    );
+
+    const aiSummary =
+      user.aiSummaryEnabled && (!email.aiSummary || rerun)
+        ? await this.aiService.summarizeEmail(content)
+        : email.aiSummary;
+
+    return { aiUrgencyScore, aiActionItems, aiSummary };
+  }
+
+  private async recordFailure(
+    email: Email,
+    attempts: number,
+    error: Error,
+  ): Promise<void> {
+    const maxAttempts =
+      this.configService.get<number>('enrichment.maxAttempts') || 3;
+
+    if (attempts >= maxAttempts) {
+      await this.emailRepository.update(email.id, {
+        enrichmentStatus: EnrichmentStatus.FAILED,
+        enrichmentRetryAt: null,
+        enrichmentError: error.message,
+      });
+
+      this.logger.error(
+        `Enrichment of email ${email.id} failed after ${attempts} attempts: ${error.message}`,
+      );
+      return;
+    }
+
+    // 1 minute after the first failure, 2 after the second, ...
+    const retryAt = new Date(Date.now() + attempts * 60 * 1000);
+
+    await this.emailRepository.update(email.id, {
+      enrichmentStatus: EnrichmentStatus.PENDING,
+      enrichmentRetryAt: retryAt,
+      enrichmentError: error.message,
+    });
+
+    this.logger.warn(
+      `Enrichment of email ${email.id} attempt ${attempts} failed, retrying at ${retryAt.toISOString()}: ${error.message}`,
+    );
+  }
+
+  /**
+   * Put emails left PROCESSING by a process that died back in the queue
+   * The interrupted attempt still counts towards enrichment.maxAttempts
+   */
+  private async requeueInterrupted(): Promise<void> {
+    const result = await this.emailRepository.update(
+      {
+        enrichmentStatus: EnrichmentStatus.PROCESSING,
+        updatedAt: LessThan(new Date(Date.now() - PROCESSING_TIMEOUT_MS)),
+      },
+      { enrichmentStatus: EnrichmentStatus.PENDING },
+    );
+
+    if (result.affected) {
+      this.logger.warn(
+        `Requeued ${result.affected} emails interrupted while being enriched`,
+      );
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+} from './llm-provider.interface';
+
+export interface GeminiLlmOptions {
+  apiKey: string;
+  model: string;
+  embeddingModel: string;
+}
+
+/**
+ * Google Gemini through the Generative Language API
+ */
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name = LlmProviderName.GEMINI;
+  readonly embeddingModel: string;
+  private readonly genAI: GoogleGenerativeAI;
+  private readonly model: string;
+
+  constructor(options: GeminiLlmOptions) {
+    this.genAI = new GoogleGenerativeAI(options.apiKey);
+    this.model = options.model;
+    this.embeddingModel = options.embeddingModel;
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const result = await model.generateContent(request.prompt);
+    return result.response.text();
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.embeddingModel,
+    });
+    const result = await model.embedContent(text);
+    return result.embedding.values;
+  }
+}
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { timingSafeEqual } from 'crypto';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { Mailbox, MailboxProvider, SyncJobTrigger } from '../entities';
+import { EmailSyncService } from './email-sync.service';
+import { GmailService } from './gmail.service';
+
+/**
+ * Payload Gmail publishes to Pub/Sub (base64-encoded in message.data)
+ */
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string | number;
+}
+
+@Injectable()
+export class GmailPushService {
+  private readonly logger = new Logger(GmailPushService.name);
+
+  constructor(
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly configService: ConfigService,
+    private readonly gmailService: GmailService,
+    private readonly emailSyncService: EmailSyncService,
+  ) {}
+
+  isEnabled(): boolean {
+    return !!this.configService.get<string>('gmailPush.topicName');
+  }
+
+  /**
+   * Check the shared secret sent by the Pub/Sub push subscription
+   */
+  verifyToken(token: string | undefined): boolean {
+    const expected = this.configService.get<string>(
+      'gmailPush.verificationToken',
+    );
+
+    if (!expected || !token) {
+      return false;
+    }
+
+    const expectedBuffer = Buffer.from(expected);
+    const tokenBuffer = Buffer.from(token);
+
+    return (
+      expectedBuffer.length === tokenBuffer.length &&
+      timingSafeEqual(expectedBuffer, tokenBuffer)
+    );
+  }
+
+  /**
+   * Register (or renew) the Gmail watch for a mailbox
+   * No-op when push notifications are not configured
+   */
+  async registerWatch(mailbox: Mailbox): Promise<void> {
+    const topicName = this.configService.get<string>('gmailPush.topicName');
+
+    if (!topicName || mailbox.provider !== MailboxProvider.GMAIL) {
+      return;
+    }
+
+    try {
+      const { expiration } = await this.gmailService.watchMailbox(
+        mailbox,
+        topicName,
+      );
+
+      await this.mailboxRepository.update(mailbox.id, {
+        watchExpiresAt: expiration,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to register push watch for mailbox ${mailbox.id}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * Stop the Gmail watch, e.g. when a mailbox is disconnected
+   */
+  async stopWatch(mailbox: Mailbox): Promise<void> {
+    if (!mailbox.watchExpiresAt) {
+      return;
+    }
+
+    try {
+      await this.gmailService.stopWatch(mailbox);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to stop push watch for mailbox ${mailbox.id}: ${(error as Error).message}`,
+      );
+    }
+
+    await this.mailboxRepository.update(mailbox.id, { watchExpiresAt: null });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR, { name: 'renew-gmail-watches' })
+  async renewExpiringWatches(): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const renewBeforeHours =
+      this.configService.get<number>('gmailPush.renewBeforeHours') || 24;
+    const threshold = new Date(Date.now() + renewBeforeHours * 60 * 60 * 1000);
+
+    const mailboxes = await this.mailboxRepository.find({
+      where: [
+        {
+          isActive: true,
+          provider: MailboxProvider.GMAIL,
+          watchExpiresAt: IsNull(),
+        },
+        {
+          isActive: true,
+          provider: MailboxProvider.GMAIL,
+          watchExpiresAt: LessThan(threshold),
+        },
+      ],
+    });
+
+    if (mailboxes.length > 0) {
+      this.logger.log(
+        `Renewing push watches for ${mailboxes.length} mailboxes`,
+      );
+    }
+
+    for (const mailbox of mailboxes) {
+      await this.registerWatch(mailbox);
+    }
+  }
+
+  /**
+   * Decode a Pub/Sub message body into a Gmail notification
+   * Returns null for payloads that are not Gmail notifications
+   */
+  decodeMessageData(data: string | undefined): GmailPushNotification | null {
+    if (!data) {
+      return null;
+    }
+
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(data, 'base64').toString('utf-8'),
+      ) as Partial<GmailPushNotification>;
+
+      // historyId is compared as a BigInt, so anything but digits is malformed
+      if (
+        !decoded.emailAddress ||
+        decoded.historyId === undefined ||
+        !/^\d+$/.test(String(decoded.historyId))
+      ) {
+        return null;
+      }
+
+      return {
+        emailAddress: decoded.emailAddress,
+        historyId: decoded.historyId,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Trigger an incremental sync for the mailbox named in the notification
+   * Sync runs in the background so the webhook can acknowledge quickly
+   * @returns number of mailboxes a sync was triggered for
+   */
+  async handleNotification(
+    notification: GmailPushNotification,
+  ): Promise<number> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: {
+        email: notification.emailAddress,
+        provider: MailboxProvider.GMAIL,
+        isActive: true,
+        deletedAt: IsNull(),
+      },
+    });
+
+    if (mailboxes.length === 0) {
+      this.logger.debug(
+        `Ignoring push notification for unknown mailbox ${notification.emailAddress}`,
+      );
+      return 0;
+    }
+
+    let triggered = 0;
+
+    for (const mailbox of mailboxes) {
+      // Notifications can arrive late or out of order
+      if (
+        mailbox.historyId &&
+        BigInt(notification.historyId) <= BigInt(mailbox.historyId)
+      ) {
+        this.logger.debug(
+          `Mailbox ${mailbox.id} already at history ${mailbox.historyId}, skipping`,
+        );
+        continue;
+      }
+
+      setImmediate(() => {
+        this.emailSyncService
+          .incrementalSync(mailbox.id, { trigger: SyncJobTrigger.PUSH })
+          .catch((err: Error) => {
+            this.logger.error(
+              `Push-triggered sync failed for mailbox ${mailbox.id}: ${err.message}`,
+            );
+          });
+      });
+      triggered++;
+    }
+
+    return triggered;
+  }
+}
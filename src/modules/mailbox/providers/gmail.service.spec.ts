@@ -0,0 +1,132 @@
+import { ConfigService } from '@nestjs/config';
+import { gmail_v1, google } from 'googleapis';
+import { EncryptionUtil } from '../../../common/utils/encryption.util';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+import { SyncCursorExpiredError } from './mail-provider.interface';
+import { GmailService } from './gmail.service';
+
+describe('GmailService', () => {
+  const encryptionKey = 'a'.repeat(64);
+  const encryptionUtil = new EncryptionUtil(encryptionKey);
+
+  const historyList = jest.fn();
+
+  const mailbox = {
+    id: 1,
+    provider: MailboxProvider.GMAIL,
+    encryptedAccessToken: encryptionUtil.encrypt('access-token'),
+    encryptedRefreshToken: encryptionUtil.encrypt('refresh-token'),
+  } as Mailbox;
+
+  const message = (id: string) => ({ message: { id } });
+
+  const historyPage = (
+    history: gmail_v1.Schema$History[],
+    nextPageToken?: string,
+  ) => ({ data: { historyId: '200', history, nextPageToken } });
+
+  let service: GmailService;
+
+  beforeEach(() => {
+    jest.spyOn(google, 'gmail').mockReturnValue({
+      users: { history: { list: historyList } },
+    } as never);
+
+    service = new GmailService(
+      { update: jest.fn() } as never,
+      new ConfigService({ encryption: { key: encryptionKey } }),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    historyList.mockReset();
+  });
+
+  describe('getChanges', () => {
+    it('reads history for all labels', async () => {
+      historyList.mockResolvedValue(historyPage([]));
+
+      await service.getChanges(mailbox, '100');
+
+      expect(historyList).toHaveBeenCalledWith(
+        expect.not.objectContaining({ labelId: expect.anything() as unknown }),
+      );
+    });
+
+    it('folds every label change of every record into one update per message', async () => {
+      historyList
+        .mockResolvedValueOnce(
+          historyPage(
+            [
+              {
+                labelsAdded: [
+                  { ...message('m1'), labelIds: ['Label_7', 'STARRED'] },
+                  { ...message('m2'), labelIds: ['SPAM'] },
+                ],
+                labelsRemoved: [{ ...message('m1'), labelIds: ['INBOX'] }],
+              },
+            ],
+            'page-2',
+          ),
+        )
+        .mockResolvedValueOnce(
+          historyPage([
+            {
+              // Removing STARRED again cancels the earlier add
+              labelsRemoved: [{ ...message('m1'), labelIds: ['STARRED'] }],
+              labelsAdded: [{ ...message('m3'), labelIds: ['UNREAD'] }],
+            },
+            {
+              labelsAdded: [{ ...message('m3'), labelIds: ['UNREAD'] }],
+              labelsRemoved: [{ ...message('m3'), labelIds: ['UNREAD'] }],
+            },
+          ]),
+        );
+
+      const changes = await service.getChanges(mailbox, '100');
+
+      expect(historyList).toHaveBeenLastCalledWith(
+        expect.objectContaining({ pageToken: 'page-2' }),
+      );
+      expect(changes.historyId).toBe('200');
+      expect(changes.labelsModified).toEqual([
+        {
+          messageId: 'm1',
+          labelsAdded: ['Label_7'],
+          labelsRemoved: ['INBOX', 'STARRED'],
+        },
+        { messageId: 'm2', labelsAdded: ['SPAM'], labelsRemoved: [] },
+        { messageId: 'm3', labelsAdded: [], labelsRemoved: ['UNREAD'] },
+      ]);
+    });
+
+    it('drops messages added and deleted within the same window', async () => {
+      historyList.mockResolvedValue(
+        historyPage([
+          { messagesAdded: [message('m1'), message('m2')] },
+          {
+            labelsAdded: [{ ...message('m2'), labelIds: ['STARRED'] }],
+          },
+          { messagesDeleted: [message('m2'), message('m0')] },
+        ]),
+      );
+
+      const changes = await service.getChanges(mailbox, '100');
+
+      expect(changes.messagesAdded).toEqual(['m1']);
+      expect(changes.messagesDeleted).toEqual(['m2', 'm0']);
+      expect(changes.labelsModified).toEqual([]);
+    });
+
+    it('reports an expired history ID', async () => {
+      historyList.mockRejectedValue(
+        Object.assign(new Error('Not Found'), { code: 404 }),
+      );
+
+      await expect(service.getChanges(mailbox, '100')).rejects.toThrow(
+        SyncCursorExpiredError,
+      );
+    });
+  });
+});
@@ -1,9 +1,26 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
 import { gmail_v1, google } from 'googleapis';
+import { Repository } from 'typeorm';
 import { EncryptionUtil } from '../../../common/utils/encryption.util';
-import { Mailbox } from '../entities/mailbox.entity';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
 import type { File as MulterFile } from 'multer';
+import {
+  DraftNotFoundError,
+  DraftPage,
+  ListMessagesOptions,
+  MailboxChanges,
+  MailDraft,
+  MailLabel,
+  MailProviderClient,
+  MessagePage,
+  OutgoingEmail,
+  ParsedAttachment,
+  ParsedEmail,
+  parseListId,
+  SyncCursorExpiredError,
+} from './mail-provider.interface';
 
 export interface GmailMessage {
   id: string;
@@ -19,40 +36,17 @@ export interface GmailMessageHeader {
   value: string;
 }
 
-export interface ParsedEmail {
-  gmailMessageId: string;
-  gmailThreadId: string;
-  subject: string | null;
-  snippet: string | null;
-  fromEmail: string;
-  fromName: string | null;
-  toEmails: string[];
-  ccEmails: string[];
-  bccEmails: string[];
-  bodyHtml: string | null;
-  bodyText: string | null;
-  receivedAt: Date;
-  isRead: boolean;
-  isStarred: boolean;
-  labels: string[];
-  attachments: ParsedAttachment[];
-}
-
-export interface ParsedAttachment {
-  gmailAttachmentId: string;
-  filename: string;
-  mimeType: string;
-  size: number;
-  contentId: string | null;
-  isInline: boolean;
-}
-
 @Injectable()
-export class GmailService {
+export class GmailService implements MailProviderClient {
+  readonly provider = MailboxProvider.GMAIL;
   private readonly logger = new Logger(GmailService.name);
   private readonly encryptionUtil: EncryptionUtil;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly configService: ConfigService,
+  ) {
     const encryptionKey = this.configService.get<string>('encryption.key');
     if (!encryptionKey) {
       throw new Error('ENCRYPTION_KEY is not configured');
@@ -105,33 +99,46 @@ export class GmailService {
       throw new Error('Failed to refresh access token');
     }
 
+    const expiresAt = new Date(credentials.expiry_date || Date.now() + 3600000);
+
+    mailbox.encryptedAccessToken = this.encryptionUtil.encrypt(
+      credentials.access_token,
+    );
+    mailbox.tokenExpiresAt = expiresAt;
+
+    await this.mailboxRepository.update(mailbox.id, {
+      encryptedAccessToken: mailbox.encryptedAccessToken,
+      tokenExpiresAt: expiresAt,
+    });
+
     this.logger.log(`Refreshed tokens for mailbox ${mailbox.id}`);
 
-    return {
-      accessToken: credentials.access_token,
-      expiresAt: new Date(credentials.expiry_date || Date.now() + 3600000),
-    };
+    return { accessToken: credentials.access_token, expiresAt };
   }
 
   async listMessages(
     mailbox: Mailbox,
-    options: {
-      maxResults?: number;
-      pageToken?: string;
+    options: ListMessagesOptions & {
       query?: string;
       labelIds?: string[];
     } = {},
-  ): Promise<{
-    messages: Array<{ id: string; threadId: string }>;
-    nextPageToken?: string;
-  }> {
+  ): Promise<MessagePage> {
     const { gmail } = this.getAuthenticatedClient(mailbox);
 
+    const query = [
+      options.query,
+      options.after
+        ? `after:${Math.floor(options.after.getTime() / 1000)}`
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
     const response = await gmail.users.messages.list({
       userId: 'me',
       maxResults: options.maxResults || 100,
       pageToken: options.pageToken,
-      q: options.query,
+      q: query || undefined,
       labelIds: options.labelIds,
     });
 
@@ -144,6 +151,7 @@ export class GmailService {
     return {
       messages,
       nextPageToken: response.data.nextPageToken || undefined,
+      resultSizeEstimate: response.data.resultSizeEstimate || 0,
     };
   }
 
@@ -206,46 +214,57 @@ export class GmailService {
     return Buffer.from(response.data.data, 'base64url');
   }
 
-  async getHistoryChanges(
+  async getChanges(
     mailbox: Mailbox,
     startHistoryId: string,
-  ): Promise<{
-    historyId: string;
-    messagesAdded: string[];
-    messagesDeleted: string[];
-    labelsModified: Array<{
-      messageId: string;
-      labelsAdded: string[];
-      labelsRemoved: string[];
-    }>;
-  }> {
+  ): Promise<MailboxChanges> {
     const { gmail } = this.getAuthenticatedClient(mailbox);
 
     const messagesAdded: string[] = [];
     const messagesDeleted: string[] = [];
-    const labelsModified: Array<{
-      messageId: string;
-      labelsAdded: string[];
-      labelsRemoved: string[];
-    }> = [];
+    // Net label changes per message, folded in history order so a label
+    // added and removed again within the window cancels out
+    const labelChanges = new Map<
+      string,
+      { added: Set<string>; removed: Set<string> }
+    >();
+    const getLabelChange = (messageId: string) => {
+      let change = labelChanges.get(messageId);
+      if (!change) {
+        change = { added: new Set(), removed: new Set() };
+        labelChanges.set(messageId, change);
+      }
+      return change;
+    };
 
     let pageToken: string | undefined;
     let latestHistoryId = startHistoryId;
 
     do {
-      const response = await gmail.users.history.list({
-        userId: 'me',
-        startHistoryId,
-        labelId: 'INBOX', // Only track INBOX changes
-        historyTypes: [
-          'messageAdded',
-          'messageDeleted',
-          'labelAdded',
-          'labelRemoved',
-        ],
-        maxResults: 500,
-        pageToken,
-      });
+      const response = await gmail.users.history
+        .list({
+          userId: 'me',
+          startHistoryId,
+          // No labelId filter: archive, custom labels, SENT and SPAM changes
+          // all need to reach the database
+          historyTypes: [
+            'messageAdded',
+            'messageDeleted',
+            'labelAdded',
+            'labelRemoved',
+          ],
+          maxResults: 500,
+          pageToken,
+        })
+        .catch((error: Error & { code?: number; status?: number }) => {
+          // Gmail returns 404 when historyId is too old (> 7 days)
+          if (error.code === 404 || error.status === 404) {
+            throw new SyncCursorExpiredError(
+              `History ${startHistoryId} is no longer available`,
+            );
+          }
+          throw error;
+        });
 
       this.logger.debug(
         `History API response: historyId=${response.data.historyId}, records=${response.data.history?.length || 0}, nextPageToken=${response.data.nextPageToken ? 'yes' : 'no'}`,
@@ -273,18 +292,21 @@ export class GmailService {
               .filter(Boolean) as string[]),
           );
         }
-        if (history.labelsAdded || history.labelsRemoved) {
-          const messageId =
-            history.labelsAdded?.[0]?.message?.id ||
-            history.labelsRemoved?.[0]?.message?.id;
-          if (messageId) {
-            labelsModified.push({
-              messageId,
-              labelsAdded:
-                history.labelsAdded?.flatMap((l) => l.labelIds || []) || [],
-              labelsRemoved:
-                history.labelsRemoved?.flatMap((l) => l.labelIds || []) || [],
-            });
+        // A record can carry label changes for several messages
+        for (const entry of history.labelsAdded || []) {
+          if (!entry.message?.id) continue;
+          const change = getLabelChange(entry.message.id);
+          for (const labelId of entry.labelIds || []) {
+            change.added.add(labelId);
+            change.removed.delete(labelId);
+          }
+        }
+        for (const entry of history.labelsRemoved || []) {
+          if (!entry.message?.id) continue;
+          const change = getLabelChange(entry.message.id);
+          for (const labelId of entry.labelIds || []) {
+            change.removed.add(labelId);
+            change.added.delete(labelId);
           }
         }
       }
@@ -292,11 +314,26 @@ export class GmailService {
       pageToken = response.data.nextPageToken ?? undefined;
     } while (pageToken);
 
+    const deleted = new Set(messagesDeleted);
+
     return {
       historyId: latestHistoryId,
-      messagesAdded: [...new Set(messagesAdded)],
-      messagesDeleted: [...new Set(messagesDeleted)],
-      labelsModified,
+      // Messages added and deleted within the same window are never fetched
+      messagesAdded: [...new Set(messagesAdded)].filter(
+        (id) => !deleted.has(id),
+      ),
+      messagesDeleted: [...deleted],
+      labelsModified: [...labelChanges.entries()]
+        .filter(([messageId]) => !deleted.has(messageId))
+        .map(([messageId, change]) => ({
+          messageId,
+          labelsAdded: [...change.added],
+          labelsRemoved: [...change.removed],
+        }))
+        .filter(
+          (change) =>
+            change.labelsAdded.length > 0 || change.labelsRemoved.length > 0,
+        ),
     };
   }
 
@@ -318,8 +355,45 @@ export class GmailService {
     };
   }
 
-  encryptToken(token: string): string {
-    return this.encryptionUtil.encrypt(token);
+  /**
+   * Ask Gmail to publish mailbox changes to a Pub/Sub topic
+   * Watches expire after 7 days and must be renewed
+   */
+  async watchMailbox(
+    mailbox: Mailbox,
+    topicName: string,
+  ): Promise<{ historyId: string; expiration: Date }> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    // No labelIds filter = notify on changes to every label
+    const response = await gmail.users.watch({
+      userId: 'me',
+      requestBody: { topicName },
+    });
+
+    if (!response.data.expiration) {
+      throw new Error('Gmail API did not return a watch expiration');
+    }
+
+    this.logger.log(
+      `Registered push watch for ${mailbox.email} until ${new Date(Number(response.data.expiration)).toISOString()}`,
+    );
+
+    return {
+      historyId: response.data.historyId || '',
+      expiration: new Date(Number(response.data.expiration)),
+    };
+  }
+
+  /**
+   * Stop push notifications for the mailbox
+   */
+  async stopWatch(mailbox: Mailbox): Promise<void> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    await gmail.users.stop({ userId: 'me' });
+
+    this.logger.log(`Stopped push watch for ${mailbox.email}`);
   }
 
   private parseMessage(message: gmail_v1.Schema$Message): ParsedEmail {
@@ -332,6 +406,8 @@ export class GmailService {
     const to = this.parseEmailAddresses(getHeader('To') || '');
     const cc = this.parseEmailAddresses(getHeader('Cc') || '');
     const bcc = this.parseEmailAddresses(getHeader('Bcc') || '');
+    const replyTo = this.parseEmailAddresses(getHeader('Reply-To') || '');
+    const references = this.parseMessageIds(getHeader('References'));
 
     const { bodyHtml, bodyText, attachments } = this.parseMessageParts(
       message.payload,
@@ -351,6 +427,14 @@ export class GmailService {
       toEmails: to.map((t) => t.email),
       ccEmails: cc.map((c) => c.email),
       bccEmails: bcc.map((b) => b.email),
+      replyToEmails: replyTo.map((r) => r.email),
+      internetMessageId:
+        this.parseMessageIds(getHeader('Message-ID'))[0] || null,
+      referenceIds: references.length
+        ? references
+        : this.parseMessageIds(getHeader('In-Reply-To')),
+      listId: parseListId(getHeader('List-Id')),
+      listUnsubscribe: getHeader('List-Unsubscribe'),
       bodyHtml,
       bodyText,
       receivedAt: new Date(parseInt(message.internalDate || '0', 10)),
@@ -382,6 +466,17 @@ export class GmailService {
     return input.split(',').map((addr) => this.parseEmailAddress(addr.trim()));
   }
 
+  /**
+   * Message-IDs from a Message-ID, In-Reply-To or References header,
+   * without angle brackets
+   */
+  private parseMessageIds(input: string | null): string[] {
+    if (!input) return [];
+    const ids = input.match(/<[^<>\s]+>/g);
+    if (ids) return ids.map((id) => id.slice(1, -1));
+    return input.split(/\s+/).filter(Boolean);
+  }
+
   private parseMessageParts(payload: gmail_v1.Schema$MessagePart | undefined): {
     bodyHtml: string | null;
     bodyText: string | null;
@@ -433,25 +528,204 @@ export class GmailService {
    */
   async sendEmail(
     mailbox: Mailbox,
-    emailData: {
-      to: string[];
-      cc?: string[];
-      bcc?: string[];
-      subject: string;
-      body: string;
-      bodyHtml?: string;
-      inReplyTo?: string;
-      threadId?: string;
-    },
+    emailData: OutgoingEmail,
     files?: MulterFile[],
   ): Promise<string> {
     const { gmail } = this.getAuthenticatedClient(mailbox);
+    const encodedMessage = this.buildRawMessage(mailbox, emailData, files);
+
+    const sendRequest: gmail_v1.Params$Resource$Users$Messages$Send = {
+      userId: 'me',
+      requestBody: {
+        raw: encodedMessage,
+      },
+    };
+
+    // Add threadId for replies
+    if (emailData.threadId) {
+      sendRequest.requestBody!.threadId = emailData.threadId;
+    }
+
+    const response = await gmail.users.messages.send(sendRequest);
+
+    if (!response.data.id) {
+      throw new Error('Gmail API did not return a message ID');
+    }
+
+    this.logger.log(
+      `Sent email from ${mailbox.email} to ${emailData.to.join(', ')} - Message ID: ${response.data.id}`,
+    );
+
+    return response.data.id;
+  }
+
+  /**
+   * List drafts, newest first, with their current message
+   */
+  async listDrafts(
+    mailbox: Mailbox,
+    options: { maxResults?: number; pageToken?: string } = {},
+  ): Promise<DraftPage> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    const response = await gmail.users.drafts.list({
+      userId: 'me',
+      maxResults: options.maxResults || 20,
+      pageToken: options.pageToken,
+    });
+
+    const draftIds = (response.data.drafts || [])
+      .map((draft) => draft.id)
+      .filter((id): id is string => !!id);
+
+    const drafts = await Promise.all(
+      draftIds.map((id) => this.getDraft(mailbox, id)),
+    );
+
+    return {
+      drafts,
+      nextPageToken: response.data.nextPageToken || undefined,
+    };
+  }
+
+  async getDraft(mailbox: Mailbox, draftId: string): Promise<MailDraft> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
 
+    const response = await gmail.users.drafts
+      .get({ userId: 'me', id: draftId, format: 'full' })
+      .catch(this.rethrowDraftNotFound(draftId));
+
+    return this.parseDraft(response.data);
+  }
+
+  /**
+   * Create a draft; threadId keeps a reply draft in its conversation
+   */
+  async createDraft(
+    mailbox: Mailbox,
+    emailData: OutgoingEmail,
+    files?: MulterFile[],
+  ): Promise<MailDraft> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    const response = await gmail.users.drafts.create({
+      userId: 'me',
+      requestBody: {
+        message: {
+          raw: this.buildRawMessage(mailbox, emailData, files),
+          threadId: emailData.threadId,
+        },
+      },
+    });
+
+    if (!response.data.id) {
+      throw new Error('Gmail API did not return a draft ID');
+    }
+
+    this.logger.log(
+      `Created draft ${response.data.id} for mailbox ${mailbox.id}`,
+    );
+
+    // The create response only carries IDs and labels
+    return this.getDraft(mailbox, response.data.id);
+  }
+
+  /**
+   * Replace the content of a draft
+   */
+  async updateDraft(
+    mailbox: Mailbox,
+    draftId: string,
+    emailData: OutgoingEmail,
+    files?: MulterFile[],
+  ): Promise<MailDraft> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    await gmail.users.drafts
+      .update({
+        userId: 'me',
+        id: draftId,
+        requestBody: {
+          id: draftId,
+          message: {
+            raw: this.buildRawMessage(mailbox, emailData, files),
+            threadId: emailData.threadId,
+          },
+        },
+      })
+      .catch(this.rethrowDraftNotFound(draftId));
+
+    return this.getDraft(mailbox, draftId);
+  }
+
+  async deleteDraft(mailbox: Mailbox, draftId: string): Promise<void> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    await gmail.users.drafts
+      .delete({ userId: 'me', id: draftId })
+      .catch(this.rethrowDraftNotFound(draftId));
+
+    this.logger.log(`Deleted draft ${draftId} for mailbox ${mailbox.id}`);
+  }
+
+  async sendDraft(mailbox: Mailbox, draftId: string): Promise<string> {
+    const { gmail } = this.getAuthenticatedClient(mailbox);
+
+    const response = await gmail.users.drafts
+      .send({ userId: 'me', requestBody: { id: draftId } })
+      .catch(this.rethrowDraftNotFound(draftId));
+
+    if (!response.data.id) {
+      throw new Error('Gmail API did not return a message ID');
+    }
+
+    this.logger.log(
+      `Sent draft ${draftId} from ${mailbox.email} - Message ID: ${response.data.id}`,
+    );
+
+    return response.data.id;
+  }
+
+  private parseDraft(draft: gmail_v1.Schema$Draft): MailDraft {
+    if (!draft.id || !draft.message) {
+      throw new Error('Gmail API returned an incomplete draft');
+    }
+
+    const inReplyTo = draft.message.payload?.headers?.find(
+      (h) => h.name?.toLowerCase() === 'in-reply-to',
+    )?.value;
+
+    return {
+      id: draft.id,
+      message: this.parseMessage(draft.message),
+      inReplyTo: inReplyTo ? inReplyTo.trim().replace(/^<|>$/g, '') : null,
+    };
+  }
+
+  private rethrowDraftNotFound(draftId: string) {
+    return (error: Error & { code?: number; status?: number }): never => {
+      if (error.code === 404 || error.status === 404) {
+        throw new DraftNotFoundError(draftId);
+      }
+      throw error;
+    };
+  }
+
+  /**
+   * Build an RFC 2822 message, base64url-encoded for the Gmail API
+   */
+  private buildRawMessage(
+    mailbox: Mailbox,
+    emailData: OutgoingEmail,
+    files?: MulterFile[],
+  ): string {
     // Build email message in RFC 2822 format
-    const messageParts = [
-      `From: ${mailbox.email}`,
-      `To: ${emailData.to.join(', ')}`,
-    ];
+    const messageParts = [`From: ${mailbox.email}`];
+
+    // Drafts may not have recipients yet
+    if (emailData.to.length > 0) {
+      messageParts.push(`To: ${emailData.to.join(', ')}`);
+    }
 
     if (emailData.cc && emailData.cc.length > 0) {
       messageParts.push(`Cc: ${emailData.cc.join(', ')}`);
@@ -464,8 +738,14 @@ export class GmailService {
     messageParts.push(`Subject: ${emailData.subject}`);
 
     if (emailData.inReplyTo) {
+      const references = emailData.references?.length
+        ? emailData.references
+        : [emailData.inReplyTo];
       messageParts.push(`In-Reply-To: <${emailData.inReplyTo}>`);
-      messageParts.push(`References: <${emailData.inReplyTo}>`);
+      // One ID per folded line keeps long chains under the line limit
+      messageParts.push(
+        `References: ${references.map((id) => `<${id}>`).join('\r\n ')}`,
+      );
     }
 
     messageParts.push('MIME-Version: 1.0');
@@ -573,35 +853,11 @@ export class GmailService {
     }
 
     // Encode to base64url (RFC 4648 Section 5)
-    const encodedMessage = Buffer.from(message, 'utf8')
+    return Buffer.from(message, 'utf8')
       .toString('base64')
       .replace(/\+/g, '-')
       .replace(/\//g, '_')
       .replace(/=+$/, '');
-
-    const sendRequest: gmail_v1.Params$Resource$Users$Messages$Send = {
-      userId: 'me',
-      requestBody: {
-        raw: encodedMessage,
-      },
-    };
-
-    // Add threadId for replies
-    if (emailData.threadId) {
-      sendRequest.requestBody!.threadId = emailData.threadId;
-    }
-
-    const response = await gmail.users.messages.send(sendRequest);
-
-    if (!response.data.id) {
-      throw new Error('Gmail API did not return a message ID');
-    }
-
-    this.logger.log(
-      `Sent email from ${mailbox.email} to ${emailData.to.join(', ')} - Message ID: ${response.data.id}`,
-    );
-
-    return response.data.id;
   }
 
   /**
@@ -702,10 +958,15 @@ export class GmailService {
     }
   }
 
+  isUserLabel(labelId: string): boolean {
+    // User label IDs look like Label_123; system labels are uppercase names
+    return labelId.startsWith('Label_');
+  }
+
   /**
    * List user's Gmail labels with full details
    */
-  async listLabels(mailbox: Mailbox): Promise<gmail_v1.Schema$Label[]> {
+  async listLabels(mailbox: Mailbox): Promise<MailLabel[]> {
     try {
       const { gmail } = this.getAuthenticatedClient(mailbox);
 
@@ -733,7 +994,17 @@ export class GmailService {
         }),
       );
 
-      return detailedLabels;
+      return detailedLabels
+        .filter((label) => !!label.id && !!label.name)
+        .map((label) => ({
+          id: label.id!,
+          name: label.name!,
+          type: label.type === 'user' ? ('user' as const) : ('system' as const),
+          messagesTotal: label.messagesTotal ?? undefined,
+          messagesUnread: label.messagesUnread ?? undefined,
+          backgroundColor: label.color?.backgroundColor ?? undefined,
+          textColor: label.color?.textColor ?? undefined,
+        }));
     } catch (error) {
       this.logger.error(
         `Failed to list labels`,
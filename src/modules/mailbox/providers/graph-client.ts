@@ -0,0 +1,118 @@
+/**
+ * Error response from Microsoft Graph
+ */
+export class GraphApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string | undefined,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'GraphApiError';
+  }
+}
+
+export interface GraphPage<T> {
+  value: T[];
+  '@odata.count'?: number;
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string;
+}
+
+/**
+ * Minimal Microsoft Graph REST client for one signed-in user
+ * Paths are resolved against the base URL; absolute URLs (nextLink and
+ * deltaLink values returned by Graph) are requested as-is
+ */
+export class GraphClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly accessToken: string,
+  ) {}
+
+  get<T>(path: string, headers: Record<string, string> = {}): Promise<T> {
+    return this.request<T>('GET', path, undefined, headers);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  patch<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
+  async getBuffer(path: string): Promise<Buffer> {
+    const response = await this.send('GET', path);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Follow @odata.nextLink until the collection is exhausted
+   */
+  async getAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = path;
+
+    while (next) {
+      const page: GraphPage<T> = await this.get<GraphPage<T>>(next);
+      items.push(...page.value);
+      next = page['@odata.nextLink'];
+    }
+
+    return items;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+  ): Promise<T> {
+    const response = await this.send(method, path, body, headers);
+
+    if (response.status === 202 || response.status === 204) {
+      return undefined as T;
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private async send(
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        Authorization: `Bearer ${this.accessToken}`,
+        // Immutable IDs survive moves between folders
+        Prefer: ['IdType="ImmutableId"', headers.Prefer]
+          .filter(Boolean)
+          .join(', '),
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as {
+        error?: { code?: string; message?: string };
+      } | null;
+
+      throw new GraphApiError(
+        response.status,
+        payload?.error?.code,
+        payload?.error?.message ||
+          `Graph request failed: ${method} ${path} (${response.status})`,
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,235 @@
+import { ConfigService } from '@nestjs/config';
+import { ImapFlow } from 'imapflow';
+import { FindOperator } from 'typeorm';
+import { EncryptionUtil } from '../../../common/utils/encryption.util';
+import { Email } from '../entities/email.entity';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+import {
+  flagsToLabels,
+  folderToLabel,
+  formatImapMessageId,
+  ImapService,
+  parseImapMessageId,
+} from './imap.service';
+
+describe('ImapService helpers', () => {
+  it('round-trips message IDs for folders containing colons', () => {
+    const id = formatImapMessageId('Projects:2024', 1700000000n, 42);
+
+    expect(id).toBe('Projects:2024:1700000000:42');
+    expect(parseImapMessageId(id)).toEqual({
+      path: 'Projects:2024',
+      uidValidity: '1700000000',
+      uid: 42,
+    });
+  });
+
+  it('rejects message IDs that are not IMAP IDs', () => {
+    expect(() => parseImapMessageId('18abc123def456')).toThrow(
+      'Invalid IMAP message ID',
+    );
+    expect(() => parseImapMessageId('INBOX:abc:1')).toThrow();
+  });
+
+  it('maps special-use folders to Gmail system labels', () => {
+    expect(folderToLabel({ path: 'INBOX', specialUse: '\\Inbox' })).toBe(
+      'INBOX',
+    );
+    expect(folderToLabel({ path: 'Sent Items', specialUse: '\\Sent' })).toBe(
+      'SENT',
+    );
+    expect(folderToLabel({ path: 'Junk', specialUse: '\\Junk' })).toBe('SPAM');
+    expect(folderToLabel({ path: 'Clients/Acme' })).toBe('Clients/Acme');
+  });
+
+  it('derives UNREAD and STARRED from flags', () => {
+    expect(flagsToLabels(new Set(), 'INBOX')).toEqual(['INBOX', 'UNREAD']);
+    expect(flagsToLabels(new Set(['\\Seen', '\\Flagged']), 'INBOX')).toEqual([
+      'INBOX',
+      'STARRED',
+    ]);
+  });
+});
+
+/**
+ * Runs against a local IMAP/SMTP server, e.g. the greenmail service:
+ *   docker compose --profile test up -d greenmail
+ *   IMAP_TEST_HOST=localhost npx jest imap.service
+ */
+const describeWithServer = process.env.IMAP_TEST_HOST
+  ? describe
+  : describe.skip;
+
+describeWithServer('ImapService against a local server', () => {
+  const encryptionKey = 'a'.repeat(64);
+  // greenmail creates accounts on first login
+  const user = process.env.IMAP_TEST_USER || `sync-${Date.now()}@localhost`;
+  const host = process.env.IMAP_TEST_HOST!;
+  const imapPort = Number(process.env.IMAP_TEST_PORT || 3143);
+  const smtpPort = Number(process.env.SMTP_TEST_PORT || 3025);
+
+  let stored: Array<Pick<Email, 'gmailMessageId' | 'labels'>> = [];
+  const emailRepository = {
+    find: jest.fn(
+      ({ where }: { where: { gmailMessageId?: FindOperator<string[]> } }) =>
+        Promise.resolve(
+          stored.filter(
+            (email) =>
+              !where.gmailMessageId ||
+              where.gmailMessageId.value.includes(email.gmailMessageId),
+          ),
+        ),
+    ),
+    update: jest.fn(),
+  };
+
+  const mailbox = {
+    id: 1,
+    email: user,
+    provider: MailboxProvider.IMAP,
+    imapHost: host,
+    imapPort,
+    imapSecure: false,
+    smtpHost: host,
+    smtpPort,
+    smtpSecure: false,
+    imapUsername: user,
+    encryptedPassword: new EncryptionUtil(encryptionKey).encrypt('secret'),
+  } as Mailbox;
+
+  let service: ImapService;
+  let client: ImapFlow;
+
+  const appendMessage = (subject: string) =>
+    client.append(
+      'INBOX',
+      [
+        `From: Sender <sender@localhost>`,
+        `To: ${user}`,
+        `Subject: ${subject}`,
+        `Message-ID: <${subject.replace(/\s/g, '-')}@localhost>`,
+        '',
+        `Body of ${subject}`,
+      ].join('\r\n'),
+    );
+
+  beforeAll(async () => {
+    service = new ImapService(
+      emailRepository as never,
+      new ConfigService({ encryption: { key: encryptionKey } }),
+    );
+
+    client = new ImapFlow({
+      host,
+      port: imapPort,
+      secure: false,
+      auth: { user, pass: 'secret' },
+      logger: false,
+    });
+    await client.connect();
+
+    await appendMessage('First message');
+    await appendMessage('Second message');
+  });
+
+  afterAll(async () => {
+    await client.logout();
+  });
+
+  it('lists and parses existing messages, then reports changes since the cursor', async () => {
+    const { historyId } = await service.getProfile(mailbox);
+    const { messages } = await service.listMessages(mailbox);
+
+    expect(messages).toHaveLength(2);
+
+    const parsed = await service.getMessages(
+      mailbox,
+      messages.map((m) => m.id),
+    );
+
+    expect(parsed.map((email) => email.subject).sort()).toEqual([
+      'First message',
+      'Second message',
+    ]);
+    expect(parsed[0].labels).toEqual(['INBOX', 'UNREAD']);
+    expect(parsed[0].fromEmail).toBe('sender@localhost');
+
+    stored = parsed.map((email) => ({
+      gmailMessageId: email.gmailMessageId,
+      labels: email.labels,
+    }));
+
+    const first = parsed.find((email) => email.subject === 'First message')!;
+    const second = parsed.find((email) => email.subject === 'Second message')!;
+
+    await service.modifyMessageLabels(mailbox, first.gmailMessageId, {
+      removeLabelIds: ['UNREAD'],
+    });
+    await service.trashMessage(mailbox, second.gmailMessageId);
+    await appendMessage('Third message');
+
+    const changes = await service.getChanges(mailbox, historyId);
+
+    // A trashed message may also show up as added to the Trash folder
+    const added = await service.getMessages(mailbox, changes.messagesAdded);
+    expect(added.map((email) => email.subject)).toContain('Third message');
+    expect(changes.messagesDeleted).toEqual([second.gmailMessageId]);
+    expect(changes.labelsModified).toEqual([
+      {
+        messageId: first.gmailMessageId,
+        labelsAdded: [],
+        labelsRemoved: ['UNREAD'],
+      },
+    ]);
+    expect(changes.historyId).not.toBe(historyId);
+  });
+
+  it('keeps the email of a message moved to another folder', async () => {
+    await client.mailboxCreate('Projects');
+    await appendMessage('Moved message');
+
+    const { historyId } = await service.getProfile(mailbox);
+    const { messages } = await service.listMessages(mailbox);
+    const parsed = await service.getMessages(
+      mailbox,
+      messages.map((m) => m.id),
+    );
+    const moved = parsed.find((email) => email.subject === 'Moved message')!;
+    stored = parsed.map((email) => ({
+      gmailMessageId: email.gmailMessageId,
+      labels: email.labels,
+    }));
+
+    await service.modifyMessageLabels(mailbox, moved.gmailMessageId, {
+      addLabelIds: ['Projects'],
+    });
+
+    const [where, { gmailMessageId }] = emailRepository.update.mock
+      .lastCall as [object, { gmailMessageId: string }];
+    expect(where).toEqual({
+      mailboxId: mailbox.id,
+      gmailMessageId: moved.gmailMessageId,
+    });
+    expect(gmailMessageId).toMatch(/^Projects:\d+:\d+$/);
+
+    stored = stored.map((email) =>
+      email.gmailMessageId === moved.gmailMessageId
+        ? { ...email, gmailMessageId }
+        : email,
+    );
+    const changes = await service.getChanges(mailbox, historyId);
+
+    expect(changes.messagesDeleted).not.toContain(moved.gmailMessageId);
+    expect(changes.messagesAdded).not.toContain(gmailMessageId);
+  });
+
+  it('sends mail over SMTP', async () => {
+    const messageId = await service.sendEmail(mailbox, {
+      to: [user],
+      subject: 'Sent from the test',
+      body: 'Hello',
+    });
+
+    expect(messageId).toBeTruthy();
+  });
+});
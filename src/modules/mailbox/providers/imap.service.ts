@@ -0,0 +1,1115 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  FetchMessageObject,
+  ImapFlow,
+  ListResponse,
+  MailboxObject,
+  SearchObject,
+} from 'imapflow';
+import { AddressObject, ParsedMail, simpleParser } from 'mailparser';
+import { createTransport } from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { In, Repository } from 'typeorm';
+import { EncryptionUtil } from '../../../common/utils/encryption.util';
+import { Email } from '../entities/email.entity';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+import {
+  ListMessagesOptions,
+  MailboxChanges,
+  MailLabel,
+  MailProviderClient,
+  MessagePage,
+  OutgoingEmail,
+  OutgoingFile,
+  ParsedEmail,
+  parseListId,
+  SyncCursorExpiredError,
+} from './mail-provider.interface';
+
+export interface ImapConnectionSettings {
+  imapHost: string;
+  imapPort: number;
+  imapSecure: boolean;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  username: string;
+  password: string;
+}
+
+interface ImapFolderState {
+  uidValidity: string;
+  uidNext: number;
+  // Only present when the server supports CONDSTORE
+  highestModseq?: string;
+}
+
+/**
+ * Sync cursor stored in Mailbox.historyId for IMAP mailboxes
+ */
+interface ImapCursor {
+  folders: Record<string, ImapFolderState>;
+}
+
+interface ImapMessageRef {
+  path: string;
+  uidValidity: string;
+  uid: number;
+}
+
+interface MovedMessage {
+  path: string;
+  // ID in the target folder when the server reports it (UIDPLUS)
+  id: string | null;
+  // Message-ID header, to find the message again otherwise
+  headerId: string | null;
+}
+
+// Virtual folders that duplicate messages stored elsewhere
+const SKIPPED_SPECIAL_USE = new Set(['\\All', '\\Flagged', '\\Important']);
+
+const SPECIAL_USE_LABELS: Record<string, string> = {
+  '\\Inbox': 'INBOX',
+  '\\Sent': 'SENT',
+  '\\Drafts': 'DRAFT',
+  '\\Trash': 'TRASH',
+  '\\Junk': 'SPAM',
+};
+
+// Labels backed by IMAP flags rather than folders
+const FLAG_LABELS = ['UNREAD', 'STARRED'];
+
+const FETCH_BATCH_SIZE = 50;
+
+/**
+ * IMAP message IDs are "<folder>:<UIDVALIDITY>:<UID>"; UIDVALIDITY is part of
+ * the ID because UIDs are reused after the server resets it
+ */
+export function formatImapMessageId(
+  path: string,
+  uidValidity: string | bigint,
+  uid: number,
+): string {
+  return `${path}:${uidValidity.toString()}:${uid}`;
+}
+
+export function parseImapMessageId(messageId: string): ImapMessageRef {
+  const uidSeparator = messageId.lastIndexOf(':');
+  const validitySeparator = messageId.lastIndexOf(':', uidSeparator - 1);
+  const uid = Number(messageId.slice(uidSeparator + 1));
+  const uidValidity = messageId.slice(validitySeparator + 1, uidSeparator);
+
+  if (
+    validitySeparator <= 0 ||
+    !Number.isInteger(uid) ||
+    uid <= 0 ||
+    !/^\d+$/.test(uidValidity)
+  ) {
+    throw new Error(`Invalid IMAP message ID: ${messageId}`);
+  }
+
+  return {
+    path: messageId.slice(0, validitySeparator),
+    uidValidity,
+    uid,
+  };
+}
+
+/**
+ * Gmail-style label for a folder; special-use folders map to system labels
+ */
+export function folderToLabel(
+  folder: Pick<ListResponse, 'path' | 'specialUse'>,
+): string {
+  if (folder.path.toUpperCase() === 'INBOX') {
+    return 'INBOX';
+  }
+  return (
+    (folder.specialUse && SPECIAL_USE_LABELS[folder.specialUse]) || folder.path
+  );
+}
+
+export function flagsToLabels(
+  flags: Set<string> | undefined,
+  folderLabel: string,
+): string[] {
+  const labels = [folderLabel];
+  if (!flags?.has('\\Seen')) labels.push('UNREAD');
+  if (flags?.has('\\Flagged')) labels.push('STARRED');
+  return labels;
+}
+
+function stripAngleBrackets(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '');
+}
+
+@Injectable()
+export class ImapService implements MailProviderClient {
+  readonly provider = MailboxProvider.IMAP;
+  private readonly logger = new Logger(ImapService.name);
+  private readonly encryptionUtil: EncryptionUtil;
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    private readonly configService: ConfigService,
+  ) {
+    const encryptionKey = this.configService.get<string>('encryption.key');
+    if (!encryptionKey) {
+      throw new Error('ENCRYPTION_KEY is not configured');
+    }
+    this.encryptionUtil = new EncryptionUtil(encryptionKey);
+  }
+
+  /**
+   * Check that both the IMAP and the SMTP server accept the credentials
+   */
+  async verifyCredentials(settings: ImapConnectionSettings): Promise<void> {
+    const client = new ImapFlow({
+      ...this.getImapOptions(settings),
+      verifyOnly: true,
+    });
+    await client.connect();
+
+    const transport = this.createSmtpTransport(settings);
+    try {
+      await transport.verify();
+    } finally {
+      transport.close();
+    }
+  }
+
+  async getProfile(
+    mailbox: Mailbox,
+  ): Promise<{ emailAddress: string; historyId: string }> {
+    return this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client);
+      const cursor: ImapCursor = { folders: {} };
+
+      for (const folder of folders) {
+        const status = await client.status(folder.path, {
+          uidValidity: true,
+          uidNext: true,
+          highestModseq: true,
+        });
+
+        if (!status || status.uidValidity === undefined) continue;
+
+        cursor.folders[folder.path] = {
+          uidValidity: status.uidValidity.toString(),
+          uidNext: status.uidNext ?? 1,
+          highestModseq: status.highestModseq?.toString(),
+        };
+      }
+
+      return {
+        emailAddress: mailbox.email,
+        historyId: JSON.stringify(cursor),
+      };
+    });
+  }
+
+  /**
+   * Walk folders in order (INBOX first), newest UID first within each
+   * Page tokens are {"path", "beforeUid"}; beforeUid null starts the folder
+   */
+  async listMessages(
+    mailbox: Mailbox,
+    options: ListMessagesOptions = {},
+  ): Promise<MessagePage> {
+    const maxResults = options.maxResults || 100;
+    const token = options.pageToken
+      ? (JSON.parse(options.pageToken) as {
+          path: string;
+          beforeUid: number | null;
+        })
+      : null;
+
+    return this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client);
+      const startIndex = Math.max(
+        0,
+        token ? folders.findIndex((f) => f.path === token.path) : 0,
+      );
+      const query: SearchObject = options.after
+        ? { since: options.after }
+        : { all: true };
+
+      const messages: Array<{ id: string; threadId: string }> = [];
+      let nextPageToken: string | undefined;
+      let resultSizeEstimate = 0;
+
+      for (let i = 0; i < folders.length; i++) {
+        const folder = folders[i];
+        const lock = await client.getMailboxLock(folder.path, {
+          readOnly: true,
+        });
+
+        try {
+          const { uidValidity } = client.mailbox as MailboxObject;
+          const uids = await this.searchUids(client, query);
+          resultSizeEstimate += uids.length;
+
+          if (i < startIndex || nextPageToken) continue;
+
+          const beforeUid =
+            i === startIndex && token?.beforeUid ? token.beforeUid : Infinity;
+          const candidates = uids
+            .filter((uid) => uid < beforeUid)
+            .sort((a, b) => b - a);
+
+          for (const uid of candidates) {
+            if (messages.length === maxResults) {
+              nextPageToken = JSON.stringify({
+                path: folder.path,
+                beforeUid: parseImapMessageId(messages[messages.length - 1].id)
+                  .uid,
+              });
+              break;
+            }
+            const id = formatImapMessageId(folder.path, uidValidity, uid);
+            // IMAP has no thread IDs until the message headers are fetched
+            messages.push({ id, threadId: id });
+          }
+
+          if (
+            !nextPageToken &&
+            messages.length === maxResults &&
+            i + 1 < folders.length
+          ) {
+            nextPageToken = JSON.stringify({
+              path: folders[i + 1].path,
+              beforeUid: null,
+            });
+          }
+        } finally {
+          lock.release();
+        }
+      }
+
+      return { messages, nextPageToken, resultSizeEstimate };
+    });
+  }
+
+  async getMessages(
+    mailbox: Mailbox,
+    messageIds: string[],
+  ): Promise<ParsedEmail[]> {
+    const byFolder = this.groupByFolder(messageIds);
+
+    return this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client);
+      const results: ParsedEmail[] = [];
+
+      for (const [path, refs] of byFolder) {
+        const folder = folders.find((f) => f.path === path);
+        if (!folder) {
+          this.logger.warn(`Folder ${path} no longer exists, skipping`);
+          continue;
+        }
+
+        const lock = await client.getMailboxLock(path, { readOnly: true });
+
+        try {
+          const { uidValidity } = client.mailbox as MailboxObject;
+          const uids = refs
+            .filter((ref) => ref.uidValidity === uidValidity.toString())
+            .map((ref) => ref.uid);
+
+          for (let i = 0; i < uids.length; i += FETCH_BATCH_SIZE) {
+            const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+            const fetched = await client.fetchAll(
+              batch.join(','),
+              { uid: true, flags: true, internalDate: true, source: true },
+              { uid: true },
+            );
+
+            for (const message of fetched) {
+              try {
+                results.push(
+                  await this.parseMessage(folder, uidValidity, message),
+                );
+              } catch (error) {
+                this.logger.warn(
+                  `Failed to parse message ${path}:${message.uid}: ${(error as Error).message}`,
+                );
+              }
+            }
+          }
+        } finally {
+          lock.release();
+        }
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * Diff every folder against the cursor:
+   * - UIDVALIDITY changed: all stored messages of the folder are replaced
+   * - UIDs at or above the previous UIDNEXT are new
+   * - stored UIDs below it that the server no longer has were expunged
+   * - flags are compared for messages changed since the previous
+   *   HIGHESTMODSEQ (CONDSTORE), or for all messages without it
+   */
+  async getChanges(mailbox: Mailbox, cursor: string): Promise<MailboxChanges> {
+    const previous = this.parseCursor(cursor);
+    const stored = await this.loadStoredMessages(mailbox.id);
+
+    return this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client);
+      const next: ImapCursor = { folders: {} };
+      const messagesAdded: string[] = [];
+      const messagesDeleted: string[] = [];
+      const flagUpdates = new Map<string, string[]>();
+
+      for (const folder of folders) {
+        const lock = await client.getMailboxLock(folder.path, {
+          readOnly: true,
+        });
+
+        try {
+          const info = client.mailbox as MailboxObject;
+          const uidValidity = info.uidValidity.toString();
+          const state = previous.folders[folder.path];
+          const storedRefs = stored.get(folder.path) ?? [];
+          stored.delete(folder.path);
+
+          next.folders[folder.path] = {
+            uidValidity,
+            uidNext: info.uidNext,
+            highestModseq: info.highestModseq?.toString(),
+          };
+
+          const current = new Map<number, string>();
+          for (const ref of storedRefs) {
+            if (ref.uidValidity === uidValidity) {
+              current.set(ref.uid, ref.id);
+            } else {
+              messagesDeleted.push(ref.id);
+            }
+          }
+
+          if (!state || state.uidValidity !== uidValidity) {
+            const uids = await this.searchUids(client, { all: true });
+            messagesAdded.push(
+              ...uids
+                .filter((uid) => !current.has(uid))
+                .map((uid) =>
+                  formatImapMessageId(folder.path, uidValidity, uid),
+                ),
+            );
+            continue;
+          }
+
+          if (info.uidNext > state.uidNext) {
+            // "n:*" always matches the last message, even below n
+            const uids = await this.searchUids(client, {
+              uid: `${state.uidNext}:*`,
+            });
+            messagesAdded.push(
+              ...uids
+                .filter((uid) => uid >= state.uidNext && !current.has(uid))
+                .map((uid) =>
+                  formatImapMessageId(folder.path, uidValidity, uid),
+                ),
+            );
+          }
+
+          if (current.size === 0 || state.uidNext <= 1) continue;
+
+          const knownRange = `1:${state.uidNext - 1}`;
+          const present = new Set(
+            await this.searchUids(client, { uid: knownRange }),
+          );
+          for (const [uid, id] of current) {
+            if (!present.has(uid)) {
+              messagesDeleted.push(id);
+              current.delete(uid);
+            }
+          }
+
+          const unchanged =
+            state.highestModseq !== undefined &&
+            state.highestModseq === next.folders[folder.path].highestModseq;
+          if (unchanged || current.size === 0) continue;
+
+          const changedSince =
+            state.highestModseq !== undefined &&
+            info.highestModseq !== undefined
+              ? BigInt(state.highestModseq)
+              : undefined;
+
+          for await (const message of client.fetch(
+            knownRange,
+            { uid: true, flags: true },
+            { uid: true, changedSince },
+          )) {
+            const id = current.get(message.uid);
+            if (id) {
+              flagUpdates.set(
+                id,
+                flagsToLabels(message.flags, folderToLabel(folder)),
+              );
+            }
+          }
+        } finally {
+          lock.release();
+        }
+      }
+
+      // Folders that were deleted or renamed on the server
+      for (const refs of stored.values()) {
+        messagesDeleted.push(...refs.map((ref) => ref.id));
+      }
+
+      return {
+        historyId: JSON.stringify(next),
+        messagesAdded,
+        messagesDeleted,
+        labelsModified: await this.diffFlagLabels(mailbox.id, flagUpdates),
+      };
+    });
+  }
+
+  async sendEmail(
+    mailbox: Mailbox,
+    emailData: OutgoingEmail,
+    files?: OutgoingFile[],
+  ): Promise<string> {
+    const settings = this.getConnectionSettings(mailbox);
+    const inReplyTo = emailData.inReplyTo
+      ? `<${emailData.inReplyTo}>`
+      : undefined;
+    const references = emailData.references?.length
+      ? emailData.references.map((id) => `<${id}>`)
+      : inReplyTo;
+
+    const mail = {
+      from: mailbox.email,
+      to: emailData.to,
+      cc: emailData.cc,
+      bcc: emailData.bcc,
+      subject: emailData.subject,
+      text: emailData.body,
+      html: emailData.bodyHtml,
+      inReplyTo,
+      references,
+      date: new Date(),
+      attachments: files?.map((file) => ({
+        filename: file.originalname,
+        content: file.buffer,
+        contentType: file.mimetype,
+      })),
+    };
+
+    const transport = this.createSmtpTransport(settings);
+    let rfcMessageId: string;
+
+    try {
+      const info = await transport.sendMail(mail);
+      rfcMessageId = info.messageId;
+    } finally {
+      transport.close();
+    }
+
+    this.logger.log(
+      `Sent email from ${mailbox.email} to ${emailData.to.join(', ')} - Message-ID: ${rfcMessageId}`,
+    );
+
+    // SMTP servers do not file a copy of sent mail, unlike Gmail
+    try {
+      const sentCopy = await this.withClient(mailbox, async (client) => {
+        const folders = await this.listSyncFolders(client);
+        const sent = folders.find((f) => f.specialUse === '\\Sent');
+        if (!sent) return null;
+
+        const node = new MailComposer({
+          ...mail,
+          messageId: rfcMessageId,
+        }).compile();
+        node.keepBcc = true;
+
+        return client.append(sent.path, await node.build(), ['\\Seen']);
+      });
+
+      if (sentCopy && sentCopy.uid && sentCopy.uidValidity) {
+        return formatImapMessageId(
+          sentCopy.destination,
+          sentCopy.uidValidity,
+          sentCopy.uid,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to store sent copy for mailbox ${mailbox.id}: ${(error as Error).message}`,
+      );
+    }
+
+    return rfcMessageId;
+  }
+
+  /**
+   * Map label changes to IMAP: UNREAD and STARRED toggle \Seen and
+   * \Flagged; any other label is a folder, so adding one moves the message
+   * there and removing the current folder moves it to INBOX (or Archive
+   * when INBOX itself is removed). A moved message's email row is re-keyed
+   * to its ID in the new folder.
+   */
+  async modifyMessageLabels(
+    mailbox: Mailbox,
+    messageId: string,
+    options: {
+      addLabelIds?: string[];
+      removeLabelIds?: string[];
+    },
+  ): Promise<void> {
+    const addLabelIds = options.addLabelIds || [];
+    const removeLabelIds = options.removeLabelIds || [];
+
+    if (!addLabelIds.length && !removeLabelIds.length) {
+      return; // Nothing to do
+    }
+
+    const ref = parseImapMessageId(messageId);
+
+    await this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client);
+      const findFolder = (label: string) =>
+        folders.find((f) => folderToLabel(f) === label);
+      const lock = await this.lockMessageFolder(client, ref);
+      let moved: MovedMessage | null = null;
+
+      try {
+        const range = String(ref.uid);
+
+        if (addLabelIds.includes('UNREAD')) {
+          await client.messageFlagsRemove(range, ['\\Seen'], { uid: true });
+        }
+        if (removeLabelIds.includes('UNREAD')) {
+          await client.messageFlagsAdd(range, ['\\Seen'], { uid: true });
+        }
+        if (addLabelIds.includes('STARRED')) {
+          await client.messageFlagsAdd(range, ['\\Flagged'], { uid: true });
+        }
+        if (removeLabelIds.includes('STARRED')) {
+          await client.messageFlagsRemove(range, ['\\Flagged'], {
+            uid: true,
+          });
+        }
+
+        const currentFolder = folders.find((f) => f.path === ref.path);
+        const currentLabel = currentFolder
+          ? folderToLabel(currentFolder)
+          : ref.path;
+
+        let target = addLabelIds
+          .filter((label) => !FLAG_LABELS.includes(label))
+          .map((label) => {
+            const folder = findFolder(label);
+            if (!folder) {
+              this.logger.warn(
+                `Ignoring label ${label}: no matching folder in mailbox ${mailbox.id}`,
+              );
+            }
+            return folder;
+          })
+          .find(Boolean);
+
+        if (!target && removeLabelIds.includes(currentLabel)) {
+          target =
+            currentLabel === 'INBOX'
+              ? folders.find((f) => f.specialUse === '\\Archive')
+              : findFolder('INBOX');
+
+          if (!target) {
+            this.logger.warn(
+              `No folder to move message ${messageId} to after removing ${currentLabel}`,
+            );
+          }
+        }
+
+        if (target && target.path !== ref.path) {
+          moved = await this.moveMessage(client, ref, target.path);
+        }
+
+        this.logger.log(
+          `Modified labels for message ${messageId}: +[${addLabelIds.join(', ') || 'none'}] -[${removeLabelIds.join(', ') || 'none'}]`,
+        );
+      } finally {
+        lock.release();
+      }
+
+      if (moved) {
+        await this.rekeyMovedMessage(client, mailbox, messageId, moved);
+      }
+    });
+  }
+
+  /**
+   * Move a message to the Trash folder, or delete it when there is none
+   */
+  async trashMessage(mailbox: Mailbox, messageId: string): Promise<void> {
+    const ref = parseImapMessageId(messageId);
+
+    await this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client);
+      const trash = folders.find((f) => f.specialUse === '\\Trash');
+      const lock = await this.lockMessageFolder(client, ref);
+
+      try {
+        if (trash && trash.path !== ref.path) {
+          await client.messageMove(String(ref.uid), trash.path, { uid: true });
+        } else {
+          await client.messageDelete(String(ref.uid), { uid: true });
+        }
+
+        this.logger.log(`Moved message ${messageId} to trash`);
+      } finally {
+        lock.release();
+      }
+    });
+  }
+
+  /**
+   * Attachment IDs are indexes into the parsed message's attachment list
+   */
+  async getAttachment(
+    mailbox: Mailbox,
+    messageId: string,
+    attachmentId: string,
+  ): Promise<Buffer> {
+    const ref = parseImapMessageId(messageId);
+
+    const parsed = await this.withClient(mailbox, async (client) => {
+      const lock = await this.lockMessageFolder(client, ref, true);
+
+      try {
+        const message = await client.fetchOne(
+          String(ref.uid),
+          { source: true },
+          { uid: true },
+        );
+        return message && message.source ? simpleParser(message.source) : null;
+      } finally {
+        lock.release();
+      }
+    });
+
+    const attachment = parsed?.attachments[Number(attachmentId)];
+
+    if (!attachment) {
+      throw new Error('Attachment data not found');
+    }
+
+    return attachment.content;
+  }
+
+  async listLabels(mailbox: Mailbox): Promise<MailLabel[]> {
+    return this.withClient(mailbox, async (client) => {
+      const folders = await this.listSyncFolders(client, {
+        messages: true,
+        unseen: true,
+      });
+
+      const labels: MailLabel[] = folders.map((folder) => {
+        const id = folderToLabel(folder);
+        return {
+          id,
+          name: id === folder.path ? folder.name : id,
+          type: id === folder.path ? 'user' : 'system',
+          messagesTotal: folder.status?.messages,
+          messagesUnread: folder.status?.unseen,
+        };
+      });
+
+      labels.push({ id: 'STARRED', name: 'STARRED', type: 'system' });
+
+      return labels;
+    });
+  }
+
+  isUserLabel(labelId: string): boolean {
+    // Folders without a special use keep their path as label
+    return (
+      labelId !== 'INBOX' &&
+      !Object.values(SPECIAL_USE_LABELS).includes(labelId) &&
+      !FLAG_LABELS.includes(labelId)
+    );
+  }
+
+  private getConnectionSettings(mailbox: Mailbox): ImapConnectionSettings {
+    if (!mailbox.imapHost || !mailbox.smtpHost || !mailbox.encryptedPassword) {
+      throw new Error('Mailbox IMAP settings not configured');
+    }
+
+    return {
+      imapHost: mailbox.imapHost,
+      imapPort: mailbox.imapPort ?? 993,
+      imapSecure: mailbox.imapSecure ?? true,
+      smtpHost: mailbox.smtpHost,
+      smtpPort: mailbox.smtpPort ?? 465,
+      smtpSecure: mailbox.smtpSecure ?? true,
+      username: mailbox.imapUsername || mailbox.email,
+      password: this.encryptionUtil.decrypt(mailbox.encryptedPassword),
+    };
+  }
+
+  private getImapOptions(settings: ImapConnectionSettings) {
+    return {
+      host: settings.imapHost,
+      port: settings.imapPort,
+      secure: settings.imapSecure,
+      auth: { user: settings.username, pass: settings.password },
+      logger: false as const,
+    };
+  }
+
+  private createSmtpTransport(settings: ImapConnectionSettings) {
+    return createTransport({
+      host: settings.smtpHost,
+      port: settings.smtpPort,
+      secure: settings.smtpSecure,
+      auth: { user: settings.username, pass: settings.password },
+    });
+  }
+
+  private async withClient<T>(
+    mailbox: Mailbox,
+    task: (client: ImapFlow) => Promise<T>,
+  ): Promise<T> {
+    const client = new ImapFlow(
+      this.getImapOptions(this.getConnectionSettings(mailbox)),
+    );
+    await client.connect();
+
+    try {
+      return await task(client);
+    } finally {
+      await client.logout().catch(() => undefined);
+    }
+  }
+
+  private async listSyncFolders(
+    client: ImapFlow,
+    statusQuery?: { messages: boolean; unseen: boolean },
+  ): Promise<ListResponse[]> {
+    const folders = await client.list(statusQuery ? { statusQuery } : {});
+
+    return folders
+      .filter(
+        (folder) =>
+          !folder.flags.has('\\Noselect') &&
+          !folder.flags.has('\\NonExistent') &&
+          !(folder.specialUse && SKIPPED_SPECIAL_USE.has(folder.specialUse)),
+      )
+      .sort((a, b) => {
+        const aInbox = folderToLabel(a) === 'INBOX' ? 0 : 1;
+        const bInbox = folderToLabel(b) === 'INBOX' ? 0 : 1;
+        return aInbox - bInbox || a.path.localeCompare(b.path);
+      });
+  }
+
+  /**
+   * Select the message's folder, failing when its UIDVALIDITY has changed
+   * since the ID was issued
+   */
+  private async lockMessageFolder(
+    client: ImapFlow,
+    ref: ImapMessageRef,
+    readOnly = false,
+  ) {
+    const lock = await client.getMailboxLock(ref.path, { readOnly });
+    const { uidValidity } = client.mailbox as MailboxObject;
+
+    if (uidValidity.toString() !== ref.uidValidity) {
+      lock.release();
+      throw new Error(
+        `Message ${formatImapMessageId(ref.path, ref.uidValidity, ref.uid)} no longer exists`,
+      );
+    }
+
+    return lock;
+  }
+
+  /**
+   * Move a message out of its locked folder
+   */
+  private async moveMessage(
+    client: ImapFlow,
+    ref: ImapMessageRef,
+    path: string,
+  ): Promise<MovedMessage> {
+    const range = String(ref.uid);
+    const message = await client.fetchOne(
+      range,
+      { envelope: true },
+      { uid: true },
+    );
+    const result = await client.messageMove(range, path, { uid: true });
+    const uid = result ? result.uidMap?.get(ref.uid) : undefined;
+
+    return {
+      path,
+      id:
+        result && uid && result.uidValidity !== undefined
+          ? formatImapMessageId(path, result.uidValidity, uid)
+          : null,
+      headerId: (message && message.envelope?.messageId) || null,
+    };
+  }
+
+  /**
+   * Point the email row at the moved message's ID, which contains the
+   * folder, so the next sync keeps the row and what the user set on it
+   * instead of replacing it with a new one
+   */
+  private async rekeyMovedMessage(
+    client: ImapFlow,
+    mailbox: Mailbox,
+    messageId: string,
+    moved: MovedMessage,
+  ): Promise<void> {
+    let id = moved.id;
+
+    if (!id && moved.headerId) {
+      const lock = await client.getMailboxLock(moved.path, { readOnly: true });
+      try {
+        const uids = await this.searchUids(client, {
+          header: { 'message-id': moved.headerId },
+        });
+        const { uidValidity } = client.mailbox as MailboxObject;
+        // The copy just moved in has the highest UID
+        id = uids.length
+          ? formatImapMessageId(moved.path, uidValidity, Math.max(...uids))
+          : null;
+      } finally {
+        lock.release();
+      }
+    }
+
+    if (!id) {
+      this.logger.warn(
+        `Message ${messageId} not found in ${moved.path} after moving it; the next sync replaces its email`,
+      );
+      return;
+    }
+
+    await this.emailRepository.update(
+      { mailboxId: mailbox.id, gmailMessageId: messageId },
+      { gmailMessageId: id },
+    );
+  }
+
+  private async searchUids(
+    client: ImapFlow,
+    query: SearchObject,
+  ): Promise<number[]> {
+    return (await client.search(query, { uid: true })) || [];
+  }
+
+  private async parseMessage(
+    folder: ListResponse,
+    uidValidity: bigint,
+    message: FetchMessageObject,
+  ): Promise<ParsedEmail> {
+    if (!message.source) {
+      throw new Error('Message source not returned');
+    }
+
+    const parsed = await simpleParser(message.source);
+    const labels = flagsToLabels(message.flags, folderToLabel(folder));
+    const from = this.getAddresses(parsed.from)[0];
+    const id = formatImapMessageId(folder.path, uidValidity, message.uid);
+    const text = parsed.text || null;
+
+    return {
+      gmailMessageId: id,
+      gmailThreadId: this.getThreadKey(parsed) || id,
+      subject: parsed.subject || null,
+      snippet: text ? text.replace(/\s+/g, ' ').trim().slice(0, 200) : null,
+      fromEmail: from?.email || '',
+      fromName: from?.name || null,
+      toEmails: this.getAddresses(parsed.to).map((a) => a.email),
+      ccEmails: this.getAddresses(parsed.cc).map((a) => a.email),
+      bccEmails: this.getAddresses(parsed.bcc).map((a) => a.email),
+      replyToEmails: this.getAddresses(parsed.replyTo).map((a) => a.email),
+      internetMessageId: parsed.messageId
+        ? stripAngleBrackets(parsed.messageId)
+        : null,
+      referenceIds: this.getReferenceIds(parsed),
+      listId: parseListId(this.getHeaderLine(parsed, 'list-id')),
+      listUnsubscribe: this.getHeaderLine(parsed, 'list-unsubscribe'),
+      bodyHtml: parsed.html || null,
+      bodyText: text,
+      receivedAt: message.internalDate
+        ? new Date(message.internalDate)
+        : parsed.date || new Date(),
+      isRead: !labels.includes('UNREAD'),
+      isStarred: labels.includes('STARRED'),
+      labels,
+      attachments: parsed.attachments.map((attachment, index) => ({
+        gmailAttachmentId: String(index),
+        filename: attachment.filename || 'unnamed',
+        mimeType: attachment.contentType,
+        size: attachment.size,
+        contentId: attachment.contentId || null,
+        isInline: attachment.contentDisposition === 'inline',
+      })),
+    };
+  }
+
+  private getAddresses(
+    field: AddressObject | AddressObject[] | undefined,
+  ): Array<{ email: string; name: string | null }> {
+    const objects = Array.isArray(field) ? field : field ? [field] : [];
+
+    return objects
+      .flatMap((object) => object.value)
+      .filter((address) => !!address.address)
+      .map((address) => ({
+        email: address.address!,
+        name: address.name || null,
+      }));
+  }
+
+  /**
+   * Unfolded value of a raw header; mailparser merges List-* headers into
+   * one structured `list` header that loses the original text
+   */
+  private getHeaderLine(parsed: ParsedMail, key: string): string | null {
+    const header = parsed.headerLines.find((h) => h.key === key);
+    if (!header) return null;
+    return (
+      header.line
+        .slice(header.line.indexOf(':') + 1)
+        .replace(/\r?\n[ \t]+/g, ' ')
+        .trim() || null
+    );
+  }
+
+  /**
+   * Message-IDs of the References header, or In-Reply-To when it is missing
+   */
+  private getReferenceIds(parsed: ParsedMail): string[] {
+    const references = Array.isArray(parsed.references)
+      ? parsed.references
+      : parsed.references?.split(/\s+/) || [];
+    const ids = references.length
+      ? references
+      : parsed.inReplyTo?.split(/\s+/) || [];
+
+    return ids.filter(Boolean).map(stripAngleBrackets);
+  }
+
+  /**
+   * IMAP has no thread IDs; use the first Message-ID of the conversation
+   */
+  private getThreadKey(parsed: ParsedMail): string | undefined {
+    const references = Array.isArray(parsed.references)
+      ? parsed.references
+      : parsed.references?.split(/\s+/);
+
+    return references?.[0] || parsed.inReplyTo || parsed.messageId;
+  }
+
+  private parseCursor(cursor: string): ImapCursor {
+    try {
+      const parsed = JSON.parse(cursor) as Partial<ImapCursor>;
+      if (parsed && typeof parsed.folders === 'object') {
+        return { folders: parsed.folders ?? {} };
+      }
+    } catch {
+      // Fall through
+    }
+
+    throw new SyncCursorExpiredError(`Invalid IMAP sync cursor`);
+  }
+
+  private groupByFolder(messageIds: string[]) {
+    const byFolder = new Map<string, ImapMessageRef[]>();
+
+    for (const messageId of messageIds) {
+      const ref = parseImapMessageId(messageId);
+      const refs = byFolder.get(ref.path) ?? [];
+      refs.push(ref);
+      byFolder.set(ref.path, refs);
+    }
+
+    return byFolder;
+  }
+
+  /**
+   * Stored message IDs of the mailbox grouped by folder
+   */
+  private async loadStoredMessages(
+    mailboxId: number,
+  ): Promise<Map<string, Array<ImapMessageRef & { id: string }>>> {
+    const emails = await this.emailRepository.find({
+      select: { gmailMessageId: true },
+      where: { mailboxId },
+    });
+
+    const byFolder = new Map<string, Array<ImapMessageRef & { id: string }>>();
+
+    for (const email of emails) {
+      const ref = parseImapMessageId(email.gmailMessageId);
+      const refs = byFolder.get(ref.path) ?? [];
+      refs.push({ ...ref, id: email.gmailMessageId });
+      byFolder.set(ref.path, refs);
+    }
+
+    return byFolder;
+  }
+
+  /**
+   * Turn current flag labels into added/removed deltas against the stored
+   * labels, so the caller can apply them like Gmail history label changes
+   */
+  private async diffFlagLabels(
+    mailboxId: number,
+    flagUpdates: Map<string, string[]>,
+  ): Promise<MailboxChanges['labelsModified']> {
+    if (flagUpdates.size === 0) {
+      return [];
+    }
+
+    const messageIds = [...flagUpdates.keys()];
+    const emails: Email[] = [];
+
+    for (let i = 0; i < messageIds.length; i += 1000) {
+      emails.push(
+        ...(await this.emailRepository.find({
+          select: { gmailMessageId: true, labels: true },
+          where: {
+            mailboxId,
+            gmailMessageId: In(messageIds.slice(i, i + 1000)),
+          },
+        })),
+      );
+    }
+
+    return emails
+      .map((email) => {
+        const storedLabels = email.labels || [];
+        const labels = flagUpdates.get(email.gmailMessageId)!;
+
+        return {
+          messageId: email.gmailMessageId,
+          labelsAdded: FLAG_LABELS.filter(
+            (label) => labels.includes(label) && !storedLabels.includes(label),
+          ),
+          labelsRemoved: FLAG_LABELS.filter(
+            (label) => !labels.includes(label) && storedLabels.includes(label),
+          ),
+        };
+      })
+      .filter(
+        (change) =>
+          change.labelsAdded.length > 0 || change.labelsRemoved.length > 0,
+      );
+  }
+}
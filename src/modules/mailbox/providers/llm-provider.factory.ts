@@ -0,0 +1,45 @@
+import { ConfigService } from '@nestjs/config';
+import { GeminiLlmProvider } from './gemini-llm.provider';
+import { LlmProvider, LlmProviderName } from './llm-provider.interface';
+import { OpenAiLlmOptions, OpenAiLlmProvider } from './openai-llm.provider';
+import { StubLlmProvider } from './stub-llm.provider';
+
+/**
+ * Build the LlmProvider selected by llm.provider
+ * Only the selected provider's settings are required
+ */
+export function createLlmProvider(configService: ConfigService): LlmProvider {
+  const provider = configService.get<string>('llm.provider');
+
+  switch (provider) {
+    case LlmProviderName.GEMINI: {
+      const apiKey = configService.get<string>('gemini.apiKey');
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY is not configured');
+      }
+
+      return new GeminiLlmProvider({
+        apiKey,
+        model: configService.get<string>('gemini.model') || 'gemini-1.5-flash',
+        embeddingModel:
+          configService.get<string>('gemini.embeddingModel') ||
+          'text-embedding-004',
+      });
+    }
+
+    case LlmProviderName.OPENAI: {
+      const options = configService.get<OpenAiLlmOptions>('llm.openai');
+      if (!options) {
+        throw new Error('llm.openai is not configured');
+      }
+
+      return new OpenAiLlmProvider(options);
+    }
+
+    case LlmProviderName.STUB:
+      return new StubLlmProvider();
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${provider}`);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Injection token for the LlmProvider selected by llm.provider
+ */
+export const LLM_PROVIDER = Symbol('LLM_PROVIDER');
+
+// Size of the stub provider's embeddings, same as text-embedding-004
+export const EMBEDDING_DIMENSIONS = 768;
+
+export enum LlmProviderName {
+  GEMINI = 'gemini',
+  OPENAI = 'openai',
+  STUB = 'stub',
+}
+
+/**
+ * What a prompt asks for; real models only need the prompt, the offline
+ * stub answers from the task and the input
+ */
+export enum LlmTask {
+  SUMMARY = 'summary',
+  THREAD_SUMMARY = 'thread-summary',
+  REPLY_SUGGESTIONS = 'reply-suggestions',
+  ACTION_ITEMS = 'action-items',
+  URGENCY = 'urgency',
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  // Full prompt: instructions and input
+  prompt: string;
+  // The email or conversation the prompt is about
+  input: string;
+}
+
+/**
+ * Text generation and embeddings from one model vendor
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  // Model that produced the embeddings, stored alongside them; changing it
+  // re-embeds all mail
+  readonly embeddingModel: string;
+
+  /**
+   * Raw model output for a prompt; parsing is up to the caller
+   */
+  generate(request: LlmRequest): Promise<string>;
+
+  /**
+   * Embedding vector; every vector of a model has the same size
+   */
+  embed(text: string): Promise<number[]>;
+}
@@ -0,0 +1,253 @@
+import type { File as MulterFile } from 'multer';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+
+export interface ParsedEmail {
+  gmailMessageId: string;
+  gmailThreadId: string;
+  subject: string | null;
+  snippet: string | null;
+  fromEmail: string;
+  fromName: string | null;
+  toEmails: string[];
+  ccEmails: string[];
+  bccEmails: string[];
+  // Reply-To addresses; empty when replies go to the sender
+  replyToEmails: string[];
+  // RFC 5322 Message-ID, without angle brackets
+  internetMessageId: string | null;
+  // Message-IDs this message replies to, oldest first (References, or
+  // In-Reply-To when References is missing)
+  referenceIds: string[];
+  // Mailing list identifier from List-Id, without angle brackets
+  listId: string | null;
+  // Raw List-Unsubscribe header (mailto: and/or https: URLs)
+  listUnsubscribe: string | null;
+  bodyHtml: string | null;
+  bodyText: string | null;
+  receivedAt: Date;
+  isRead: boolean;
+  isStarred: boolean;
+  labels: string[];
+  attachments: ParsedAttachment[];
+}
+
+export interface ParsedAttachment {
+  gmailAttachmentId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId: string | null;
+  isInline: boolean;
+}
+
+export interface ListMessagesOptions {
+  maxResults?: number;
+  pageToken?: string;
+  // Only messages received on or after this date
+  after?: Date;
+}
+
+export interface MessagePage {
+  messages: Array<{ id: string; threadId: string }>;
+  nextPageToken?: string;
+  resultSizeEstimate: number;
+}
+
+export interface MailboxChanges {
+  // Cursor to pass to the next getChanges call
+  historyId: string;
+  messagesAdded: string[];
+  messagesDeleted: string[];
+  labelsModified: Array<{
+    messageId: string;
+    labelsAdded: string[];
+    labelsRemoved: string[];
+  }>;
+}
+
+export interface OutgoingEmail {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  bodyHtml?: string;
+  // Message-ID being replied to, without angle brackets
+  inReplyTo?: string;
+  // Full References chain ending with inReplyTo; defaults to inReplyTo
+  references?: string[];
+  threadId?: string;
+}
+
+// The parts of an uploaded file that providers send; multer's File has
+// them all
+export interface OutgoingFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface MailDraft {
+  id: string;
+  // Current message of the draft; its ID changes on every update
+  message: ParsedEmail;
+  // Message-ID the draft replies to, without angle brackets
+  inReplyTo: string | null;
+}
+
+export interface DraftPage {
+  drafts: MailDraft[];
+  nextPageToken?: string;
+}
+
+export interface MailLabel {
+  id: string;
+  name: string;
+  type: 'system' | 'user';
+  messagesTotal?: number;
+  messagesUnread?: number;
+  backgroundColor?: string;
+  textColor?: string;
+}
+
+/**
+ * Identifier of a List-Id header such as `Weekly News <news.example.com>`
+ */
+export function parseListId(header: string | null | undefined): string | null {
+  if (!header) return null;
+  const match = header.match(/<([^<>]+)>/);
+  return (match ? match[1] : header).trim() || null;
+}
+
+/**
+ * Thrown by getChanges when the stored cursor can no longer be used
+ * (e.g. Gmail history expired); the caller falls back to a full sync
+ */
+export class SyncCursorExpiredError extends Error {
+  constructor(message = 'Sync cursor expired') {
+    super(message);
+    this.name = 'SyncCursorExpiredError';
+  }
+}
+
+/**
+ * Thrown by draft operations when the draft no longer exists on the server
+ */
+export class DraftNotFoundError extends Error {
+  constructor(draftId: string) {
+    super(`Draft ${draftId} not found`);
+    this.name = 'DraftNotFoundError';
+  }
+}
+
+/**
+ * Operations every mailbox backend has to support
+ * Message, thread, label and attachment IDs are opaque provider strings
+ * stored in the gmail* columns; labels use Gmail's system label names
+ * (INBOX, UNREAD, STARRED, ...) so categorisation and Kanban mapping
+ * work the same for every provider
+ */
+export interface MailProviderClient {
+  readonly provider: MailboxProvider;
+
+  /**
+   * Address of the account and a cursor for the current mailbox state
+   */
+  getProfile(mailbox: Mailbox): Promise<{
+    emailAddress: string;
+    historyId: string;
+  }>;
+
+  /**
+   * List message IDs, newest first within the provider's ordering
+   */
+  listMessages(
+    mailbox: Mailbox,
+    options?: ListMessagesOptions,
+  ): Promise<MessagePage>;
+
+  /**
+   * Fetch and parse messages; IDs that no longer exist are skipped
+   */
+  getMessages(mailbox: Mailbox, messageIds: string[]): Promise<ParsedEmail[]>;
+
+  /**
+   * Changes since the cursor returned by getProfile or a previous call
+   * @throws SyncCursorExpiredError when a full sync is required
+   */
+  getChanges(mailbox: Mailbox, cursor: string): Promise<MailboxChanges>;
+
+  /**
+   * Send a message and return its provider message ID
+   */
+  sendEmail(
+    mailbox: Mailbox,
+    email: OutgoingEmail,
+    files?: MulterFile[],
+  ): Promise<string>;
+
+  modifyMessageLabels(
+    mailbox: Mailbox,
+    messageId: string,
+    options: { addLabelIds?: string[]; removeLabelIds?: string[] },
+  ): Promise<void>;
+
+  trashMessage(mailbox: Mailbox, messageId: string): Promise<void>;
+
+  getAttachment(
+    mailbox: Mailbox,
+    messageId: string,
+    attachmentId: string,
+  ): Promise<Buffer>;
+
+  listLabels(mailbox: Mailbox): Promise<MailLabel[]>;
+
+  /**
+   * Whether a label ID is one the user created, listed with type 'user'
+   * by listLabels, rather than a system label
+   */
+  isUserLabel(labelId: string): boolean;
+
+  /**
+   * Refresh OAuth credentials and store them on the mailbox and its row;
+   * providers without expiring credentials leave this undefined
+   */
+  refreshTokens?(
+    mailbox: Mailbox,
+  ): Promise<{ accessToken: string; expiresAt: Date }>;
+
+  /**
+   * Drafts stored on the mail server; providers without server-side
+   * drafts leave these undefined
+   * Create and update accept incomplete messages (no recipients, empty
+   * subject or body) and replace the whole draft content
+   * @throws DraftNotFoundError when the draft ID is unknown
+   */
+  listDrafts?(
+    mailbox: Mailbox,
+    options?: { maxResults?: number; pageToken?: string },
+  ): Promise<DraftPage>;
+
+  getDraft?(mailbox: Mailbox, draftId: string): Promise<MailDraft>;
+
+  createDraft?(
+    mailbox: Mailbox,
+    email: OutgoingEmail,
+    files?: MulterFile[],
+  ): Promise<MailDraft>;
+
+  updateDraft?(
+    mailbox: Mailbox,
+    draftId: string,
+    email: OutgoingEmail,
+    files?: MulterFile[],
+  ): Promise<MailDraft>;
+
+  deleteDraft?(mailbox: Mailbox, draftId: string): Promise<void>;
+
+  /**
+   * Send a draft and return the provider message ID of the sent message
+   */
+  sendDraft?(mailbox: Mailbox, draftId: string): Promise<string>;
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+import { GmailService } from './gmail.service';
+import { ImapService } from './imap.service';
+import { MailProviderClient } from './mail-provider.interface';
+import { OutlookService } from './outlook.service';
+
+/**
+ * Resolves the client implementation for a mailbox's provider
+ */
+@Injectable()
+export class MailProviderRegistry {
+  private readonly clients: Map<MailboxProvider, MailProviderClient>;
+
+  constructor(
+    gmailService: GmailService,
+    imapService: ImapService,
+    outlookService: OutlookService,
+  ) {
+    this.clients = new Map<MailboxProvider, MailProviderClient>(
+      [gmailService, imapService, outlookService].map((client) => [
+        client.provider,
+        client,
+      ]),
+    );
+  }
+
+  get(mailbox: Pick<Mailbox, 'provider'>): MailProviderClient {
+    const client = this.clients.get(mailbox.provider);
+
+    if (!client) {
+      throw new Error(`Unsupported mailbox provider: ${mailbox.provider}`);
+    }
+
+    return client;
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  ColumnConfig,
+  Email,
+  EmailCategory,
+  Mailbox,
+  MailRule,
+  TaskStatus,
+} from '../entities';
+import {
+  MailRuleEngineService,
+  matchesConditions,
+} from './mail-rule-engine.service';
+
+describe('MailRuleEngineService', () => {
+  const email = (overrides: Partial<Email> = {}): Email =>
+    ({
+      id: 7,
+      mailboxId: 1,
+      gmailMessageId: 'msg-7',
+      fromEmail: 'billing@vendor.com',
+      fromName: 'Vendor Billing',
+      toEmails: ['me@example.com'],
+      ccEmails: ['finance@example.com'],
+      bccEmails: null,
+      subject: 'Invoice #1001',
+      snippet: 'Your invoice is ready',
+      bodyText: 'Please pay within 14 days',
+      labels: ['INBOX', 'UNREAD'],
+      category: EmailCategory.UPDATES,
+      hasAttachments: true,
+      aiUrgencyScore: null,
+      columnId: null,
+      receivedAt: new Date('2024-01-02T08:00:00.000Z'),
+      ...overrides,
+    }) as Email;
+
+  describe('matchesConditions', () => {
+    it('matches text case-insensitively', () => {
+      expect(matchesConditions(email(), { from: 'VENDOR' })).toBe(true);
+      expect(matchesConditions(email(), { to: 'finance@' })).toBe(true);
+      expect(matchesConditions(email(), { text: 'pay within' })).toBe(true);
+      expect(matchesConditions(email(), { subject: 'receipt' })).toBe(false);
+    });
+
+    it('requires every condition to match', () => {
+      expect(
+        matchesConditions(email(), {
+          from: 'vendor.com',
+          category: EmailCategory.UPDATES,
+          hasAttachment: true,
+          label: 'INBOX',
+        }),
+      ).toBe(true);
+      expect(
+        matchesConditions(email(), { from: 'vendor.com', label: 'STARRED' }),
+      ).toBe(false);
+    });
+
+    it('never matches an urgency condition without a score', () => {
+      expect(matchesConditions(email(), { minUrgency: 0 })).toBe(false);
+      expect(
+        matchesConditions(email({ aiUrgencyScore: 8 }), { minUrgency: 7 }),
+      ).toBe(true);
+    });
+  });
+
+  describe('applyToNewEmail', () => {
+    const mailbox = { id: 1, userId: 3 } as Mailbox;
+    const finance = { id: 4, userId: 3, gmailLabelId: 'Label_9' };
+    const mailRuleRepository = { find: jest.fn() };
+    const emailRepository = { update: jest.fn() };
+    const columnConfigRepository = {
+      find: jest.fn().mockResolvedValue([finance as ColumnConfig]),
+    };
+    const client = { modifyMessageLabels: jest.fn() };
+    const aiService = {
+      calculateUrgencyScore: jest.fn(),
+      prepareEmailContentForEmbedding: jest.fn().mockReturnValue('content'),
+    };
+
+    const rule = (overrides: Partial<MailRule>): MailRule =>
+      ({ id: 1, conditions: {}, actions: {}, ...overrides }) as MailRule;
+
+    let engine: MailRuleEngineService;
+
+    beforeEach(() => {
+      engine = new MailRuleEngineService(
+        mailRuleRepository as never,
+        emailRepository as never,
+        columnConfigRepository as never,
+        { get: () => client } as never,
+        aiService as never,
+      );
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('carries out the actions of matching rules', async () => {
+      mailRuleRepository.find.mockResolvedValue([
+        rule({
+          conditions: { subject: 'invoice' },
+          actions: {
+            moveToColumnId: 4,
+            taskStatus: TaskStatus.TODO,
+            taskDeadlineDays: 3,
+            markRead: true,
+            archive: true,
+          },
+        }),
+        rule({ id: 2, conditions: { from: 'someone-else' }, actions: {} }),
+      ]);
+      const target = email();
+
+      await expect(engine.applyToNewEmail(mailbox, target)).resolves.toBe(1);
+
+      expect(client.modifyMessageLabels).toHaveBeenCalledWith(
+        mailbox,
+        'msg-7',
+        { addLabelIds: ['Label_9'], removeLabelIds: ['UNREAD', 'INBOX'] },
+      );
+      expect(emailRepository.update).toHaveBeenCalledWith(7, {
+        columnId: 4,
+        taskStatus: TaskStatus.TODO,
+        taskDeadline: new Date('2024-01-05T08:00:00.000Z'),
+        labels: ['Label_9'],
+        isRead: true,
+        isStarred: false,
+      });
+      expect(target.isRead).toBe(true);
+      expect(aiService.calculateUrgencyScore).not.toHaveBeenCalled();
+    });
+
+    it('scores urgency only when a rule needs it', async () => {
+      mailRuleRepository.find.mockResolvedValue([
+        rule({ conditions: { minUrgency: 7 }, actions: { pin: true } }),
+      ]);
+      aiService.calculateUrgencyScore.mockResolvedValue(9);
+
+      await engine.applyToNewEmail(mailbox, email());
+
+      expect(emailRepository.update).toHaveBeenCalledWith(7, {
+        aiUrgencyScore: 9,
+      });
+      expect(emailRepository.update).toHaveBeenCalledWith(7, {
+        isPinned: true,
+      });
+      expect(client.modifyMessageLabels).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import {
+  ColumnConfig,
+  Email,
+  Mailbox,
+  MailRule,
+  MailRuleActions,
+  MailRuleConditions,
+} from '../entities';
+import { AiService } from './ai.service';
+import { MailProviderRegistry } from './mail-provider.registry';
+
+const includesText = (value: string | null | undefined, needle: string) =>
+  !!value && value.toLowerCase().includes(needle.toLowerCase());
+
+/**
+ * Whether an email satisfies every condition of a rule
+ * An urgency condition never matches an email without a score
+ */
+export function matchesConditions(
+  email: Email,
+  conditions: MailRuleConditions,
+): boolean {
+  if (
+    conditions.from &&
+    !includesText(email.fromEmail, conditions.from) &&
+    !includesText(email.fromName, conditions.from)
+  ) {
+    return false;
+  }
+
+  const to = conditions.to;
+  if (to) {
+    const recipients = [
+      ...(email.toEmails || []),
+      ...(email.ccEmails || []),
+      ...(email.bccEmails || []),
+    ];
+    if (!recipients.some((address) => includesText(address, to))) {
+      return false;
+    }
+  }
+
+  if (conditions.subject && !includesText(email.subject, conditions.subject)) {
+    return false;
+  }
+
+  if (
+    conditions.text &&
+    !includesText(email.subject, conditions.text) &&
+    !includesText(email.bodyText, conditions.text) &&
+    !includesText(email.snippet, conditions.text)
+  ) {
+    return false;
+  }
+
+  if (conditions.label && !(email.labels || []).includes(conditions.label)) {
+    return false;
+  }
+
+  if (conditions.category && email.category !== conditions.category) {
+    return false;
+  }
+
+  if (
+    typeof conditions.hasAttachment === 'boolean' &&
+    email.hasAttachments !== conditions.hasAttachment
+  ) {
+    return false;
+  }
+
+  if (
+    typeof conditions.minUrgency === 'number' &&
+    (email.aiUrgencyScore === null ||
+      email.aiUrgencyScore < conditions.minUrgency)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Runs the user's mail rules against emails and carries out their actions
+ * locally and, for label changes, on the provider
+ */
+@Injectable()
+export class MailRuleEngineService {
+  private readonly logger = new Logger(MailRuleEngineService.name);
+
+  constructor(
+    @InjectRepository(MailRule)
+    private readonly mailRuleRepository: Repository<MailRule>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(ColumnConfig)
+    private readonly columnConfigRepository: Repository<ColumnConfig>,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly aiService: AiService,
+  ) {}
+
+  /**
+   * Apply every enabled rule of the mailbox owner to a newly synced email
+   * Rules run in priority order, each seeing the changes of the ones before
+   * @returns number of rules that matched
+   */
+  async applyToNewEmail(mailbox: Mailbox, email: Email): Promise<number> {
+    const rules = await this.mailRuleRepository.find({
+      where: [
+        { userId: mailbox.userId, isEnabled: true, mailboxId: IsNull() },
+        { userId: mailbox.userId, isEnabled: true, mailboxId: mailbox.id },
+      ],
+      order: { priority: 'ASC', id: 'ASC' },
+    });
+
+    if (rules.length === 0) {
+      return 0;
+    }
+
+    // Scoring calls the LLM, so only do it when a rule asks for it
+    if (
+      email.aiUrgencyScore === null &&
+      rules.some((rule) => typeof rule.conditions.minUrgency === 'number')
+    ) {
+      email.aiUrgencyScore = await this.aiService.calculateUrgencyScore(
+        this.aiService.prepareEmailContentForEmbedding(email),
+      );
+      await this.emailRepository.update(email.id, {
+        aiUrgencyScore: email.aiUrgencyScore,
+      });
+    }
+
+    const columns = await this.columnConfigRepository.find({
+      where: { userId: mailbox.userId },
+    });
+
+    let matched = 0;
+
+    for (const rule of rules) {
+      if (!matchesConditions(email, rule.conditions)) {
+        continue;
+      }
+
+      await this.executeActions(mailbox, email, rule.actions, columns);
+      matched++;
+
+      this.logger.debug(
+        `Rule ${rule.id} matched email ${email.id} of mailbox ${mailbox.id}`,
+      );
+    }
+
+    return matched;
+  }
+
+  /**
+   * Carry out a rule's actions on one email; the email object is updated
+   * in place so later rules see the result
+   * @param columns the user's Kanban columns
+   */
+  async executeActions(
+    mailbox: Mailbox,
+    email: Email,
+    actions: MailRuleActions,
+    columns: ColumnConfig[],
+  ): Promise<void> {
+    const addLabelIds: string[] = [];
+    const removeLabelIds: string[] = [];
+    const changes: Partial<
+      Pick<
+        Email,
+        | 'columnId'
+        | 'taskStatus'
+        | 'taskDeadline'
+        | 'isPinned'
+        | 'isSnoozed'
+        | 'snoozedUntil'
+        | 'labels'
+        | 'isRead'
+        | 'isStarred'
+      >
+    > = {};
+
+    if (actions.addLabel) {
+      addLabelIds.push(actions.addLabel);
+    }
+
+    if (actions.moveToColumnId && actions.moveToColumnId !== email.columnId) {
+      const column = columns.find((c) => c.id === actions.moveToColumnId);
+      const sourceColumn = columns.find((c) => c.id === email.columnId);
+
+      // The column may have been deleted since the rule was saved
+      if (column) {
+        changes.columnId = column.id;
+
+        if (column.gmailLabelId) {
+          addLabelIds.push(column.gmailLabelId);
+        }
+        if (
+          sourceColumn?.gmailLabelId &&
+          sourceColumn.gmailLabelId !== column.gmailLabelId
+        ) {
+          removeLabelIds.push(sourceColumn.gmailLabelId);
+        }
+      } else {
+        this.logger.warn(
+          `Column ${actions.moveToColumnId} no longer exists, not moving email ${email.id}`,
+        );
+      }
+    }
+
+    if (actions.markRead) {
+      removeLabelIds.push('UNREAD');
+    }
+
+    if (actions.archive) {
+      removeLabelIds.push('INBOX');
+    }
+
+    if (actions.taskStatus) {
+      changes.taskStatus = actions.taskStatus;
+    }
+
+    if (typeof actions.taskDeadlineDays === 'number') {
+      changes.taskDeadline = new Date(
+        email.receivedAt.getTime() +
+          actions.taskDeadlineDays * 24 * 60 * 60 * 1000,
+      );
+    }
+
+    if (typeof actions.pin === 'boolean') {
+      changes.isPinned = actions.pin;
+    }
+
+    if (actions.snoozeHours) {
+      changes.isSnoozed = true;
+      changes.snoozedUntil = new Date(
+        Date.now() + actions.snoozeHours * 60 * 60 * 1000,
+      );
+    }
+
+    const currentLabels = email.labels || [];
+    const toAdd = addLabelIds.filter(
+      (label) =>
+        !currentLabels.includes(label) && !removeLabelIds.includes(label),
+    );
+    const toRemove = removeLabelIds.filter((label) =>
+      currentLabels.includes(label),
+    );
+
+    if (toAdd.length > 0 || toRemove.length > 0) {
+      await this.mailProviders
+        .get(mailbox)
+        .modifyMessageLabels(mailbox, email.gmailMessageId, {
+          addLabelIds: toAdd,
+          removeLabelIds: toRemove,
+        });
+
+      const labels = [
+        ...currentLabels.filter((label) => !toRemove.includes(label)),
+        ...toAdd,
+      ];
+
+      changes.labels = labels.length > 0 ? labels : null;
+      changes.isRead = !labels.includes('UNREAD');
+      changes.isStarred = labels.includes('STARRED');
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+
+    await this.emailRepository.update(email.id, changes);
+    Object.assign(email, changes);
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+} from './llm-provider.interface';
+
+// Local models on a CPU can take a while to answer
+const REQUEST_TIMEOUT_MS = 120 * 1000;
+
+export interface OpenAiLlmOptions {
+  // Up to and including the version, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  // Local servers usually need none
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string | null } }>;
+}
+
+interface EmbeddingResponse {
+  data: Array<{ embedding: number[] }>;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions and embeddings API:
+ * OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio, ...
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = LlmProviderName.OPENAI;
+  readonly embeddingModel: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAiLlmOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.embeddingModel = options.embeddingModel;
+  }
+
+  async generate(request: LlmRequest): Promise<string> {
+    const response = await this.post<ChatCompletionResponse>(
+      '/chat/completions',
+      {
+        model: this.options.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: 0.2,
+      },
+    );
+
+    const content = response.choices[0]?.message.content;
+    if (content == null) {
+      throw new Error('Chat completion returned no content');
+    }
+
+    return content;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.post<EmbeddingResponse>('/embeddings', {
+      model: this.embeddingModel,
+      input: text,
+    });
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error('Embedding request returned no embedding');
+    }
+
+    return embedding;
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `${path} returned ${response.status}: ${detail.substring(0, 500)}`,
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,175 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  Mailbox,
+  MailboxProvider,
+  OutboxMessage,
+  OutboxStatus,
+} from '../entities';
+import { DraftNotFoundError } from './mail-provider.interface';
+import { OutboxSenderService } from './outbox-sender.service';
+
+describe('OutboxSenderService', () => {
+  const mailbox = {
+    id: 2,
+    provider: MailboxProvider.IMAP,
+  } as Mailbox;
+
+  const outboxRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+  const outboxAttachmentRepository = { find: jest.fn() };
+  const mailboxRepository = { findOne: jest.fn(), update: jest.fn() };
+  const client = {
+    sendEmail: jest.fn(),
+    sendDraft: jest.fn(),
+    refreshTokens: undefined as jest.Mock | undefined,
+  };
+
+  let service: OutboxSenderService;
+
+  const queued = (overrides: Partial<OutboxMessage> = {}): OutboxMessage =>
+    ({
+      id: 9,
+      mailboxId: mailbox.id,
+      status: OutboxStatus.PENDING,
+      toEmails: ['alice@example.com'],
+      ccEmails: null,
+      bccEmails: null,
+      subject: 'Hello',
+      bodyText: 'Body',
+      bodyHtml: null,
+      inReplyTo: null,
+      threadId: null,
+      draftId: null,
+      attempts: 0,
+      ...overrides,
+    }) as OutboxMessage;
+
+  beforeEach(() => {
+    service = new OutboxSenderService(
+      outboxRepository as never,
+      outboxAttachmentRepository as never,
+      mailboxRepository as never,
+      { get: () => client } as never,
+      new ConfigService({ outbox: { maxAttempts: 3 } }),
+    );
+
+    outboxRepository.update.mockResolvedValue({ affected: 1 });
+    outboxAttachmentRepository.find.mockResolvedValue([]);
+    mailboxRepository.findOne.mockResolvedValue(mailbox);
+  });
+
+  afterEach(() => {
+    client.refreshTokens = undefined;
+    jest.clearAllMocks();
+  });
+
+  it('sends a claimed message with its attachments and records the message ID', async () => {
+    outboxAttachmentRepository.find.mockResolvedValue([
+      {
+        id: 1,
+        filename: 'notes.txt',
+        mimeType: 'text/plain',
+        size: '5',
+        content: Buffer.from('hello'),
+      },
+    ]);
+    client.sendEmail.mockResolvedValue('sent-1');
+
+    await service.deliver(queued());
+
+    expect(outboxRepository.update).toHaveBeenNthCalledWith(
+      1,
+      { id: 9, status: OutboxStatus.PENDING },
+      { status: OutboxStatus.SENDING, attempts: 1 },
+    );
+    expect(client.sendEmail).toHaveBeenCalledWith(
+      mailbox,
+      expect.objectContaining({ to: ['alice@example.com'], subject: 'Hello' }),
+      [
+        {
+          originalname: 'notes.txt',
+          mimetype: 'text/plain',
+          size: 5,
+          buffer: Buffer.from('hello'),
+        },
+      ],
+    );
+    expect(outboxRepository.update).toHaveBeenLastCalledWith(
+      9,
+      expect.objectContaining({
+        status: OutboxStatus.SENT,
+        sentMessageId: 'sent-1',
+      }),
+    );
+  });
+
+  it('refreshes an expiring OAuth token through the mailbox client', async () => {
+    const outlook = {
+      ...mailbox,
+      provider: MailboxProvider.OUTLOOK,
+      tokenExpiresAt: new Date(Date.now() + 60_000),
+    } as Mailbox;
+    mailboxRepository.findOne.mockResolvedValue(outlook);
+    client.refreshTokens = jest.fn();
+    client.sendEmail.mockResolvedValue('sent-1');
+
+    await service.deliver(queued());
+
+    expect(client.refreshTokens).toHaveBeenCalledWith(outlook);
+    expect(client.sendEmail).toHaveBeenCalledWith(
+      outlook,
+      expect.anything(),
+      [],
+    );
+  });
+
+  it('skips messages cancelled before they were claimed', async () => {
+    outboxRepository.update.mockResolvedValue({ affected: 0 });
+
+    await service.deliver(queued());
+
+    expect(client.sendEmail).not.toHaveBeenCalled();
+    expect(outboxRepository.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('puts failed messages back in the queue with a delay', async () => {
+    client.sendEmail.mockRejectedValue(new Error('Connection reset'));
+    const before = Date.now();
+
+    await service.deliver(queued());
+
+    const [, changes] = outboxRepository.update.mock.lastCall as [
+      number,
+      { status: OutboxStatus; error: string; sendAt: Date },
+    ];
+    expect(changes.status).toBe(OutboxStatus.PENDING);
+    expect(changes.error).toBe('Connection reset');
+    expect(changes.sendAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+  });
+
+  it('fails the message after the last attempt', async () => {
+    client.sendEmail.mockRejectedValue(new Error('Connection reset'));
+
+    await service.deliver(queued({ attempts: 2 }));
+
+    expect(outboxRepository.update).toHaveBeenLastCalledWith(9, {
+      status: OutboxStatus.FAILED,
+      error: 'Connection reset',
+    });
+  });
+
+  it('does not retry drafts that no longer exist', async () => {
+    client.sendDraft.mockRejectedValue(new DraftNotFoundError('draft-1'));
+
+    await service.deliver(queued({ draftId: 'draft-1' }));
+
+    expect(client.sendDraft).toHaveBeenCalledWith(mailbox, 'draft-1');
+    expect(outboxRepository.update).toHaveBeenLastCalledWith(9, {
+      status: OutboxStatus.FAILED,
+      error: 'Draft draft-1 not found',
+    });
+  });
+});
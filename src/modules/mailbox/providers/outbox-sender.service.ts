@@ -0,0 +1,268 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  Mailbox,
+  OutboxAttachment,
+  OutboxMessage,
+  OutboxStatus,
+} from '../entities';
+import {
+  DraftNotFoundError,
+  MailProviderClient,
+  OutgoingFile,
+} from './mail-provider.interface';
+import { MailProviderRegistry } from './mail-provider.registry';
+
+/**
+ * Error that retrying cannot fix; the message is failed right away
+ */
+class PermanentSendError extends Error {}
+
+// A message still SENDING after this long belongs to a process that died
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class OutboxSenderService implements OnModuleDestroy {
+  private readonly logger = new Logger(OutboxSenderService.name);
+  private isProcessing = false;
+  private isShuttingDown = false;
+
+  constructor(
+    @InjectRepository(OutboxMessage)
+    private readonly outboxRepository: Repository<OutboxMessage>,
+    @InjectRepository(OutboxAttachment)
+    private readonly outboxAttachmentRepository: Repository<OutboxAttachment>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleDestroy() {
+    this.isShuttingDown = true;
+  }
+
+  @Cron(CronExpression.EVERY_5_SECONDS, { name: 'send-outbox' })
+  async handleDueMessages(): Promise<void> {
+    // Only guards against overlapping ticks; each message is claimed
+    // with a conditional update so several instances can run this
+    if (this.isProcessing || this.isShuttingDown) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      await this.failInterrupted();
+
+      const due = await this.outboxRepository.find({
+        where: {
+          status: OutboxStatus.PENDING,
+          sendAt: LessThanOrEqual(new Date()),
+        },
+        order: { sendAt: 'ASC' },
+        take: 20,
+      });
+
+      for (const message of due) {
+        if (this.isShuttingDown) break;
+        await this.deliver(message);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Send one queued message; failures are retried with a growing delay
+   * until outbox.maxAttempts is reached
+   */
+  async deliver(message: OutboxMessage): Promise<void> {
+    const attempts = message.attempts + 1;
+
+    const claimed = await this.outboxRepository.update(
+      { id: message.id, status: OutboxStatus.PENDING },
+      { status: OutboxStatus.SENDING, attempts },
+    );
+
+    if (!claimed.affected) {
+      // Cancelled, rescheduled or picked up by another instance
+      return;
+    }
+
+    try {
+      const sentMessageId = await this.send(message);
+
+      await this.outboxRepository.update(message.id, {
+        status: OutboxStatus.SENT,
+        sentMessageId,
+        sentAt: new Date(),
+        error: null,
+      });
+
+      this.logger.log(
+        `Sent outbox message ${message.id} from mailbox ${message.mailboxId} - Message ID: ${sentMessageId}`,
+      );
+    } catch (error) {
+      await this.recordFailure(message, attempts, error as Error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'prune-outbox' })
+  async pruneFinishedMessages(): Promise<void> {
+    const retentionDays =
+      this.configService.get<number>('outbox.retentionDays') || 30;
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await this.outboxRepository.delete({
+      status: In([
+        OutboxStatus.SENT,
+        OutboxStatus.FAILED,
+        OutboxStatus.CANCELLED,
+      ]),
+      updatedAt: LessThan(cutoff),
+    });
+
+    if (result.affected) {
+      this.logger.log(`Pruned ${result.affected} outbox messages`);
+    }
+  }
+
+  private async send(message: OutboxMessage): Promise<string> {
+    const mailbox = await this.mailboxRepository.findOne({
+      where: { id: message.mailboxId, deletedAt: IsNull() },
+    });
+
+    if (!mailbox) {
+      throw new PermanentSendError('Mailbox was disconnected');
+    }
+
+    const client = this.mailProviders.get(mailbox);
+
+    await this.ensureFreshToken(mailbox, client);
+
+    if (message.draftId) {
+      if (!client.sendDraft) {
+        throw new PermanentSendError(
+          `Drafts are not supported for ${mailbox.provider} mailboxes`,
+        );
+      }
+
+      return client.sendDraft(mailbox, message.draftId);
+    }
+
+    return client.sendEmail(
+      mailbox,
+      {
+        to: message.toEmails,
+        cc: message.ccEmails || undefined,
+        bcc: message.bccEmails || undefined,
+        subject: message.subject,
+        body: message.bodyText,
+        bodyHtml: message.bodyHtml || undefined,
+        inReplyTo: message.inReplyTo || undefined,
+        references: message.referenceIds || undefined,
+        threadId: message.threadId || undefined,
+      },
+      await this.loadFiles(message.id),
+    );
+  }
+
+  private async loadFiles(outboxMessageId: number): Promise<OutgoingFile[]> {
+    const attachments = await this.outboxAttachmentRepository.find({
+      where: { outboxMessageId },
+      select: ['id', 'filename', 'mimeType', 'size', 'content'],
+      order: { id: 'ASC' },
+    });
+
+    return attachments.map((attachment) => ({
+      originalname: attachment.filename,
+      mimetype: attachment.mimeType,
+      size: Number(attachment.size),
+      buffer: attachment.content,
+    }));
+  }
+
+  /**
+   * Refresh OAuth access tokens that expire within 5 minutes
+   */
+  private async ensureFreshToken(
+    mailbox: Mailbox,
+    client: MailProviderClient,
+  ): Promise<void> {
+    const expiresAt = mailbox.tokenExpiresAt;
+    const needsRefresh =
+      !expiresAt || expiresAt.getTime() - Date.now() < 5 * 60 * 1000;
+
+    if (!client.refreshTokens || !needsRefresh) {
+      return;
+    }
+
+    this.logger.log(`Refreshing expired token for mailbox ${mailbox.id}`);
+    await client.refreshTokens(mailbox);
+  }
+
+  private async recordFailure(
+    message: OutboxMessage,
+    attempts: number,
+    error: Error,
+  ): Promise<void> {
+    const maxAttempts =
+      this.configService.get<number>('outbox.maxAttempts') || 3;
+    const permanent =
+      error instanceof PermanentSendError ||
+      error instanceof DraftNotFoundError;
+
+    if (permanent || attempts >= maxAttempts) {
+      await this.outboxRepository.update(message.id, {
+        status: OutboxStatus.FAILED,
+        error: error.message,
+      });
+
+      this.logger.error(
+        `Outbox message ${message.id} failed after ${attempts} attempts: ${error.message}`,
+      );
+      return;
+    }
+
+    // 1 minute after the first failure, 2 after the second, ...
+    const sendAt = new Date(Date.now() + attempts * 60 * 1000);
+
+    await this.outboxRepository.update(message.id, {
+      status: OutboxStatus.PENDING,
+      error: error.message,
+      sendAt,
+    });
+
+    this.logger.warn(
+      `Outbox message ${message.id} attempt ${attempts} failed, retrying at ${sendAt.toISOString()}: ${error.message}`,
+    );
+  }
+
+  /**
+   * Fail messages left SENDING by a process that died mid-send
+   * They are not retried: the provider may already have sent them
+   */
+  private async failInterrupted(): Promise<void> {
+    const result = await this.outboxRepository.update(
+      {
+        status: OutboxStatus.SENDING,
+        updatedAt: LessThan(new Date(Date.now() - SENDING_TIMEOUT_MS)),
+      },
+      {
+        status: OutboxStatus.FAILED,
+        error:
+          'Interrupted while sending; check the Sent folder before retrying',
+      },
+    );
+
+    if (result.affected) {
+      this.logger.warn(
+        `Failed ${result.affected} outbox messages interrupted while sending`,
+      );
+    }
+  }
+}
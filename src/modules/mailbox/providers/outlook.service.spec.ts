@@ -0,0 +1,296 @@
+import { ConfigService } from '@nestjs/config';
+import { FindOperator } from 'typeorm';
+import { EncryptionUtil } from '../../../common/utils/encryption.util';
+import { Email } from '../entities/email.entity';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+import { FakeGraphServer } from '../testing/fake-graph-server';
+import { SyncCursorExpiredError } from './mail-provider.interface';
+import { outlookMessageLabels, OutlookService } from './outlook.service';
+
+describe('outlookMessageLabels', () => {
+  it('derives labels from folder, flags, importance and categories', () => {
+    expect(
+      outlookMessageLabels(
+        {
+          isRead: false,
+          flag: { flagStatus: 'flagged' },
+          importance: 'high',
+          categories: ['Clients'],
+        },
+        'INBOX',
+      ),
+    ).toEqual(['INBOX', 'UNREAD', 'STARRED', 'IMPORTANT', 'category:Clients']);
+  });
+
+  it('gives archived mail no folder label', () => {
+    expect(
+      outlookMessageLabels(
+        { isRead: true, flag: { flagStatus: 'notFlagged' } },
+        null,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('OutlookService against a Graph stub', () => {
+  const encryptionKey = 'a'.repeat(64);
+  const encryptionUtil = new EncryptionUtil(encryptionKey);
+  const server = new FakeGraphServer();
+
+  let stored: Array<Pick<Email, 'gmailMessageId' | 'labels'>> = [];
+  const emailRepository = {
+    find: jest.fn(
+      ({ where }: { where: { gmailMessageId?: FindOperator<string[]> } }) =>
+        Promise.resolve(
+          stored.filter(
+            (email) =>
+              !where.gmailMessageId ||
+              where.gmailMessageId.value.includes(email.gmailMessageId),
+          ),
+        ),
+    ),
+  };
+  const mailboxRepository = { update: jest.fn() };
+
+  let service: OutlookService;
+  let mailbox: Mailbox;
+  let clientsFolderId: string;
+
+  beforeAll(async () => {
+    await server.start();
+
+    service = new OutlookService(
+      mailboxRepository as never,
+      emailRepository as never,
+      new ConfigService({
+        encryption: { key: encryptionKey },
+        microsoftOAuth: {
+          clientId: 'client-id',
+          clientSecret: 'client-secret',
+          redirectUri: 'http://localhost/callback',
+          tenant: 'common',
+          graphBaseUrl: server.graphBaseUrl,
+          loginBaseUrl: server.loginBaseUrl,
+        },
+      }),
+    );
+
+    clientsFolderId = server.addFolder('Clients', 'folder-inbox');
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    stored = [];
+    jest.clearAllMocks();
+  });
+
+  it('exchanges the OAuth code and reads the account address', async () => {
+    const tokens = await service.exchangeCode('auth-code', 'verifier');
+
+    expect(tokens.accessToken).toMatch(/^access-/);
+    expect(tokens.refreshToken).toMatch(/^refresh-/);
+    await expect(service.getAccountEmail(tokens.accessToken)).resolves.toBe(
+      server.account,
+    );
+
+    mailbox = {
+      id: 1,
+      email: server.account,
+      provider: MailboxProvider.OUTLOOK,
+      encryptedAccessToken: encryptionUtil.encrypt(tokens.accessToken),
+      encryptedRefreshToken: encryptionUtil.encrypt(tokens.refreshToken),
+      tokenExpiresAt: tokens.expiresAt,
+    } as Mailbox;
+  });
+
+  it('refuses to request tokens without the Microsoft app registration', async () => {
+    const unconfigured = new OutlookService(
+      mailboxRepository as never,
+      emailRepository as never,
+      new ConfigService({
+        encryption: { key: encryptionKey },
+        microsoftOAuth: { loginBaseUrl: server.loginBaseUrl },
+      }),
+    );
+
+    expect(unconfigured.isConfigured).toBe(false);
+    await expect(
+      unconfigured.exchangeCode('auth-code', 'verifier'),
+    ).rejects.toThrow('MICROSOFT_CLIENT_ID and MICROSOFT_CLIENT_SECRET');
+  });
+
+  it('refreshes and persists rotated tokens when the access token expires', async () => {
+    mailbox.tokenExpiresAt = new Date(Date.now() - 1000);
+    const previousRefreshToken = mailbox.encryptedRefreshToken;
+
+    await service.listLabels(mailbox);
+
+    expect(mailboxRepository.update).toHaveBeenCalledWith(
+      mailbox.id,
+      expect.objectContaining({ tokenExpiresAt: mailbox.tokenExpiresAt }),
+    );
+    expect(mailbox.encryptedRefreshToken).not.toBe(previousRefreshToken);
+    expect(mailbox.tokenExpiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('lists folders, categories and property labels', async () => {
+    const labels = await service.listLabels(mailbox);
+    const ids = labels.map((label) => label.id);
+
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        'INBOX',
+        'SENT',
+        'DRAFT',
+        'TRASH',
+        'SPAM',
+        `folder:${clientsFolderId}`,
+        'category:Clients',
+        'STARRED',
+      ]),
+    );
+    expect(labels.find((l) => l.id === `folder:${clientsFolderId}`)).toEqual(
+      expect.objectContaining({ name: 'inbox/Clients', type: 'user' }),
+    );
+    // Outbox is skipped and Archive has no label of its own
+    expect(labels.some((l) => l.name === 'outbox')).toBe(false);
+    expect(labels.some((l) => l.name === 'archive')).toBe(false);
+  });
+
+  it('lists and parses messages, then reports changes through delta links', async () => {
+    const first = server.deliver({ subject: 'First message' });
+    const second = server.deliver(
+      { subject: 'Second message', categories: ['Clients'] },
+      clientsFolderId,
+    );
+    const third = server.deliver({ subject: 'Third message' });
+
+    const { historyId } = await service.getProfile(mailbox);
+    const { messages, resultSizeEstimate } = await service.listMessages(
+      mailbox,
+      { maxResults: 2 },
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(resultSizeEstimate).toBe(3);
+
+    const parsed = await service.getMessages(mailbox, [
+      first.id,
+      second.id,
+      third.id,
+      'missing-id',
+    ]);
+
+    expect(parsed.map((email) => email.subject)).toEqual([
+      'First message',
+      'Second message',
+      'Third message',
+    ]);
+    expect(parsed[0]).toEqual(
+      expect.objectContaining({
+        gmailThreadId: first.conversationId,
+        fromEmail: 'sender@contoso.com',
+        bodyHtml: '<p>First message</p>',
+        labels: ['INBOX', 'UNREAD'],
+        isRead: false,
+      }),
+    );
+    expect(parsed[1].labels).toEqual([
+      `folder:${clientsFolderId}`,
+      'UNREAD',
+      'category:Clients',
+    ]);
+
+    stored = parsed.map((email) => ({
+      gmailMessageId: email.gmailMessageId,
+      labels: email.labels,
+    }));
+
+    await service.modifyMessageLabels(mailbox, first.id, {
+      addLabelIds: ['STARRED', 'category:Red category'],
+      removeLabelIds: ['UNREAD'],
+    });
+    await service.modifyMessageLabels(mailbox, second.id, {
+      addLabelIds: ['INBOX'],
+    });
+    await service.modifyMessageLabels(mailbox, third.id, {
+      removeLabelIds: ['INBOX'],
+    });
+    server.delete(first.id);
+    server.deliver({ subject: 'Fourth message' });
+
+    expect(server.messages.get(third.id)?.folderId).toBe('folder-archive');
+
+    const changes = await service.getChanges(mailbox, historyId);
+    const added = await service.getMessages(mailbox, changes.messagesAdded);
+
+    expect(added.map((email) => email.subject)).toEqual(['Fourth message']);
+    expect(changes.messagesDeleted).toEqual([first.id]);
+    expect(changes.labelsModified).toEqual(
+      expect.arrayContaining([
+        {
+          messageId: second.id,
+          labelsAdded: ['INBOX'],
+          labelsRemoved: [`folder:${clientsFolderId}`],
+        },
+        {
+          messageId: third.id,
+          labelsAdded: [],
+          labelsRemoved: ['INBOX'],
+        },
+      ]),
+    );
+    expect(changes.labelsModified).toHaveLength(2);
+
+    // Nothing changed since the returned cursor
+    const again = await service.getChanges(mailbox, changes.historyId);
+    expect(again.messagesAdded).toEqual([]);
+    expect(again.messagesDeleted).toEqual([]);
+    expect(again.labelsModified).toEqual([]);
+  });
+
+  it('throws SyncCursorExpiredError when a delta token is gone', async () => {
+    const { historyId } = await service.getProfile(mailbox);
+    server.expireDeltaTokens();
+
+    await expect(service.getChanges(mailbox, historyId)).rejects.toThrow(
+      SyncCursorExpiredError,
+    );
+  });
+
+  it('sends replies with attachments and returns the sent message ID', async () => {
+    const original = server.deliver({ subject: 'Question' });
+
+    const messageId = await service.sendEmail(
+      mailbox,
+      {
+        to: ['sender@contoso.com'],
+        subject: 'RE: Question',
+        body: 'Answer',
+        inReplyTo: original.internetMessageId,
+      },
+      [
+        {
+          originalname: 'notes.txt',
+          mimetype: 'text/plain',
+          buffer: Buffer.from('hello'),
+        } as never,
+      ],
+    );
+
+    const sent = server.messages.get(messageId);
+    expect(sent?.folderId).toBe('folder-sentitems');
+    expect(sent?.conversationId).toBe(original.conversationId);
+
+    const [parsed] = await service.getMessages(mailbox, [messageId]);
+    const content = await service.getAttachment(
+      mailbox,
+      messageId,
+      parsed.attachments[0].gmailAttachmentId,
+    );
+    expect(content.toString()).toBe('hello');
+  });
+});
@@ -0,0 +1,953 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { EncryptionUtil } from '../../../common/utils/encryption.util';
+import { Email } from '../entities/email.entity';
+import { Mailbox, MailboxProvider } from '../entities/mailbox.entity';
+import { GraphApiError, GraphClient, GraphPage } from './graph-client';
+import {
+  ListMessagesOptions,
+  MailboxChanges,
+  MailLabel,
+  MailProviderClient,
+  MessagePage,
+  OutgoingEmail,
+  OutgoingFile,
+  ParsedEmail,
+  parseListId,
+  SyncCursorExpiredError,
+} from './mail-provider.interface';
+
+export interface OutlookTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+interface GraphRecipient {
+  emailAddress?: { name?: string; address?: string };
+}
+
+interface GraphMessage {
+  id: string;
+  conversationId?: string;
+  parentFolderId?: string;
+  subject?: string | null;
+  bodyPreview?: string | null;
+  body?: { contentType?: string; content?: string };
+  from?: GraphRecipient;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  bccRecipients?: GraphRecipient[];
+  replyTo?: GraphRecipient[];
+  receivedDateTime?: string;
+  isRead?: boolean;
+  flag?: { flagStatus?: string };
+  importance?: string;
+  categories?: string[];
+  internetMessageId?: string;
+  internetMessageHeaders?: Array<{ name: string; value: string }>;
+  attachments?: GraphAttachment[];
+  '@removed'?: { reason: string };
+}
+
+interface GraphAttachment {
+  id: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+  isInline?: boolean;
+  contentId?: string | null;
+}
+
+interface GraphFolder {
+  id: string;
+  displayName: string;
+  parentFolderId?: string;
+  childFolderCount?: number;
+  totalItemCount?: number;
+  unreadItemCount?: number;
+}
+
+interface OutlookFolder extends GraphFolder {
+  // Gmail-style label for messages in this folder, null for Archive
+  label: string | null;
+  path: string;
+}
+
+/**
+ * Sync cursor stored in Mailbox.historyId for Outlook mailboxes: the Graph
+ * delta link of every synced folder
+ */
+interface OutlookCursor {
+  folders: Record<string, string>;
+}
+
+const OAUTH_SCOPES = [
+  'offline_access',
+  'User.Read',
+  'Mail.ReadWrite',
+  'Mail.Send',
+  'MailboxSettings.Read',
+].join(' ');
+
+// Well-known folders that map onto Gmail system labels
+const WELL_KNOWN_LABELS: Record<string, string | null> = {
+  inbox: 'INBOX',
+  sentitems: 'SENT',
+  drafts: 'DRAFT',
+  deleteditems: 'TRASH',
+  junkemail: 'SPAM',
+  // Archived mail has no label, like Gmail mail without INBOX
+  archive: null,
+};
+
+// Well-known folders whose content is not user mail
+const SKIPPED_FOLDERS = ['outbox', 'conversationhistory', 'syncissues'];
+
+// Labels backed by message properties rather than folders or categories
+const PROPERTY_LABELS = ['UNREAD', 'STARRED', 'IMPORTANT'];
+
+const FOLDER_LABEL_PREFIX = 'folder:';
+const CATEGORY_LABEL_PREFIX = 'category:';
+
+const MESSAGE_FIELDS = [
+  'id',
+  'conversationId',
+  'parentFolderId',
+  'subject',
+  'bodyPreview',
+  'body',
+  'from',
+  'toRecipients',
+  'ccRecipients',
+  'bccRecipients',
+  'replyTo',
+  'internetMessageId',
+  // Only returned when fetching a single message
+  'internetMessageHeaders',
+  'receivedDateTime',
+  'isRead',
+  'flag',
+  'importance',
+  'categories',
+].join(',');
+
+const DELTA_FIELDS = 'id,parentFolderId,isRead,flag,importance,categories';
+
+const FETCH_CONCURRENCY = 10;
+
+/**
+ * Labels derived from an Outlook message: its folder, read/flag/importance
+ * state and its categories
+ */
+export function outlookMessageLabels(
+  message: Pick<GraphMessage, 'isRead' | 'flag' | 'importance' | 'categories'>,
+  folderLabel: string | null,
+): string[] {
+  const labels = folderLabel ? [folderLabel] : [];
+  if (message.isRead === false) labels.push('UNREAD');
+  if (message.flag?.flagStatus === 'flagged') labels.push('STARRED');
+  if (message.importance === 'high') labels.push('IMPORTANT');
+  for (const category of message.categories || []) {
+    labels.push(`${CATEGORY_LABEL_PREFIX}${category}`);
+  }
+  return labels;
+}
+
+@Injectable()
+export class OutlookService implements MailProviderClient {
+  readonly provider = MailboxProvider.OUTLOOK;
+  private readonly logger = new Logger(OutlookService.name);
+  private readonly encryptionUtil: EncryptionUtil;
+
+  constructor(
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    private readonly configService: ConfigService,
+  ) {
+    const encryptionKey = this.configService.get<string>('encryption.key');
+    if (!encryptionKey) {
+      throw new Error('ENCRYPTION_KEY is not configured');
+    }
+    this.encryptionUtil = new EncryptionUtil(encryptionKey);
+  }
+
+  /**
+   * Whether the Microsoft app registration is configured, without which no
+   * Outlook mailbox can connect or refresh its tokens
+   */
+  get isConfigured(): boolean {
+    return Boolean(
+      this.configService.get<string>('microsoftOAuth.clientId') &&
+        this.configService.get<string>('microsoftOAuth.clientSecret'),
+    );
+  }
+
+  /**
+   * Redeem an authorization code from the Microsoft identity platform
+   */
+  async exchangeCode(
+    code: string,
+    codeVerifier: string,
+  ): Promise<OutlookTokens> {
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: this.configService.get<string>(
+        'microsoftOAuth.redirectUri',
+      )!,
+    });
+
+    if (!tokens.refreshToken) {
+      throw new Error('Failed to obtain Outlook tokens');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Address of the signed-in account
+   */
+  async getAccountEmail(accessToken: string): Promise<string> {
+    const me = await this.createClient(accessToken).get<{
+      mail?: string | null;
+      userPrincipalName?: string;
+    }>('/me?$select=mail,userPrincipalName');
+
+    const email = me.mail || me.userPrincipalName;
+    if (!email) {
+      throw new Error('Failed to get Outlook email address');
+    }
+
+    return email;
+  }
+
+  /**
+   * Refresh the access token; Microsoft rotates refresh tokens, so both
+   * are persisted here
+   */
+  async refreshTokens(
+    mailbox: Mailbox,
+  ): Promise<{ accessToken: string; expiresAt: Date }> {
+    if (!mailbox.encryptedRefreshToken) {
+      throw new Error('Mailbox tokens not configured');
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: this.encryptionUtil.decrypt(mailbox.encryptedRefreshToken),
+    });
+
+    mailbox.encryptedAccessToken = this.encryptionUtil.encrypt(
+      tokens.accessToken,
+    );
+    if (tokens.refreshToken) {
+      mailbox.encryptedRefreshToken = this.encryptionUtil.encrypt(
+        tokens.refreshToken,
+      );
+    }
+    mailbox.tokenExpiresAt = tokens.expiresAt;
+
+    await this.mailboxRepository.update(mailbox.id, {
+      encryptedAccessToken: mailbox.encryptedAccessToken,
+      encryptedRefreshToken: mailbox.encryptedRefreshToken,
+      tokenExpiresAt: mailbox.tokenExpiresAt,
+    });
+
+    this.logger.log(`Refreshed tokens for mailbox ${mailbox.id}`);
+
+    return { accessToken: tokens.accessToken, expiresAt: tokens.expiresAt };
+  }
+
+  /**
+   * Account address plus a cursor holding a delta link for every folder;
+   * each folder's delta is walked once to reach its current state
+   */
+  async getProfile(
+    mailbox: Mailbox,
+  ): Promise<{ emailAddress: string; historyId: string }> {
+    const client = await this.getClient(mailbox);
+    const folders = await this.listFolders(client);
+    const cursor: OutlookCursor = { folders: {} };
+
+    for (const folder of folders) {
+      const { deltaLink } = await this.walkDelta(
+        client,
+        this.initialDeltaPath(folder.id, DELTA_FIELDS),
+      );
+      cursor.folders[folder.id] = deltaLink;
+    }
+
+    return {
+      emailAddress: mailbox.email,
+      historyId: JSON.stringify(cursor),
+    };
+  }
+
+  /**
+   * Messages across all folders, newest first; the page token is the
+   * Graph nextLink
+   */
+  async listMessages(
+    mailbox: Mailbox,
+    options: ListMessagesOptions = {},
+  ): Promise<MessagePage> {
+    const client = await this.getClient(mailbox);
+
+    const params = new URLSearchParams({
+      $select: 'id,conversationId',
+      $orderby: 'receivedDateTime desc',
+      $top: String(options.maxResults || 100),
+      $count: 'true',
+    });
+    if (options.after) {
+      params.set(
+        '$filter',
+        `receivedDateTime ge ${options.after.toISOString()}`,
+      );
+    }
+
+    const page = await client.get<GraphPage<GraphMessage>>(
+      options.pageToken || `/me/messages?${params.toString()}`,
+    );
+
+    return {
+      messages: page.value.map((m) => ({
+        id: m.id,
+        threadId: m.conversationId || m.id,
+      })),
+      nextPageToken: page['@odata.nextLink'],
+      resultSizeEstimate: page['@odata.count'] ?? page.value.length,
+    };
+  }
+
+  async getMessages(
+    mailbox: Mailbox,
+    messageIds: string[],
+  ): Promise<ParsedEmail[]> {
+    const client = await this.getClient(mailbox);
+    const folders = await this.listFolders(client);
+    const results: ParsedEmail[] = [];
+
+    for (let i = 0; i < messageIds.length; i += FETCH_CONCURRENCY) {
+      const batch = await Promise.all(
+        messageIds.slice(i, i + FETCH_CONCURRENCY).map((id) =>
+          client
+            .get<GraphMessage>(
+              `/me/messages/${encodeURIComponent(id)}?$select=${MESSAGE_FIELDS}` +
+                `&$expand=attachments($select=id,name,contentType,size,isInline)`,
+            )
+            .catch((error: unknown) => {
+              if (error instanceof GraphApiError && error.status === 404) {
+                return null;
+              }
+              throw error;
+            }),
+        ),
+      );
+
+      for (const message of batch) {
+        if (message) {
+          results.push(this.parseMessage(message, folders));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Walk every folder's delta link; a message removed from one folder and
+   * present in another was moved, otherwise it was deleted. Messages we
+   * already store get label deltas, unknown ones are reported as added
+   */
+  async getChanges(mailbox: Mailbox, cursor: string): Promise<MailboxChanges> {
+    const client = await this.getClient(mailbox);
+    const state = this.parseCursor(cursor);
+    const folders = await this.listFolders(client);
+    const nextCursor: OutlookCursor = { folders: {} };
+
+    const updated = new Map<string, GraphMessage>();
+    const removed = new Set<string>();
+
+    for (const folder of folders) {
+      const { items, deltaLink } = await this.walkDelta(
+        client,
+        state.folders[folder.id] ||
+          this.initialDeltaPath(folder.id, DELTA_FIELDS),
+      ).catch((error: unknown) => {
+        if (
+          error instanceof GraphApiError &&
+          (error.status === 410 ||
+            error.code === 'SyncStateNotFound' ||
+            error.code === 'SyncStateInvalid')
+        ) {
+          throw new SyncCursorExpiredError(
+            `Delta token for folder ${folder.displayName} expired`,
+          );
+        }
+        throw error;
+      });
+
+      nextCursor.folders[folder.id] = deltaLink;
+
+      for (const item of items) {
+        if (item['@removed']) {
+          removed.add(item.id);
+        } else {
+          updated.set(item.id, { ...item, parentFolderId: folder.id });
+        }
+      }
+    }
+
+    const changes: MailboxChanges = {
+      historyId: JSON.stringify(nextCursor),
+      messagesAdded: [],
+      messagesDeleted: [...removed].filter((id) => !updated.has(id)),
+      labelsModified: [],
+    };
+
+    const stored = await this.loadStoredLabels(mailbox.id, [...updated.keys()]);
+
+    for (const [id, item] of updated) {
+      const storedLabels = stored.get(id);
+      if (!storedLabels) {
+        changes.messagesAdded.push(id);
+        continue;
+      }
+
+      const folder = folders.find((f) => f.id === item.parentFolderId);
+      const labels = outlookMessageLabels(item, folder?.label ?? null);
+      const labelsAdded = labels.filter((l) => !storedLabels.includes(l));
+      const labelsRemoved = storedLabels.filter((l) => !labels.includes(l));
+
+      if (labelsAdded.length > 0 || labelsRemoved.length > 0) {
+        changes.labelsModified.push({
+          messageId: id,
+          labelsAdded,
+          labelsRemoved,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Send through a draft so the returned ID is a real message; replies are
+   * created with createReply so Outlook threads them
+   */
+  async sendEmail(
+    mailbox: Mailbox,
+    email: OutgoingEmail,
+    files?: OutgoingFile[],
+  ): Promise<string> {
+    const client = await this.getClient(mailbox);
+    const toRecipients = (addresses: string[] = []) =>
+      addresses.map((address) => ({ emailAddress: { address } }));
+
+    const content = {
+      subject: email.subject,
+      body: email.bodyHtml
+        ? { contentType: 'HTML', content: email.bodyHtml }
+        : { contentType: 'Text', content: email.body },
+      toRecipients: toRecipients(email.to),
+      ccRecipients: toRecipients(email.cc),
+      bccRecipients: toRecipients(email.bcc),
+    };
+
+    // Graph stores Message-IDs with their angle brackets
+    const original = email.inReplyTo
+      ? await this.findByInternetMessageId(
+          client,
+          `<${email.inReplyTo.replace(/^<|>$/g, '')}>`,
+        )
+      : null;
+
+    let draft: GraphMessage;
+    if (original) {
+      draft = await client.post<GraphMessage>(
+        `/me/messages/${encodeURIComponent(original.id)}/createReply`,
+      );
+      draft = await client.patch<GraphMessage>(
+        `/me/messages/${encodeURIComponent(draft.id)}`,
+        content,
+      );
+    } else {
+      draft = await client.post<GraphMessage>('/me/messages', content);
+    }
+
+    for (const file of files || []) {
+      await client.post(
+        `/me/messages/${encodeURIComponent(draft.id)}/attachments`,
+        {
+          '@odata.type': '#microsoft.graph.fileAttachment',
+          name: file.originalname,
+          contentType: file.mimetype,
+          contentBytes: file.buffer.toString('base64'),
+        },
+      );
+    }
+
+    const { internetMessageId } = await client.get<GraphMessage>(
+      `/me/messages/${encodeURIComponent(draft.id)}?$select=internetMessageId`,
+    );
+
+    await client.post(`/me/messages/${encodeURIComponent(draft.id)}/send`);
+
+    this.logger.log(`Email sent from mailbox ${mailbox.id}`);
+
+    // Drafts get a new ID once sent; look up the copy in Sent Items
+    const sent = internetMessageId
+      ? await this.findByInternetMessageId(client, internetMessageId)
+      : null;
+
+    return sent?.id || internetMessageId || draft.id;
+  }
+
+  /**
+   * Map label changes to Graph: UNREAD, STARRED and IMPORTANT set isRead,
+   * flag and importance; category labels edit the categories list; any
+   * other label is a folder, so adding one moves the message there and
+   * removing the current folder moves it to Inbox (or Archive when INBOX
+   * itself is removed)
+   */
+  async modifyMessageLabels(
+    mailbox: Mailbox,
+    messageId: string,
+    options: {
+      addLabelIds?: string[];
+      removeLabelIds?: string[];
+    },
+  ): Promise<void> {
+    const addLabelIds = options.addLabelIds || [];
+    const removeLabelIds = options.removeLabelIds || [];
+
+    if (!addLabelIds.length && !removeLabelIds.length) {
+      return; // Nothing to do
+    }
+
+    const client = await this.getClient(mailbox);
+    const path = `/me/messages/${encodeURIComponent(messageId)}`;
+    const message = await client.get<GraphMessage>(
+      `${path}?$select=parentFolderId,categories`,
+    );
+
+    const update: Record<string, unknown> = {};
+    if (addLabelIds.includes('UNREAD')) update.isRead = false;
+    if (removeLabelIds.includes('UNREAD')) update.isRead = true;
+    if (addLabelIds.includes('STARRED')) {
+      update.flag = { flagStatus: 'flagged' };
+    }
+    if (removeLabelIds.includes('STARRED')) {
+      update.flag = { flagStatus: 'notFlagged' };
+    }
+    if (addLabelIds.includes('IMPORTANT')) update.importance = 'high';
+    if (removeLabelIds.includes('IMPORTANT')) update.importance = 'normal';
+
+    const categoryName = (label: string) =>
+      label.startsWith(CATEGORY_LABEL_PREFIX)
+        ? label.slice(CATEGORY_LABEL_PREFIX.length)
+        : null;
+    const addCategories = addLabelIds.map(categoryName).filter(Boolean);
+    const removeCategories = removeLabelIds.map(categoryName).filter(Boolean);
+
+    if (addCategories.length || removeCategories.length) {
+      const categories = new Set(message.categories || []);
+      addCategories.forEach((c) => categories.add(c!));
+      removeCategories.forEach((c) => categories.delete(c!));
+      update.categories = [...categories];
+    }
+
+    if (Object.keys(update).length > 0) {
+      await client.patch(path, update);
+    }
+
+    const isFolderLabel = (label: string) =>
+      !PROPERTY_LABELS.includes(label) && !categoryName(label);
+    const folders = await this.listFolders(client);
+    const currentFolder = folders.find((f) => f.id === message.parentFolderId);
+
+    let target = addLabelIds
+      .filter(isFolderLabel)
+      .map((label) => {
+        const folder = folders.find((f) => f.label === label);
+        if (!folder) {
+          this.logger.warn(
+            `Ignoring label ${label}: no matching folder in mailbox ${mailbox.id}`,
+          );
+        }
+        return folder;
+      })
+      .find(Boolean);
+
+    if (
+      !target &&
+      currentFolder?.label &&
+      removeLabelIds.includes(currentFolder.label)
+    ) {
+      target = folders.find((f) =>
+        currentFolder.label === 'INBOX'
+          ? f.label === null
+          : f.label === 'INBOX',
+      );
+
+      if (!target) {
+        this.logger.warn(
+          `No folder to move message ${messageId} to after removing ${currentFolder.label}`,
+        );
+      }
+    }
+
+    if (target && target.id !== message.parentFolderId) {
+      await client.post(`${path}/move`, { destinationId: target.id });
+    }
+
+    this.logger.log(
+      `Modified labels for message ${messageId}: +[${addLabelIds.join(', ') || 'none'}] -[${removeLabelIds.join(', ') || 'none'}]`,
+    );
+  }
+
+  async trashMessage(mailbox: Mailbox, messageId: string): Promise<void> {
+    const client = await this.getClient(mailbox);
+
+    await client.post(`/me/messages/${encodeURIComponent(messageId)}/move`, {
+      destinationId: 'deleteditems',
+    });
+
+    this.logger.log(`Message ${messageId} moved to trash`);
+  }
+
+  async getAttachment(
+    mailbox: Mailbox,
+    messageId: string,
+    attachmentId: string,
+  ): Promise<Buffer> {
+    const client = await this.getClient(mailbox);
+
+    return client.getBuffer(
+      `/me/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachmentId)}/$value`,
+    );
+  }
+
+  /**
+   * Folders and categories as labels, plus the property-backed labels
+   */
+  async listLabels(mailbox: Mailbox): Promise<MailLabel[]> {
+    const client = await this.getClient(mailbox);
+    const folders = await this.listFolders(client);
+    const categories = await client.getAll<{ displayName: string }>(
+      '/me/outlook/masterCategories',
+    );
+
+    const labels: MailLabel[] = folders
+      .filter((folder) => folder.label !== null)
+      .map((folder) => ({
+        id: folder.label!,
+        name: folder.label!.startsWith(FOLDER_LABEL_PREFIX)
+          ? folder.path
+          : folder.label!,
+        type: folder.label!.startsWith(FOLDER_LABEL_PREFIX)
+          ? ('user' as const)
+          : ('system' as const),
+        messagesTotal: folder.totalItemCount,
+        messagesUnread: folder.unreadItemCount,
+      }));
+
+    for (const category of categories) {
+      labels.push({
+        id: `${CATEGORY_LABEL_PREFIX}${category.displayName}`,
+        name: category.displayName,
+        type: 'user',
+      });
+    }
+
+    for (const label of PROPERTY_LABELS) {
+      labels.push({ id: label, name: label, type: 'system' });
+    }
+
+    return labels;
+  }
+
+  isUserLabel(labelId: string): boolean {
+    return (
+      labelId.startsWith(FOLDER_LABEL_PREFIX) ||
+      labelId.startsWith(CATEGORY_LABEL_PREFIX)
+    );
+  }
+
+  private createClient(accessToken: string): GraphClient {
+    return new GraphClient(
+      this.configService.get<string>('microsoftOAuth.graphBaseUrl') ||
+        'https://graph.microsoft.com/v1.0',
+      accessToken,
+    );
+  }
+
+  /**
+   * Graph client for the mailbox, refreshing the access token when it is
+   * about to expire (within 5 minutes)
+   */
+  private async getClient(mailbox: Mailbox): Promise<GraphClient> {
+    if (!mailbox.encryptedAccessToken) {
+      throw new Error('Mailbox tokens not configured');
+    }
+
+    const expiresAt = mailbox.tokenExpiresAt;
+    if (!expiresAt || expiresAt.getTime() - Date.now() < 5 * 60 * 1000) {
+      const { accessToken } = await this.refreshTokens(mailbox);
+      return this.createClient(accessToken);
+    }
+
+    return this.createClient(
+      this.encryptionUtil.decrypt(mailbox.encryptedAccessToken),
+    );
+  }
+
+  private async requestTokens(
+    params: Record<string, string>,
+  ): Promise<OutlookTokens> {
+    if (!this.isConfigured) {
+      throw new Error(
+        'MICROSOFT_CLIENT_ID and MICROSOFT_CLIENT_SECRET are not configured',
+      );
+    }
+
+    const loginBaseUrl =
+      this.configService.get<string>('microsoftOAuth.loginBaseUrl') ||
+      'https://login.microsoftonline.com';
+    const tenant =
+      this.configService.get<string>('microsoftOAuth.tenant') || 'common';
+
+    const response = await fetch(
+      `${loginBaseUrl}/${tenant}/oauth2/v2.0/token`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          client_id: this.configService.get<string>('microsoftOAuth.clientId')!,
+          client_secret: this.configService.get<string>(
+            'microsoftOAuth.clientSecret',
+          )!,
+          scope: OAUTH_SCOPES,
+          ...params,
+        }),
+      },
+    );
+
+    const body = (await response.json()) as {
+      access_token?: string;
+      refresh_token?: string;
+      expires_in?: number;
+      error_description?: string;
+    };
+
+    if (!response.ok || !body.access_token) {
+      throw new Error(
+        `Microsoft token request failed: ${body.error_description || response.status}`,
+      );
+    }
+
+    return {
+      accessToken: body.access_token,
+      refreshToken: body.refresh_token || '',
+      expiresAt: new Date(Date.now() + (body.expires_in || 3600) * 1000),
+    };
+  }
+
+  /**
+   * Mail folders to sync, with the label their messages carry; system
+   * folders that do not hold user mail are skipped with their children
+   */
+  private async listFolders(client: GraphClient): Promise<OutlookFolder[]> {
+    const wellKnown = new Map<string, string>();
+
+    await Promise.all(
+      [...Object.keys(WELL_KNOWN_LABELS), ...SKIPPED_FOLDERS].map((name) =>
+        client
+          .get<GraphFolder>(`/me/mailFolders/${name}?$select=id`)
+          .then((folder) => wellKnown.set(folder.id, name))
+          .catch((error: unknown) => {
+            // Not every mailbox has every well-known folder (e.g. archive)
+            if (!(error instanceof GraphApiError && error.status === 404)) {
+              throw error;
+            }
+          }),
+      ),
+    );
+
+    const select =
+      '$select=id,displayName,parentFolderId,childFolderCount,totalItemCount,unreadItemCount&$top=100';
+    const folders: OutlookFolder[] = [];
+
+    const visit = async (path: string, parentPath: string | null) => {
+      for (const folder of await client.getAll<GraphFolder>(path)) {
+        const name = wellKnown.get(folder.id);
+        if (name && SKIPPED_FOLDERS.includes(name)) continue;
+
+        const folderPath = parentPath
+          ? `${parentPath}/${folder.displayName}`
+          : folder.displayName;
+
+        folders.push({
+          ...folder,
+          path: folderPath,
+          label: name
+            ? WELL_KNOWN_LABELS[name]
+            : `${FOLDER_LABEL_PREFIX}${folder.id}`,
+        });
+
+        if (folder.childFolderCount) {
+          await visit(
+            `/me/mailFolders/${encodeURIComponent(folder.id)}/childFolders?${select}`,
+            folderPath,
+          );
+        }
+      }
+    };
+
+    await visit(`/me/mailFolders?${select}`, null);
+
+    return folders;
+  }
+
+  private initialDeltaPath(folderId: string, fields: string): string {
+    return `/me/mailFolders/${encodeURIComponent(folderId)}/messages/delta?$select=${fields}`;
+  }
+
+  /**
+   * Follow a delta query to its end
+   */
+  private async walkDelta(
+    client: GraphClient,
+    link: string,
+  ): Promise<{ items: GraphMessage[]; deltaLink: string }> {
+    const items: GraphMessage[] = [];
+    let next = link;
+
+    for (;;) {
+      const page = await client.get<GraphPage<GraphMessage>>(next, {
+        Prefer: 'odata.maxpagesize=200',
+      });
+      items.push(...page.value);
+
+      if (page['@odata.deltaLink']) {
+        return { items, deltaLink: page['@odata.deltaLink'] };
+      }
+      if (!page['@odata.nextLink']) {
+        throw new Error('Graph delta response without next or delta link');
+      }
+      next = page['@odata.nextLink'];
+    }
+  }
+
+  private parseCursor(cursor: string): OutlookCursor {
+    try {
+      const parsed = JSON.parse(cursor) as OutlookCursor;
+      if (parsed && typeof parsed.folders === 'object') {
+        return parsed;
+      }
+    } catch {
+      // Fall through
+    }
+    throw new SyncCursorExpiredError('Invalid Outlook sync cursor');
+  }
+
+  private async findByInternetMessageId(
+    client: GraphClient,
+    internetMessageId: string,
+  ): Promise<GraphMessage | null> {
+    const params = new URLSearchParams({
+      $filter: `internetMessageId eq '${internetMessageId.replace(/'/g, "''")}'`,
+      $select: 'id',
+      $top: '1',
+    });
+    const page = await client.get<GraphPage<GraphMessage>>(
+      `/me/messages?${params.toString()}`,
+    );
+    return page.value[0] || null;
+  }
+
+  /**
+   * Stored labels of the given messages, keyed by message ID
+   */
+  private async loadStoredLabels(
+    mailboxId: number,
+    messageIds: string[],
+  ): Promise<Map<string, string[]>> {
+    const stored = new Map<string, string[]>();
+
+    for (let i = 0; i < messageIds.length; i += 1000) {
+      const emails = await this.emailRepository.find({
+        select: { gmailMessageId: true, labels: true },
+        where: {
+          mailboxId,
+          gmailMessageId: In(messageIds.slice(i, i + 1000)),
+        },
+      });
+      for (const email of emails) {
+        stored.set(email.gmailMessageId, email.labels || []);
+      }
+    }
+
+    return stored;
+  }
+
+  private parseMessage(
+    message: GraphMessage,
+    folders: OutlookFolder[],
+  ): ParsedEmail {
+    const folder = folders.find((f) => f.id === message.parentFolderId);
+    const addresses = (recipients?: GraphRecipient[]) =>
+      (recipients || [])
+        .map((r) => r.emailAddress?.address)
+        .filter((address): address is string => !!address);
+    const isHtml = message.body?.contentType?.toLowerCase() === 'html';
+    const labels = outlookMessageLabels(message, folder?.label ?? null);
+    const getHeader = (name: string) =>
+      message.internetMessageHeaders?.find(
+        (h) => h.name.toLowerCase() === name.toLowerCase(),
+      )?.value || null;
+
+    return {
+      gmailMessageId: message.id,
+      gmailThreadId: message.conversationId || message.id,
+      subject: message.subject || null,
+      snippet: message.bodyPreview || null,
+      fromEmail: message.from?.emailAddress?.address || '',
+      fromName: message.from?.emailAddress?.name || null,
+      toEmails: addresses(message.toRecipients),
+      ccEmails: addresses(message.ccRecipients),
+      bccEmails: addresses(message.bccRecipients),
+      replyToEmails: addresses(message.replyTo),
+      internetMessageId: message.internetMessageId
+        ? message.internetMessageId.replace(/^<|>$/g, '')
+        : null,
+      // Replies are threaded with createReply instead (see sendEmail)
+      referenceIds: [],
+      listId: parseListId(getHeader('List-Id')),
+      listUnsubscribe: getHeader('List-Unsubscribe'),
+      bodyHtml: isHtml ? message.body?.content || null : null,
+      bodyText: isHtml ? null : message.body?.content || null,
+      receivedAt: message.receivedDateTime
+        ? new Date(message.receivedDateTime)
+        : new Date(),
+      isRead: !labels.includes('UNREAD'),
+      isStarred: labels.includes('STARRED'),
+      labels,
+      attachments: (message.attachments || []).map((attachment) => ({
+        gmailAttachmentId: attachment.id,
+        filename: attachment.name || 'attachment',
+        mimeType: attachment.contentType || 'application/octet-stream',
+        size: attachment.size || 0,
+        contentId: attachment.contentId || null,
+        isInline: !!attachment.isInline,
+      })),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { Email, TaskStatus } from '../entities';
+import {
+  PriorityRankingService,
+  scorePriority,
+} from './priority-ranking.service';
+
+describe('PriorityRankingService', () => {
+  const now = new Date('2024-01-10T12:00:00.000Z');
+
+  const email = (overrides: Partial<Email> = {}): Email =>
+    ({
+      id: 1,
+      fromEmail: 'someone@example.com',
+      aiUrgencyScore: null,
+      isPinned: false,
+      taskStatus: TaskStatus.NONE,
+      taskDeadline: null,
+      isRead: true,
+      receivedAt: new Date('2024-01-01T00:00:00.000Z'),
+      ...overrides,
+    }) as Email;
+
+  describe('scorePriority', () => {
+    it('scores old, read, unknown mail as zero', () => {
+      expect(scorePriority(email(), 0, now)).toEqual({
+        total: 0,
+        urgency: 0,
+        pinned: 0,
+        deadline: 0,
+        sender: 0,
+        unread: 0,
+        recency: 0,
+      });
+    });
+
+    it('adds up every signal', () => {
+      const score = scorePriority(
+        email({
+          aiUrgencyScore: 8,
+          isPinned: true,
+          taskStatus: TaskStatus.TODO,
+          // 84 hours left of the one-week horizon
+          taskDeadline: new Date('2024-01-14T00:00:00.000Z'),
+          isRead: false,
+          // A day old
+          receivedAt: new Date('2024-01-09T12:00:00.000Z'),
+        }),
+        2,
+        now,
+      );
+
+      expect(score).toEqual({
+        total: 74.3,
+        urgency: 24,
+        pinned: 20,
+        deadline: 10,
+        sender: 6,
+        unread: 10,
+        recency: 4.3,
+      });
+    });
+
+    it('gives overdue open tasks the full deadline weight', () => {
+      const overdue = { taskDeadline: new Date('2024-01-09T00:00:00.000Z') };
+
+      expect(
+        scorePriority(
+          email({ ...overdue, taskStatus: TaskStatus.TODO }),
+          0,
+          now,
+        ).deadline,
+      ).toBe(20);
+      expect(
+        scorePriority(
+          email({ ...overdue, taskStatus: TaskStatus.DONE }),
+          0,
+          now,
+        ).deadline,
+      ).toBe(0);
+    });
+
+    it('caps sender importance', () => {
+      expect(scorePriority(email(), 50, now).sender).toBe(15);
+    });
+  });
+
+  describe('rankPage', () => {
+    const emailRepository = { query: jest.fn(), find: jest.fn() };
+    const ranking = new PriorityRankingService(emailRepository as never);
+    const matches: [string, unknown[]] = [
+      'SELECT email.id FROM emails email WHERE email."mailboxId" IN ($1)',
+      [1],
+    ];
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('scores every match in SQL and loads only the page', async () => {
+      emailRepository.query.mockResolvedValue([
+        { id: 2, replies: '5' },
+        { id: 1, replies: '0' },
+      ]);
+      emailRepository.find.mockResolvedValue([
+        email({ id: 1, isRead: false }),
+        email({ id: 2, fromEmail: 'Boss@Example.com' }),
+      ]);
+
+      const ranked = await ranking.rankPage(matches, [1], 20, 10, now);
+
+      expect(ranked.map((r) => r.email.id)).toEqual([2, 1]);
+      expect(ranked[0].score.sender).toBe(15);
+      expect(emailRepository.query).toHaveBeenCalledWith(
+        expect.stringContaining('LIMIT $4 OFFSET $5'),
+        [1, now, [1], 10, 20],
+      );
+    });
+
+    it('loads nothing past the last page', async () => {
+      emailRepository.query.mockResolvedValue([]);
+
+      await expect(
+        ranking.rankPage(matches, [1], 40, 10, now),
+      ).resolves.toEqual([]);
+      expect(emailRepository.find).not.toHaveBeenCalled();
+    });
+  });
+});
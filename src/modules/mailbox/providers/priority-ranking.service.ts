@@ -0,0 +1,207 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Email, TaskStatus } from '../entities';
+
+// Most points each signal can add; the total is out of 100
+export const PRIORITY_WEIGHTS = {
+  urgency: 30,
+  pinned: 20,
+  deadline: 20,
+  sender: 15,
+  unread: 10,
+  recency: 5,
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Deadlines further out than this add nothing; overdue ones add the most
+const DEADLINE_HORIZON_HOURS = 7 * 24;
+
+// Sent emails to a sender that make them fully important
+const SENDER_FULL_REPLIES = 5;
+
+// Mail older than this gets no recency points
+const RECENCY_HORIZON_HOURS = 7 * 24;
+
+export interface PriorityScore {
+  total: number;
+  urgency: number;
+  pinned: number;
+  deadline: number;
+  sender: number;
+  unread: number;
+  recency: number;
+}
+
+type PriorityCandidate = Pick<
+  Email,
+  | 'aiUrgencyScore'
+  | 'isPinned'
+  | 'taskStatus'
+  | 'taskDeadline'
+  | 'isRead'
+  | 'receivedAt'
+>;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Score an email for the priority inbox; each signal scales linearly up
+ * to its weight so the breakdown can be shown as is
+ * @param senderReplies emails the user has sent to the sender
+ */
+export function scorePriority(
+  email: PriorityCandidate,
+  senderReplies: number,
+  now: Date = new Date(),
+): PriorityScore {
+  const urgency = ((email.aiUrgencyScore ?? 0) / 10) * PRIORITY_WEIGHTS.urgency;
+
+  const pinned = email.isPinned ? PRIORITY_WEIGHTS.pinned : 0;
+
+  let deadline = 0;
+  if (email.taskDeadline && email.taskStatus !== TaskStatus.DONE) {
+    const hoursLeft =
+      (new Date(email.taskDeadline).getTime() - now.getTime()) / HOUR;
+    deadline =
+      Math.min(1, Math.max(0, 1 - hoursLeft / DEADLINE_HORIZON_HOURS)) *
+      PRIORITY_WEIGHTS.deadline;
+  }
+
+  const sender =
+    (Math.min(senderReplies, SENDER_FULL_REPLIES) / SENDER_FULL_REPLIES) *
+    PRIORITY_WEIGHTS.sender;
+
+  const unread = email.isRead ? 0 : PRIORITY_WEIGHTS.unread;
+
+  const ageHours =
+    (now.getTime() - new Date(email.receivedAt).getTime()) / HOUR;
+  const recency =
+    Math.min(1, Math.max(0, 1 - ageHours / RECENCY_HORIZON_HOURS)) *
+    PRIORITY_WEIGHTS.recency;
+
+  const parts = { urgency, pinned, deadline, sender, unread, recency };
+
+  return {
+    total: round(Object.values(parts).reduce((sum, part) => sum + part, 0)),
+    urgency: round(urgency),
+    pinned: round(pinned),
+    deadline: round(deadline),
+    sender: round(sender),
+    unread: round(unread),
+    recency: round(recency),
+  };
+}
+
+/**
+ * Columns the ranking query needs from the matching emails
+ */
+export const PRIORITY_COLUMNS =
+  'email.id, email."fromEmail", email."aiUrgencyScore", email."isPinned", ' +
+  'email."taskStatus", email."taskDeadline", email."isRead", ' +
+  'email."receivedAt"';
+
+/**
+ * scorePriority's total as SQL over the `hits` of the ranking query and
+ * the `replies` joined to them; now is the placeholder of the current time
+ */
+function priorityScoreSql(now: string): string {
+  const at = `${now}::timestamptz`;
+  const clamp = (value: string) => `LEAST(1, GREATEST(0, ${value}))`;
+  const hours = (from: string, to: string) =>
+    `EXTRACT(EPOCH FROM (${to} - ${from})) / 3600`;
+
+  const parts = [
+    `COALESCE(hits."aiUrgencyScore", 0) / 10.0 * ${PRIORITY_WEIGHTS.urgency}`,
+    `CASE WHEN hits."isPinned" THEN ${PRIORITY_WEIGHTS.pinned} ELSE 0 END`,
+    `CASE WHEN hits."taskDeadline" IS NOT NULL AND hits."taskStatus" <> '${TaskStatus.DONE}'
+      THEN ${clamp(`1 - ${hours(at, 'hits."taskDeadline"')} / ${DEADLINE_HORIZON_HOURS}`)} * ${PRIORITY_WEIGHTS.deadline}
+      ELSE 0 END`,
+    `LEAST(COALESCE(replies.replies, 0), ${SENDER_FULL_REPLIES})::numeric / ${SENDER_FULL_REPLIES} * ${PRIORITY_WEIGHTS.sender}`,
+    `CASE WHEN hits."isRead" THEN 0 ELSE ${PRIORITY_WEIGHTS.unread} END`,
+    `${clamp(`1 - ${hours('hits."receivedAt"', at)} / ${RECENCY_HORIZON_HOURS}`)} * ${PRIORITY_WEIGHTS.recency}`,
+  ];
+
+  return `(${parts.join(' + ')})`;
+}
+
+/**
+ * Ranks mail for the priority inbox (PRD FR-1.3)
+ */
+@Injectable()
+export class PriorityRankingService {
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+  ) {}
+
+  /**
+   * One page of the matching emails, highest priority first; ties go to
+   * the newest. Every match is scored in SQL, only the page is loaded.
+   * @param matches SQL and parameters of a query selecting PRIORITY_COLUMNS
+   * @param mailboxIds the user's mailboxes, whose sent mail shows which
+   * senders matter
+   */
+  async rankPage(
+    [matchesSql, matchesParams]: [string, unknown[]],
+    mailboxIds: number[],
+    skip: number,
+    take: number,
+    now: Date = new Date(),
+  ): Promise<{ email: Email; score: PriorityScore }[]> {
+    const params = [...matchesParams];
+    const addParam = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const nowParam = addParam(now);
+
+    // Replies only count for the senders among the matches
+    const rows = await this.emailRepository.query<
+      { id: number; replies: string }[]
+    >(
+      `
+      WITH hits AS MATERIALIZED (${matchesSql}),
+      replies AS (
+        SELECT lower(trim(recipient)) AS address, COUNT(*) AS replies
+        FROM emails email,
+          unnest(string_to_array(email."toEmails", ',')) AS recipient
+        WHERE email."mailboxId" = ANY(${addParam(mailboxIds)})
+          AND email."deletedAt" IS NULL
+          AND 'SENT' = ANY(string_to_array(email.labels, ','))
+          AND lower(trim(recipient)) IN (SELECT lower(hits."fromEmail") FROM hits)
+        GROUP BY 1
+      )
+      SELECT hits.id, COALESCE(replies.replies, 0) AS replies
+      FROM hits
+      LEFT JOIN replies ON replies.address = lower(hits."fromEmail")
+      ORDER BY ${priorityScoreSql(nowParam)} DESC, hits."receivedAt" DESC
+      LIMIT ${addParam(take)} OFFSET ${addParam(skip)}
+      `,
+      params,
+    );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    // The matches may be soft-deleted mail, as in the trash view
+    const emails = await this.emailRepository.find({
+      where: { id: In(rows.map((row) => row.id)) },
+      withDeleted: true,
+    });
+    const byId = new Map(emails.map((email) => [email.id, email]));
+
+    return rows
+      .filter((row) => byId.has(row.id))
+      .map((row) => {
+        const email = byId.get(row.id)!;
+        return {
+          email,
+          score: scorePriority(email, Number(row.replies), now),
+        };
+      });
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  parseSearchQuery,
+  SearchQueryNode,
+  SearchQuerySyntaxError,
+  searchQueryToSql,
+} from './search-query-parser';
+
+describe('search query parser', () => {
+  // Compact form of a tree, e.g. and(from:alice, -label:done)
+  const show = (node: SearchQueryNode | null): string => {
+    if (!node) return '';
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        return `${node.type}(${node.children.map(show).join(', ')})`;
+      case 'not':
+        return `-${show(node.child)}`;
+      case 'term':
+        return node.operator
+          ? `${node.operator}:${node.value}`
+          : `"${node.value}"`;
+    }
+  };
+
+  const parse = (query: string) => show(parseSearchQuery(query));
+
+  const syntaxError = (query: string) => {
+    try {
+      parseSearchQuery(query);
+    } catch (error) {
+      const { message, start, end } = error as SearchQuerySyntaxError;
+      return { message, start, end };
+    }
+    throw new Error(`"${query}" parsed`);
+  };
+
+  describe('parseSearchQuery', () => {
+    it('parses operators, phrases and negation', () => {
+      expect(
+        parse(
+          'from:alice has:attachment after:2024/01/01 -label:done "quarterly report"',
+        ),
+      ).toBe(
+        'and(from:alice, has:attachment, after:2024/01/01, -label:done, "quarterly report")',
+      );
+    });
+
+    it('binds OR tighter than terms next to each other', () => {
+      expect(parse('invoice from:alice OR from:bob')).toBe(
+        'and("invoice", or(from:alice, from:bob))',
+      );
+      expect(parse('(invoice OR receipt) -(is:read OR is:pinned)')).toBe(
+        'and(or("invoice", "receipt"), -or(is:read, is:pinned))',
+      );
+    });
+
+    it('takes quoted operator values and treats unknown operators as text', () => {
+      expect(parse('subject:"weekly sync" re:budget AND 10:30')).toBe(
+        'and(subject:weekly sync, "re:budget", "10:30")',
+      );
+    });
+
+    it('returns null for an empty query', () => {
+      expect(parseSearchQuery('   ')).toBeNull();
+    });
+
+    it.each([
+      [
+        'is:unred',
+        {
+          message: 'is: takes one of read, unread, starred, pinned, snoozed',
+          start: 3,
+          end: 8,
+        },
+      ],
+      ['after:2024/02/30', { start: 6, end: 16 }],
+      ['older_than:2x', { start: 11, end: 13 }],
+      ['from:', { message: 'Missing value after from:', start: 0, end: 5 }],
+      [
+        'subject:"weekly',
+        { message: 'Missing closing quote', start: 8, end: 15 },
+      ],
+      [
+        'a OR',
+        { message: 'OR needs a search term after it', start: 2, end: 4 },
+      ],
+      [
+        'OR a',
+        { message: 'OR needs a search term before it', start: 0, end: 2 },
+      ],
+      ['(a OR b', { message: 'Missing closing parenthesis', start: 0, end: 1 }],
+      ['a)', { message: 'Unexpected ")"', start: 1, end: 2 }],
+      ['a ()', { message: 'Empty parentheses', start: 2, end: 4 }],
+      ['a -(', { message: 'Missing closing parenthesis', start: 3, end: 4 }],
+    ])('reports where "%s" is invalid', (query, expected) => {
+      expect(syntaxError(query)).toMatchObject(expected);
+    });
+  });
+
+  describe('searchQueryToSql', () => {
+    const now = new Date('2024-06-15T12:00:00.000Z');
+    const toSql = (query: string) =>
+      searchQueryToSql(parseSearchQuery(query)!, now);
+
+    it('binds every value as a parameter', () => {
+      expect(toSql("from:o'brien -task:in-progress older_than:1m")).toEqual({
+        where:
+          '((email.fromEmail ILIKE :sq0 OR email.fromName ILIKE :sq0)' +
+          ' AND NOT COALESCE(email.taskStatus = :sq1, false)' +
+          ' AND email.receivedAt < :sq2)',
+        parameters: {
+          sq0: "%o'brien%",
+          sq1: 'in_progress',
+          sq2: new Date('2024-05-15T12:00:00.000Z'),
+        },
+      });
+    });
+
+    it('matches labels by their stored ID, ignoring case', () => {
+      const { where, parameters } = toSql('label:Starred OR label:Label_42');
+
+      expect(where).toBe(
+        "(:sq0 = ANY(string_to_array(lower(email.labels), ','))" +
+          " OR :sq1 = ANY(string_to_array(lower(email.labels), ',')))",
+      );
+      // Compared as stored, so Gmail user labels need their ID, not their name
+      expect(parameters).toEqual({ sq0: 'starred', sq1: 'label_42' });
+    });
+
+    it('matches wildcards literally', () => {
+      expect(toSql('100%_off').parameters).toEqual({ sq0: '%100\\%\\_off%' });
+    });
+
+    it('turns dates into UTC days', () => {
+      expect(toSql('after:2024-01-01 before:2024/1/31').parameters).toEqual({
+        sq0: new Date('2024-01-01T00:00:00.000Z'),
+        sq1: new Date('2024-01-31T00:00:00.000Z'),
+      });
+    });
+  });
+});
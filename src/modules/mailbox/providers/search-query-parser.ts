@@ -0,0 +1,461 @@
+import { EmailCategory, TaskStatus } from '../entities';
+
+/**
+ * Gmail-style search queries, e.g.
+ * `from:alice has:attachment after:2024/01/01 -label:spam "quarterly report"`
+ *
+ * Terms next to each other must all match; OR binds tighter than that, as
+ * in Gmail, so `a b OR c` means a AND (b OR c). Parentheses group terms
+ * and a leading `-` negates a term or group. Words without an operator
+ * match subject, snippet and sender. Dates are calendar days in UTC.
+ *
+ * `label:` matches the label IDs stored on the email, not display names:
+ * system labels (INBOX, STARRED, ...), Outlook categories and folders and
+ * IMAP folders match by name, Gmail user labels only by ID (`Label_123`).
+ */
+
+export const SEARCH_OPERATORS = [
+  'from',
+  'to',
+  'cc',
+  'subject',
+  'label',
+  'is',
+  'has',
+  'filename',
+  'before',
+  'after',
+  'older_than',
+  'newer_than',
+  'category',
+  'task',
+] as const;
+
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+export interface SearchQueryTerm {
+  type: 'term';
+  /** null for plain words and phrases */
+  operator: SearchOperator | null;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type SearchQueryNode =
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+  | SearchQueryTerm;
+
+/**
+ * Invalid query; start and end (exclusive) are offsets into the query
+ * of the part to highlight
+ */
+export class SearchQuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly start: number,
+    readonly end: number,
+  ) {
+    super(message);
+    this.name = 'SearchQuerySyntaxError';
+  }
+}
+
+const IS_VALUES = ['read', 'unread', 'starred', 'pinned', 'snoozed'];
+const HAS_VALUES = ['attachment'];
+const DATE = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/;
+const PERIOD = /^(\d+)([dwmy])$/;
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; start: number; end: number }
+  | { kind: 'term'; term: SearchQueryTerm };
+
+/**
+ * Parse a query into a tree; null when it has no terms
+ *
+ * @throws SearchQuerySyntaxError
+ */
+export function parseSearchQuery(input: string): SearchQueryNode | null {
+  return new Parser(tokenize(input)).parse();
+}
+
+/**
+ * WHERE condition on the `email` alias matching a parsed query; values
+ * are bound as parameters named sq0, sq1, ...
+ */
+export function searchQueryToSql(
+  node: SearchQueryNode,
+  now = new Date(),
+): { where: string; parameters: Record<string, unknown> } {
+  const parameters: Record<string, unknown> = {};
+  const param = (value: unknown) => {
+    const name = `sq${Object.keys(parameters).length}`;
+    parameters[name] = value;
+    return `:${name}`;
+  };
+
+  const compile = (node: SearchQueryNode): string => {
+    switch (node.type) {
+      case 'and':
+        return `(${node.children.map(compile).join(' AND ')})`;
+      case 'or':
+        return `(${node.children.map(compile).join(' OR ')})`;
+      case 'not':
+        // Nullable columns would make a negated ILIKE NULL, not true
+        return `NOT COALESCE(${compile(node.child)}, false)`;
+      case 'term':
+        return termToSql(node, param, now);
+    }
+  };
+
+  return { where: compile(node), parameters };
+}
+
+function termToSql(
+  { operator, value }: SearchQueryTerm,
+  param: (value: unknown) => string,
+  now: Date,
+): string {
+  const anyLike = (...columns: string[]) => {
+    const pattern = param(`%${escapeLike(value)}%`);
+    return `(${columns.map((column) => `${column} ILIKE ${pattern}`).join(' OR ')})`;
+  };
+
+  switch (operator) {
+    case null:
+      return anyLike(
+        'email.subject',
+        'email.snippet',
+        'email.fromEmail',
+        'email.fromName',
+      );
+    case 'from':
+      return anyLike('email.fromEmail', 'email.fromName');
+    case 'to':
+      return anyLike('email.toEmails', 'email.ccEmails', 'email.bccEmails');
+    case 'cc':
+      return anyLike('email.ccEmails');
+    case 'subject':
+      return anyLike('email.subject');
+    case 'label':
+      // Label names are not stored, see the note at the top
+      return `${param(value.toLowerCase())} = ANY(string_to_array(lower(email.labels), ','))`;
+    case 'is':
+      return {
+        read: 'email.isRead = true',
+        unread: 'email.isRead = false',
+        starred: 'email.isStarred = true',
+        pinned: 'email.isPinned = true',
+        snoozed: 'email.isSnoozed = true',
+      }[value.toLowerCase()]!;
+    case 'has':
+      return 'email.hasAttachments = true';
+    case 'filename':
+      return `EXISTS (SELECT 1 FROM attachments attachment WHERE attachment."emailId" = email.id AND attachment.filename ILIKE ${param(`%${escapeLike(value)}%`)})`;
+    case 'before':
+      return `email.receivedAt < ${param(parseDate(value))}`;
+    case 'after':
+      return `email.receivedAt >= ${param(parseDate(value))}`;
+    case 'older_than':
+      return `email.receivedAt < ${param(periodBefore(value, now))}`;
+    case 'newer_than':
+      return `email.receivedAt >= ${param(periodBefore(value, now))}`;
+    case 'category':
+      return `email.category = ${param(value.toLowerCase())}`;
+    case 'task':
+      return `email.taskStatus = ${param(taskStatus(value))}`;
+  }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({
+        kind: char === '(' ? 'lparen' : 'rparen',
+        start: i,
+        end: i + 1,
+      });
+      i++;
+    } else if (char === '-' && /[^\s)]/.test(input[i + 1] ?? ' ')) {
+      tokens.push({ kind: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const phrase = readQuoted(input, i);
+      if (phrase.value.trim()) {
+        tokens.push({
+          kind: 'term',
+          term: term(null, phrase.value, i, phrase.end),
+        });
+      }
+      i = phrase.end;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      const word = input.slice(start, i);
+
+      if (word === 'OR' || word === '|') {
+        tokens.push({ kind: 'or', start, end: i });
+        continue;
+      }
+      if (word === 'AND') {
+        continue;
+      }
+
+      const separator = word.indexOf(':');
+      const name = word.slice(0, separator).toLowerCase();
+      if (separator <= 0 || !isOperator(name)) {
+        tokens.push({ kind: 'term', term: term(null, word, start, i) });
+        continue;
+      }
+
+      let value = word.slice(separator + 1);
+      const valueStart = start + separator + 1;
+      if (!value && input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        value = quoted.value;
+        i = quoted.end;
+      }
+      if (!value.trim()) {
+        throw new SearchQuerySyntaxError(
+          `Missing value after ${name}:`,
+          start,
+          i,
+        );
+      }
+
+      const problem = checkValue(name, value);
+      if (problem) {
+        throw new SearchQuerySyntaxError(problem, valueStart, i);
+      }
+      tokens.push({ kind: 'term', term: term(name, value, start, i) });
+    }
+  }
+
+  return tokens;
+}
+
+function term(
+  operator: SearchOperator | null,
+  value: string,
+  start: number,
+  end: number,
+): SearchQueryTerm {
+  return { type: 'term', operator, value, start, end };
+}
+
+function readQuoted(input: string, start: number) {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new SearchQuerySyntaxError(
+      'Missing closing quote',
+      start,
+      input.length,
+    );
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function isOperator(name: string): name is SearchOperator {
+  return (SEARCH_OPERATORS as readonly string[]).includes(name);
+}
+
+/** Why a value does not suit its operator; null when it does */
+function checkValue(operator: SearchOperator, value: string): string | null {
+  const lower = value.toLowerCase();
+
+  switch (operator) {
+    case 'is':
+      return IS_VALUES.includes(lower)
+        ? null
+        : `is: takes one of ${IS_VALUES.join(', ')}`;
+    case 'has':
+      return HAS_VALUES.includes(lower)
+        ? null
+        : `has: takes ${HAS_VALUES.join(', ')}`;
+    case 'before':
+    case 'after':
+      return parseDate(value)
+        ? null
+        : `${operator}: takes a date like 2024/01/31`;
+    case 'older_than':
+    case 'newer_than':
+      return PERIOD.test(lower)
+        ? null
+        : `${operator}: takes a period like 7d, 2w, 3m or 1y`;
+    case 'category':
+      return (Object.values(EmailCategory) as string[]).includes(lower)
+        ? null
+        : `category: takes one of ${Object.values(EmailCategory).join(', ')}`;
+    case 'task':
+      return taskStatus(value)
+        ? null
+        : `task: takes one of ${Object.values(TaskStatus).join(', ')}`;
+    default:
+      return null;
+  }
+}
+
+function parseDate(value: string): Date | null {
+  const match = DATE.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+function periodBefore(value: string, now: Date): Date {
+  const [, amount, unit] = PERIOD.exec(value.toLowerCase())!;
+  const date = new Date(now);
+  const n = Number(amount);
+
+  switch (unit) {
+    case 'd':
+      date.setUTCDate(date.getUTCDate() - n);
+      break;
+    case 'w':
+      date.setUTCDate(date.getUTCDate() - n * 7);
+      break;
+    case 'm':
+      date.setUTCMonth(date.getUTCMonth() - n);
+      break;
+    case 'y':
+      date.setUTCFullYear(date.getUTCFullYear() - n);
+      break;
+  }
+  return date;
+}
+
+function taskStatus(value: string): TaskStatus | null {
+  const normalized = value.toLowerCase().replace(/-/g, '_');
+  return (Object.values(TaskStatus) as string[]).includes(normalized)
+    ? (normalized as TaskStatus)
+    : null;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Recursive descent over the tokens:
+ *   query := and
+ *   and   := or*            (up to ")" or the end)
+ *   or    := unary (OR unary)*
+ *   unary := "-" unary | "(" and ")" | term
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): SearchQueryNode | null {
+    const node = this.parseAnd();
+    const extra = this.peek();
+    if (extra) {
+      throw this.error('Unexpected ")"', extra);
+    }
+    return node;
+  }
+
+  private parseAnd(): SearchQueryNode | null {
+    const children: SearchQueryNode[] = [];
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === 'rparen') break;
+      if (token.kind === 'or') {
+        throw this.error('OR needs a search term before it', token);
+      }
+      children.push(this.parseOr());
+    }
+
+    if (children.length <= 1) {
+      return children[0] ?? null;
+    }
+    return { type: 'and', children };
+  }
+
+  private parseOr(): SearchQueryNode {
+    const children = [this.parseUnary()];
+
+    for (let token = this.peek(); token?.kind === 'or'; token = this.peek()) {
+      this.index++;
+      if (!this.startsOperand(this.peek())) {
+        throw this.error('OR needs a search term after it', token);
+      }
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseUnary(): SearchQueryNode {
+    const token = this.tokens[this.index++];
+
+    switch (token.kind) {
+      case 'term':
+        return token.term;
+
+      case 'not':
+        if (!this.startsOperand(this.peek())) {
+          throw this.error('- needs a search term after it', token);
+        }
+        return { type: 'not', child: this.parseUnary() };
+
+      case 'lparen': {
+        const group = this.parseAnd();
+        // parseAnd stops at ")" or the end of the query
+        const close = this.tokens[this.index++];
+        if (!close) {
+          throw this.error('Missing closing parenthesis', token);
+        }
+        if (!group) {
+          throw new SearchQuerySyntaxError(
+            'Empty parentheses',
+            token.start,
+            this.span(close).end,
+          );
+        }
+        return group;
+      }
+
+      default:
+        throw this.error(
+          token.kind === 'rparen'
+            ? 'Unexpected ")"'
+            : 'OR needs a search term before it',
+          token,
+        );
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private startsOperand(token: Token | undefined): boolean {
+    return !!token && token.kind !== 'rparen' && token.kind !== 'or';
+  }
+
+  private span(token: Token): { start: number; end: number } {
+    return token.kind === 'term' ? token.term : token;
+  }
+
+  private error(message: string, token: Token): SearchQuerySyntaxError {
+    const { start, end } = this.span(token);
+    return new SearchQuerySyntaxError(message, start, end);
+  }
+}
@@ -0,0 +1,83 @@
+import { ReplyTone } from '../entities';
+import { AiService } from './ai.service';
+import { EMBEDDING_DIMENSIONS } from './llm-provider.interface';
+import { StubLlmProvider } from './stub-llm.provider';
+
+describe('StubLlmProvider', () => {
+  const provider = new StubLlmProvider();
+
+  const cosine = (a: number[], b: number[]) =>
+    a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+  describe('embed', () => {
+    it('returns a unit vector of the column size', async () => {
+      const embedding = await provider.embed('Quarterly report attached');
+
+      expect(embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(cosine(embedding, embedding)).toBeCloseTo(1);
+    });
+
+    it('is deterministic', async () => {
+      await expect(provider.embed('Lunch on Friday?')).resolves.toEqual(
+        await provider.embed('Lunch on Friday?'),
+      );
+    });
+
+    it('puts texts that share words closer together', async () => {
+      const invoice = await provider.embed('Your invoice for March is ready');
+      const similar = await provider.embed('The March invoice is ready');
+      const other = await provider.embed('Team offsite agenda and venue');
+
+      expect(cosine(invoice, similar)).toBeGreaterThan(cosine(invoice, other));
+    });
+  });
+
+  describe('through AiService', () => {
+    const aiService = new AiService(provider);
+    const email =
+      'Hi team. Please send the signed contract today, it is urgent. ' +
+      'The client meets on Monday. Could you also book a room?';
+
+    it('summarizes with the first sentences', async () => {
+      await expect(aiService.summarizeEmail(email)).resolves.toBe(
+        'Hi team. Please send the signed contract today, it is urgent.',
+      );
+    });
+
+    it('scores urgency from urgent words', async () => {
+      await expect(
+        aiService.calculateUrgencyScore(email, { throwOnError: true }),
+      ).resolves.toBe(6);
+      await expect(
+        aiService.calculateUrgencyScore('See you around.'),
+      ).resolves.toBe(2);
+    });
+
+    it('extracts requests as action items', async () => {
+      await expect(
+        aiService.extractActionItems(email, new Date('2024-01-15')),
+      ).resolves.toEqual([
+        {
+          text: 'Please send the signed contract today, it is urgent.',
+          dueDate: null,
+        },
+        { text: 'Could you also book a room?', dueDate: null },
+      ]);
+    });
+
+    it('suggests a reply for every tone', async () => {
+      const { suggestions } = await aiService.suggestReplies(
+        [{ from: 'boss@example.com', sentAt: new Date(), content: email }],
+        'me@example.com',
+      );
+
+      expect(suggestions.map((s) => s.tone)).toEqual(Object.values(ReplyTone));
+    });
+
+    it('embeds email content', async () => {
+      await expect(aiService.generateEmbedding(email)).resolves.toHaveLength(
+        EMBEDDING_DIMENSIONS,
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { ReplyTone } from '../entities';
+import {
+  EMBEDDING_DIMENSIONS,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+  LlmTask,
+} from './llm-provider.interface';
+
+const URGENT_WORDS =
+  /\b(urgent|asap|immediately|critical|deadline|today|tonight|overdue)\b/gi;
+
+const REQUEST_PHRASES =
+  /\b(please|could you|can you|need to|needs to|make sure|don't forget)\b/i;
+
+const CANNED_REPLIES: Record<ReplyTone, string> = {
+  [ReplyTone.FORMAL]:
+    'Thank you for your message. I will get back to you shortly.',
+  [ReplyTone.FRIENDLY]: "Thanks for reaching out! I'll get back to you soon.",
+  [ReplyTone.BRIEF]: 'Thanks, noted.',
+};
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Offline stand-in for a model, for development and tests
+ *
+ * Answers are derived from the input alone, so the same input always gets
+ * the same answer: summaries are the first sentences, urgency counts urgent
+ * words, action items are sentences that ask for something. Embeddings
+ * hash each word into one of EMBEDDING_DIMENSIONS buckets, so texts sharing
+ * words are still close to each other.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = LlmProviderName.STUB;
+  readonly embeddingModel = `stub-hash-${EMBEDDING_DIMENSIONS}`;
+
+  generate(request: LlmRequest): Promise<string> {
+    return Promise.resolve(this.answer(request));
+  }
+
+  embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [text];
+
+    for (const word of words) {
+      const hash = createHash('sha256').update(word).digest();
+      const bucket = hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return Promise.resolve(vector.map((v) => v / norm));
+  }
+
+  private answer({ task, input }: LlmRequest): string {
+    switch (task) {
+      case LlmTask.SUMMARY:
+      case LlmTask.THREAD_SUMMARY:
+        return (
+          sentences(input).slice(0, 2).join(' ').substring(0, 300) ||
+          'No content.'
+        );
+
+      case LlmTask.URGENCY: {
+        const hits = input.match(URGENT_WORDS)?.length ?? 0;
+        return String(Math.min(10, 2 + hits * 2));
+      }
+
+      case LlmTask.ACTION_ITEMS:
+        return JSON.stringify(
+          sentences(input)
+            .filter((sentence) => REQUEST_PHRASES.test(sentence))
+            .map((text) => ({ text, dueDate: null })),
+        );
+
+      case LlmTask.REPLY_SUGGESTIONS:
+        return JSON.stringify({
+          language: 'en',
+          suggestions: Object.values(ReplyTone).map((tone) => ({
+            tone,
+            text: CANNED_REPLIES[tone],
+          })),
+        });
+    }
+  }
+}
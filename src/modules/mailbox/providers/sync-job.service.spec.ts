@@ -0,0 +1,145 @@
+import { ConfigService } from '@nestjs/config';
+import { FindOperator } from 'typeorm';
+import {
+  SyncJob,
+  SyncJobStatus,
+  SyncJobTrigger,
+  SyncJobType,
+} from '../entities';
+import {
+  MAX_SYNC_RETRIES,
+  syncRetryDelay,
+  SyncJobService,
+} from './sync-job.service';
+
+describe('SyncJobService', () => {
+  const repository = {
+    create: jest.fn((job: Partial<SyncJob>) => job),
+    save: jest.fn((job: Partial<SyncJob>) =>
+      Promise.resolve({ id: 8, ...job }),
+    ),
+    update: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const failed = (overrides: Partial<SyncJob> = {}): SyncJob =>
+    ({
+      id: 5,
+      mailboxId: 2,
+      type: SyncJobType.INCREMENTAL,
+      trigger: SyncJobTrigger.SCHEDULED,
+      status: SyncJobStatus.FAILED,
+      attempt: 1,
+      ...overrides,
+    }) as SyncJob;
+
+  let service: SyncJobService;
+
+  beforeEach(() => {
+    service = new SyncJobService(repository as never, new ConfigService({}));
+    repository.update.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('syncRetryDelay', () => {
+    it('backs off after each failed attempt', () => {
+      expect(syncRetryDelay(1)).toBe(60_000);
+      expect(syncRetryDelay(2)).toBe(300_000);
+      expect(syncRetryDelay(3)).toBe(900_000);
+    });
+
+    it('gives up once the retries are used up', () => {
+      expect(syncRetryDelay(MAX_SYNC_RETRIES + 1)).toBeNull();
+    });
+  });
+
+  describe('claim', () => {
+    it('starts a pending job', async () => {
+      const job = failed({ status: SyncJobStatus.PENDING });
+
+      await expect(service.claim(job)).resolves.toBe(true);
+
+      expect(repository.update).toHaveBeenCalledWith(
+        { id: 5, status: SyncJobStatus.PENDING },
+        {
+          status: SyncJobStatus.RUNNING,
+          startedAt: expect.any(Date) as unknown,
+        },
+      );
+      expect(job.status).toBe(SyncJobStatus.RUNNING);
+    });
+
+    it('leaves a job another instance claimed first', async () => {
+      repository.update.mockResolvedValue({ affected: 0 });
+      const job = failed({ status: SyncJobStatus.PENDING });
+
+      await expect(service.claim(job)).resolves.toBe(false);
+      expect(job.status).toBe(SyncJobStatus.PENDING);
+    });
+  });
+
+  it('schedules a retry as the next attempt of the failed job', async () => {
+    const scheduledAt = new Date('2024-01-01T10:05:00.000Z');
+
+    await service.scheduleRetry(failed({ attempt: 2 }), scheduledAt);
+
+    expect(repository.save).toHaveBeenCalledWith({
+      mailboxId: 2,
+      type: SyncJobType.INCREMENTAL,
+      trigger: SyncJobTrigger.RETRY,
+      status: SyncJobStatus.PENDING,
+      attempt: 3,
+      scheduledAt,
+    });
+  });
+
+  it('finds the pending retries that are due, oldest first', async () => {
+    repository.find.mockResolvedValue([]);
+
+    await service.findDueRetries(10);
+
+    const [options] = repository.find.mock.lastCall as [
+      {
+        where: { status: SyncJobStatus; scheduledAt: FindOperator<Date> };
+        order: object;
+        take: number;
+      },
+    ];
+    expect(options.where.status).toBe(SyncJobStatus.PENDING);
+    expect(options.where.scheduledAt.type).toBe('lessThanOrEqual');
+    expect(options.order).toEqual({ scheduledAt: 'ASC' });
+    expect(options.take).toBe(10);
+  });
+
+  it('cancels pending retries once a sync succeeds', async () => {
+    await service.complete(failed({ status: SyncJobStatus.RUNNING }), {
+      messagesAdded: 3,
+      messagesDeleted: 0,
+      messagesRelabelled: 1,
+    });
+
+    expect(repository.update).toHaveBeenLastCalledWith(
+      { mailboxId: 2, status: SyncJobStatus.PENDING },
+      {
+        status: SyncJobStatus.CANCELLED,
+        finishedAt: expect.any(Date) as unknown,
+      },
+    );
+  });
+
+  it('fails the running jobs of a mailbox left behind by a dead process', async () => {
+    await service.failInterrupted(2);
+
+    expect(repository.update).toHaveBeenCalledWith(
+      { mailboxId: 2, status: SyncJobStatus.RUNNING },
+      {
+        status: SyncJobStatus.FAILED,
+        error: 'Interrupted before completion',
+        finishedAt: expect.any(Date) as unknown,
+      },
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  SyncJob,
+  SyncJobStatus,
+  SyncJobTrigger,
+  SyncJobType,
+} from '../entities';
+
+export interface SyncCounts {
+  messagesAdded: number;
+  messagesDeleted: number;
+  messagesRelabelled: number;
+}
+
+// A failed sync is retried this many times, after these delays
+export const MAX_SYNC_RETRIES = 3;
+const RETRY_DELAYS_MS = [60_000, 300_000, 900_000];
+
+/**
+ * Delay before retrying a sync that failed on the given attempt, where
+ * attempt 1 is the original sync
+ * @returns null once the retries are used up
+ */
+export function syncRetryDelay(failedAttempt: number): number | null {
+  const retries = failedAttempt - 1;
+
+  if (retries >= MAX_SYNC_RETRIES) {
+    return null;
+  }
+
+  return RETRY_DELAYS_MS[Math.min(retries, RETRY_DELAYS_MS.length - 1)];
+}
+
+@Injectable()
+export class SyncJobService {
+  private readonly logger = new Logger(SyncJobService.name);
+
+  constructor(
+    @InjectRepository(SyncJob)
+    private readonly syncJobRepository: Repository<SyncJob>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Record a sync that is starting right now
+   */
+  async start(
+    mailboxId: number,
+    type: SyncJobType,
+    trigger: SyncJobTrigger,
+  ): Promise<SyncJob> {
+    const now = new Date();
+
+    return this.syncJobRepository.save(
+      this.syncJobRepository.create({
+        mailboxId,
+        type,
+        trigger,
+        status: SyncJobStatus.RUNNING,
+        scheduledAt: now,
+        startedAt: now,
+      }),
+    );
+  }
+
+  /**
+   * Move a pending retry to RUNNING
+   * The conditional update makes sure only one instance picks up a job
+   * @returns false when the job was already claimed or cancelled
+   */
+  async claim(job: SyncJob): Promise<boolean> {
+    const startedAt = new Date();
+
+    const result = await this.syncJobRepository.update(
+      { id: job.id, status: SyncJobStatus.PENDING },
+      { status: SyncJobStatus.RUNNING, startedAt },
+    );
+
+    if (!result.affected) {
+      return false;
+    }
+
+    job.status = SyncJobStatus.RUNNING;
+    job.startedAt = startedAt;
+    return true;
+  }
+
+  async complete(job: SyncJob, counts: SyncCounts): Promise<void> {
+    await this.syncJobRepository.update(job.id, {
+      ...counts,
+      type: job.type,
+      status: SyncJobStatus.SUCCEEDED,
+      finishedAt: new Date(),
+    });
+
+    // A successful sync makes any scheduled retry pointless
+    await this.syncJobRepository.update(
+      { mailboxId: job.mailboxId, status: SyncJobStatus.PENDING },
+      { status: SyncJobStatus.CANCELLED, finishedAt: new Date() },
+    );
+  }
+
+  async fail(job: SyncJob, error: string): Promise<void> {
+    await this.syncJobRepository.update(job.id, {
+      type: job.type,
+      status: SyncJobStatus.FAILED,
+      error,
+      finishedAt: new Date(),
+    });
+  }
+
+  async scheduleRetry(failedJob: SyncJob, scheduledAt: Date): Promise<SyncJob> {
+    return this.syncJobRepository.save(
+      this.syncJobRepository.create({
+        mailboxId: failedJob.mailboxId,
+        type: failedJob.type,
+        trigger: SyncJobTrigger.RETRY,
+        status: SyncJobStatus.PENDING,
+        attempt: failedJob.attempt + 1,
+        scheduledAt,
+      }),
+    );
+  }
+
+  async findPendingRetry(mailboxId: number): Promise<SyncJob | null> {
+    return this.syncJobRepository.findOne({
+      where: { mailboxId, status: SyncJobStatus.PENDING },
+      order: { scheduledAt: 'ASC' },
+    });
+  }
+
+  async findDueRetries(limit = 50): Promise<SyncJob[]> {
+    return this.syncJobRepository.find({
+      where: {
+        status: SyncJobStatus.PENDING,
+        scheduledAt: LessThanOrEqual(new Date()),
+      },
+      order: { scheduledAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Mailboxes waiting for a scheduled retry; polling leaves them alone
+   * so the backoff is respected
+   */
+  async findMailboxIdsWithPendingRetry(
+    mailboxIds: number[],
+  ): Promise<Set<number>> {
+    if (mailboxIds.length === 0) {
+      return new Set();
+    }
+
+    const jobs = await this.syncJobRepository.find({
+      select: { mailboxId: true },
+      where: { mailboxId: In(mailboxIds), status: SyncJobStatus.PENDING },
+    });
+
+    return new Set(jobs.map((job) => job.mailboxId));
+  }
+
+  /**
+   * Fail RUNNING jobs left behind by a process that died mid-sync
+   * Callers must hold the mailbox sync lock
+   */
+  async failInterrupted(mailboxId: number): Promise<void> {
+    await this.syncJobRepository.update(
+      { mailboxId, status: SyncJobStatus.RUNNING },
+      {
+        status: SyncJobStatus.FAILED,
+        error: 'Interrupted before completion',
+        finishedAt: new Date(),
+      },
+    );
+  }
+
+  async findByMailbox(
+    mailboxId: number,
+    page: number,
+    limit: number,
+    status?: SyncJobStatus,
+  ): Promise<[SyncJob[], number]> {
+    return this.syncJobRepository.findAndCount({
+      where: { mailboxId, ...(status && { status }) },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'prune-sync-jobs' })
+  async pruneFinishedJobs(): Promise<void> {
+    const retentionDays =
+      this.configService.get<number>('sync.jobRetentionDays') || 14;
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await this.syncJobRepository.delete({
+      status: In([
+        SyncJobStatus.SUCCEEDED,
+        SyncJobStatus.FAILED,
+        SyncJobStatus.CANCELLED,
+      ]),
+      createdAt: LessThan(cutoff),
+    });
+
+    if (result.affected) {
+      this.logger.log(`Pruned ${result.affected} sync jobs`);
+    }
+  }
+}
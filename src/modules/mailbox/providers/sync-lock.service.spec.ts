@@ -0,0 +1,110 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getDataSourceToken } from '@nestjs/typeorm';
+import { SyncLockService } from './sync-lock.service';
+
+describe('SyncLockService', () => {
+  let service: SyncLockService;
+
+  // Simulates advisory locks shared by every session on one database
+  const lockedMailboxes = new Set<number>();
+
+  const createQueryRunner = () => ({
+    connect: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(undefined),
+    query: jest.fn((sql: string, [, mailboxId]: [number, number]) => {
+      if (sql.includes('pg_try_advisory_lock')) {
+        const locked = !lockedMailboxes.has(mailboxId);
+        lockedMailboxes.add(mailboxId);
+        return Promise.resolve([{ locked }]);
+      }
+      lockedMailboxes.delete(mailboxId);
+      return Promise.resolve([{ pg_advisory_unlock: true }]);
+    }),
+  });
+
+  const mockDataSource = {
+    createQueryRunner: jest.fn(createQueryRunner),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === 'sync.concurrency' ? 2 : undefined)),
+  };
+
+  beforeEach(async () => {
+    lockedMailboxes.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncLockService,
+        { provide: getDataSourceToken(), useValue: mockDataSource },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SyncLockService>(SyncLockService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run the task and release the lock afterwards', async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    await expect(service.runExclusive(1, task)).resolves.toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(lockedMailboxes.has(1)).toBe(false);
+  });
+
+  it('should skip a mailbox locked by another instance', async () => {
+    lockedMailboxes.add(1);
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    await expect(service.runExclusive(1, task)).resolves.toBe(false);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should not run the same mailbox twice concurrently', async () => {
+    let finish!: () => void;
+    const first = service.runExclusive(
+      1,
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const second = jest.fn().mockResolvedValue(undefined);
+    await expect(service.runExclusive(1, second)).resolves.toBe(false);
+
+    finish();
+    await expect(first).resolves.toBe(true);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should release the lock when the task fails', async () => {
+    await expect(
+      service.runExclusive(1, () => Promise.reject(new Error('boom'))),
+    ).rejects.toThrow('boom');
+
+    expect(lockedMailboxes.has(1)).toBe(false);
+  });
+
+  it('should limit how many mailboxes sync at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setImmediate(resolve));
+      running--;
+    };
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((id) => service.runExclusive(id, task)),
+    );
+
+    expect(results).toEqual([true, true, true, true, true]);
+    expect(maxRunning).toBe(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { Semaphore } from '../../../common/utils/semaphore.util';
+
+// First key of the two-key advisory lock, keeps mailbox sync locks apart
+// from any other advisory locks taken on the same database
+const SYNC_LOCK_NAMESPACE = 0x6d627378;
+
+@Injectable()
+export class SyncLockService {
+  private readonly logger = new Logger(SyncLockService.name);
+  private readonly semaphore: Semaphore;
+  // Mailboxes locked by this instance, checked before touching the database
+  private readonly heldLocks = new Set<number>();
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+  ) {
+    this.semaphore = new Semaphore(
+      this.configService.get<number>('sync.concurrency') || 4,
+    );
+  }
+
+  /**
+   * Run a task while holding the sync lock for a mailbox
+   *
+   * The lock is a Postgres session-level advisory lock, so it is shared by
+   * every API instance and released automatically if the process dies.
+   * Tasks wait for a free concurrency slot but never wait for the lock itself.
+   *
+   * @returns false when another sync already holds the lock
+   */
+  async runExclusive(
+    mailboxId: number,
+    task: () => Promise<void>,
+  ): Promise<boolean> {
+    if (this.heldLocks.has(mailboxId)) {
+      return false;
+    }
+
+    return this.semaphore.run(async () => {
+      // Re-check: the lock may have been taken while waiting for a slot
+      if (this.heldLocks.has(mailboxId)) {
+        return false;
+      }
+      this.heldLocks.add(mailboxId);
+
+      const queryRunner = this.dataSource.createQueryRunner();
+
+      try {
+        await queryRunner.connect();
+
+        const [{ locked }] = (await queryRunner.query(
+          'SELECT pg_try_advisory_lock($1, $2) AS locked',
+          [SYNC_LOCK_NAMESPACE, mailboxId],
+        )) as Array<{ locked: boolean }>;
+
+        if (!locked) {
+          this.logger.debug(
+            `Mailbox ${mailboxId} is locked by another instance, skipping`,
+          );
+          return false;
+        }
+
+        try {
+          await task();
+        } finally {
+          await queryRunner
+            .query('SELECT pg_advisory_unlock($1, $2)', [
+              SYNC_LOCK_NAMESPACE,
+              mailboxId,
+            ])
+            .catch((error: Error) =>
+              this.logger.warn(
+                `Failed to release sync lock for mailbox ${mailboxId}: ${error.message}`,
+              ),
+            );
+        }
+
+        return true;
+      } finally {
+        this.heldLocks.delete(mailboxId);
+        await queryRunner.release();
+      }
+    });
+  }
+}
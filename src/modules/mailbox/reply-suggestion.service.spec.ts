@@ -0,0 +1,125 @@
+import { NotFoundException } from '@nestjs/common';
+import { Email, Mailbox, ReplyTone } from './entities';
+import { ReplySuggestionService } from './reply-suggestion.service';
+
+describe('ReplySuggestionService', () => {
+  const mailbox = { id: 1, userId: 3, email: 'me@example.com' } as Mailbox;
+
+  const email = (id: number, overrides: Partial<Email> = {}): Email =>
+    ({
+      id,
+      mailboxId: 1,
+      gmailThreadId: 'thread-1',
+      fromEmail: `sender${id}@example.com`,
+      fromName: null,
+      subject: 'Lunch',
+      snippet: null,
+      bodyText: `Body ${id}`,
+      receivedAt: new Date(`2024-01-0${id}T10:00:00.000Z`),
+      aiReplySuggestions: null,
+      ...overrides,
+    }) as Email;
+
+  const generated = {
+    language: 'de',
+    suggestions: [
+      { tone: ReplyTone.FORMAL, text: 'Vielen Dank, ich komme gerne.' },
+      { tone: ReplyTone.FRIENDLY, text: 'Super, bin dabei!' },
+      { tone: ReplyTone.BRIEF, text: 'Passt.' },
+    ],
+  };
+
+  const emailRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const mailboxRepository = { findOne: jest.fn() };
+  const aiService = { suggestReplies: jest.fn() };
+  const composeService = { draftReply: jest.fn() };
+
+  let service: ReplySuggestionService;
+
+  beforeEach(() => {
+    service = new ReplySuggestionService(
+      emailRepository as never,
+      mailboxRepository as never,
+      aiService as never,
+      composeService as never,
+    );
+    mailboxRepository.findOne.mockResolvedValue(mailbox);
+    aiService.suggestReplies.mockResolvedValue(generated);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('generates suggestions from the thread so far and caches them', async () => {
+    const target = email(3);
+    emailRepository.findOne.mockResolvedValue(target);
+    emailRepository.find.mockResolvedValue([target, email(2), email(1)]);
+
+    const result = await service.getSuggestions(3, 3);
+
+    expect(aiService.suggestReplies).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ content: 'Body 1' }),
+        expect.objectContaining({ content: 'Body 2' }),
+        expect.objectContaining({ content: 'Body 3' }),
+      ],
+      'me@example.com',
+    );
+    const [, changes] = emailRepository.update.mock.lastCall as [
+      number,
+      Pick<Email, 'aiReplySuggestions'>,
+    ];
+    expect(changes.aiReplySuggestions).toMatchObject(generated);
+    expect(result).toMatchObject({ emailId: 3, language: 'de', cached: false });
+  });
+
+  it('returns cached suggestions', async () => {
+    emailRepository.findOne.mockResolvedValue(
+      email(3, {
+        aiReplySuggestions: {
+          ...generated,
+          generatedAt: '2024-01-03T11:00:00.000Z',
+        },
+      }),
+    );
+
+    const result = await service.getSuggestions(3, 3);
+
+    expect(aiService.suggestReplies).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      cached: true,
+      generatedAt: new Date('2024-01-03T11:00:00.000Z'),
+    });
+  });
+
+  it('drafts the suggestion of the chosen tone', async () => {
+    emailRepository.findOne.mockResolvedValue(
+      email(3, {
+        aiReplySuggestions: { ...generated, generatedAt: '2024-01-03' },
+      }),
+    );
+
+    await service.createDraft(3, 3, { tone: ReplyTone.BRIEF });
+
+    expect(composeService.draftReply).toHaveBeenCalledWith(
+      3,
+      3,
+      'Passt.',
+      false,
+    );
+  });
+
+  it("does not show other users' emails", async () => {
+    emailRepository.findOne.mockResolvedValue(email(3));
+    mailboxRepository.findOne.mockResolvedValue(null);
+
+    await expect(service.getSuggestions(4, 3)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
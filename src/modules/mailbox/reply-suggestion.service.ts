@@ -0,0 +1,161 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { ComposeService } from './compose.service';
+import {
+  DraftReplySuggestionDto,
+  DraftResponseDto,
+  ReplySuggestionsDto,
+} from './dto';
+import { Email, Mailbox, ReplySuggestions } from './entities';
+import { AiService } from './providers/ai.service';
+
+// Earlier messages of the thread given to the model as context
+const THREAD_CONTEXT_SIZE = 10;
+
+/**
+ * Short contextual replies to an email (PRD FR-3.4), cached on the email
+ */
+@Injectable()
+export class ReplySuggestionService {
+  private readonly logger = new Logger(ReplySuggestionService.name);
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly aiService: AiService,
+    private readonly composeService: ComposeService,
+  ) {}
+
+  /**
+   * One reply per tone, from the cache unless refresh is set
+   */
+  async getSuggestions(
+    userId: number,
+    emailId: number,
+    refresh = false,
+  ): Promise<ReplySuggestionsDto> {
+    const { email, mailbox } = await this.getEmail(userId, emailId);
+
+    if (email.aiReplySuggestions && !refresh) {
+      return this.toDto(email.id, email.aiReplySuggestions, true);
+    }
+
+    if (!email.bodyText && !email.snippet && !email.subject) {
+      throw new NotFoundException(
+        `Email ${emailId} has no content to reply to`,
+      );
+    }
+
+    const thread = await this.emailRepository.find({
+      where: {
+        mailboxId: email.mailboxId,
+        gmailThreadId: email.gmailThreadId,
+        receivedAt: LessThanOrEqual(email.receivedAt),
+        deletedAt: IsNull(),
+      },
+      order: { receivedAt: 'DESC' },
+      take: THREAD_CONTEXT_SIZE,
+    });
+
+    // The email itself goes last even if another shares its timestamp
+    const history = thread.filter((e) => e.id !== email.id).reverse();
+
+    const messages = [...history, email]
+      .map((message) => ({
+        from: message.fromName
+          ? `${message.fromName} <${message.fromEmail}>`
+          : message.fromEmail,
+        sentAt: message.receivedAt,
+        content: message.bodyText || message.snippet || message.subject || '',
+      }))
+      .filter((message) => message.content);
+
+    const { language, suggestions } = await this.aiService.suggestReplies(
+      messages,
+      mailbox.email,
+    );
+
+    const cached: ReplySuggestions = {
+      language,
+      suggestions,
+      generatedAt: new Date().toISOString(),
+    };
+    await this.emailRepository.update(email.id, {
+      aiReplySuggestions: cached,
+    });
+
+    this.logger.log(
+      `Generated ${suggestions.length} reply suggestions for email ${emailId}`,
+    );
+
+    return this.toDto(email.id, cached, false);
+  }
+
+  /**
+   * Save the suggestion of the chosen tone, or the user's edit of it, as a
+   * reply draft
+   */
+  async createDraft(
+    userId: number,
+    emailId: number,
+    dto: DraftReplySuggestionDto,
+  ): Promise<DraftResponseDto> {
+    let body = dto.body;
+
+    if (!body) {
+      const { suggestions } = await this.getSuggestions(userId, emailId);
+      body = suggestions.find((s) => s.tone === dto.tone)?.text;
+
+      if (!body) {
+        throw new NotFoundException(
+          `No ${dto.tone} suggestion for email ${emailId}`,
+        );
+      }
+    }
+
+    return this.composeService.draftReply(
+      userId,
+      emailId,
+      body,
+      dto.replyAll ?? false,
+    );
+  }
+
+  private async getEmail(
+    userId: number,
+    emailId: number,
+  ): Promise<{ email: Email; mailbox: Mailbox }> {
+    const email = await this.emailRepository.findOne({
+      where: { id: emailId, deletedAt: IsNull() },
+    });
+
+    const mailbox = email
+      ? await this.mailboxRepository.findOne({
+          where: { id: email.mailboxId, userId, deletedAt: IsNull() },
+        })
+      : null;
+
+    if (!email || !mailbox) {
+      throw new NotFoundException(`Email with ID ${emailId} not found`);
+    }
+
+    return { email, mailbox };
+  }
+
+  private toDto(
+    emailId: number,
+    cached: ReplySuggestions,
+    fromCache: boolean,
+  ): ReplySuggestionsDto {
+    return {
+      emailId,
+      language: cached.language,
+      suggestions: cached.suggestions,
+      generatedAt: new Date(cached.generatedAt),
+      cached: fromCache,
+    };
+  }
+}
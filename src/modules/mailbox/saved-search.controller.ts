@@ -0,0 +1,142 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import {
+  CreateSavedSearchDto,
+  SavedSearchDto,
+  SavedSearchListQueryDto,
+  UpdateSavedSearchDto,
+} from './dto';
+import { SavedSearchService } from './saved-search.service';
+
+@ApiTags('Saved Searches')
+@ApiBearerAuth()
+@Controller('saved-searches')
+export class SavedSearchController {
+  constructor(private readonly savedSearchService: SavedSearchService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List saved searches',
+    description:
+      'Returns the saved searches by name with live unread and total ' +
+      'counts. List the emails of one with GET /emails?savedSearchId=.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of saved searches',
+    type: [SavedSearchDto],
+  })
+  async findAll(
+    @CurrentUser() user: User,
+    @Query() query: SavedSearchListQueryDto,
+  ): Promise<SavedSearchDto[]> {
+    return this.savedSearchService.findAll(user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a saved search' })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: SavedSearchDto })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Saved search not found',
+  })
+  async findOne(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<SavedSearchDto> {
+    return this.savedSearchService.findOne(user.id, id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Save a search',
+    description:
+      'Stores a search query and filters of GET /emails under a name. ' +
+      'Pinned searches are meant for the sidebar.',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, type: SavedSearchDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid query, or neither a query nor filters',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'A saved search with this name already exists',
+  })
+  async create(
+    @CurrentUser() user: User,
+    @Body() dto: CreateSavedSearchDto,
+  ): Promise<SavedSearchDto> {
+    return this.savedSearchService.create(user.id, dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a saved search',
+    description: 'filters are replaced as a whole when given',
+  })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: SavedSearchDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid query, or neither a query nor filters',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Saved search or mailbox not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'A saved search with this name already exists',
+  })
+  async update(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateSavedSearchDto,
+  ): Promise<SavedSearchDto> {
+    return this.savedSearchService.update(user.id, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a saved search',
+    description: 'Kanban columns showing it become plain columns',
+  })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Saved search deleted',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Saved search not found',
+  })
+  async remove(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.savedSearchService.remove(user.id, id);
+  }
+}
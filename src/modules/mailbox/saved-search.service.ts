@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import {
+  CreateSavedSearchDto,
+  SavedSearchDto,
+  UpdateSavedSearchDto,
+} from './dto';
+import { EmailService } from './email.service';
+import { Mailbox, SavedSearch, SavedSearchFilters } from './entities';
+
+/**
+ * Named searches that work as virtual folders: GET /emails with
+ * savedSearchId lists their emails, and Kanban columns can show them
+ */
+@Injectable()
+export class SavedSearchService {
+  private readonly logger = new Logger(SavedSearchService.name);
+
+  constructor(
+    @InjectRepository(SavedSearch)
+    private readonly savedSearchRepository: Repository<SavedSearch>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * The user's saved searches by name, with their current counts
+   * @param options.pinned only the ones pinned to the sidebar
+   */
+  async findAll(
+    userId: number,
+    options: { pinned?: boolean } = {},
+  ): Promise<SavedSearchDto[]> {
+    const searches = await this.savedSearchRepository.find({
+      where: { userId, ...(options.pinned && { isPinned: true }) },
+      order: { name: 'ASC' },
+    });
+    const mailboxIds = await this.getUserMailboxIds(userId);
+
+    return Promise.all(
+      searches.map((search) => this.toDto(search, mailboxIds)),
+    );
+  }
+
+  async findOne(userId: number, searchId: number): Promise<SavedSearchDto> {
+    return this.toDto(
+      await this.findSearch(userId, searchId),
+      await this.getUserMailboxIds(userId),
+    );
+  }
+
+  async create(
+    userId: number,
+    dto: CreateSavedSearchDto,
+  ): Promise<SavedSearchDto> {
+    const search = this.savedSearchRepository.create({
+      userId,
+      name: dto.name,
+      query: dto.query?.trim() || null,
+      filters: this.compactFilters(dto.filters ?? {}),
+      isPinned: dto.isPinned ?? false,
+    });
+
+    await this.validateSearch(search);
+    const saved = await this.savedSearchRepository.save(search);
+    this.logger.log(`Created saved search ${saved.id} for user ${userId}`);
+
+    return this.findOne(userId, saved.id);
+  }
+
+  async update(
+    userId: number,
+    searchId: number,
+    dto: UpdateSavedSearchDto,
+  ): Promise<SavedSearchDto> {
+    const search = await this.findSearch(userId, searchId);
+
+    if (dto.name !== undefined) search.name = dto.name;
+    if (dto.query !== undefined) search.query = dto.query.trim() || null;
+    if (dto.filters !== undefined) {
+      search.filters = this.compactFilters(dto.filters);
+    }
+    if (dto.isPinned !== undefined) search.isPinned = dto.isPinned;
+
+    await this.validateSearch(search);
+    await this.savedSearchRepository.save(search);
+
+    return this.findOne(userId, searchId);
+  }
+
+  /**
+   * Kanban columns that showed the search become plain columns
+   */
+  async remove(userId: number, searchId: number): Promise<void> {
+    const search = await this.findSearch(userId, searchId);
+    await this.savedSearchRepository.remove(search);
+  }
+
+  private async findSearch(
+    userId: number,
+    searchId: number,
+  ): Promise<SavedSearch> {
+    const search = await this.savedSearchRepository.findOne({
+      where: { id: searchId, userId },
+    });
+
+    if (!search) {
+      throw new NotFoundException(`Saved search ${searchId} not found`);
+    }
+
+    return search;
+  }
+
+  /**
+   * @throws BadRequestException for an invalid or empty search
+   * @throws NotFoundException when the mailbox is not the user's
+   * @throws ConflictException when the name is taken
+   */
+  private async validateSearch(search: SavedSearch): Promise<void> {
+    if (!search.query && Object.keys(search.filters).length === 0) {
+      throw new BadRequestException(
+        'A saved search needs a query or at least one filter',
+      );
+    }
+
+    if (search.query) {
+      this.emailService.parseSearch(search.query);
+    }
+
+    const { mailboxId } = search.filters;
+    if (mailboxId) {
+      const mailbox = await this.mailboxRepository.findOne({
+        where: { id: mailboxId, userId: search.userId, deletedAt: IsNull() },
+      });
+
+      if (!mailbox) {
+        throw new NotFoundException(`Mailbox ${mailboxId} not found`);
+      }
+    }
+
+    const duplicate = await this.savedSearchRepository.findOne({
+      where: {
+        userId: search.userId,
+        name: search.name,
+        ...(search.id && { id: Not(search.id) }),
+      },
+    });
+
+    if (duplicate) {
+      throw new ConflictException(
+        `Saved search with name "${search.name}" already exists`,
+      );
+    }
+  }
+
+  private compactFilters(filters: SavedSearchFilters): SavedSearchFilters {
+    return Object.fromEntries(
+      Object.entries(filters).filter(
+        ([, value]) => value !== undefined && value !== null,
+      ),
+    );
+  }
+
+  private async getUserMailboxIds(userId: number): Promise<number[]> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+      select: ['id'],
+    });
+    return mailboxes.map((m) => m.id);
+  }
+
+  /**
+   * Counts are taken on every call, so a sidebar folder always shows how
+   * much unread mail the search finds right now
+   */
+  private async toDto(
+    search: SavedSearch,
+    mailboxIds: number[],
+  ): Promise<SavedSearchDto> {
+    const qb =
+      mailboxIds.length > 0
+        ? this.emailService.buildFilteredQuery(mailboxIds, {
+            ...search.filters,
+            search: search.query ?? undefined,
+          })
+        : null;
+
+    const counts = qb
+      ? await qb
+          .select('COUNT(*)', 'total')
+          .addSelect('COUNT(*) FILTER (WHERE email.isRead = false)', 'unread')
+          .getRawOne<{ total: string; unread: string }>()
+      : undefined;
+
+    return {
+      id: search.id,
+      name: search.name,
+      query: search.query,
+      filters: search.filters,
+      isPinned: search.isPinned,
+      unreadCount: Number(counts?.unread ?? 0),
+      totalCount: Number(counts?.total ?? 0),
+      createdAt: search.createdAt,
+      updatedAt: search.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import { SearchHistoryEntryDto, SearchHistoryQueryDto } from './dto';
+import { SearchHistoryService } from './search-history.service';
+
+@ApiTags('Search History')
+@ApiBearerAuth()
+@Controller('search-history')
+export class SearchHistoryController {
+  constructor(private readonly searchHistoryService: SearchHistoryService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List recent searches',
+    description:
+      'Queries sent to any search endpoint, most recent first. Each query ' +
+      'is listed once.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Recent searches',
+    type: [SearchHistoryEntryDto],
+  })
+  async findAll(
+    @CurrentUser() user: User,
+    @Query() query: SearchHistoryQueryDto,
+  ): Promise<SearchHistoryEntryDto[]> {
+    return this.searchHistoryService.findRecent(user.id, query.limit ?? 20);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Clear the search history' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'History cleared',
+  })
+  async clear(@CurrentUser() user: User): Promise<void> {
+    await this.searchHistoryService.clear(user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a search from the history' })
+  @ApiParam({ name: 'id', description: 'Search history entry ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Search removed' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Search history entry not found',
+  })
+  async remove(
+    @CurrentUser() user: User,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.searchHistoryService.remove(user.id, id);
+  }
+}
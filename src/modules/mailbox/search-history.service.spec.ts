@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import { In } from 'typeorm';
+import { SearchHistoryService } from './search-history.service';
+
+describe('SearchHistoryService', () => {
+  const repository = {
+    upsert: jest.fn(),
+    find: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  let service: SearchHistoryService;
+
+  beforeEach(() => {
+    service = new SearchHistoryService(
+      repository as never,
+      new ConfigService({ search: { historyLimit: 2 } }),
+    );
+    repository.find.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('stores the query once, with whitespace collapsed', async () => {
+      await service.record(1, '  from:alice   invoice ');
+
+      expect(repository.upsert).toHaveBeenCalledWith(
+        {
+          userId: 1,
+          query: 'from:alice invoice',
+          lastSearchedAt: expect.any(Date) as unknown,
+        },
+        ['userId', 'query'],
+      );
+    });
+
+    it('skips empty queries and later pages', async () => {
+      await service.record(1, '   ');
+      await service.record(1, 'invoice', 2);
+
+      expect(repository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('drops the oldest entries beyond the limit', async () => {
+      repository.find.mockResolvedValue([{ id: 7 }, { id: 3 }]);
+
+      await service.record(1, 'invoice');
+
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: 2 }),
+      );
+      expect(repository.delete).toHaveBeenCalledWith({ id: In([7, 3]) });
+    });
+
+    it('does not fail the search when history cannot be written', async () => {
+      repository.upsert.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.record(1, 'invoice')).resolves.toBeUndefined();
+    });
+  });
+});
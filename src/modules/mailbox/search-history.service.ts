@@ -0,0 +1,100 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ILike, In, Repository } from 'typeorm';
+import { SearchHistoryEntryDto } from './dto';
+import { SearchHistory } from './entities';
+
+@Injectable()
+export class SearchHistoryService {
+  private readonly logger = new Logger(SearchHistoryService.name);
+
+  constructor(
+    @InjectRepository(SearchHistory)
+    private readonly searchHistoryRepository: Repository<SearchHistory>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Remember a query the user searched for; searching for it again moves
+   * it to the top, and only the latest search.historyLimit are kept
+   * Later pages of the same search are not recorded. Never throws, so
+   * history cannot fail a search
+   */
+  async record(
+    userId: number,
+    query: string | undefined,
+    page = 1,
+  ): Promise<void> {
+    const normalized = query?.trim().replace(/\s+/g, ' ');
+    if (!normalized || page !== 1) {
+      return;
+    }
+
+    try {
+      await this.searchHistoryRepository.upsert(
+        { userId, query: normalized, lastSearchedAt: new Date() },
+        ['userId', 'query'],
+      );
+
+      const stale = await this.searchHistoryRepository.find({
+        select: { id: true },
+        where: { userId },
+        order: { lastSearchedAt: 'DESC', id: 'DESC' },
+        skip: this.configService.get<number>('search.historyLimit') ?? 50,
+      });
+      if (stale.length > 0) {
+        await this.searchHistoryRepository.delete({
+          id: In(stale.map((entry) => entry.id)),
+        });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not record a search of user ${userId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Most recent queries first
+   * @param contains only queries containing this text
+   */
+  async findRecent(
+    userId: number,
+    limit: number,
+    contains?: string,
+  ): Promise<SearchHistoryEntryDto[]> {
+    const entries = await this.searchHistoryRepository.find({
+      where: {
+        userId,
+        ...(contains && {
+          query: ILike(`%${contains.replace(/[\\%_]/g, '\\$&')}%`),
+        }),
+      },
+      order: { lastSearchedAt: 'DESC', id: 'DESC' },
+      take: limit,
+    });
+
+    return entries.map((entry) => ({
+      id: entry.id,
+      query: entry.query,
+      lastSearchedAt: entry.lastSearchedAt,
+    }));
+  }
+
+  async remove(userId: number, entryId: number): Promise<void> {
+    const result = await this.searchHistoryRepository.delete({
+      id: entryId,
+      userId,
+    });
+
+    if (!result.affected) {
+      throw new NotFoundException(`Search history entry ${entryId} not found`);
+    }
+  }
+
+  async clear(userId: number): Promise<void> {
+    await this.searchHistoryRepository.delete({ userId });
+    this.logger.log(`Cleared search history of user ${userId}`);
+  }
+}
@@ -0,0 +1,190 @@
+import { ConfigService } from '@nestjs/config';
+import { SearchRetriever } from './dto';
+import { Email } from './entities';
+import { fuseRankings, RRF_K, SearchService } from './search.service';
+
+describe('fuseRankings', () => {
+  const equal = {
+    [SearchRetriever.KEYWORD]: 1,
+    [SearchRetriever.FULL_TEXT]: 1,
+    [SearchRetriever.SEMANTIC]: 1,
+  };
+
+  it('ranks emails found by several retrievers first', () => {
+    const fused = fuseRankings(
+      {
+        [SearchRetriever.KEYWORD]: [1, 2],
+        [SearchRetriever.FULL_TEXT]: [3, 2],
+        [SearchRetriever.SEMANTIC]: [2],
+      },
+      equal,
+    );
+
+    expect(fused.map((hit) => hit.emailId)).toEqual([2, 3, 1]);
+    expect(fused[0]).toEqual({
+      emailId: 2,
+      score: 2 / (RRF_K + 2) + 1 / (RRF_K + 1),
+      matchedBy: [
+        SearchRetriever.KEYWORD,
+        SearchRetriever.FULL_TEXT,
+        SearchRetriever.SEMANTIC,
+      ],
+    });
+  });
+
+  it('applies weights and ignores retrievers weighted 0', () => {
+    const fused = fuseRankings(
+      {
+        [SearchRetriever.KEYWORD]: [1],
+        [SearchRetriever.SEMANTIC]: [2],
+        [SearchRetriever.FULL_TEXT]: [3],
+      },
+      {
+        ...equal,
+        [SearchRetriever.SEMANTIC]: 2,
+        [SearchRetriever.FULL_TEXT]: 0,
+      },
+    );
+
+    expect(fused.map((hit) => hit.emailId)).toEqual([2, 1]);
+  });
+});
+
+describe('SearchService', () => {
+  const email = (id: number) => ({ id, subject: `Email ${id}` }) as Email;
+
+  const emailRepository = { find: jest.fn() };
+  const mailboxRepository = { find: jest.fn() };
+  const emailService = {
+    withSavedSearch: jest.fn((_userId: number, query: unknown) =>
+      Promise.resolve(query),
+    ),
+    buildFilteredQuery: jest.fn(),
+    toSummaryDto: jest.fn((e: Email) => ({ id: e.id, subject: e.subject })),
+  };
+  const embeddingService = { embedQuery: jest.fn() };
+
+  // Results per retriever, told apart by the condition each one adds
+  const idsFor = (condition: string): number[] => {
+    if (condition.includes('searchVector')) return [3, 1];
+    if (condition.includes('embedding')) return [1];
+    return [1, 2];
+  };
+
+  const queryBuilder = () => {
+    let condition = '';
+    const qb: Record<string, jest.Mock> = {};
+    const chain = () => qb;
+
+    qb.select = jest.fn(chain);
+    qb.andWhere = jest.fn((where: string) => {
+      condition += where;
+      return qb;
+    });
+    qb.orderBy = jest.fn(chain);
+    qb.addOrderBy = jest.fn(chain);
+    qb.limit = jest.fn(chain);
+    qb.getRawMany = jest.fn(() =>
+      Promise.resolve(idsFor(condition).map((id) => ({ id }))),
+    );
+    return qb;
+  };
+
+  let service: SearchService;
+
+  beforeEach(() => {
+    service = new SearchService(
+      emailRepository as never,
+      mailboxRepository as never,
+      emailService as never,
+      embeddingService as never,
+      new ConfigService({ search: { minSimilarity: 0.5 } }),
+    );
+
+    mailboxRepository.find.mockResolvedValue([{ id: 1 }]);
+    emailService.buildFilteredQuery.mockImplementation(queryBuilder);
+    emailRepository.find.mockImplementation(() =>
+      Promise.resolve([email(2), email(1), email(3)]),
+    );
+    embeddingService.embedQuery.mockResolvedValue({
+      vector: '[0.1,0.2]',
+      model: 'stub-embedding',
+      dimensions: 2,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('merges every retriever and says which ones matched', async () => {
+    const result = await service.search(3, { q: 'invoice', isRead: false });
+
+    expect(emailService.buildFilteredQuery).toHaveBeenCalledWith([1], {
+      q: 'invoice',
+      isRead: false,
+    });
+    expect(result.data.map((hit) => [hit.id, hit.matchedBy])).toEqual([
+      [
+        1,
+        [
+          SearchRetriever.KEYWORD,
+          SearchRetriever.FULL_TEXT,
+          SearchRetriever.SEMANTIC,
+        ],
+      ],
+      [3, [SearchRetriever.FULL_TEXT]],
+      [2, [SearchRetriever.KEYWORD]],
+    ]);
+    expect(result.meta).toMatchObject({ totalResults: 3, totalPages: 1 });
+  });
+
+  it("compares the query only with embeddings of the query's model", async () => {
+    const builders: Record<string, jest.Mock>[] = [];
+    emailService.buildFilteredQuery.mockImplementation(() => {
+      const qb = queryBuilder();
+      builders.push(qb);
+      return qb;
+    });
+
+    await service.search(3, { q: 'invoice' });
+
+    const semantic = builders.find((qb) =>
+      qb.andWhere.mock.calls.some(([where]) =>
+        String(where).includes('embeddingModel'),
+      ),
+    );
+    expect(semantic?.andWhere).toHaveBeenCalledWith(
+      'email.embeddingModel = :model',
+      { model: 'stub-embedding' },
+    );
+    expect(semantic?.orderBy).toHaveBeenCalledWith(
+      '(CAST(email.embedding AS vector(2)) <=> CAST(:vector AS vector(2)))',
+      'ASC',
+    );
+  });
+
+  it('searches without the semantic retriever when embedding fails', async () => {
+    embeddingService.embedQuery.mockRejectedValue(new Error('offline'));
+
+    const result = await service.search(3, { q: 'invoice' });
+
+    expect(result.meta.retrievers).not.toContain(SearchRetriever.SEMANTIC);
+    expect(result.data).toHaveLength(3);
+  });
+
+  it('does not embed the query when semantic search is weighted 0', async () => {
+    await service.search(3, { q: 'invoice', semanticWeight: 0 });
+
+    expect(embeddingService.embedQuery).not.toHaveBeenCalled();
+  });
+
+  it('returns nothing for a mailbox of another user', async () => {
+    emailService.buildFilteredQuery.mockReturnValue(null);
+
+    const result = await service.search(3, { q: 'invoice', mailboxId: 9 });
+
+    expect(result.data).toEqual([]);
+    expect(emailRepository.find).not.toHaveBeenCalled();
+  });
+});
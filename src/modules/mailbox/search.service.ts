@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import {
+  HybridSearchDto,
+  HybridSearchResponseDto,
+  SearchRetriever,
+} from './dto';
+import { EmailService } from './email.service';
+import { Email, Mailbox } from './entities';
+import {
+  cosineDistanceSql,
+  Embedding,
+  EmbeddingService,
+} from './providers/embedding.service';
+
+// Emails each retriever contributes to the fusion; also bounds how deep
+// results can be paged
+const CANDIDATES_PER_RETRIEVER = 200;
+
+// Damping constant of reciprocal rank fusion (Cormack et al., 2009)
+export const RRF_K = 60;
+
+export interface FusedHit {
+  emailId: number;
+  score: number;
+  matchedBy: SearchRetriever[];
+}
+
+/**
+ * Reciprocal rank fusion: every retriever adds weight / (k + rank) for each
+ * email it found, rank 1 being its best match
+ * Ties go to the email more retrievers agree on, then the newer one
+ */
+export function fuseRankings(
+  rankings: Partial<Record<SearchRetriever, number[]>>,
+  weights: Record<SearchRetriever, number>,
+  k = RRF_K,
+): FusedHit[] {
+  const hits = new Map<number, FusedHit>();
+
+  for (const retriever of Object.values(SearchRetriever)) {
+    const ids = rankings[retriever];
+    if (!ids || weights[retriever] <= 0) continue;
+
+    ids.forEach((emailId, index) => {
+      const hit = hits.get(emailId) ?? { emailId, score: 0, matchedBy: [] };
+      hit.score += weights[retriever] / (k + index + 1);
+      hit.matchedBy.push(retriever);
+      hits.set(emailId, hit);
+    });
+  }
+
+  return [...hits.values()].sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.matchedBy.length - a.matchedBy.length ||
+      b.emailId - a.emailId,
+  );
+}
+
+/**
+ * Hybrid search (PRD 2.4): trigram, full-text and vector retrieval over
+ * the same filtered set of emails, merged with reciprocal rank fusion
+ */
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly emailService: EmailService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async search(
+    userId: number,
+    dto: HybridSearchDto,
+  ): Promise<HybridSearchResponseDto> {
+    const startedAt = Date.now();
+    const { page = 1, limit = 20 } = dto;
+    const q = dto.q.trim();
+    const weights = this.resolveWeights(dto);
+
+    const mailboxIds = (
+      await this.mailboxRepository.find({
+        where: { userId, deletedAt: IsNull() },
+        select: ['id'],
+      })
+    ).map((mailbox) => mailbox.id);
+
+    const filters = await this.emailService.withSavedSearch(userId, dto);
+    const filtered = () =>
+      this.emailService.buildFilteredQuery(mailboxIds, filters);
+
+    const rankings: Partial<Record<SearchRetriever, number[]>> = {};
+
+    if (mailboxIds.length > 0 && q && filtered()) {
+      const active = Object.values(SearchRetriever).filter(
+        (retriever) => weights[retriever] > 0,
+      );
+
+      // Each retriever is a separate query, so they run side by side
+      await Promise.all(
+        active.map(async (retriever) => {
+          const ids = await this.retrieve(retriever, q, filtered);
+          if (ids) {
+            rankings[retriever] = ids;
+          }
+        }),
+      );
+    }
+
+    const fused = fuseRankings(rankings, weights);
+    const pageHits = fused.slice((page - 1) * limit, page * limit);
+
+    const emails = pageHits.length
+      ? await this.emailRepository.find({
+          where: { id: In(pageHits.map((hit) => hit.emailId)) },
+          withDeleted: dto.includeDeleted,
+        })
+      : [];
+    const emailsById = new Map(emails.map((email) => [email.id, email]));
+
+    const tookMs = Date.now() - startedAt;
+    this.logger.log(
+      `Hybrid search for "${q}" found ${fused.length} results in ${tookMs}ms`,
+    );
+
+    return {
+      data: pageHits
+        .filter((hit) => emailsById.has(hit.emailId))
+        .map((hit) => ({
+          ...this.emailService.toSummaryDto(emailsById.get(hit.emailId)!),
+          score: hit.score,
+          matchedBy: hit.matchedBy,
+        })),
+      meta: {
+        query: q,
+        retrievers: Object.keys(rankings) as SearchRetriever[],
+        totalResults: fused.length,
+        page,
+        limit,
+        totalPages: Math.ceil(fused.length / limit),
+        tookMs,
+      },
+    };
+  }
+
+  private resolveWeights(
+    dto: HybridSearchDto,
+  ): Record<SearchRetriever, number> {
+    const configured = (key: string) =>
+      this.configService.get<number>(`search.${key}`) ?? 1;
+
+    return {
+      [SearchRetriever.KEYWORD]:
+        dto.keywordWeight ?? configured('keywordWeight'),
+      [SearchRetriever.FULL_TEXT]:
+        dto.fullTextWeight ?? configured('fullTextWeight'),
+      [SearchRetriever.SEMANTIC]:
+        dto.semanticWeight ?? configured('semanticWeight'),
+    };
+  }
+
+  /**
+   * Best matching email IDs of one retriever, best first; null when the
+   * retriever could not run
+   */
+  private async retrieve(
+    retriever: SearchRetriever,
+    q: string,
+    filtered: () => ReturnType<EmailService['buildFilteredQuery']>,
+  ): Promise<number[] | null> {
+    const qb = filtered();
+    if (!qb) {
+      return null;
+    }
+
+    qb.select('email.id', 'id');
+
+    switch (retriever) {
+      case SearchRetriever.KEYWORD:
+        // % and ILIKE are served by the trigram indexes
+        qb.andWhere(
+          `(email.subject % :q OR email."fromName" % :q
+            OR email.subject ILIKE :pattern OR email."fromName" ILIKE :pattern
+            OR email."fromEmail" ILIKE :pattern)`,
+          { q, pattern: `%${q}%` },
+        ).orderBy(
+          `GREATEST(
+            COALESCE(word_similarity(:q, email.subject), 0),
+            COALESCE(word_similarity(:q, email."fromName"), 0),
+            COALESCE(word_similarity(:q, email."fromEmail"), 0)
+          )`,
+          'DESC',
+        );
+        break;
+
+      case SearchRetriever.FULL_TEXT:
+        // websearch syntax: "exact phrase", or, -exclude
+        qb.andWhere(
+          `email."searchVector" @@ websearch_to_tsquery('english', :q)`,
+          { q },
+        ).orderBy(
+          `ts_rank(email."searchVector", websearch_to_tsquery('english', :q))`,
+          'DESC',
+        );
+        break;
+
+      case SearchRetriever.SEMANTIC: {
+        const embedding = await this.embedQuery(q);
+        if (!embedding) {
+          return null;
+        }
+
+        // Only embeddings of the query's model are comparable
+        const distance = cosineDistanceSql(':vector', embedding.dimensions);
+        qb.andWhere('email.embeddingModel = :model', {
+          model: embedding.model,
+        })
+          .andWhere('email.embedding IS NOT NULL')
+          .andWhere(`1 - ${distance} >= :minSimilarity`, {
+            vector: embedding.vector,
+            minSimilarity:
+              this.configService.get<number>('search.minSimilarity') ?? 0.5,
+          })
+          .orderBy(distance, 'ASC');
+        break;
+      }
+    }
+
+    const rows = await qb
+      .addOrderBy('email.id', 'DESC')
+      .limit(CANDIDATES_PER_RETRIEVER)
+      .getRawMany<{ id: number }>();
+
+    return rows.map((row) => Number(row.id));
+  }
+
+  /**
+   * Search goes on without the semantic retriever when the embedding
+   * model is unavailable
+   */
+  private async embedQuery(q: string): Promise<Embedding | null> {
+    try {
+      return await this.embeddingService.embedQuery(q);
+    } catch (error) {
+      this.logger.warn(
+        `Semantic retrieval skipped for "${q}": ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,478 @@
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeGraphMessage {
+  id: string;
+  folderId: string;
+  conversationId: string;
+  internetMessageId: string;
+  subject: string;
+  body: string;
+  from: string;
+  to: string[];
+  receivedDateTime: string;
+  isRead: boolean;
+  flagStatus: 'notFlagged' | 'flagged';
+  importance: 'low' | 'normal' | 'high';
+  categories: string[];
+  attachments: Array<{ id: string; name: string; content: Buffer }>;
+  // Change counter value of the last modification, drives delta queries
+  version: number;
+}
+
+interface FakeGraphFolder {
+  id: string;
+  displayName: string;
+  parentFolderId: string | null;
+  wellKnownName?: string;
+}
+
+/**
+ * In-memory stand-in for the Microsoft Graph mail API and the Microsoft
+ * identity token endpoint, covering the calls OutlookService makes
+ * Point microsoftOAuth.graphBaseUrl at graphBaseUrl and
+ * microsoftOAuth.loginBaseUrl at loginBaseUrl
+ */
+export class FakeGraphServer {
+  readonly folders: FakeGraphFolder[] = [
+    'inbox',
+    'sentitems',
+    'drafts',
+    'deleteditems',
+    'junkemail',
+    'archive',
+    'outbox',
+  ].map((wellKnownName) => ({
+    id: `folder-${wellKnownName}`,
+    displayName: wellKnownName,
+    parentFolderId: null,
+    wellKnownName,
+  }));
+  readonly messages = new Map<string, FakeGraphMessage>();
+  readonly categories = ['Red category', 'Clients'];
+  readonly account = 'user@contoso.onmicrosoft.com';
+
+  // Messages that left a folder, reported as @removed by delta queries
+  private readonly removals: Array<{
+    id: string;
+    folderId: string;
+    version: number;
+  }> = [];
+  private version = 0;
+  // Delta tokens below this version are answered with 410 Gone
+  private minDeltaVersion = 0;
+  private server: Server | null = null;
+  private baseUrl = '';
+
+  get graphBaseUrl(): string {
+    return `${this.baseUrl}/v1.0`;
+  }
+
+  get loginBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error: Error) =>
+        this.send(res, 500, {
+          error: { code: 'Stub', message: error.message },
+        }),
+      );
+    });
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  addFolder(displayName: string, parentFolderId: string | null = null): string {
+    const id = `folder-${randomUUID()}`;
+    this.folders.push({ id, displayName, parentFolderId });
+    return id;
+  }
+
+  /**
+   * Deliver a message as if it arrived in the given folder
+   */
+  deliver(
+    message: Partial<FakeGraphMessage> & { subject: string },
+    folderId = 'folder-inbox',
+  ): FakeGraphMessage {
+    const id = randomUUID();
+    const stored: FakeGraphMessage = {
+      conversationId: `conv-${id}`,
+      internetMessageId: `<${id}@contoso.com>`,
+      body: `<p>${message.subject}</p>`,
+      from: 'sender@contoso.com',
+      to: [this.account],
+      receivedDateTime: new Date().toISOString(),
+      isRead: false,
+      flagStatus: 'notFlagged',
+      importance: 'normal',
+      categories: [],
+      attachments: [],
+      ...message,
+      id,
+      folderId,
+      version: ++this.version,
+    };
+    this.messages.set(id, stored);
+    return stored;
+  }
+
+  move(id: string, folderId: string): void {
+    const message = this.messages.get(id)!;
+    this.removals.push({
+      id,
+      folderId: message.folderId,
+      version: ++this.version,
+    });
+    message.folderId = folderId;
+    message.version = this.version;
+  }
+
+  delete(id: string): void {
+    const message = this.messages.get(id)!;
+    this.removals.push({
+      id,
+      folderId: message.folderId,
+      version: ++this.version,
+    });
+    this.messages.delete(id);
+  }
+
+  /**
+   * Invalidate every delta token handed out so far
+   */
+  expireDeltaTokens(): void {
+    this.minDeltaVersion = ++this.version;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url!, this.baseUrl);
+    const path = url.pathname.replace(/^\/v1\.0/, '');
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    const body = await this.readBody(req);
+
+    if (req.method === 'POST' && path.endsWith('/oauth2/v2.0/token')) {
+      return this.send(res, 200, {
+        access_token: `access-${randomUUID()}`,
+        refresh_token: `refresh-${randomUUID()}`,
+        expires_in: 3600,
+      });
+    }
+
+    if (segments[0] !== 'me') {
+      return this.notFound(res);
+    }
+
+    // GET /me
+    if (segments.length === 1) {
+      return this.send(res, 200, {
+        mail: this.account,
+        userPrincipalName: this.account,
+      });
+    }
+
+    if (segments[1] === 'outlook' && segments[2] === 'masterCategories') {
+      return this.send(res, 200, {
+        value: this.categories.map((displayName) => ({
+          id: displayName,
+          displayName,
+        })),
+      });
+    }
+
+    if (segments[1] === 'mailFolders') {
+      return this.handleFolders(segments.slice(2), url, res);
+    }
+
+    if (segments[1] === 'messages') {
+      return this.handleMessages(
+        req.method!,
+        segments.slice(2),
+        url,
+        body,
+        res,
+      );
+    }
+
+    return this.notFound(res);
+  }
+
+  private handleFolders(segments: string[], url: URL, res: ServerResponse) {
+    if (segments.length === 0) {
+      return this.send(res, 200, {
+        value: this.folderChildren(null),
+      });
+    }
+
+    const folder = this.folders.find(
+      (f) => f.id === segments[0] || f.wellKnownName === segments[0],
+    );
+    if (!folder) {
+      return this.notFound(res);
+    }
+
+    if (segments.length === 1) {
+      return this.send(res, 200, this.toGraphFolder(folder));
+    }
+
+    if (segments[1] === 'childFolders') {
+      return this.send(res, 200, { value: this.folderChildren(folder.id) });
+    }
+
+    if (segments[1] === 'messages' && segments[2] === 'delta') {
+      const since = Number(url.searchParams.get('$deltatoken') || 0);
+      if (url.searchParams.has('$deltatoken') && since < this.minDeltaVersion) {
+        return this.send(res, 410, {
+          error: { code: 'SyncStateNotFound', message: 'Delta token expired' },
+        });
+      }
+
+      const changed = [...this.messages.values()]
+        .filter((m) => m.folderId === folder.id && m.version > since)
+        .map((m) => this.toGraphMessage(m));
+      const removed = this.removals
+        .filter((r) => r.folderId === folder.id && r.version > since)
+        .map((r) => ({ id: r.id, '@removed': { reason: 'deleted' } }));
+
+      return this.send(res, 200, {
+        value: [...changed, ...removed],
+        '@odata.deltaLink': `${this.graphBaseUrl}/me/mailFolders/${folder.id}/messages/delta?$deltatoken=${this.version}`,
+      });
+    }
+
+    return this.notFound(res);
+  }
+
+  private handleMessages(
+    method: string,
+    segments: string[],
+    url: URL,
+    body: Record<string, unknown>,
+    res: ServerResponse,
+  ) {
+    if (segments.length === 0 && method === 'GET') {
+      const filter = url.searchParams.get('$filter') || '';
+      const internetMessageId = /internetMessageId eq '(.+)'/.exec(filter)?.[1];
+      const after = /receivedDateTime ge (\S+)/.exec(filter)?.[1];
+      const top = Number(url.searchParams.get('$top') || 10);
+      const skip = Number(url.searchParams.get('$skip') || 0);
+
+      const matching = [...this.messages.values()]
+        .filter(
+          (m) =>
+            (!internetMessageId || m.internetMessageId === internetMessageId) &&
+            (!after || m.receivedDateTime >= after),
+        )
+        .sort((a, b) => b.receivedDateTime.localeCompare(a.receivedDateTime));
+      const page = matching.slice(skip, skip + top);
+
+      const next = new URL(url.toString());
+      next.searchParams.set('$skip', String(skip + top));
+
+      return this.send(res, 200, {
+        '@odata.count': matching.length,
+        value: page.map((m) => this.toGraphMessage(m)),
+        ...(skip + top < matching.length && {
+          '@odata.nextLink': next.toString(),
+        }),
+      });
+    }
+
+    if (segments.length === 0 && method === 'POST') {
+      const draft = this.deliver(
+        {
+          subject: (body.subject as string) || '',
+          body: String((body.body as { content?: string })?.content || ''),
+          from: this.account,
+          to: this.recipientAddresses(body.toRecipients),
+          isRead: true,
+        },
+        'folder-drafts',
+      );
+      return this.send(res, 201, this.toGraphMessage(draft));
+    }
+
+    const message = this.messages.get(segments[0]);
+    if (!message) {
+      return this.notFound(res);
+    }
+
+    const action = segments[1];
+
+    if (!action && method === 'GET') {
+      return this.send(res, 200, this.toGraphMessage(message));
+    }
+
+    if (!action && method === 'PATCH') {
+      if (typeof body.isRead === 'boolean') message.isRead = body.isRead;
+      if (body.flag) {
+        message.flagStatus = (
+          body.flag as { flagStatus: 'flagged' }
+        ).flagStatus;
+      }
+      if (body.importance) {
+        message.importance = body.importance as FakeGraphMessage['importance'];
+      }
+      if (Array.isArray(body.categories)) {
+        message.categories = body.categories as string[];
+      }
+      if (typeof body.subject === 'string') message.subject = body.subject;
+      if (body.toRecipients) {
+        message.to = this.recipientAddresses(body.toRecipients);
+      }
+      message.version = ++this.version;
+      return this.send(res, 200, this.toGraphMessage(message));
+    }
+
+    if (action === 'move' && method === 'POST') {
+      const destination = this.folders.find(
+        (f) =>
+          f.id === body.destinationId || f.wellKnownName === body.destinationId,
+      );
+      if (!destination) {
+        return this.notFound(res);
+      }
+      this.move(message.id, destination.id);
+      return this.send(res, 201, this.toGraphMessage(message));
+    }
+
+    if (action === 'createReply' && method === 'POST') {
+      const draft = this.deliver(
+        {
+          subject: `RE: ${message.subject}`,
+          conversationId: message.conversationId,
+          from: this.account,
+          to: [message.from],
+          isRead: true,
+        },
+        'folder-drafts',
+      );
+      return this.send(res, 201, this.toGraphMessage(draft));
+    }
+
+    if (action === 'attachments' && method === 'POST' && !segments[2]) {
+      const attachment = {
+        id: randomUUID(),
+        name: String(body.name),
+        content: Buffer.from(String(body.contentBytes), 'base64'),
+      };
+      message.attachments.push(attachment);
+      return this.send(res, 201, { id: attachment.id, name: attachment.name });
+    }
+
+    if (action === 'attachments' && segments[3] === '$value') {
+      const attachment = message.attachments.find((a) => a.id === segments[2]);
+      if (!attachment) {
+        return this.notFound(res);
+      }
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      return res.end(attachment.content);
+    }
+
+    if (action === 'send' && method === 'POST') {
+      // Sending gives the message a new ID, like Exchange does for drafts
+      this.delete(message.id);
+      this.deliver({ ...message, isRead: true }, 'folder-sentitems');
+      res.writeHead(202);
+      return res.end();
+    }
+
+    return this.notFound(res);
+  }
+
+  private folderChildren(parentFolderId: string | null) {
+    return this.folders
+      .filter((f) => f.parentFolderId === parentFolderId)
+      .map((f) => this.toGraphFolder(f));
+  }
+
+  private toGraphFolder(folder: FakeGraphFolder) {
+    const messages = [...this.messages.values()].filter(
+      (m) => m.folderId === folder.id,
+    );
+
+    return {
+      id: folder.id,
+      displayName: folder.displayName,
+      parentFolderId: folder.parentFolderId,
+      childFolderCount: this.folders.filter(
+        (f) => f.parentFolderId === folder.id,
+      ).length,
+      totalItemCount: messages.length,
+      unreadItemCount: messages.filter((m) => !m.isRead).length,
+    };
+  }
+
+  private toGraphMessage(message: FakeGraphMessage) {
+    const address = (addr: string) => ({ emailAddress: { address: addr } });
+
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      parentFolderId: message.folderId,
+      internetMessageId: message.internetMessageId,
+      subject: message.subject,
+      bodyPreview: message.body.replace(/<[^>]+>/g, ''),
+      body: { contentType: 'html', content: message.body },
+      from: address(message.from),
+      toRecipients: message.to.map(address),
+      ccRecipients: [],
+      bccRecipients: [],
+      receivedDateTime: message.receivedDateTime,
+      isRead: message.isRead,
+      flag: { flagStatus: message.flagStatus },
+      importance: message.importance,
+      categories: message.categories,
+      attachments: message.attachments.map((a) => ({
+        id: a.id,
+        name: a.name,
+        contentType: 'application/octet-stream',
+        size: a.content.length,
+        isInline: false,
+      })),
+    };
+  }
+
+  private recipientAddresses(recipients: unknown): string[] {
+    return (
+      (recipients as Array<{ emailAddress: { address: string } }>) || []
+    ).map((r) => r.emailAddress.address);
+  }
+
+  private async readBody(
+    req: IncomingMessage,
+  ): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString();
+    if (!raw) return {};
+    try {
+      return JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+
+  private notFound(res: ServerResponse) {
+    return this.send(res, 404, {
+      error: { code: 'ErrorItemNotFound', message: 'Not found' },
+    });
+  }
+
+  private send(res: ServerResponse, status: number, payload: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
@@ -0,0 +1,48 @@
+import { randomUUID } from 'crypto';
+import { PubSubPushDto } from '../dto';
+import { GmailPushNotification } from '../providers/gmail-push.service';
+
+/**
+ * Local stand-in for a Google Cloud Pub/Sub push subscription
+ * Builds envelopes in the same shape Pub/Sub delivers and POSTs them
+ * to the webhook, so push sync can be exercised without Google
+ */
+export class FakePubSubPublisher {
+  constructor(
+    private readonly subscription = 'projects/local/subscriptions/gmail-push',
+  ) {}
+
+  buildEnvelope(notification: GmailPushNotification): PubSubPushDto {
+    const messageId = randomUUID();
+    const publishTime = new Date().toISOString();
+
+    return {
+      message: {
+        data: Buffer.from(JSON.stringify(notification)).toString('base64'),
+        messageId,
+        message_id: messageId,
+        publishTime,
+        publish_time: publishTime,
+      },
+      subscription: this.subscription,
+    };
+  }
+
+  /**
+   * POST a notification to the webhook endpoint
+   * @param endpoint full URL including the ?token= query parameter
+   * @returns HTTP status returned by the webhook
+   */
+  async publish(
+    endpoint: string,
+    notification: GmailPushNotification,
+  ): Promise<number> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildEnvelope(notification)),
+    });
+
+    return response.status;
+  }
+}
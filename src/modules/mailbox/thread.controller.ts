@@ -0,0 +1,192 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { CurrentUser } from '../auth/decorators';
+import { User } from '../user/entities/user.entity';
+import {
+  MarkThreadReadDto,
+  MoveEmailToColumnDto,
+  PaginatedThreadsDto,
+  SummarizeThreadResponseDto,
+  ThreadActionResultDto,
+  ThreadDetailDto,
+  ThreadQueryDto,
+} from './dto';
+import { ThreadService } from './thread.service';
+
+@ApiTags('Threads')
+@ApiBearerAuth()
+@Controller('threads')
+export class ThreadController {
+  constructor(private readonly threadService: ThreadService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List conversations, latest message first',
+    description:
+      'Groups emails by thread and returns participants, message count and unread count per thread.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated list of threads',
+    type: PaginatedThreadsDto,
+  })
+  async findAll(
+    @CurrentUser() user: User,
+    @Query() query: ThreadQueryDto,
+    @Req() request: Request,
+  ): Promise<PaginatedThreadsDto> {
+    const baseUrl = `${request.protocol}://${request.get('host')}${request.path}`;
+    return this.threadService.findAll(user.id, query, baseUrl);
+  }
+
+  @Get(':threadId')
+  @ApiOperation({ summary: 'Fetch a conversation with all its messages' })
+  @ApiParam({ name: 'threadId', description: 'Provider thread ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Thread with messages, oldest first',
+    type: ThreadDetailDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Thread not found',
+  })
+  async findOne(
+    @CurrentUser() user: User,
+    @Param('threadId') threadId: string,
+  ): Promise<ThreadDetailDto> {
+    return this.threadService.findOne(user.id, threadId);
+  }
+
+  @Post(':threadId/read')
+  @ApiOperation({ summary: 'Mark every message of a thread read or unread' })
+  @ApiParam({ name: 'threadId', description: 'Provider thread ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Read state updated on the mail server and locally',
+    type: ThreadActionResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Thread not found',
+  })
+  async markRead(
+    @CurrentUser() user: User,
+    @Param('threadId') threadId: string,
+    @Body() markDto: MarkThreadReadDto,
+  ): Promise<ThreadActionResultDto> {
+    return this.threadService.markRead(
+      user.id,
+      threadId,
+      markDto.isRead ?? true,
+    );
+  }
+
+  @Post(':threadId/archive')
+  @ApiOperation({
+    summary: 'Archive a thread',
+    description: 'Removes the INBOX label from every message of the thread.',
+  })
+  @ApiParam({ name: 'threadId', description: 'Provider thread ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Thread archived',
+    type: ThreadActionResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Thread not found',
+  })
+  async archive(
+    @CurrentUser() user: User,
+    @Param('threadId') threadId: string,
+  ): Promise<ThreadActionResultDto> {
+    return this.threadService.archive(user.id, threadId);
+  }
+
+  @Delete(':threadId')
+  @ApiOperation({ summary: 'Move every message of a thread to trash' })
+  @ApiParam({ name: 'threadId', description: 'Provider thread ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Thread trashed',
+    type: ThreadActionResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Thread not found',
+  })
+  async trash(
+    @CurrentUser() user: User,
+    @Param('threadId') threadId: string,
+  ): Promise<ThreadActionResultDto> {
+    return this.threadService.trash(user.id, threadId);
+  }
+
+  @Post(':threadId/move-to-column')
+  @ApiOperation({
+    summary: 'Move every message of a thread to a Kanban column',
+    description:
+      'Each message leaves its current column (or sourceColumnId when given) ' +
+      'and the column labels are synced to the mail server.',
+  })
+  @ApiParam({ name: 'threadId', description: 'Provider thread ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Thread moved',
+    type: ThreadActionResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Thread or column not found',
+  })
+  async moveToColumn(
+    @CurrentUser() user: User,
+    @Param('threadId') threadId: string,
+    @Body() moveDto: MoveEmailToColumnDto,
+  ): Promise<ThreadActionResultDto> {
+    return this.threadService.moveToColumn(
+      user.id,
+      threadId,
+      moveDto.columnId,
+      moveDto.sourceColumnId,
+      moveDto.archiveFromInbox || false,
+    );
+  }
+
+  @Post(':threadId/summarize')
+  @ApiOperation({ summary: 'Generate an AI summary of the whole conversation' })
+  @ApiParam({ name: 'threadId', description: 'Provider thread ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Thread summary generated',
+    type: SummarizeThreadResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Thread not found',
+  })
+  async summarize(
+    @CurrentUser() user: User,
+    @Param('threadId') threadId: string,
+  ): Promise<SummarizeThreadResponseDto> {
+    return this.threadService.summarize(user.id, threadId);
+  }
+}
@@ -0,0 +1,222 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EmailService } from './email.service';
+import { Email, Mailbox, MailboxProvider } from './entities';
+import { AiService } from './providers/ai.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+import { ThreadService } from './thread.service';
+
+describe('ThreadService', () => {
+  let service: ThreadService;
+
+  const mailbox = {
+    id: 7,
+    userId: 1,
+    provider: MailboxProvider.GMAIL,
+  } as Mailbox;
+
+  const email = (id: number, overrides: Partial<Email> = {}): Email =>
+    ({
+      id,
+      mailboxId: mailbox.id,
+      gmailMessageId: `msg-${id}`,
+      gmailThreadId: 'thread-1',
+      subject: `Subject ${id}`,
+      snippet: `Snippet ${id}`,
+      fromEmail: `sender${id}@example.com`,
+      fromName: null,
+      toEmails: ['me@example.com'],
+      ccEmails: null,
+      bodyText: `Body ${id}`,
+      receivedAt: new Date(`2024-01-0${id}T10:00:00.000Z`),
+      isRead: true,
+      isStarred: false,
+      hasAttachments: false,
+      labels: ['INBOX'],
+      columnId: null,
+      attachments: [],
+      ...overrides,
+    }) as Email;
+
+  const mockEmailRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn().mockResolvedValue(0),
+  };
+  const mockMailboxRepository = { find: jest.fn(), update: jest.fn() };
+  const mockProvider = { modifyMessageLabels: jest.fn() };
+  const mockEmailService = {
+    softDelete: jest.fn(),
+    moveEmailToColumn: jest.fn(),
+    toDetailDto: jest.fn((e: Email) => ({ id: e.id })),
+  };
+  const mockAiService = { summarizeThread: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ThreadService,
+        { provide: getRepositoryToken(Email), useValue: mockEmailRepository },
+        {
+          provide: getRepositoryToken(Mailbox),
+          useValue: mockMailboxRepository,
+        },
+        { provide: EmailService, useValue: mockEmailService },
+        {
+          provide: MailProviderRegistry,
+          useValue: { get: () => mockProvider },
+        },
+        { provide: AiService, useValue: mockAiService },
+      ],
+    }).compile();
+
+    service = module.get<ThreadService>(ThreadService);
+
+    mockMailboxRepository.find.mockResolvedValue([mailbox]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('builds the thread from its messages with participants and counts', async () => {
+    mockEmailRepository.find.mockResolvedValue([
+      email(1, { fromName: 'Alice', ccEmails: ['bob@example.com'] }),
+      email(2, {
+        fromEmail: 'Bob@example.com',
+        fromName: 'Bob',
+        isRead: false,
+        hasAttachments: true,
+        labels: ['INBOX', 'UNREAD'],
+      }),
+    ]);
+
+    const thread = await service.findOne(1, 'thread-1');
+
+    expect(thread).toEqual(
+      expect.objectContaining({
+        threadId: 'thread-1',
+        subject: 'Subject 1',
+        snippet: 'Snippet 2',
+        messageCount: 2,
+        unreadCount: 1,
+        hasAttachments: true,
+        labels: ['INBOX', 'UNREAD'],
+        latestEmailId: 2,
+        participants: [
+          { email: 'sender1@example.com', name: 'Alice' },
+          { email: 'me@example.com', name: null },
+          { email: 'bob@example.com', name: 'Bob' },
+        ],
+      }),
+    );
+    expect(thread.messages.map((m) => m.id)).toEqual([1, 2]);
+  });
+
+  it('throws when the thread has no messages for the user', async () => {
+    mockEmailRepository.find.mockResolvedValue([]);
+
+    await expect(service.findOne(1, 'missing')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('marks only unread messages read, on the server and locally', async () => {
+    mockEmailRepository.find.mockResolvedValue([
+      email(1),
+      email(2, { isRead: false, labels: ['INBOX', 'UNREAD'] }),
+    ]);
+
+    const result = await service.markRead(1, 'thread-1', true);
+
+    expect(result).toEqual({ threadId: 'thread-1', updated: 1 });
+    expect(mockProvider.modifyMessageLabels).toHaveBeenCalledTimes(1);
+    expect(mockProvider.modifyMessageLabels).toHaveBeenCalledWith(
+      mailbox,
+      'msg-2',
+      { addLabelIds: [], removeLabelIds: ['UNREAD'] },
+    );
+    expect(mockEmailRepository.update).toHaveBeenCalledWith(2, {
+      labels: ['INBOX'],
+      isRead: true,
+      isStarred: false,
+    });
+    expect(mockMailboxRepository.update).toHaveBeenCalledWith(mailbox.id, {
+      unreadCount: 0,
+    });
+  });
+
+  it('archives messages that are still in the inbox', async () => {
+    mockEmailRepository.find.mockResolvedValue([
+      email(1, { labels: ['SENT'] }),
+      email(2),
+    ]);
+
+    const result = await service.archive(1, 'thread-1');
+
+    expect(result.updated).toBe(1);
+    expect(mockProvider.modifyMessageLabels).toHaveBeenCalledWith(
+      mailbox,
+      'msg-2',
+      { addLabelIds: [], removeLabelIds: ['INBOX'] },
+    );
+    expect(mockEmailRepository.update).toHaveBeenCalledWith(2, {
+      labels: null,
+      isRead: true,
+      isStarred: false,
+    });
+  });
+
+  it('moves each message out of its own column', async () => {
+    mockEmailRepository.find.mockResolvedValue([
+      email(1, { columnId: 3 }),
+      email(2),
+    ]);
+
+    await service.moveToColumn(1, 'thread-1', 5, undefined, false);
+
+    expect(mockEmailService.moveEmailToColumn).toHaveBeenCalledWith(
+      1,
+      1,
+      5,
+      3,
+      false,
+    );
+    expect(mockEmailService.moveEmailToColumn).toHaveBeenCalledWith(
+      1,
+      2,
+      5,
+      undefined,
+      false,
+    );
+  });
+
+  it('summarizes the whole conversation in order', async () => {
+    mockEmailRepository.find.mockResolvedValue([
+      email(1, { fromName: 'Alice' }),
+      email(2),
+    ]);
+    mockAiService.summarizeThread.mockResolvedValue('Summary');
+
+    const result = await service.summarize(1, 'thread-1');
+
+    expect(result).toEqual({
+      threadId: 'thread-1',
+      summary: 'Summary',
+      messageCount: 2,
+    });
+    expect(mockAiService.summarizeThread).toHaveBeenCalledWith([
+      {
+        from: 'Alice <sender1@example.com>',
+        sentAt: new Date('2024-01-01T10:00:00.000Z'),
+        content: 'Body 1',
+      },
+      {
+        from: 'sender2@example.com',
+        sentAt: new Date('2024-01-02T10:00:00.000Z'),
+        content: 'Body 2',
+      },
+    ]);
+  });
+});
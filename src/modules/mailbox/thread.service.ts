@@ -0,0 +1,415 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import {
+  PaginatedThreadsDto,
+  SummarizeThreadResponseDto,
+  ThreadActionResultDto,
+  ThreadDetailDto,
+  ThreadParticipantDto,
+  ThreadQueryDto,
+  ThreadSummaryDto,
+} from './dto';
+import { EmailService } from './email.service';
+import { Email, Mailbox } from './entities';
+import { AiService } from './providers/ai.service';
+import { MailProviderRegistry } from './providers/mail-provider.registry';
+
+/**
+ * Conversations built from emails sharing a gmailThreadId
+ * Thread actions are applied to every message of the thread
+ */
+@Injectable()
+export class ThreadService {
+  private readonly logger = new Logger(ThreadService.name);
+
+  constructor(
+    @InjectRepository(Email)
+    private readonly emailRepository: Repository<Email>,
+    @InjectRepository(Mailbox)
+    private readonly mailboxRepository: Repository<Mailbox>,
+    private readonly emailService: EmailService,
+    private readonly mailProviders: MailProviderRegistry,
+    private readonly aiService: AiService,
+  ) {}
+
+  /**
+   * Threads ordered by their latest message, newest first
+   */
+  async findAll(
+    userId: number,
+    query: ThreadQueryDto,
+    baseUrl: string,
+  ): Promise<PaginatedThreadsDto> {
+    const { page = 1, limit = 20 } = query;
+
+    let mailboxIds = await this.getUserMailboxIds(userId);
+    if (query.mailboxId) {
+      mailboxIds = mailboxIds.filter((id) => id === query.mailboxId);
+    }
+
+    if (mailboxIds.length === 0) {
+      return this.paginate([], 0, page, limit, baseUrl, query);
+    }
+
+    const qb = this.emailRepository
+      .createQueryBuilder('email')
+      .select('email.gmailThreadId', 'threadId')
+      .where('email.mailboxId IN (:...mailboxIds)', { mailboxIds })
+      .andWhere('email.deletedAt IS NULL')
+      .groupBy('email.gmailThreadId');
+
+    if (query.label) {
+      qb.andHaving(
+        "bool_or(:label = ANY(string_to_array(email.labels, ',')))",
+        { label: query.label },
+      );
+    }
+
+    if (query.hasUnread !== undefined) {
+      qb.andHaving(
+        query.hasUnread
+          ? 'bool_or(NOT email.isRead)'
+          : 'bool_and(email.isRead)',
+      );
+    }
+
+    const countResult = await this.emailRepository.manager
+      .createQueryBuilder()
+      .select('COUNT(*)', 'count')
+      .from(`(${qb.getQuery()})`, 'threads')
+      .setParameters(qb.getParameters())
+      .getRawOne<{ count: string }>();
+    const totalItems = Number(countResult?.count || 0);
+
+    const rows = await qb
+      .orderBy('MAX(email.receivedAt)', 'DESC')
+      .addOrderBy('email.gmailThreadId', 'ASC')
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getRawMany<{ threadId: string }>();
+
+    const threadIds = rows.map((row) => row.threadId);
+    const emails =
+      threadIds.length > 0
+        ? await this.emailRepository.find({
+            where: {
+              mailboxId: In(mailboxIds),
+              gmailThreadId: In(threadIds),
+              deletedAt: IsNull(),
+            },
+            order: { receivedAt: 'ASC' },
+          })
+        : [];
+
+    const threads = threadIds.map((threadId) =>
+      this.toSummaryDto(
+        threadId,
+        emails.filter((email) => email.gmailThreadId === threadId),
+      ),
+    );
+
+    return this.paginate(threads, totalItems, page, limit, baseUrl, query);
+  }
+
+  async findOne(userId: number, threadId: string): Promise<ThreadDetailDto> {
+    const emails = await this.loadThread(userId, threadId, true);
+
+    return {
+      ...this.toSummaryDto(threadId, emails),
+      messages: emails.map((email) => this.emailService.toDetailDto(email)),
+    };
+  }
+
+  /**
+   * Mark every message read or unread, on the server and locally
+   */
+  async markRead(
+    userId: number,
+    threadId: string,
+    isRead: boolean,
+  ): Promise<ThreadActionResultDto> {
+    const emails = await this.loadThread(userId, threadId);
+    const pending = emails.filter((email) => email.isRead !== isRead);
+
+    const updated = await this.modifyLabels(
+      pending,
+      isRead ? [] : ['UNREAD'],
+      isRead ? ['UNREAD'] : [],
+    );
+
+    this.logger.log(
+      `Marked ${updated} messages of thread ${threadId} as ${isRead ? 'read' : 'unread'}`,
+    );
+
+    return { threadId, updated };
+  }
+
+  /**
+   * Remove INBOX from every message that still has it
+   */
+  async archive(
+    userId: number,
+    threadId: string,
+  ): Promise<ThreadActionResultDto> {
+    const emails = await this.loadThread(userId, threadId);
+    const inInbox = emails.filter((email) =>
+      (email.labels || []).includes('INBOX'),
+    );
+
+    const updated = await this.modifyLabels(inInbox, [], ['INBOX']);
+
+    this.logger.log(`Archived ${updated} messages of thread ${threadId}`);
+
+    return { threadId, updated };
+  }
+
+  async trash(
+    userId: number,
+    threadId: string,
+  ): Promise<ThreadActionResultDto> {
+    const emails = await this.loadThread(userId, threadId);
+
+    for (const email of emails) {
+      await this.emailService.softDelete(userId, email.id);
+    }
+
+    this.logger.log(`Trashed ${emails.length} messages of thread ${threadId}`);
+
+    return { threadId, updated: emails.length };
+  }
+
+  /**
+   * Move every message to a Kanban column; each message leaves its own
+   * current column unless a source column is given
+   */
+  async moveToColumn(
+    userId: number,
+    threadId: string,
+    columnId: number,
+    sourceColumnId: number | undefined,
+    archiveFromInbox: boolean,
+  ): Promise<ThreadActionResultDto> {
+    const emails = await this.loadThread(userId, threadId);
+
+    for (const email of emails) {
+      await this.emailService.moveEmailToColumn(
+        userId,
+        email.id,
+        columnId,
+        sourceColumnId ?? email.columnId ?? undefined,
+        archiveFromInbox,
+      );
+    }
+
+    return { threadId, updated: emails.length };
+  }
+
+  /**
+   * Summarize the whole conversation (PRD FR-3.1)
+   */
+  async summarize(
+    userId: number,
+    threadId: string,
+  ): Promise<SummarizeThreadResponseDto> {
+    const emails = await this.loadThread(userId, threadId);
+
+    const messages = emails
+      .map((email) => ({
+        from: email.fromName
+          ? `${email.fromName} <${email.fromEmail}>`
+          : email.fromEmail,
+        sentAt: email.receivedAt,
+        content: email.bodyText || email.snippet || email.subject || '',
+      }))
+      .filter((message) => message.content);
+
+    if (messages.length === 0) {
+      throw new NotFoundException(
+        `Thread ${threadId} has no content to summarize`,
+      );
+    }
+
+    const summary = await this.aiService.summarizeThread(messages);
+
+    this.logger.log(
+      `Generated summary for thread ${threadId} (${messages.length} messages)`,
+    );
+
+    return { threadId, summary, messageCount: emails.length };
+  }
+
+  /**
+   * Messages of a thread owned by the user, oldest first
+   */
+  private async loadThread(
+    userId: number,
+    threadId: string,
+    withAttachments = false,
+  ): Promise<Email[]> {
+    const mailboxIds = await this.getUserMailboxIds(userId);
+
+    const emails =
+      mailboxIds.length > 0
+        ? await this.emailRepository.find({
+            where: {
+              mailboxId: In(mailboxIds),
+              gmailThreadId: threadId,
+              deletedAt: IsNull(),
+            },
+            relations: withAttachments ? ['attachments'] : [],
+            order: { receivedAt: 'ASC' },
+          })
+        : [];
+
+    if (emails.length === 0) {
+      throw new NotFoundException(`Thread ${threadId} not found`);
+    }
+
+    return emails;
+  }
+
+  /**
+   * Apply a label change on the mail server, then mirror it locally
+   * @returns number of messages changed
+   */
+  private async modifyLabels(
+    emails: Email[],
+    addLabelIds: string[],
+    removeLabelIds: string[],
+  ): Promise<number> {
+    if (emails.length === 0) {
+      return 0;
+    }
+
+    const mailboxes = await this.mailboxRepository.find({
+      where: { id: In([...new Set(emails.map((email) => email.mailboxId))]) },
+    });
+
+    for (const email of emails) {
+      const mailbox = mailboxes.find((m) => m.id === email.mailboxId)!;
+
+      await this.mailProviders
+        .get(mailbox)
+        .modifyMessageLabels(mailbox, email.gmailMessageId, {
+          addLabelIds,
+          removeLabelIds,
+        });
+
+      const labels = [
+        ...new Set([
+          ...(email.labels || []).filter((l) => !removeLabelIds.includes(l)),
+          ...addLabelIds,
+        ]),
+      ];
+
+      await this.emailRepository.update(email.id, {
+        labels: labels.length > 0 ? labels : null,
+        isRead: !labels.includes('UNREAD'),
+        isStarred: labels.includes('STARRED'),
+      });
+    }
+
+    for (const mailbox of mailboxes) {
+      const unreadCount = await this.emailRepository.count({
+        where: { mailboxId: mailbox.id, isRead: false, deletedAt: IsNull() },
+      });
+      await this.mailboxRepository.update(mailbox.id, { unreadCount });
+    }
+
+    return emails.length;
+  }
+
+  private async getUserMailboxIds(userId: number): Promise<number[]> {
+    const mailboxes = await this.mailboxRepository.find({
+      where: { userId, deletedAt: IsNull() },
+      select: ['id'],
+    });
+    return mailboxes.map((m) => m.id);
+  }
+
+  /**
+   * @param emails messages of the thread, oldest first
+   */
+  private toSummaryDto(threadId: string, emails: Email[]): ThreadSummaryDto {
+    const first = emails[0];
+    const latest = emails[emails.length - 1];
+
+    const participants = new Map<string, ThreadParticipantDto>();
+    const addParticipant = (email: string, name: string | null) => {
+      const key = email.toLowerCase();
+      const existing = participants.get(key);
+      if (!existing) {
+        participants.set(key, { email, name });
+      } else if (!existing.name && name) {
+        existing.name = name;
+      }
+    };
+
+    for (const email of emails) {
+      addParticipant(email.fromEmail, email.fromName);
+      for (const address of [
+        ...(email.toEmails || []),
+        ...(email.ccEmails || []),
+      ]) {
+        addParticipant(address, null);
+      }
+    }
+
+    return {
+      threadId,
+      mailboxId: latest.mailboxId,
+      subject: first.subject,
+      snippet: latest.snippet,
+      participants: [...participants.values()],
+      messageCount: emails.length,
+      unreadCount: emails.filter((email) => !email.isRead).length,
+      hasAttachments: emails.some((email) => email.hasAttachments),
+      isStarred: emails.some((email) => email.isStarred),
+      labels: [...new Set(emails.flatMap((email) => email.labels || []))],
+      latestEmailId: latest.id,
+      lastMessageAt: latest.receivedAt,
+    };
+  }
+
+  private paginate(
+    data: ThreadSummaryDto[],
+    totalItems: number,
+    page: number,
+    limit: number,
+    baseUrl: string,
+    query: ThreadQueryDto,
+  ): PaginatedThreadsDto {
+    const totalPages = Math.ceil(totalItems / limit);
+
+    const buildUrl = (target: number) => {
+      const params = new URLSearchParams();
+      params.set('page', target.toString());
+      params.set('limit', limit.toString());
+
+      if (query.mailboxId) params.set('mailboxId', query.mailboxId.toString());
+      if (query.label) params.set('label', query.label);
+      if (query.hasUnread !== undefined)
+        params.set('hasUnread', query.hasUnread.toString());
+
+      return `${baseUrl}?${params.toString()}`;
+    };
+
+    return {
+      data,
+      meta: {
+        itemsPerPage: limit,
+        totalItems,
+        currentPage: page,
+        totalPages,
+      },
+      links: {
+        first: buildUrl(1),
+        last: buildUrl(Math.max(1, totalPages)),
+        current: buildUrl(page),
+        next: page < totalPages ? buildUrl(page + 1) : null,
+        previous: page > 1 ? buildUrl(page - 1) : null,
+      },
+    };
+  }
+}
@@ -1,10 +1,12 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  IsBoolean,
   IsEmail,
   IsEnum,
   IsNotEmpty,
   IsOptional,
   IsString,
+  IsTimeZone,
   MaxLength,
   MinLength,
 } from 'class-validator';
@@ -73,4 +75,29 @@ export class CreateUserDto {
   @IsString()
   @IsOptional()
   avatarUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone used for delivery windows',
+    example: 'Europe/Berlin',
+    default: 'UTC',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timeZone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Score urgency and extract action items of new mail',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  aiEnrichmentEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Also summarize new mail; needs aiEnrichmentEnabled',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  aiSummaryEnabled?: boolean;
 }
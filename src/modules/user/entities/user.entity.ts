@@ -85,6 +85,27 @@ export class User {
   @Column({ default: false })
   isEmailVerified: boolean;
 
+  @ApiProperty({
+    description: 'IANA time zone used for delivery windows',
+    example: 'Europe/Berlin',
+  })
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timeZone: string;
+
+  @ApiProperty({
+    description: 'Score urgency and extract action items of new mail',
+    example: true,
+  })
+  @Column({ default: true })
+  aiEnrichmentEnabled: boolean;
+
+  @ApiProperty({
+    description: 'Also summarize new mail; needs aiEnrichmentEnabled',
+    example: false,
+  })
+  @Column({ default: false })
+  aiSummaryEnabled: boolean;
+
   @ApiProperty({
     description: 'User creation timestamp',
     example: '2024-01-01T00:00:00.000Z',
@@ -44,6 +44,9 @@ export class UserController {
       lastName: user.lastName,
       avatarUrl: user.avatarUrl,
       isEmailVerified: user.isEmailVerified,
+      timeZone: user.timeZone,
+      aiEnrichmentEnabled: user.aiEnrichmentEnabled,
+      aiSummaryEnabled: user.aiSummaryEnabled,
     };
   }
 